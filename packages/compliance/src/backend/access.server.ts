@@ -82,6 +82,52 @@ export async function getComplianceReportsSharedWith(
     }));
 }
 
+/**
+ * Check that a user has been granted read access to the compliance dashboard of an ORCID
+ * @returns The reason access is denied, undefined when the user has access
+ */
+export async function getSharedComplianceReportAccessError(
+  receiverId: string,
+  orcid: string,
+): Promise<string | undefined> {
+  const prisma = await getPrismaClient();
+
+  // Find the user who owns this ORCID
+  const orcidOwner = await prisma.user.findFirst({
+    where: {
+      linkedAccounts: {
+        some: {
+          provider: 'orcid',
+          idAtProvider: orcid,
+          pending: false,
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  if (!orcidOwner) return 'No user found for this ORCID';
+
+  // Check if the receiver has been granted access to this user's compliance dashboard
+  const accessGrant = await prisma.access.findFirst({
+    where: {
+      owner_id: orcidOwner.id, // ORCID owner granted the access
+      receiver_id: receiverId,
+      type: 'user',
+      active: true,
+      grants: {
+        path: ['scopes'],
+        array_contains: [hhmi.compliance.read],
+      },
+    },
+  });
+
+  if (!accessGrant) {
+    return 'Access denied: You do not have permission to view this compliance report';
+  }
+  return undefined;
+}
+
 /**
  * Grant compliance report access to another user
  */
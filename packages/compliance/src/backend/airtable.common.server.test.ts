@@ -1,6 +1,6 @@
 // eslint-disable-next-line import/no-extraneous-dependencies
 import { describe, it, expect } from 'vitest';
-import { splitAuthorsField } from './airtable.common.server.js';
+import { isBlank, isTruthy, splitAuthorsField } from './airtable.common.server.js';
 
 describe('splitAuthorsField', () => {
   describe('First Middle Last format', () => {
@@ -119,3 +119,36 @@ describe('splitAuthorsField', () => {
     });
   });
 });
+
+describe('isBlank', () => {
+  it('should treat missing, empty and whitespace values as blank', () => {
+    expect(isBlank(undefined)).toBe(true);
+    expect(isBlank(null)).toBe(true);
+    expect(isBlank('')).toBe(true);
+    expect(isBlank('  ')).toBe(true);
+    expect(isBlank([])).toBe(true);
+  });
+
+  it('should not treat values as blank', () => {
+    expect(isBlank('10.1101/2024.01.01.123456')).toBe(false);
+    expect(isBlank(['recXXXXXXXXXXXXXX'])).toBe(false);
+    expect(isBlank(0)).toBe(false);
+  });
+});
+
+describe('isTruthy', () => {
+  it('should treat checked checkboxes and true formula results as true', () => {
+    expect(isTruthy('checked')).toBe(true);
+    expect(isTruthy('1')).toBe(true);
+    expect(isTruthy('true')).toBe(true);
+    expect(isTruthy(true)).toBe(true);
+  });
+
+  it('should treat blank and false formula results as false', () => {
+    expect(isTruthy(undefined)).toBe(false);
+    expect(isTruthy('')).toBe(false);
+    expect(isTruthy('0')).toBe(false);
+    expect(isTruthy('FALSE')).toBe(false);
+    expect(isTruthy(false)).toBe(false);
+  });
+});
@@ -211,6 +211,29 @@ export function getBoolean(value: string | boolean): boolean | undefined {
   return undefined;
 }
 
+/**
+ * Whether a field is blank, as `{field} = BLANK()` in an Airtable formula.
+ * @param value - Field value as returned by the Airtable API
+ * @returns True if the field has no value
+ */
+export function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return String(value).trim() === '';
+}
+
+/**
+ * Whether a field is truthy, as a bare `{field}` condition in an Airtable formula.
+ * Checkboxes come back as "checked" and formula results as "1"/"0" or "true"/"false" when using cellFormat=string.
+ * @param value - Field value as returned by the Airtable API
+ * @returns True if Airtable would treat the field as true
+ */
+export function isTruthy(value: unknown): boolean {
+  if (isBlank(value)) return false;
+  if (typeof value === 'boolean') return value;
+  return !['0', 'false'].includes(String(value).trim().toLowerCase());
+}
+
 /**
  * Splits an authors field into an array, handling multiple formats and separators.
  * Supports both "Last, First." and "First Last" formats.
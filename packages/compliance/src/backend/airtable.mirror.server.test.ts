@@ -0,0 +1,93 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { AIRTABLE_CONFIG } from './airtableConfig.js';
+import { getMirroredRecordsWhere } from './airtable.mirror.server.js';
+import {
+  isPublicationCoveredByPolicy,
+  isPublicationNotCoveredByPolicy,
+} from './airtable.publications.server.js';
+import {
+  isPreprintCoveredByPolicy,
+  isPreprintNotCoveredByPolicy,
+} from './airtable.preprints.server.js';
+
+const PUBLICATION_FIELDS = AIRTABLE_CONFIG.tables.publications.fields;
+const PREPRINT_FIELDS = AIRTABLE_CONFIG.tables.preprints.fields;
+
+function record(fields: Record<string, any>) {
+  return { id: 'recXXXXXXXXXXXXXX', fields };
+}
+
+describe('getMirroredRecordsWhere', () => {
+  it('should select every mirrored record of a table', () => {
+    expect(getMirroredRecordsWhere('scientists')).toEqual({ type: 'hhmi-compliance-scientists' });
+  });
+
+  it('should match the ORCID in any of the fields', () => {
+    expect(
+      getMirroredRecordsWhere('publications', {
+        orcid: ' 0000-0002-8475-8251 ',
+        fieldIds: ['fldA', 'fldB'],
+      }),
+    ).toEqual({
+      type: 'hhmi-compliance-publications',
+      OR: [
+        { data: { path: ['fields', 'fldA'], string_contains: '0000-0002-8475-8251' } },
+        { data: { path: ['fields', 'fldB'], string_contains: '0000-0002-8475-8251' } },
+      ],
+    });
+  });
+});
+
+describe('Publication policy filters', () => {
+  it('should cover a publication under the 2022 policy with no preprint', () => {
+    const publication = record({ [PUBLICATION_FIELDS.is_covered_by_2022_policy_hhmi.id]: '1' });
+    expect(isPublicationCoveredByPolicy(publication)).toBe(true);
+    expect(isPublicationNotCoveredByPolicy(publication)).toBe(false);
+  });
+
+  it('should not cover a publication with a reason it is not subject to the policy', () => {
+    const publication = record({
+      [PUBLICATION_FIELDS.is_covered_by_2022_policy_hhmi.id]: '1',
+      [PUBLICATION_FIELDS.not_subject_to_policy_reason.id]: 'Published before hire date',
+    });
+    expect(isPublicationCoveredByPolicy(publication)).toBe(false);
+    expect(isPublicationNotCoveredByPolicy(publication)).toBe(true);
+  });
+
+  it('should leave out publications of other lab heads and those with a preprint', () => {
+    const otherLabHead = record({
+      [PUBLICATION_FIELDS.not_subject_to_policy_reason.id]: 'Not HHMI lab head',
+    });
+    expect(isPublicationCoveredByPolicy(otherLabHead)).toBe(false);
+    expect(isPublicationNotCoveredByPolicy(otherLabHead)).toBe(false);
+
+    const withPreprint = record({
+      [PUBLICATION_FIELDS.is_covered_by_2022_policy_hhmi.id]: '1',
+      [PUBLICATION_FIELDS.preprint_doi.id]: '10.1101/2024.01.01.123456',
+    });
+    expect(isPublicationCoveredByPolicy(withPreprint)).toBe(false);
+    expect(isPublicationNotCoveredByPolicy(withPreprint)).toBe(false);
+  });
+});
+
+describe('Preprint policy filters', () => {
+  it('should split preprints on whether they are covered', () => {
+    const covered = record({ [PREPRINT_FIELDS.top_level_covered.id]: 'checked' });
+    expect(isPreprintCoveredByPolicy(covered)).toBe(true);
+    expect(isPreprintNotCoveredByPolicy(covered)).toBe(false);
+
+    const notCovered = record({});
+    expect(isPreprintCoveredByPolicy(notCovered)).toBe(false);
+    expect(isPreprintNotCoveredByPolicy(notCovered)).toBe(true);
+  });
+
+  it('should leave out preprints that are not papers', () => {
+    const abstract = record({
+      [PREPRINT_FIELDS.top_level_covered.id]: 'checked',
+      [PREPRINT_FIELDS.not_subject_to_policy_reason.id]: 'Meeting abstract (not paper)',
+    });
+    expect(isPreprintCoveredByPolicy(abstract)).toBe(false);
+    expect(isPreprintNotCoveredByPolicy(abstract)).toBe(false);
+  });
+});
@@ -0,0 +1,199 @@
+import { getPrismaClient } from '@curvenote/scms-server';
+import type { Prisma } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
+import { AIRTABLE_CONFIG } from './airtableConfig.js';
+import { airtableFetchAllPages } from './airtable.common.server.js';
+import type { AirtableDTO, NormalizedArticleRecord } from './types.js';
+
+/**
+ * Compliance Airtable Mirror
+ *
+ * The Publications, Preprints and Scientists tables are mirrored into the generic Object table by
+ * the compliance Airtable sync job, one object per Airtable record. Dashboards read from the
+ * mirror once a sync has completed, so page loads are not subject to Airtable rate limits.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export type MirroredTable = 'publications' | 'preprints' | 'scientists';
+
+export interface AirtableMirrorStatus extends Record<string, any> {
+  syncedAt: string;
+  counts: Record<MirroredTable, number>;
+}
+
+// ==============================
+// Constants
+// ==============================
+
+export const MIRRORED_TABLES: MirroredTable[] = ['publications', 'preprints', 'scientists'];
+
+export const AIRTABLE_MIRROR_OBJECT_TYPES: Record<MirroredTable, string> = {
+  publications: 'hhmi-compliance-publications',
+  preprints: 'hhmi-compliance-preprints',
+  scientists: 'hhmi-compliance-scientists',
+};
+
+export const AIRTABLE_MIRROR_STATUS_OBJECT_TYPE = 'hhmi-compliance-airtable-sync';
+
+// ==============================
+// Reading
+// ==============================
+
+/**
+ * Get the status of the last completed sync, undefined until the mirror has been filled
+ */
+export async function getAirtableMirrorStatus(): Promise<AirtableMirrorStatus | undefined> {
+  const prisma = await getPrismaClient();
+  const objectRecord = await prisma.object.findFirst({
+    where: { type: AIRTABLE_MIRROR_STATUS_OBJECT_TYPE },
+    orderBy: { date_modified: 'desc' },
+  });
+  if (!objectRecord?.data) return undefined;
+  return objectRecord.data as AirtableMirrorStatus;
+}
+
+/**
+ * Get the time the mirrored data was taken from Airtable, undefined when reading from Airtable
+ */
+export async function getComplianceDataAsOf(): Promise<string | undefined> {
+  const status = await getAirtableMirrorStatus();
+  return status?.syncedAt;
+}
+
+/**
+ * Build the query for mirrored records of a table, optionally only those where one of the given
+ * fields contains the ORCID, the equivalent of the `FIND(orcid, {field}) > 0` filter formulas
+ */
+export function getMirroredRecordsWhere(
+  table: MirroredTable,
+  orcidFilter?: { orcid: string; fieldIds: string[] },
+): Prisma.ObjectWhereInput {
+  const type = AIRTABLE_MIRROR_OBJECT_TYPES[table];
+  if (!orcidFilter) return { type };
+  const orcid = orcidFilter.orcid.trim();
+  return {
+    type,
+    OR: orcidFilter.fieldIds.map((fieldId) => ({
+      data: { path: ['fields', fieldId], string_contains: orcid },
+    })),
+  };
+}
+
+/**
+ * Get mirrored Airtable records in the shape returned by the Airtable REST API
+ */
+export async function findMirroredRecords(
+  table: MirroredTable,
+  orcidFilter?: { orcid: string; fieldIds: string[] },
+  options: { take?: number } = {},
+): Promise<AirtableDTO[]> {
+  const prisma = await getPrismaClient();
+  const objects = await prisma.object.findMany({
+    where: getMirroredRecordsWhere(table, orcidFilter),
+    select: { data: true },
+    take: options.take,
+  });
+  return objects.map((object) => object.data as unknown as AirtableDTO);
+}
+
+/**
+ * Whether a sync has completed, until then the dashboards read from Airtable directly
+ */
+export async function isAirtableMirrorReady(): Promise<boolean> {
+  return !!(await getAirtableMirrorStatus());
+}
+
+/**
+ * The mirror counterpart of `fetchFilterAndNormalizeRecords`, records linked to the ORCID are
+ * read from the mirror and the rest of the filter formula is applied by `filter`
+ */
+export async function filterAndNormalizeMirroredRecords(
+  table: MirroredTable,
+  orcid: string,
+  orcidFieldIds: string[],
+  filter: (record: AirtableDTO) => boolean,
+  normalizeFunction: (record: AirtableDTO, orcid: string) => NormalizedArticleRecord,
+): Promise<NormalizedArticleRecord[]> {
+  try {
+    const records = await findMirroredRecords(table, { orcid, fieldIds: orcidFieldIds });
+    return records.filter(filter).map((record) => normalizeFunction(record, orcid));
+  } catch (error) {
+    console.error('Error reading mirrored records:', error);
+    return [];
+  }
+}
+
+// ==============================
+// Syncing
+// ==============================
+
+/**
+ * Fetch every record of a mirrored table from Airtable, formatted as strings like the dashboard
+ * queries so the normalizers see the same values either way
+ */
+export async function fetchAirtableTable(table: MirroredTable): Promise<AirtableDTO[]> {
+  const url = new URL(
+    `https://api.airtable.com/v0/${AIRTABLE_CONFIG.baseId}/${AIRTABLE_CONFIG.tables[table].id}`,
+  );
+  return airtableFetchAllPages(url, { cellFormat: 'string' });
+}
+
+/**
+ * Replace the mirrored records of a table, in a single transaction so readers never see a
+ * partially written table
+ */
+export async function replaceMirroredTable(
+  table: MirroredTable,
+  records: AirtableDTO[],
+): Promise<void> {
+  const prisma = await getPrismaClient();
+  const type = AIRTABLE_MIRROR_OBJECT_TYPES[table];
+  const now = new Date().toISOString();
+
+  await prisma.$transaction([
+    prisma.object.deleteMany({ where: { type } }),
+    prisma.object.createMany({
+      data: records.map((record) => ({
+        id: randomUUID(),
+        type,
+        date_created: now,
+        date_modified: now,
+        data: { id: record.id, fields: record.fields } as Prisma.InputJsonObject,
+        occ: 0,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Record a completed sync, from then on the dashboards read from the mirror
+ */
+export async function updateAirtableMirrorStatus(status: AirtableMirrorStatus): Promise<void> {
+  const prisma = await getPrismaClient();
+  const now = new Date().toISOString();
+  const existingObject = await prisma.object.findFirst({
+    where: { type: AIRTABLE_MIRROR_STATUS_OBJECT_TYPE },
+  });
+
+  if (!existingObject) {
+    await prisma.object.create({
+      data: {
+        id: randomUUID(),
+        type: AIRTABLE_MIRROR_STATUS_OBJECT_TYPE,
+        date_created: now,
+        date_modified: now,
+        data: status,
+        occ: 0,
+      },
+    });
+    return;
+  }
+
+  await prisma.object.update({
+    where: { id: existingObject.id },
+    data: { data: status, date_modified: now, occ: { increment: 1 } },
+  });
+}
@@ -6,12 +6,32 @@ import {
   extractORCIDs,
   fetchFilterAndNormalizeRecords,
   getBoolean,
+  isTruthy,
   splitAuthorsField,
 } from './airtable.common.server.js';
+import {
+  filterAndNormalizeMirroredRecords,
+  findMirroredRecords,
+  isAirtableMirrorReady,
+} from './airtable.mirror.server.js';
 
 // Field name helpers for cleaner code
 const PREPRINT_FIELDS = AIRTABLE_CONFIG.tables.preprints.fields;
 
+// Fields searched for the scientist's ORCID
+const PREPRINT_ORCID_FIELD_IDS = [
+  PREPRINT_FIELDS.authorships_author_orcid.id,
+  PREPRINT_FIELDS.linked_scientists.id,
+];
+
+// Preprints with one of these reasons are left out of the dashboard entirely
+const EXCLUDED_NOT_SUBJECT_TO_POLICY_REASONS = [
+  'Meeting abstract (not paper)',
+  'Data/code (not paper)',
+  'Review, commentary, etc.',
+  'Not HHMI lab head',
+];
+
 /**
  * Normalizes an Airtable preprint record to a standardized article record format.
  * @param responseData - Raw Airtable DTO record
@@ -99,6 +119,34 @@ export function normalizePreprintRecordToArticleRecord(
   } satisfies NormalizedArticleRecord;
 }
 
+/**
+ * Checks whether a preprint is shown on the dashboard at all, the reason conditions shared by the preprint filter formulas.
+ * @param record - Raw Airtable DTO record
+ * @returns True if the preprint is not excluded by its Not Subject to Policy Reason
+ */
+function isPreprintListed(record: AirtableDTO): boolean {
+  const reason = cleanString(record.fields[PREPRINT_FIELDS.not_subject_to_policy_reason.id]);
+  return !reason || !EXCLUDED_NOT_SUBJECT_TO_POLICY_REASONS.includes(reason);
+}
+
+/**
+ * Checks a preprint against the filter formula of `fetchPreprintsCoveredByPolicy`, without the ORCID match.
+ * @param record - Raw Airtable DTO record
+ * @returns True if the preprint is covered by the policy
+ */
+export function isPreprintCoveredByPolicy(record: AirtableDTO): boolean {
+  return isPreprintListed(record) && isTruthy(record.fields[PREPRINT_FIELDS.top_level_covered.id]);
+}
+
+/**
+ * Checks a preprint against the filter formula of `fetchPreprintsNotCoveredByPolicy`, without the ORCID match.
+ * @param record - Raw Airtable DTO record
+ * @returns True if the preprint is not covered by the policy
+ */
+export function isPreprintNotCoveredByPolicy(record: AirtableDTO): boolean {
+  return isPreprintListed(record) && !isTruthy(record.fields[PREPRINT_FIELDS.top_level_covered.id]);
+}
+
 /**
  * Fetches preprints that are covered by the compliance policy for a given ORCID.
  * @param orcid - ORCID identifier
@@ -107,6 +155,16 @@ export function normalizePreprintRecordToArticleRecord(
 export async function fetchPreprintsCoveredByPolicy(
   orcid: string,
 ): Promise<NormalizedArticleRecord[]> {
+  if (await isAirtableMirrorReady()) {
+    return filterAndNormalizeMirroredRecords(
+      'preprints',
+      orcid,
+      PREPRINT_ORCID_FIELD_IDS,
+      isPreprintCoveredByPolicy,
+      normalizePreprintRecordToArticleRecord,
+    );
+  }
+
   const escapedOrcid = orcid.trim().replace(/'/g, "\\'");
   const filterFormula = `AND(
     OR(
@@ -138,6 +196,16 @@ export async function fetchPreprintsCoveredByPolicy(
 export async function fetchPreprintsNotCoveredByPolicy(
   orcid: string,
 ): Promise<NormalizedArticleRecord[]> {
+  if (await isAirtableMirrorReady()) {
+    return filterAndNormalizeMirroredRecords(
+      'preprints',
+      orcid,
+      PREPRINT_ORCID_FIELD_IDS,
+      isPreprintNotCoveredByPolicy,
+      normalizePreprintRecordToArticleRecord,
+    );
+  }
+
   const escapedOrcid = orcid.trim().replace(/'/g, "\\'");
   const filterFormula = `AND(
     OR(
@@ -160,3 +228,25 @@ export async function fetchPreprintsNotCoveredByPolicy(
   );
   return records;
 }
+
+/**
+ * Fetches the preprints of every scientist that are covered by the compliance policy.
+ * These are only read from the mirror, as reading the whole table from Airtable on each request
+ * is too slow.
+ * @returns Array of normalized article records for covered preprints, undefined until the mirror
+ * has been synced
+ */
+export async function fetchAllPreprintsCoveredByPolicy(): Promise<
+  NormalizedArticleRecord[] | undefined
+> {
+  try {
+    if (!(await isAirtableMirrorReady())) return undefined;
+    const records = await findMirroredRecords('preprints');
+    return records
+      .filter(isPreprintCoveredByPolicy)
+      .map((record) => normalizePreprintRecordToArticleRecord(record, ''));
+  } catch (error) {
+    console.error('Error fetching all covered preprints:', error);
+    return [];
+  }
+}
@@ -6,12 +6,25 @@ import {
   extractORCIDs,
   fetchFilterAndNormalizeRecords,
   getBoolean,
+  isBlank,
+  isTruthy,
   splitAuthorsField,
 } from './airtable.common.server.js';
+import {
+  filterAndNormalizeMirroredRecords,
+  findMirroredRecords,
+  isAirtableMirrorReady,
+} from './airtable.mirror.server.js';
 
 // Field name helpers for cleaner code
 const PUBLICATION_FIELDS = AIRTABLE_CONFIG.tables.publications.fields;
 
+// Fields searched for the scientist's ORCID
+const PUBLICATION_ORCID_FIELD_IDS = [
+  PUBLICATION_FIELDS.authorships_author_orcid.id,
+  PUBLICATION_FIELDS.linked_scientists.id,
+];
+
 /**
  * Normalizes an Airtable publication record to a standardized article record format.
  * @param publicationData - Raw Airtable DTO record
@@ -65,6 +78,38 @@ export function normalizePublicationRecordsToArticleRecord(
   } satisfies NormalizedArticleRecord;
 }
 
+/**
+ * Checks a publication against the filter formula of `fetchPublicationsCoveredByPolicy`, without the ORCID match.
+ * @param record - Raw Airtable DTO record
+ * @returns True if the publication is covered by the policy
+ */
+export function isPublicationCoveredByPolicy(record: AirtableDTO): boolean {
+  const fields = record.fields;
+  return (
+    isBlank(fields[PUBLICATION_FIELDS.preprint_doi.id]) &&
+    isBlank(fields[PUBLICATION_FIELDS.linked_preprint.id]) &&
+    isTruthy(fields[PUBLICATION_FIELDS.is_covered_by_2022_policy_hhmi.id]) &&
+    isBlank(fields[PUBLICATION_FIELDS.not_subject_to_policy_reason.id])
+  );
+}
+
+/**
+ * Checks a publication against the filter formula of `fetchPublicationsNotCoveredByPolicy`, without the ORCID match.
+ * @param record - Raw Airtable DTO record
+ * @returns True if the publication is not covered by the policy
+ */
+export function isPublicationNotCoveredByPolicy(record: AirtableDTO): boolean {
+  const fields = record.fields;
+  const notSubjectToPolicyReason = fields[PUBLICATION_FIELDS.not_subject_to_policy_reason.id];
+  return (
+    cleanString(notSubjectToPolicyReason) !== 'Not HHMI lab head' &&
+    isBlank(fields[PUBLICATION_FIELDS.preprint_doi.id]) &&
+    isBlank(fields[PUBLICATION_FIELDS.linked_preprint.id]) &&
+    (!isTruthy(fields[PUBLICATION_FIELDS.is_covered_by_2022_policy_hhmi.id]) ||
+      !isBlank(notSubjectToPolicyReason))
+  );
+}
+
 /**
  * Fetches publications that are covered by the compliance policy for a given ORCID.
  * @param orcid - ORCID identifier
@@ -74,6 +119,16 @@ export async function fetchPublicationsCoveredByPolicy(
   orcid: string,
 ): Promise<NormalizedArticleRecord[]> {
   try {
+    if (await isAirtableMirrorReady()) {
+      return filterAndNormalizeMirroredRecords(
+        'publications',
+        orcid,
+        PUBLICATION_ORCID_FIELD_IDS,
+        isPublicationCoveredByPolicy,
+        normalizePublicationRecordsToArticleRecord,
+      );
+    }
+
     // Fetch publications by ORCID
     const escapedOrcid = orcid.trim().replace(/'/g, "\\'");
     const filterFormula = `AND(
@@ -109,6 +164,16 @@ export async function fetchPublicationsNotCoveredByPolicy(
   orcid: string,
 ): Promise<NormalizedArticleRecord[]> {
   try {
+    if (await isAirtableMirrorReady()) {
+      return filterAndNormalizeMirroredRecords(
+        'publications',
+        orcid,
+        PUBLICATION_ORCID_FIELD_IDS,
+        isPublicationNotCoveredByPolicy,
+        normalizePublicationRecordsToArticleRecord,
+      );
+    }
+
     const escapedOrcid = orcid.trim().replace(/'/g, "\\'");
     const filterFormula = `AND(
 	    OR(
@@ -136,3 +201,25 @@ export async function fetchPublicationsNotCoveredByPolicy(
     return [];
   }
 }
+
+/**
+ * Fetches the publications of every scientist that are covered by the compliance policy.
+ * These are only read from the mirror, as reading the whole table from Airtable on each request
+ * is too slow.
+ * @returns Array of normalized article records for covered publications, undefined until the mirror
+ * has been synced
+ */
+export async function fetchAllPublicationsCoveredByPolicy(): Promise<
+  NormalizedArticleRecord[] | undefined
+> {
+  try {
+    if (!(await isAirtableMirrorReady())) return undefined;
+    const records = await findMirroredRecords('publications');
+    return records
+      .filter(isPublicationCoveredByPolicy)
+      .map((record) => normalizePublicationRecordsToArticleRecord(record, ''));
+  } catch (error) {
+    console.error('Error fetching all covered publications:', error);
+    return [];
+  }
+}
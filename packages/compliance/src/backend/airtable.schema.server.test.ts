@@ -0,0 +1,126 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { AIRTABLE_CONFIG } from './airtableConfig.js';
+import type { AirtableFieldMappings } from './airtable.common.server.js';
+import {
+  NORMALIZER_FIELDS,
+  compareAirtableSchema,
+  getEffectiveFieldType,
+} from './airtable.schema.server.js';
+
+const SCIENTIST_FIELDS = AIRTABLE_CONFIG.tables.scientists.fields;
+const PUBLICATION_FIELDS = AIRTABLE_CONFIG.tables.publications.fields;
+
+/**
+ * Live metadata matching AIRTABLE_CONFIG, with types the normalizers can read
+ */
+function liveMappings(): AirtableFieldMappings {
+  const mappings: AirtableFieldMappings = {};
+  for (const [table, tableConfig] of Object.entries(AIRTABLE_CONFIG.tables)) {
+    const usedFields = NORMALIZER_FIELDS[table as keyof typeof NORMALIZER_FIELDS] as Record<
+      string,
+      string | undefined
+    >;
+    for (const [key, { id, name }] of Object.entries(tableConfig.fields) as [
+      string,
+      { id: string; name: string },
+    ][]) {
+      const kind = usedFields[key];
+      mappings[id] = {
+        id,
+        name,
+        type: kind === 'number' ? 'number' : kind === 'boolean' ? 'checkbox' : 'singleLineText',
+        tableId: tableConfig.id,
+        tableName: tableConfig.name,
+      };
+    }
+  }
+  return mappings;
+}
+
+describe('compareAirtableSchema', () => {
+  it('should find no drift when the live schema matches the config', () => {
+    expect(compareAirtableSchema(liveMappings())).toEqual([]);
+  });
+
+  it('should report missing fields, with a replacement of the same name', () => {
+    const mappings = liveMappings();
+    const { id, name } = SCIENTIST_FIELDS.orcid_identifier;
+    const field = mappings[id];
+    delete mappings[id];
+    mappings.fldReplacement0001 = { ...field, id: 'fldReplacement0001' };
+
+    expect(compareAirtableSchema(mappings)).toEqual([
+      {
+        kind: 'missing',
+        table: 'scientists',
+        key: 'orcid_identifier',
+        fieldId: id,
+        name,
+        usedByNormalizers: true,
+        replacementFieldId: 'fldReplacement0001',
+      },
+    ]);
+  });
+
+  it('should report renamed fields', () => {
+    const mappings = liveMappings();
+    mappings[PUBLICATION_FIELDS.title.id].name = 'Article Title';
+
+    const [drift] = compareAirtableSchema(mappings);
+    expect(drift).toMatchObject({
+      kind: 'renamed',
+      table: 'publications',
+      key: 'title',
+      liveName: 'Article Title',
+      usedByNormalizers: true,
+    });
+  });
+
+  it('should report fields retyped to something the normalizers cannot read', () => {
+    const mappings = liveMappings();
+    mappings[SCIENTIST_FIELDS.total_preprints.id].type = 'singleLineText';
+    // Any type can be read as text
+    mappings[SCIENTIST_FIELDS.email.id].type = 'multipleRecordLinks';
+
+    expect(compareAirtableSchema(mappings)).toEqual([
+      expect.objectContaining({
+        kind: 'retyped',
+        key: 'total_preprints',
+        liveType: 'singleLineText',
+        expected: 'number',
+      }),
+    ]);
+  });
+
+  it('should list drift in fields used by the normalizers first', () => {
+    const mappings = liveMappings();
+    const unused = Object.entries(PUBLICATION_FIELDS).find(
+      ([key]) => !(key in NORMALIZER_FIELDS.publications),
+    )!;
+    delete mappings[unused[1].id];
+    delete mappings[PUBLICATION_FIELDS.doi.id];
+
+    const drift = compareAirtableSchema(mappings);
+    expect(drift.map(({ key, usedByNormalizers }) => [key, usedByNormalizers])).toEqual([
+      ['doi', true],
+      [unused[0], false],
+    ]);
+  });
+});
+
+describe('getEffectiveFieldType', () => {
+  it('should use the result type of computed fields', () => {
+    const field = {
+      id: 'fldXXXXXXXXXXXXXX',
+      name: 'Total Preprints',
+      type: 'rollup',
+      options: { result: { type: 'number' } },
+      tableId: 'tblXXXXXXXXXXXXXX',
+      tableName: 'Scientists',
+    };
+    expect(getEffectiveFieldType(field)).toBe('number');
+    expect(getEffectiveFieldType({ ...field, options: undefined })).toBe('rollup');
+    expect(getEffectiveFieldType({ ...field, type: 'checkbox' })).toBe('checkbox');
+  });
+});
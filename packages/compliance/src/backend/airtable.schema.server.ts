@@ -0,0 +1,258 @@
+import { AIRTABLE_CONFIG } from './airtableConfig.js';
+import { fetchCurrentFieldMappings } from './airtable.common.server.js';
+import type { AirtableFieldMappings, AirtableFieldWithTable } from './airtable.common.server.js';
+
+/**
+ * Airtable Schema Drift
+ *
+ * `AIRTABLE_CONFIG` is generated from the Airtable schema by `scripts/sync-airtable-schema.mts`,
+ * and the normalizers read fields by the IDs it holds. When a field is deleted or its type is
+ * changed in Airtable the dashboards render blanks rather than failing, so the live schema is
+ * compared against the config and the fields the normalizers use.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export type AirtableTableKey = keyof typeof AIRTABLE_CONFIG.tables;
+
+/**
+ * How a normalizer interprets a field, `text` fields are passed through `cleanString` and read
+ * the same whatever the field type
+ */
+export type AirtableValueKind = 'text' | 'number' | 'boolean';
+
+export type AirtableSchemaDriftKind = 'missing' | 'renamed' | 'retyped';
+
+export interface AirtableSchemaDrift {
+  kind: AirtableSchemaDriftKind;
+  table: AirtableTableKey;
+  key: string;
+  fieldId: string;
+  name: string;
+  usedByNormalizers: boolean;
+  liveName?: string;
+  liveType?: string;
+  expected?: AirtableValueKind;
+  // A live field with the configured name, when the configured ID is missing
+  replacementFieldId?: string;
+}
+
+export interface AirtableSchemaCheck {
+  checkedAt: string;
+  fieldsChecked: number;
+  drift: AirtableSchemaDrift[];
+  error?: string;
+}
+
+type NormalizerFields = {
+  [T in AirtableTableKey]: Partial<
+    Record<keyof (typeof AIRTABLE_CONFIG.tables)[T]['fields'], AirtableValueKind>
+  >;
+};
+
+// ==============================
+// Constants
+// ==============================
+
+/**
+ * Fields read by the normalizers and policy filters of each table, keep in step with
+ * `normalizePublicationRecordsToArticleRecord`, `normalizePreprintRecordToArticleRecord` and
+ * `normalizeScientist`
+ */
+export const NORMALIZER_FIELDS: NormalizerFields = {
+  publications: {
+    action_steps: 'text',
+    author_list_standardized: 'text',
+    authorships_author_orcid: 'text',
+    date_resolved_for_interface: 'text',
+    doi: 'text',
+    ever_non_compliant: 'boolean',
+    is_covered_by_2022_policy_hhmi: 'boolean',
+    issue_type: 'text',
+    linked_preprint: 'text',
+    linked_scientists: 'text',
+    not_subject_to_policy_reason: 'text',
+    pmcid: 'text',
+    pmid: 'text',
+    preprint_doi: 'text',
+    published_date: 'text',
+    published_year: 'text',
+    publisher: 'text',
+    publisher_license_best: 'text',
+    review_reminder: 'text',
+    status: 'text',
+    title: 'text',
+    top_level_compliance: 'boolean',
+    top_level_policy: 'text',
+    url: 'text',
+  },
+  preprints: {
+    action_steps: 'text',
+    author_list_standardized: 'text',
+    authorships_author_orcid: 'text',
+    date: 'text',
+    date_resolved_for_interface: 'text',
+    doi: 'text',
+    ever_non_compliant: 'boolean',
+    issue_type: 'text',
+    license: 'text',
+    linked_publication: 'text',
+    linked_scientists: 'text',
+    not_subject_to_policy_reason: 'text',
+    pmcid: 'text',
+    pmid: 'text',
+    publication_action_steps: 'text',
+    publication_authors: 'text',
+    publication_date: 'text',
+    publication_issue_type: 'text',
+    publication_license: 'text',
+    publication_pmcid: 'text',
+    publication_pmid: 'text',
+    publication_status: 'text',
+    publication_title: 'text',
+    publication_url: 'text',
+    published_doi: 'text',
+    publisher: 'text',
+    review_reminder: 'text',
+    server: 'text',
+    status: 'text',
+    title: 'text',
+    top_level_compliance: 'boolean',
+    top_level_covered: 'boolean',
+    top_level_policy: 'text',
+    top_level_title: 'text',
+    url: 'text',
+    year: 'text',
+  },
+  scientists: {
+    appointment_status: 'text',
+    compliance_rate_covered_preprints: 'number',
+    compliance_rate_covered_publications: 'number',
+    email: 'text',
+    employee_id: 'text',
+    first_name_primary: 'text',
+    full_name_primary: 'text',
+    hire_date_best: 'text',
+    institution: 'text',
+    last_name_primary: 'text',
+    last_review_date: 'text',
+    next_review_within_2_years: 'boolean',
+    non_compliant_preprints: 'number',
+    non_compliant_publications: 'number',
+    orcid_identifier: 'text',
+    originally_compliant_preprints: 'number',
+    originally_compliant_publications: 'number',
+    person_id: 'text',
+    program: 'text',
+    resolved_preprints: 'number',
+    resolved_publications: 'number',
+    total_preprints: 'number',
+    total_preprints_subject_to_policy: 'number',
+    total_publications: 'number',
+    total_publications_subject_to_policy: 'number',
+  },
+};
+
+// Airtable field types whose string cell values the normalizers can interpret as each kind
+const COMPATIBLE_FIELD_TYPES: Record<Exclude<AirtableValueKind, 'text'>, string[]> = {
+  number: ['number', 'percent', 'currency', 'count', 'autoNumber', 'rating', 'duration'],
+  // Formulas come back as "1"/"0" or "true"/"false" and checkboxes as "checked"
+  boolean: ['checkbox', 'number', 'singleLineText', 'singleSelect'],
+};
+
+// Computed field types, the type of their values is the type of the result
+const COMPUTED_FIELD_TYPES = ['formula', 'rollup', 'lookup', 'multipleLookupValues'];
+
+// ==============================
+// Comparison
+// ==============================
+
+/**
+ * The type of the values of a field, the result type for formulas, rollups and lookups
+ */
+export function getEffectiveFieldType(field: AirtableFieldWithTable): string {
+  if (COMPUTED_FIELD_TYPES.includes(field.type) && field.options?.result?.type) {
+    return field.options.result.type;
+  }
+  return field.type;
+}
+
+/**
+ * Whether a normalizer can read a field of the given type as the expected kind
+ */
+export function isCompatibleFieldType(expected: AirtableValueKind, fieldType: string): boolean {
+  if (expected === 'text') return true;
+  return COMPATIBLE_FIELD_TYPES[expected].includes(fieldType);
+}
+
+/**
+ * Compare live Airtable field metadata against `AIRTABLE_CONFIG` and the normalizer fields.
+ * @param mappings - Live field metadata by field ID, from `fetchCurrentFieldMappings`
+ * @returns Drift for every configured field that is missing, renamed or retyped, fields used by
+ * the normalizers first
+ */
+export function compareAirtableSchema(mappings: AirtableFieldMappings): AirtableSchemaDrift[] {
+  const drift: AirtableSchemaDrift[] = [];
+
+  for (const [table, tableConfig] of Object.entries(AIRTABLE_CONFIG.tables) as [
+    AirtableTableKey,
+    (typeof AIRTABLE_CONFIG.tables)[AirtableTableKey],
+  ][]) {
+    const usedFields = NORMALIZER_FIELDS[table] as Record<string, AirtableValueKind | undefined>;
+    const liveFieldsByName = new Map(
+      Object.values(mappings)
+        .filter((field) => field.tableId === tableConfig.id)
+        .map((field) => [field.name, field]),
+    );
+
+    for (const [key, { id, name }] of Object.entries(tableConfig.fields) as [
+      string,
+      { id: string; name: string },
+    ][]) {
+      const expected = usedFields[key];
+      const base = { table, key, fieldId: id, name, usedByNormalizers: !!expected };
+      const live = mappings[id];
+
+      if (!live || live.tableId !== tableConfig.id) {
+        drift.push({
+          ...base,
+          kind: 'missing',
+          replacementFieldId: liveFieldsByName.get(name)?.id,
+        });
+        continue;
+      }
+
+      if (live.name !== name) {
+        drift.push({ ...base, kind: 'renamed', liveName: live.name, liveType: live.type });
+      }
+
+      const liveType = getEffectiveFieldType(live);
+      if (expected && !isCompatibleFieldType(expected, liveType)) {
+        drift.push({ ...base, kind: 'retyped', liveName: live.name, liveType, expected });
+      }
+    }
+  }
+
+  return drift.sort((a, b) => Number(b.usedByNormalizers) - Number(a.usedByNormalizers));
+}
+
+/**
+ * Check the live Airtable schema for drift from `AIRTABLE_CONFIG`.
+ * @returns The drift found, or the error if the Airtable metadata could not be read
+ */
+export async function checkAirtableSchema(): Promise<AirtableSchemaCheck> {
+  const checkedAt = new Date().toISOString();
+  const fieldsChecked = Object.values(AIRTABLE_CONFIG.tables).reduce(
+    (total, table) => total + Object.keys(table.fields).length,
+    0,
+  );
+
+  const { mappings, error } = await fetchCurrentFieldMappings();
+  if (!mappings) {
+    return { checkedAt, fieldsChecked, drift: [], error: error ?? 'No field metadata returned' };
+  }
+
+  return { checkedAt, fieldsChecked, drift: compareAirtableSchema(mappings) };
+}
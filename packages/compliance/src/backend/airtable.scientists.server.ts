@@ -1,6 +1,7 @@
 import { AIRTABLE_CONFIG } from './airtableConfig.js';
 import type { NormalizedScientist } from './types.js';
 import { airtableFetch, airtableFetchAllPages } from './airtable.common.server.js';
+import { findMirroredRecords, isAirtableMirrorReady } from './airtable.mirror.server.js';
 
 // Field name helpers for cleaner code
 const SCIENTIST_FIELDS = AIRTABLE_CONFIG.tables.scientists.fields;
@@ -58,7 +59,7 @@ function normalizeScientist(scientistData: ScientistData): NormalizedScientist {
 }
 
 /**
- * Lightweight check to see if a scientist exists in Airtable by ORCID.
+ * Lightweight check to see if a scientist exists in Airtable by ORCID, or in the mirror once synced.
  * This only checks existence without fetching or normalizing full scientist data.
  * Much faster than fetchScientistByOrcid since it doesn't process all fields.
  */
@@ -66,6 +67,15 @@ export async function checkScientistExistsByOrcid(orcid: string): Promise<boolea
   const scientistTableId = AIRTABLE_CONFIG.tables.scientists.id;
   const scientistOrcidFieldId = SCIENTIST_FIELDS.orcid_identifier.id;
   try {
+    if (await isAirtableMirrorReady()) {
+      const records = await findMirroredRecords(
+        'scientists',
+        { orcid, fieldIds: [scientistOrcidFieldId] },
+        { take: 1 },
+      );
+      return records.length > 0;
+    }
+
     const url = new URL(
       `https://api.airtable.com/v0/${AIRTABLE_CONFIG.baseId}/${scientistTableId}`,
     );
@@ -97,6 +107,15 @@ export async function fetchScientistByOrcid(orcid: string): Promise<{
   const scientistTableId = AIRTABLE_CONFIG.tables.scientists.id;
   const scientistOrcidFieldId = SCIENTIST_FIELDS.orcid_identifier.id;
   try {
+    if (await isAirtableMirrorReady()) {
+      const [rawScientist] = await findMirroredRecords(
+        'scientists',
+        { orcid, fieldIds: [scientistOrcidFieldId] },
+        { take: 1 },
+      );
+      return { scientist: rawScientist ? normalizeScientist(rawScientist) : undefined };
+    }
+
     const url = new URL(
       `https://api.airtable.com/v0/${AIRTABLE_CONFIG.baseId}/${scientistTableId}`,
     );
@@ -123,6 +142,11 @@ export async function fetchScientistByOrcid(orcid: string): Promise<{
  * @returns Array of all normalized scientist records
  */
 export async function fetchAllScientists(): Promise<NormalizedScientist[]> {
+  if (await isAirtableMirrorReady()) {
+    const records = await findMirroredRecords('scientists');
+    return records.map(normalizeScientist);
+  }
+
   const scientistsUrl = new URL(
     `https://api.airtable.com/v0/${AIRTABLE_CONFIG.baseId}/${AIRTABLE_CONFIG.tables.scientists.id}`,
   );
@@ -0,0 +1,107 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { readComplianceDataFile } from './dataSource.json.server.js';
+import {
+  computeComplianceAnalytics,
+  drillDownScientists,
+  getScientistDrillDown,
+  getScientistDrillDownUrl,
+} from './complianceAnalytics.js';
+import type { NormalizedScientist } from './types.js';
+
+const FIXTURE_PATH = fileURLToPath(new URL('./fixtures/compliance-data.json', import.meta.url));
+
+async function fixtureData() {
+  const data = await readComplianceDataFile(FIXTURE_PATH);
+  const inactive: NormalizedScientist = {
+    ...data.scientists[0],
+    id: 'recScientist0002',
+    orcid: '0000-0001-5109-3700',
+    appointmentStatus: 'Inactive',
+    program: 'Janelia',
+  };
+  return {
+    scientists: [...data.scientists, inactive],
+    articles: data.coveredByPolicy,
+  };
+}
+
+describe('computeComplianceAnalytics', () => {
+  it('should group active scientists by program and institution', async () => {
+    const { scientists, articles } = await fixtureData();
+    const analytics = computeComplianceAnalytics(scientists, articles, new Date('2024-06-30'));
+
+    expect(analytics.byProgram).toEqual([
+      {
+        key: 'Investigator',
+        scientists: 1,
+        scientistsWithIssues: 1,
+        total: 3,
+        nonCompliant: 1,
+        rate: 2 / 3,
+      },
+    ]);
+    expect(analytics.byInstitution.map(({ key }) => key)).toEqual(['Brown University']);
+  });
+
+  it('should group articles since the policy by year and issue type', async () => {
+    const { scientists, articles } = await fixtureData();
+    const analytics = computeComplianceAnalytics(scientists, articles, new Date('2024-06-30'));
+
+    expect(analytics.articles).toEqual({ total: 3, nonCompliant: 1, rate: 2 / 3 });
+    expect(
+      analytics.byYear.map(({ key, total, nonCompliant }) => [key, total, nonCompliant]),
+    ).toEqual([
+      ['2024', 1, 0],
+      ['2023', 1, 0],
+      ['2022', 1, 1],
+    ]);
+    expect(analytics.byIssueType).toEqual([{ key: 'License', total: 1, open: 1, resolved: 0 }]);
+  });
+
+  it('should count resolved articles as non-compliant until they were resolved', async () => {
+    const { scientists, articles } = await fixtureData();
+    const resolved = articles.map((article) =>
+      article.id === 'recPublication02'
+        ? { ...article, compliant: true, dateResolved: '2023-02-01' }
+        : article,
+    );
+    const { overTime } = computeComplianceAnalytics(scientists, resolved, new Date('2023-06-30'));
+
+    expect(overTime.map(({ key, total, nonCompliant }) => [key, total, nonCompliant])).toEqual([
+      ['2022 Q4', 1, 1],
+      ['2023 Q1', 1, 0],
+      ['2023 Q2', 2, 0],
+    ]);
+  });
+});
+
+describe('drillDownScientists', () => {
+  it('should read drill-down filters from the scientist list URL', () => {
+    const url = getScientistDrillDownUrl({ program: 'Investigator', year: '2022' });
+    expect(url).toBe('/app/compliance/scientists?program=Investigator&year=2022');
+    expect(getScientistDrillDown(new URL(url, 'http://localhost').searchParams)).toEqual({
+      program: 'Investigator',
+      year: '2022',
+    });
+    expect(getScientistDrillDown(new URLSearchParams('filters=abc'))).toBeUndefined();
+  });
+
+  it('should filter scientists by group and by linked articles', async () => {
+    const { scientists, articles } = await fixtureData();
+    const orcids = (drillDown: Parameters<typeof drillDownScientists>[2]) =>
+      drillDownScientists(scientists, articles, drillDown).map(({ orcid }) => orcid);
+
+    expect(orcids({ program: 'Investigator' })).toEqual(['0000-0002-1825-0097']);
+    expect(orcids({ institution: 'Brown University', issueType: 'License' })).toEqual([
+      '0000-0002-1825-0097',
+    ]);
+    expect(orcids({ year: '2022' })).toEqual(['0000-0002-1825-0097']);
+  });
+
+  it('should leave out inactive scientists, as the groups do', async () => {
+    const { scientists, articles } = await fixtureData();
+    expect(drillDownScientists(scientists, articles, { program: 'Janelia' })).toEqual([]);
+  });
+});
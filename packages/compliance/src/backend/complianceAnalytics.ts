@@ -0,0 +1,267 @@
+import type { NormalizedArticleRecord, NormalizedScientist } from './types.js';
+import { filterArticlesByDate } from '../utils/dateFiltering.js';
+
+/**
+ * Compliance Analytics
+ *
+ * Institution-wide compliance rates, computed from the normalized scientists and the articles
+ * covered by the policy. Scientist groupings use the per-scientist counts from the Scientists
+ * table, article groupings use the articles themselves.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface ComplianceRate {
+  // Articles subject to the policy
+  total: number;
+  nonCompliant: number;
+  // Share of articles that are compliant, undefined when there are none
+  rate?: number;
+}
+
+export interface ScientistGroup extends ComplianceRate {
+  key: string;
+  scientists: number;
+  scientistsWithIssues: number;
+}
+
+export interface ArticleGroup extends ComplianceRate {
+  key: string;
+}
+
+export interface IssueTypeGroup {
+  key: string;
+  total: number;
+  open: number;
+  resolved: number;
+}
+
+export interface ComplianceAnalytics {
+  scientists: ScientistGroup;
+  articles: ComplianceRate;
+  overTime: ArticleGroup[];
+  byProgram: ScientistGroup[];
+  byInstitution: ScientistGroup[];
+  byIssueType: IssueTypeGroup[];
+  byYear: ArticleGroup[];
+}
+
+export const SCIENTIST_DRILL_DOWN_KEYS = ['program', 'institution', 'issueType', 'year'] as const;
+
+export type ScientistDrillDownKey = (typeof SCIENTIST_DRILL_DOWN_KEYS)[number];
+
+export type ScientistDrillDown = Partial<Record<ScientistDrillDownKey, string>>;
+
+// ==============================
+// Helpers
+// ==============================
+
+const UNKNOWN = 'Unknown';
+
+function complianceRate(total: number, nonCompliant: number): ComplianceRate {
+  return { total, nonCompliant, rate: total > 0 ? (total - nonCompliant) / total : undefined };
+}
+
+/**
+ * Active means any appointment status that does not contain "inactive", as in the scientist list
+ */
+export function isActiveScientist(scientist: NormalizedScientist): boolean {
+  return !(scientist.appointmentStatus?.toLowerCase() || '').includes('inactive');
+}
+
+/**
+ * The compliance issue type shown for an article, the preprint issue before the journal issue
+ */
+export function getArticleIssueType(article: NormalizedArticleRecord): string | undefined {
+  return article.preprint?.complianceIssueType || article.journal?.complianceIssueType;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string | undefined): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item)?.trim() || UNKNOWN;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+function summarizeScientists(key: string, scientists: NormalizedScientist[]): ScientistGroup {
+  let total = 0;
+  let nonCompliant = 0;
+  let scientistsWithIssues = 0;
+  for (const { preprints, publications } of scientists) {
+    total += preprints.totalSubjectToPolicy + publications.totalSubjectToPolicy;
+    nonCompliant += preprints.nonCompliant + publications.nonCompliant;
+    if (preprints.nonCompliant + publications.nonCompliant > 0) scientistsWithIssues += 1;
+  }
+  return {
+    key,
+    scientists: scientists.length,
+    scientistsWithIssues,
+    ...complianceRate(total, nonCompliant),
+  };
+}
+
+function summarizeArticles(key: string, articles: NormalizedArticleRecord[]): ArticleGroup {
+  return {
+    key,
+    ...complianceRate(articles.length, articles.filter((article) => !article.compliant).length),
+  };
+}
+
+/**
+ * Whether an article was non-compliant at a point in time, articles that were resolved count as
+ * non-compliant until they were resolved
+ */
+function wasNonCompliantAt(article: NormalizedArticleRecord, date: Date): boolean {
+  if (!article.compliant) return true;
+  const resolved = parseDate(article.dateResolved);
+  return !!article.everNonCompliant && !!resolved && resolved > date;
+}
+
+/**
+ * The compliance rate at the end of every quarter, of the articles published by then
+ */
+function computeOverTime(articles: NormalizedArticleRecord[], now: Date): ArticleGroup[] {
+  const dated = articles
+    .map((article) => ({ article, date: parseDate(article.date) }))
+    .filter((item): item is { article: NormalizedArticleRecord; date: Date } => !!item.date);
+  if (dated.length === 0) return [];
+
+  const first = dated.reduce((min, { date }) => (date < min ? date : min), dated[0].date);
+  const quarters: ArticleGroup[] = [];
+  let year = first.getUTCFullYear();
+  let quarter = Math.floor(first.getUTCMonth() / 3);
+
+  while (Date.UTC(year, quarter * 3) <= now.getTime()) {
+    const end = new Date(Date.UTC(year, quarter * 3 + 3) - 1);
+    const published = dated.filter(({ date }) => date <= end);
+    const nonCompliant = published.filter(({ article }) => wasNonCompliantAt(article, end));
+    quarters.push({
+      key: `${year} Q${quarter + 1}`,
+      ...complianceRate(published.length, nonCompliant.length),
+    });
+    quarter = (quarter + 1) % 4;
+    if (quarter === 0) year += 1;
+  }
+  return quarters;
+}
+
+// ==============================
+// Analytics
+// ==============================
+
+/**
+ * Compute compliance analytics for the active scientists and the covered articles published
+ * since the policy took effect
+ * @param scientists - Every scientist in the compliance data
+ * @param articles - Every article covered by the policy
+ * @param now - The end of the time series
+ */
+export function computeComplianceAnalytics(
+  scientists: NormalizedScientist[],
+  articles: NormalizedArticleRecord[],
+  now: Date = new Date(),
+): ComplianceAnalytics {
+  const activeScientists = scientists.filter(isActiveScientist);
+  const policyArticles = filterArticlesByDate(articles, undefined);
+
+  const bySize = <T extends { key: string; total: number }>(a: T, b: T) =>
+    b.total - a.total || a.key.localeCompare(b.key);
+
+  const byIssueType = [
+    ...groupBy(
+      policyArticles.filter((article) => !!getArticleIssueType(article)),
+      getArticleIssueType,
+    ),
+  ].map(([key, group]) => {
+    const open = group.filter((article) => !article.compliant).length;
+    return { key, total: group.length, open, resolved: group.length - open };
+  });
+
+  return {
+    scientists: summarizeScientists('All', activeScientists),
+    articles: complianceRate(
+      policyArticles.length,
+      policyArticles.filter((article) => !article.compliant).length,
+    ),
+    overTime: computeOverTime(policyArticles, now),
+    byProgram: [...groupBy(activeScientists, (scientist) => scientist.program)]
+      .map(([key, group]) => summarizeScientists(key, group))
+      .sort(bySize),
+    byInstitution: [...groupBy(activeScientists, (scientist) => scientist.institution)]
+      .map(([key, group]) => summarizeScientists(key, group))
+      .sort(bySize),
+    byIssueType: byIssueType.sort(bySize),
+    byYear: [...groupBy(policyArticles, (article) => article.year)]
+      .map(([key, group]) => summarizeArticles(key, group))
+      .sort((a, b) => b.key.localeCompare(a.key)),
+  };
+}
+
+// ==============================
+// Drill-down
+// ==============================
+
+/**
+ * Read the drill-down filters of the scientist list from its search params
+ * @returns The filters, undefined when there are none
+ */
+export function getScientistDrillDown(
+  searchParams: URLSearchParams,
+): ScientistDrillDown | undefined {
+  const drillDown: ScientistDrillDown = {};
+  for (const key of SCIENTIST_DRILL_DOWN_KEYS) {
+    const value = searchParams.get(key);
+    if (value) drillDown[key] = value;
+  }
+  return Object.keys(drillDown).length > 0 ? drillDown : undefined;
+}
+
+/**
+ * The URL of the scientist list filtered to an analytics group
+ */
+export function getScientistDrillDownUrl(drillDown: ScientistDrillDown): string {
+  const params = new URLSearchParams(drillDown as Record<string, string>);
+  return `/app/compliance/scientists?${params.toString()}`;
+}
+
+/**
+ * Filter scientists to an analytics group, issue type and year select the scientists linked to a
+ * matching covered article. Only active scientists are counted in the groups, so only they are kept.
+ */
+export function drillDownScientists(
+  scientists: NormalizedScientist[],
+  articles: NormalizedArticleRecord[],
+  drillDown: ScientistDrillDown,
+): NormalizedScientist[] {
+  const { program, institution, issueType, year } = drillDown;
+  const matches = (value: string | undefined, expected: string) =>
+    (value?.trim() || UNKNOWN) === expected;
+
+  let linkedOrcids: Set<string> | undefined;
+  if (issueType || year) {
+    linkedOrcids = new Set(
+      filterArticlesByDate(articles, undefined)
+        .filter((article) => !issueType || matches(getArticleIssueType(article), issueType))
+        .filter((article) => !year || matches(article.year, year))
+        .flatMap((article) => article.linkedScientistsOrcids ?? []),
+    );
+  }
+
+  return scientists.filter(
+    (scientist) =>
+      isActiveScientist(scientist) &&
+      (!program || matches(scientist.program, program)) &&
+      (!institution || matches(scientist.institution, institution)) &&
+      (!linkedOrcids || (!!scientist.orcid && linkedOrcids.has(scientist.orcid.trim()))),
+  );
+}
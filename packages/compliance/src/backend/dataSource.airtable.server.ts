@@ -0,0 +1,35 @@
+import type { ComplianceDataSource } from './types.js';
+import {
+  checkScientistExistsByOrcid,
+  fetchAllScientists,
+  fetchScientistByOrcid,
+} from './airtable.scientists.server.js';
+import {
+  fetchAllPublicationsCoveredByPolicy,
+  fetchPublicationsCoveredByPolicy,
+  fetchPublicationsNotCoveredByPolicy,
+} from './airtable.publications.server.js';
+import {
+  fetchAllPreprintsCoveredByPolicy,
+  fetchPreprintsCoveredByPolicy,
+  fetchPreprintsNotCoveredByPolicy,
+} from './airtable.preprints.server.js';
+import { getComplianceDataAsOf } from './airtable.mirror.server.js';
+
+/**
+ * Compliance data from the HHMI Airtable base, read from the database mirror once the compliance
+ * Airtable sync has run and from the Airtable REST API until then
+ */
+export const airtableDataSource: ComplianceDataSource = {
+  name: 'airtable',
+  checkScientistExistsByOrcid,
+  fetchScientistByOrcid,
+  fetchAllScientists,
+  fetchPublicationsCoveredByPolicy,
+  fetchPublicationsNotCoveredByPolicy,
+  fetchPreprintsCoveredByPolicy,
+  fetchPreprintsNotCoveredByPolicy,
+  fetchAllPublicationsCoveredByPolicy,
+  fetchAllPreprintsCoveredByPolicy,
+  getDataAsOf: getComplianceDataAsOf,
+};
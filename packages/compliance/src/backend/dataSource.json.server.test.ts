@@ -0,0 +1,64 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createJsonDataSource, readComplianceDataFile } from './dataSource.json.server.js';
+
+const FIXTURE_PATH = fileURLToPath(new URL('./fixtures/compliance-data.json', import.meta.url));
+const ORCID = '0000-0002-1825-0097';
+
+describe('createJsonDataSource', async () => {
+  const dataSource = createJsonDataSource(await readComplianceDataFile(FIXTURE_PATH));
+
+  it('should find scientists by ORCID', async () => {
+    expect(await dataSource.checkScientistExistsByOrcid(ORCID)).toBe(true);
+    expect(await dataSource.checkScientistExistsByOrcid('0000-0000-0000-0000')).toBe(false);
+    const { scientist } = await dataSource.fetchScientistByOrcid(` ${ORCID} `);
+    expect(scientist?.fullName).toBe('Josiah Carberry');
+    expect(await dataSource.fetchAllScientists()).toHaveLength(1);
+  });
+
+  it('should split articles into preprints and publications', async () => {
+    const preprints = await dataSource.fetchPreprintsCoveredByPolicy(ORCID);
+    expect(preprints.map(({ id }) => id)).toEqual(['recPreprint00001']);
+    const publications = await dataSource.fetchPublicationsCoveredByPolicy(ORCID);
+    expect(publications.map(({ id }) => id)).toEqual(['recPublication01', 'recPublication02']);
+    expect(await dataSource.fetchPreprintsNotCoveredByPolicy(ORCID)).toEqual([]);
+    const notCovered = await dataSource.fetchPublicationsNotCoveredByPolicy(ORCID);
+    expect(notCovered.map(({ id }) => id)).toEqual(['recPublication03']);
+  });
+
+  it('should mark articles as linked to the requested ORCID', async () => {
+    const publications = await dataSource.fetchPublicationsCoveredByPolicy(ORCID);
+    expect(publications.every((article) => article.isLinkedToPrimaryOrcid)).toBe(true);
+    expect(await dataSource.fetchPublicationsCoveredByPolicy('0000-0000-0000-0000')).toEqual([]);
+  });
+
+  it('should list the covered articles of every scientist', async () => {
+    const preprints = await dataSource.fetchAllPreprintsCoveredByPolicy();
+    expect(preprints?.map(({ id }) => id)).toEqual(['recPreprint00001']);
+    const publications = await dataSource.fetchAllPublicationsCoveredByPolicy();
+    expect(publications?.map(({ id }) => id)).toEqual(['recPublication01', 'recPublication02']);
+  });
+
+  it('should report when the data was taken', async () => {
+    expect(await dataSource.getDataAsOf()).toBe('2025-01-15T09:00:00.000Z');
+  });
+});
+
+describe('readComplianceDataFile', () => {
+  it('should default missing lists to empty', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'compliance-data-'));
+    const path = join(dir, 'empty.json');
+    await writeFile(path, '{}');
+    expect(await readComplianceDataFile(path)).toEqual({
+      dataAsOf: undefined,
+      scientists: [],
+      coveredByPolicy: [],
+      notCoveredByPolicy: [],
+    });
+    await rm(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,104 @@
+import { readFile } from 'node:fs/promises';
+import type {
+  ComplianceDataFile,
+  ComplianceDataSource,
+  NormalizedArticleRecord,
+  NormalizedScientist,
+} from './types.js';
+
+// Parsed files by path, a data file is read once per process
+const dataFileCache = new Map<string, Promise<ComplianceDataFile>>();
+
+function matchesOrcid(value: string | undefined, orcid: string): boolean {
+  return !!value && value.includes(orcid.trim());
+}
+
+/**
+ * Select the articles linked to a scientist, marking them as linked to the requested ORCID like
+ * the Airtable normalizers do
+ */
+function selectArticles(
+  articles: NormalizedArticleRecord[],
+  orcid: string,
+  kind: 'preprint' | 'publication',
+): NormalizedArticleRecord[] {
+  return articles
+    .filter((article) => (kind === 'preprint' ? !!article.preprint : !article.preprint))
+    .filter((article) =>
+      (article.linkedScientistsOrcids ?? []).some((linked) => matchesOrcid(linked, orcid)),
+    )
+    .map((article) => ({ ...article, isLinkedToPrimaryOrcid: true }));
+}
+
+/**
+ * Compliance data held in memory, in the shape of a JSON compliance data file
+ */
+export function createJsonDataSource(data: ComplianceDataFile): ComplianceDataSource {
+  const findScientist = (orcid: string): NormalizedScientist | undefined =>
+    data.scientists.find((scientist) => matchesOrcid(scientist.orcid, orcid));
+
+  return {
+    name: 'json',
+    async checkScientistExistsByOrcid(orcid) {
+      return !!findScientist(orcid);
+    },
+    async fetchScientistByOrcid(orcid) {
+      return { scientist: findScientist(orcid) };
+    },
+    async fetchAllScientists() {
+      return data.scientists;
+    },
+    async fetchPublicationsCoveredByPolicy(orcid) {
+      return selectArticles(data.coveredByPolicy, orcid, 'publication');
+    },
+    async fetchPublicationsNotCoveredByPolicy(orcid) {
+      return selectArticles(data.notCoveredByPolicy, orcid, 'publication');
+    },
+    async fetchPreprintsCoveredByPolicy(orcid) {
+      return selectArticles(data.coveredByPolicy, orcid, 'preprint');
+    },
+    async fetchPreprintsNotCoveredByPolicy(orcid) {
+      return selectArticles(data.notCoveredByPolicy, orcid, 'preprint');
+    },
+    async fetchAllPublicationsCoveredByPolicy() {
+      return data.coveredByPolicy.filter((article) => !article.preprint);
+    },
+    async fetchAllPreprintsCoveredByPolicy() {
+      return data.coveredByPolicy.filter((article) => !!article.preprint);
+    },
+    async getDataAsOf() {
+      return data.dataAsOf;
+    },
+  };
+}
+
+/**
+ * Read a JSON compliance data file.
+ * @param path - Path to the file, relative to the working directory of the server
+ * @returns The parsed file, with missing lists defaulting to empty
+ * @throws Error if the file cannot be read or is not valid JSON
+ */
+export async function readComplianceDataFile(path: string): Promise<ComplianceDataFile> {
+  const contents = JSON.parse(await readFile(path, 'utf8')) as Partial<ComplianceDataFile>;
+  return {
+    dataAsOf: contents.dataAsOf,
+    scientists: contents.scientists ?? [],
+    coveredByPolicy: contents.coveredByPolicy ?? [],
+    notCoveredByPolicy: contents.notCoveredByPolicy ?? [],
+  };
+}
+
+/**
+ * Load a JSON compliance data file, read once per process.
+ * @param path - Path to the file, relative to the working directory of the server
+ * @returns The parsed file
+ */
+export async function loadComplianceDataFile(path: string): Promise<ComplianceDataFile> {
+  if (!dataFileCache.has(path)) {
+    const pending = readComplianceDataFile(path);
+    // Do not keep a failed read, the file may be fixed without restarting
+    pending.catch(() => dataFileCache.delete(path));
+    dataFileCache.set(path, pending);
+  }
+  return dataFileCache.get(path)!;
+}
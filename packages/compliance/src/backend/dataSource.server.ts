@@ -0,0 +1,93 @@
+import { getConfig } from '@curvenote/scms-server';
+import type { ComplianceDataSource, NormalizedArticleRecord } from './types.js';
+import { airtableDataSource } from './dataSource.airtable.server.js';
+import { createJsonDataSource, loadComplianceDataFile } from './dataSource.json.server.js';
+
+// ==============================
+// Configuration Access
+// ==============================
+
+interface ComplianceDataSourceConfig {
+  type?: 'airtable' | 'json';
+  path?: string;
+}
+
+/**
+ * Gets the configured compliance data source, Airtable unless the app-config says otherwise.
+ * @returns The data source the compliance pages read from
+ * @throws Error if the JSON data source is configured without a path
+ */
+export async function getComplianceDataSource(): Promise<ComplianceDataSource> {
+  const config = await getConfig();
+  const dataSourceConfig: ComplianceDataSourceConfig =
+    config.app.extensions?.['hhmi-compliance']?.dataSource ?? {};
+
+  if (dataSourceConfig.type === 'json') {
+    if (!dataSourceConfig.path) {
+      throw new Error(
+        'HHMI Compliance JSON data source path is missing. Please update the app-config.',
+      );
+    }
+    return createJsonDataSource(await loadComplianceDataFile(dataSourceConfig.path));
+  }
+
+  return airtableDataSource;
+}
+
+// ==============================
+// Combined Queries
+// ==============================
+
+function byYearDescending(a: NormalizedArticleRecord, b: NormalizedArticleRecord) {
+  return Number(b.year ?? 0) - Number(a.year ?? 0);
+}
+
+/**
+ * Fetches all articles (preprints and publications) covered by the compliance policy for a given ORCID.
+ * Results are sorted by year in descending order.
+ * @param dataSource - Compliance data source to read from
+ * @param orcid - ORCID identifier
+ * @returns Array of normalized article records sorted by year
+ */
+export async function fetchEverythingCoveredByPolicy(
+  dataSource: ComplianceDataSource,
+  orcid: string,
+) {
+  return Promise.all([
+    dataSource.fetchPreprintsCoveredByPolicy(orcid),
+    dataSource.fetchPublicationsCoveredByPolicy(orcid),
+  ]).then((AoA) => AoA.flat().sort(byYearDescending));
+}
+
+/**
+ * Fetches the articles (preprints and publications) of every scientist covered by the compliance policy.
+ * @param dataSource - Compliance data source to read from
+ * @returns Array of normalized article records sorted by year, undefined until the data source has them
+ */
+export async function fetchAllArticlesCoveredByPolicy(
+  dataSource: ComplianceDataSource,
+): Promise<NormalizedArticleRecord[] | undefined> {
+  const [preprints, publications] = await Promise.all([
+    dataSource.fetchAllPreprintsCoveredByPolicy(),
+    dataSource.fetchAllPublicationsCoveredByPolicy(),
+  ]);
+  if (!preprints || !publications) return undefined;
+  return [...preprints, ...publications].sort(byYearDescending);
+}
+
+/**
+ * Fetches all articles (preprints and publications) not covered by the compliance policy for a given ORCID.
+ * Results are sorted by year in descending order.
+ * @param dataSource - Compliance data source to read from
+ * @param orcid - ORCID identifier
+ * @returns Array of normalized article records sorted by year
+ */
+export async function fetchEverythingNotCoveredByPolicy(
+  dataSource: ComplianceDataSource,
+  orcid: string,
+) {
+  return Promise.all([
+    dataSource.fetchPreprintsNotCoveredByPolicy(orcid),
+    dataSource.fetchPublicationsNotCoveredByPolicy(orcid),
+  ]).then((AoA) => AoA.flat().sort(byYearDescending));
+}
@@ -0,0 +1,122 @@
+import type { Context, CreateJob } from '@curvenote/scms-core';
+import { jobs } from '@curvenote/scms-server';
+import { JobStatus } from '@prisma/client';
+import {
+  MIRRORED_TABLES,
+  fetchAirtableTable,
+  replaceMirroredTable,
+  updateAirtableMirrorStatus,
+} from '../airtable.mirror.server.js';
+import type { MirroredTable } from '../airtable.mirror.server.js';
+import { checkAirtableSchema } from '../airtable.schema.server.js';
+
+// Job type constant
+export const COMPLIANCE_AIRTABLE_SYNC = 'COMPLIANCE_AIRTABLE_SYNC';
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface ComplianceAirtableSyncJobResults {
+  startTime: string;
+  endTime?: string;
+  counts: Partial<Record<MirroredTable, number>>;
+  // Fields read by the normalizers that are missing or retyped in Airtable
+  schemaDrift?: number;
+  errors: string[];
+}
+
+// ==============================
+// Job Processing
+// ==============================
+
+/**
+ * Main job handler for the compliance Airtable sync, mirrors the Publications, Preprints and
+ * Scientists tables into the database
+ *
+ * Every table is fetched before anything is written, so a failure part way through leaves the
+ * previous mirror in place.
+ */
+export async function complianceAirtableSyncHandler(ctx: Context, data: CreateJob) {
+  const startTime = new Date().toISOString();
+  const counts: Partial<Record<MirroredTable, number>> = {};
+  let schemaDrift: number | undefined;
+  let job;
+
+  try {
+    job = await jobs.dbCreateJob({
+      ...data,
+      status: JobStatus.RUNNING,
+      message: 'Starting compliance sync from Airtable',
+    });
+
+    // Schema drift is reported rather than failing the sync, see the Airtable Schema admin page
+    const schemaCheck = await checkAirtableSchema();
+    if (!schemaCheck.error) {
+      const drift = schemaCheck.drift.filter(
+        (item) => item.usedByNormalizers && item.kind !== 'renamed',
+      );
+      schemaDrift = drift.length;
+      if (drift.length > 0) {
+        console.warn(
+          `Airtable schema drift in ${drift.length} compliance fields:`,
+          drift.map((item) => `${item.table}.${item.key} (${item.kind})`).join(', '),
+        );
+      }
+    }
+
+    const fetched = [];
+    for (const table of MIRRORED_TABLES) {
+      await jobs.dbUpdateJob(job.id, {
+        status: JobStatus.RUNNING,
+        message: `Fetching ${table} from Airtable`,
+      });
+      const records = await fetchAirtableTable(table);
+      counts[table] = records.length;
+      fetched.push({ table, records });
+    }
+
+    await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.RUNNING,
+      message: 'Updating the compliance mirror',
+    });
+    for (const { table, records } of fetched) {
+      await replaceMirroredTable(table, records);
+    }
+    await updateAirtableMirrorStatus({
+      syncedAt: startTime,
+      counts: counts as Record<MirroredTable, number>,
+    });
+
+    const completedJob = await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.COMPLETED,
+      message: schemaDrift
+        ? `Compliance sync completed with schema drift in ${schemaDrift} fields`
+        : 'Compliance sync completed successfully',
+      results: {
+        startTime,
+        endTime: new Date().toISOString(),
+        counts,
+        schemaDrift,
+        errors: [],
+      } as ComplianceAirtableSyncJobResults,
+    });
+    return jobs.formatJobDTO(ctx, completedJob);
+  } catch (err: any) {
+    console.error('Compliance Airtable sync job failed:', err);
+    if (!job) throw err;
+
+    const failedJob = await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.FAILED,
+      message: `Compliance sync failed: ${err.message}`,
+      results: {
+        startTime,
+        endTime: new Date().toISOString(),
+        counts,
+        schemaDrift,
+        errors: [err.message || String(err)],
+      } as ComplianceAirtableSyncJobResults,
+    });
+    return jobs.formatJobDTO(ctx, failedJob);
+  }
+}
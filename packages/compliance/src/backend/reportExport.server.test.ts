@@ -0,0 +1,125 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { PDFDocument } from 'pdf-lib';
+import { readComplianceDataFile } from './dataSource.json.server.js';
+import {
+  buildComplianceCsv,
+  buildComplianceReportPdf,
+  getArticleComplianceLabel,
+  getComplianceIssueSummary,
+  toPdfText,
+} from './reportExport.server.js';
+import type { ComplianceExportData } from './reportExport.server.js';
+
+const FIXTURE_PATH = fileURLToPath(new URL('./fixtures/compliance-data.json', import.meta.url));
+
+async function exportData(): Promise<ComplianceExportData> {
+  const data = await readComplianceDataFile(FIXTURE_PATH);
+  return {
+    orcid: '0000-0002-1825-0097',
+    scientist: data.scientists[0],
+    covered: data.coveredByPolicy,
+    notCovered: data.notCoveredByPolicy,
+    dataAsOf: data.dataAsOf,
+  };
+}
+
+describe('getArticleComplianceLabel', () => {
+  it('should label articles like the compliance badge', () => {
+    expect(getArticleComplianceLabel({ id: 'rec1', compliant: false })).toBe('Non-compliant');
+    expect(getArticleComplianceLabel({ id: 'rec2', compliant: true })).toBe('Compliant');
+    expect(
+      getArticleComplianceLabel({
+        id: 'rec3',
+        compliant: true,
+        journal: { complianceIssueStatus: 'Resolved' },
+      }),
+    ).toBe('Resolved');
+  });
+});
+
+describe('getComplianceIssueSummary', () => {
+  it('should summarize issues like the compliance status', async () => {
+    const { scientist } = await exportData();
+    expect(getComplianceIssueSummary(scientist!)).toBe('1 journal article compliance issue(s)');
+    expect(
+      getComplianceIssueSummary({
+        ...scientist!,
+        publications: { ...scientist!.publications, nonCompliant: 0 },
+      }),
+    ).toBe('No Issues');
+    expect(
+      getComplianceIssueSummary({
+        ...scientist!,
+        preprints: { ...scientist!.preprints, total: 0 },
+        publications: { ...scientist!.publications, total: 0 },
+      }),
+    ).toBe('No Published Work');
+  });
+});
+
+describe('buildComplianceCsv', () => {
+  it('should write one row per article in each section', async () => {
+    const rows = buildComplianceCsv(await exportData())
+      .trimEnd()
+      .split('\r\n');
+    expect(rows).toHaveLength(5);
+    expect(rows[0]).toMatch(/^Section,Type,Title,Authors,/);
+    expect(rows[1]).toMatch(/^Under HHMI Policy,Preprint,Psychoceramics of the cracked pot,/);
+    expect(rows[3]).toContain(',License,Open');
+    expect(rows[4]).toMatch(/^Not under HHMI Policy,Journal Article,A history of the teapot,/);
+  });
+
+  it('should quote values with commas, quotes and line breaks', () => {
+    const csv = buildComplianceCsv({
+      orcid: '0000-0002-1825-0097',
+      scientist: undefined,
+      covered: [{ id: 'rec1', title: 'Cracks, "chips"\nand glaze', compliant: true }],
+      notCovered: [],
+    });
+    expect(csv.split('\r\n')[1]).toMatch(
+      /^Under HHMI Policy,Journal Article,"Cracks, ""chips""\nand glaze",/,
+    );
+  });
+
+  it('should keep values that look like formulas as text', () => {
+    const csv = buildComplianceCsv({
+      orcid: '0000-0002-1825-0097',
+      scientist: undefined,
+      covered: [{ id: 'rec1', title: '=HYPERLINK("http://example.com")', compliant: true }],
+      notCovered: [],
+    });
+    expect(csv.split('\r\n')[1]).toMatch(
+      /^Under HHMI Policy,Journal Article,"'=HYPERLINK\(""http:\/\/example.com""\)",/,
+    );
+  });
+});
+
+describe('toPdfText', () => {
+  it('should keep WinAnsi characters and replace the rest', () => {
+    expect(toPdfText('José Müller – “test”')).toBe('José Müller – “test”');
+    expect(toPdfText('Łukasz\tDvořák')).toBe('?ukasz Dvorák');
+    expect(toPdfText('王小明')).toBe('???');
+  });
+});
+
+describe('buildComplianceReportPdf', () => {
+  it('should build a PDF snapshot of the dashboard', async () => {
+    const pdf = await buildComplianceReportPdf(await exportData());
+    const doc = await PDFDocument.load(pdf);
+    expect(doc.getPageCount()).toBe(1);
+    expect(doc.getTitle()).toBe('Compliance Dashboard - Josiah Carberry');
+  });
+
+  it('should continue on new pages and draw any characters', async () => {
+    const data = await exportData();
+    const covered = Array.from({ length: 40 }, (_, index) => ({
+      ...data.covered[2],
+      id: `rec${index}`,
+      title: `王 Glaze failure ${index}`,
+    }));
+    const pdf = await buildComplianceReportPdf({ ...data, covered });
+    expect((await PDFDocument.load(pdf)).getPageCount()).toBeGreaterThan(1);
+  });
+});
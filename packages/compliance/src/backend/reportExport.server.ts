@@ -0,0 +1,349 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { formatDate } from '@curvenote/scms-core';
+import {
+  fetchEverythingCoveredByPolicy,
+  fetchEverythingNotCoveredByPolicy,
+  getComplianceDataSource,
+} from './dataSource.server.js';
+import type { NormalizedArticleRecord, NormalizedScientist } from './types.js';
+
+/**
+ * Compliance Dashboard Export
+ *
+ * An offline copy of what `ComplianceReport` shows for a scientist, as a PDF snapshot or as a CSV
+ * of every article. Routes serving an export must apply the same access checks as the dashboard.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export const COMPLIANCE_EXPORT_FORMATS = ['pdf', 'csv'] as const;
+
+export type ComplianceExportFormat = (typeof COMPLIANCE_EXPORT_FORMATS)[number];
+
+export interface ComplianceExportData {
+  orcid: string;
+  scientist: NormalizedScientist | undefined;
+  covered: NormalizedArticleRecord[];
+  notCovered: NormalizedArticleRecord[];
+  dataAsOf?: string;
+}
+
+// ==============================
+// Shared Helpers
+// ==============================
+
+export function isComplianceExportFormat(value: unknown): value is ComplianceExportFormat {
+  return COMPLIANCE_EXPORT_FORMATS.includes(value as ComplianceExportFormat);
+}
+
+/**
+ * The compliance status of an article, as shown by the `ComplianceBadge`
+ */
+export function getArticleComplianceLabel(article: NormalizedArticleRecord): string {
+  if (!article.compliant) return 'Non-compliant';
+  const resolved =
+    article.journal?.complianceIssueStatus?.toLowerCase() === 'resolved' ||
+    article.preprint?.complianceIssueStatus?.toLowerCase() === 'resolved';
+  return resolved ? 'Resolved' : 'Compliant';
+}
+
+/**
+ * The compliance issue summary of a scientist, as shown by `ComplianceStatus`
+ */
+export function getComplianceIssueSummary(scientist: NormalizedScientist): string {
+  const { preprints, publications } = scientist;
+  if ((preprints?.total ?? 0) + (publications?.total ?? 0) === 0) return 'No Published Work';
+
+  const issues = [];
+  if ((preprints?.nonCompliant ?? 0) > 0) {
+    issues.push(`${preprints.nonCompliant} preprint compliance issue(s)`);
+  }
+  if ((publications?.nonCompliant ?? 0) > 0) {
+    issues.push(`${publications.nonCompliant} journal article compliance issue(s)`);
+  }
+  return issues.length > 0 ? issues.join(', ') : 'No Issues';
+}
+
+// ==============================
+// CSV
+// ==============================
+
+const CSV_COLUMNS: [string, (article: NormalizedArticleRecord) => unknown][] = [
+  ['Title', (article) => article.title],
+  ['Authors', (article) => article.authors?.join('; ')],
+  ['Date', (article) => article.date],
+  ['Year', (article) => article.year],
+  ['Compliance', getArticleComplianceLabel],
+  ['Ever Non-compliant', (article) => article.everNonCompliant],
+  ['Date Resolved', (article) => article.dateResolved],
+  ['Policy', (article) => article.topLevelPolicy],
+  ['Linked Scientist ORCIDs', (article) => article.linkedScientistsOrcids?.join('; ')],
+  ['Preprint Title', (article) => article.preprint?.title],
+  ['Preprint Date', (article) => article.preprint?.date],
+  ['Preprint DOI', (article) => article.preprint?.doi],
+  ['Preprint URL', (article) => article.preprint?.url],
+  ['Preprint Server', (article) => article.preprint?.server],
+  ['Preprint License', (article) => article.preprint?.license],
+  ['Preprint Issue Type', (article) => article.preprint?.complianceIssueType],
+  ['Preprint Issue Status', (article) => article.preprint?.complianceIssueStatus],
+  ['Journal Title', (article) => article.journal?.title],
+  ['Journal Date', (article) => article.journal?.date],
+  ['Journal DOI', (article) => article.journal?.doi],
+  ['Journal URL', (article) => article.journal?.url],
+  ['PMID', (article) => article.journal?.pmid ?? article.preprint?.pmid],
+  ['PMCID', (article) => article.journal?.pmcid ?? article.preprint?.pmcid],
+  ['Publisher', (article) => article.journal?.publisher],
+  ['Journal License', (article) => article.journal?.license],
+  ['Journal Issue Type', (article) => article.journal?.complianceIssueType],
+  ['Journal Issue Status', (article) => article.journal?.complianceIssueStatus],
+];
+
+function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  // Text read from Airtable that starts like a formula is kept as text when opened in a spreadsheet
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV of every article on the dashboard, one row per article
+ */
+export function buildComplianceCsv({ covered, notCovered }: ComplianceExportData): string {
+  const sections: [string, NormalizedArticleRecord[]][] = [
+    ['Under HHMI Policy', covered],
+    ['Not under HHMI Policy', notCovered],
+  ];
+  const rows = [
+    ['Section', 'Type', ...CSV_COLUMNS.map(([heading]) => heading)],
+    ...sections.flatMap(([section, articles]) =>
+      articles.map((article) => [
+        section,
+        article.preprint ? 'Preprint' : 'Journal Article',
+        ...CSV_COLUMNS.map(([, getValue]) => getValue(article)),
+      ]),
+    ),
+  ];
+  return rows.map((row) => row.map(toCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+// ==============================
+// PDF
+// ==============================
+
+const PAGE_SIZE: [number, number] = [612, 792]; // US Letter
+const MARGIN = 50;
+const LINE_GAP = 4;
+
+// Characters outside Latin-1 that the WinAnsi encoding of the standard fonts can draw
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/**
+ * Make text drawable with the standard PDF fonts, accents are dropped from characters outside
+ * WinAnsi and anything else is replaced
+ */
+export function toPdfText(value: string): string {
+  return Array.from(value.replace(/\s+/g, ' '))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+      if (WIN_ANSI_EXTRAS.includes(char)) return char;
+      const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return /^[\x20-\x7e]+$/.test(base) ? base : '?';
+    })
+    .join('');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of toPdfText(text).split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function summarizeAuthors(authors: string[] | undefined): string | undefined {
+  if (!authors || authors.length === 0) return undefined;
+  if (authors.length <= 3) return authors.join(', ');
+  return `${authors.slice(0, 3).join(', ')}, et al.`;
+}
+
+function joinDefined(values: (string | undefined)[], separator = ' · '): string {
+  return values.filter((value) => !!value).join(separator);
+}
+
+/**
+ * Build a PDF snapshot of the dashboard, the scientist summary followed by the covered and
+ * non-covered articles with their issue statuses
+ */
+export async function buildComplianceReportPdf(data: ComplianceExportData): Promise<Uint8Array> {
+  const { orcid, scientist, covered, notCovered, dataAsOf } = data;
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const contentWidth = PAGE_SIZE[0] - 2 * MARGIN;
+
+  doc.setTitle(`Compliance Dashboard - ${scientist?.fullName ?? orcid}`);
+
+  let page: PDFPage = doc.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const write = (
+    text: string | undefined,
+    { size = 10, font = regular, indent = 0, color = rgb(0, 0, 0) } = {},
+  ) => {
+    if (!text) return;
+    for (const line of wrapText(text, font, size, contentWidth - indent)) {
+      if (y - size < MARGIN) {
+        page = doc.addPage(PAGE_SIZE);
+        y = PAGE_SIZE[1] - MARGIN;
+      }
+      y -= size;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color });
+      y -= LINE_GAP;
+    }
+  };
+  const gap = (height = 8) => {
+    y -= height;
+  };
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  write('HHMI Compliance Dashboard', { size: 18, font: bold });
+  write(
+    joinDefined([
+      dataAsOf ? `Data as of ${formatDate(dataAsOf, 'MMM d, yyyy h:mm a')}` : undefined,
+      `Exported ${formatDate(new Date().toISOString(), 'MMM d, yyyy h:mm a')}`,
+    ]),
+    { size: 9, color: muted },
+  );
+  gap(12);
+
+  // Profile, as shown by the ScientistCard
+  if (scientist) {
+    write(scientist.fullName, { size: 14, font: bold });
+    write(joinDefined([scientist.program, scientist.institution]));
+    write(
+      joinDefined([
+        `ORCID: ${scientist.orcid || orcid}`,
+        scientist.hireDate ? `Hired: ${scientist.hireDate}` : undefined,
+        `Last Review: ${scientist.lastReviewDate || 'none'}`,
+      ]),
+      { size: 9, color: muted },
+    );
+    gap(4);
+    write(getComplianceIssueSummary(scientist), { size: 12, font: bold });
+    write(
+      `Preprints: ${scientist.preprints.total} total, ${scientist.preprints.totalSubjectToPolicy} subject to policy, ${scientist.preprints.nonCompliant} non-compliant`,
+      { size: 9 },
+    );
+    write(
+      `Journal articles: ${scientist.publications.total} total, ${scientist.publications.totalSubjectToPolicy} subject to policy, ${scientist.publications.nonCompliant} non-compliant`,
+      { size: 9 },
+    );
+  } else {
+    write(`No data found for ORCID: ${orcid}`);
+  }
+
+  const writeSection = (
+    heading: string,
+    articles: NormalizedArticleRecord[],
+    showCompliance: boolean,
+  ) => {
+    gap(16);
+    write(`${heading} (${articles.length})`, { size: 14, font: bold });
+    if (articles.length === 0) write('No publications found.', { color: muted });
+    for (const article of articles) {
+      gap(6);
+      write(article.title ?? 'Untitled', { font: bold });
+      write(joinDefined([summarizeAuthors(article.authors), article.date]), {
+        size: 9,
+        color: muted,
+      });
+      if (showCompliance) write(getArticleComplianceLabel(article), { size: 9, font: bold });
+      for (const [label, version, venue] of [
+        ['Preprint', article.preprint, article.preprint?.server],
+        ['Journal', article.journal, article.journal?.publisher],
+      ] as const) {
+        if (!version) continue;
+        write(
+          joinDefined([
+            label,
+            venue,
+            version.doi ? `DOI: ${version.doi}` : undefined,
+            version.license ? `License: ${version.license}` : undefined,
+          ]),
+          { size: 9, indent: 10 },
+        );
+        if (showCompliance && (version.complianceIssueType || version.complianceIssueStatus)) {
+          write(
+            joinDefined([
+              version.complianceIssueType ? `Issue: ${version.complianceIssueType}` : undefined,
+              version.complianceIssueStatus
+                ? `Status: ${version.complianceIssueStatus}`
+                : undefined,
+            ]),
+            { size: 9, indent: 10 },
+          );
+        }
+      }
+    }
+  };
+
+  writeSection('Under HHMI Policy', covered, true);
+  writeSection('Not under HHMI Policy', notCovered, false);
+
+  return doc.save();
+}
+
+// ==============================
+// Responses
+// ==============================
+
+/**
+ * Read everything the dashboard shows for an ORCID from the configured data source
+ */
+export async function loadComplianceExportData(orcid: string): Promise<ComplianceExportData> {
+  const dataSource = await getComplianceDataSource();
+  const [covered, notCovered, { scientist }, dataAsOf] = await Promise.all([
+    fetchEverythingCoveredByPolicy(dataSource, orcid),
+    fetchEverythingNotCoveredByPolicy(dataSource, orcid),
+    dataSource.fetchScientistByOrcid(orcid),
+    dataSource.getDataAsOf(),
+  ]);
+  return { orcid, scientist, covered, notCovered, dataAsOf };
+}
+
+/**
+ * Build the download of a compliance dashboard, callers must have checked access to the ORCID
+ */
+export async function complianceExportResponse(
+  orcid: string,
+  format: ComplianceExportFormat,
+): Promise<Response> {
+  const data = await loadComplianceExportData(orcid);
+  const filename = `compliance-${orcid}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const headers = {
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'Cache-Control': 'no-store',
+  };
+
+  if (format === 'csv') {
+    return new Response(buildComplianceCsv(data), {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+    });
+  }
+  return new Response(Buffer.from(await buildComplianceReportPdf(data)), {
+    headers: { ...headers, 'Content-Type': 'application/pdf' },
+  });
+}
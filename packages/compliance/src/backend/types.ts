@@ -87,6 +87,40 @@ export interface NormalizedScientist {
   };
 }
 
+/**
+ * A backing store for compliance data, Airtable is one implementation and institutions adopting
+ * the extension can provide their own. Articles are returned normalized, with
+ * `isLinkedToPrimaryOrcid` set for the ORCID they were requested for.
+ */
+export interface ComplianceDataSource {
+  name: string;
+  checkScientistExistsByOrcid(orcid: string): Promise<boolean>;
+  fetchScientistByOrcid(
+    orcid: string,
+  ): Promise<{ scientist: NormalizedScientist | undefined; error?: string }>;
+  fetchAllScientists(): Promise<NormalizedScientist[]>;
+  fetchPublicationsCoveredByPolicy(orcid: string): Promise<NormalizedArticleRecord[]>;
+  fetchPublicationsNotCoveredByPolicy(orcid: string): Promise<NormalizedArticleRecord[]>;
+  fetchPreprintsCoveredByPolicy(orcid: string): Promise<NormalizedArticleRecord[]>;
+  fetchPreprintsNotCoveredByPolicy(orcid: string): Promise<NormalizedArticleRecord[]>;
+  // Articles of every scientist, for institution-wide analytics, undefined until they are available
+  fetchAllPublicationsCoveredByPolicy(): Promise<NormalizedArticleRecord[] | undefined>;
+  fetchAllPreprintsCoveredByPolicy(): Promise<NormalizedArticleRecord[] | undefined>;
+  // When the data was taken from its source, undefined when it is read live
+  getDataAsOf(): Promise<string | undefined>;
+}
+
+/**
+ * The contents of a JSON compliance data file, articles are listed once and linked to scientists
+ * through `linkedScientistsOrcids`, preprints are the articles with a `preprint` section
+ */
+export interface ComplianceDataFile {
+  dataAsOf?: string;
+  scientists: NormalizedScientist[];
+  coveredByPolicy: NormalizedArticleRecord[];
+  notCoveredByPolicy: NormalizedArticleRecord[];
+}
+
 export type ReportLoaderData = {
   orcid: string;
   scientist: NormalizedScientist | undefined;
@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { BookCheckIcon, User, UserPlus } from 'lucide-react';
+import { BookCheckIcon, Download, User, UserPlus } from 'lucide-react';
 import {
   SectionWithHeading,
   ui,
   RequestHelpDialog,
   clearOrcidRequestSent,
+  formatDate,
   usePingEvent,
 } from '@curvenote/scms-core';
 import { ScientistCard } from './ScientistCard.js';
@@ -34,6 +35,12 @@ export interface ComplianceReportProps {
   viewContext: ViewContext;
   emptyMessageCovered?: string;
   emptyMessageNotCovered?: string;
+
+  // When the data was mirrored from Airtable, undefined when read from Airtable directly
+  dataAsOf?: string;
+
+  // Base URL of the PDF and CSV exports of this dashboard, no export buttons when undefined
+  exportUrl?: string;
 }
 
 export function ComplianceReport({
@@ -47,6 +54,8 @@ export function ComplianceReport({
   viewContext,
   emptyMessageCovered,
   emptyMessageNotCovered,
+  dataAsOf,
+  exportUrl,
 }: ComplianceReportProps) {
   const [showHelpDialog, setShowHelpDialog] = useState(false);
   const pingEvent = usePingEvent();
@@ -131,6 +140,19 @@ export function ComplianceReport({
       >
         <ScientistCard scientist={scientist} emptyMessage={`No data found for ORCID: ${orcid}`} />
         <div className="flex justify-end items-center w-full row">
+          {dataAsOf && (
+            <div className="text-xs text-muted-foreground grow">
+              Data as of {formatDate(dataAsOf, 'MMM d, yyyy h:mm a')}
+            </div>
+          )}
+          {exportUrl &&
+            (['pdf', 'csv'] as const).map((format) => (
+              <ui.Button key={format} variant="link" className="text-xs" asChild>
+                <a href={`${exportUrl}/${format}`} download>
+                  <Download className="w-3 h-3" /> Export {format.toUpperCase()}
+                </a>
+              </ui.Button>
+            ))}
           <ui.Button variant="link" className="text-xs" onClick={handleHelpClick}>
             Something not right? Request help.
           </ui.Button>
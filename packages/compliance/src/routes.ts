@@ -7,6 +7,10 @@ const routes = [
   route('compliance', resolveRoutePath(import.meta.url, 'routes/compliance.tsx'), [
     // User routes
     route('reports/me', resolveRoutePath(import.meta.url, 'routes/compliance.reports.me.tsx')),
+    route(
+      'reports/me/export/:format',
+      resolveRoutePath(import.meta.url, 'routes/compliance.reports.me.export.$format.ts'),
+    ),
     route(
       'reports/me/link',
       resolveRoutePath(import.meta.url, 'routes/compliance.reports.link.tsx'),
@@ -18,6 +22,13 @@ const routes = [
       'shared/reports/:orcid',
       resolveRoutePath(import.meta.url, 'routes/compliance.shared.reports.$orcid.tsx'),
     ),
+    route(
+      'shared/reports/:orcid/export/:format',
+      resolveRoutePath(
+        import.meta.url,
+        'routes/compliance.shared.reports.$orcid.export.$format.ts',
+      ),
+    ),
     // Admin routes
     route(
       'scientists',
@@ -27,6 +38,15 @@ const routes = [
       'scientists/:orcid',
       resolveRoutePath(import.meta.url, 'routes/compliance.scientists.$orcid.tsx'),
     ),
+    route(
+      'scientists/:orcid/export/:format',
+      resolveRoutePath(import.meta.url, 'routes/compliance.scientists.$orcid.export.$format.ts'),
+    ),
+    route('analytics', resolveRoutePath(import.meta.url, 'routes/compliance.analytics.tsx')),
+    route(
+      'airtable-schema',
+      resolveRoutePath(import.meta.url, 'routes/compliance.airtable-schema.tsx'),
+    ),
 
     // Action routes
     route('help-request', resolveRoutePath(import.meta.url, 'routes/compliance.help-request.tsx')),
@@ -50,6 +70,15 @@ export async function registerRoutes(appConfig: AppConfig): Promise<RouteRegistr
       attachTo: 'app',
       register: () => routes,
     },
+    {
+      attachTo: 'v1/hooks',
+      register: () => [
+        route(
+          'compliance-airtable-sync',
+          resolveRoutePath(import.meta.url, 'routes/v1.hooks.compliance-airtable-sync.ts'),
+        ),
+      ],
+    },
   ];
 }
 
@@ -0,0 +1,146 @@
+import { Form } from 'react-router';
+import type { LoaderFunctionArgs } from 'react-router';
+import { RefreshCw } from 'lucide-react';
+import { PageFrame, MainWrapper, ui, primitives, formatDate } from '@curvenote/scms-core';
+import { withAppScopedContext } from '@curvenote/scms-server';
+import { hhmi } from '../backend/scopes.js';
+import { getComplianceDataSource } from '../backend/dataSource.server.js';
+import { checkAirtableSchema } from '../backend/airtable.schema.server.js';
+import type {
+  AirtableSchemaCheck,
+  AirtableSchemaDrift,
+} from '../backend/airtable.schema.server.js';
+
+interface LoaderData {
+  dataSource: string;
+  check?: AirtableSchemaCheck;
+}
+
+export const meta = () => {
+  return [
+    { title: 'Airtable Schema' },
+    { name: 'description', content: 'Check the Airtable schema against the compliance config' },
+  ];
+};
+
+export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
+  await withAppScopedContext(args, [hhmi.compliance.admin]);
+  const dataSource = await getComplianceDataSource();
+  if (dataSource.name !== 'airtable') {
+    return { dataSource: dataSource.name };
+  }
+  return { dataSource: dataSource.name, check: await checkAirtableSchema() };
+}
+
+function describeDrift(drift: AirtableSchemaDrift) {
+  switch (drift.kind) {
+    case 'missing':
+      return drift.replacementFieldId
+        ? `Field ${drift.fieldId} is gone, a field with the same name now has ID ${drift.replacementFieldId}`
+        : `Field ${drift.fieldId} is not in the table`;
+    case 'renamed':
+      return `Renamed to "${drift.liveName}"`;
+    case 'retyped':
+      return `Now a ${drift.liveType} field, which cannot be read as ${drift.expected}`;
+  }
+}
+
+function DriftItem({ drift }: { drift: AirtableSchemaDrift }) {
+  return (
+    <li className="flex flex-wrap gap-2 items-center py-2 text-sm">
+      <ui.Badge variant={drift.usedByNormalizers ? 'default' : 'outline'}>{drift.kind}</ui.Badge>
+      <span className="font-medium">{drift.name}</span>
+      <span className="text-gray-500">
+        {drift.table}.{drift.key}
+      </span>
+      <span>{describeDrift(drift)}</span>
+    </li>
+  );
+}
+
+export default function AirtableSchemaPage({ loaderData }: { loaderData: LoaderData }) {
+  const { dataSource, check } = loaderData;
+  const used = check?.drift.filter((drift) => drift.usedByNormalizers) ?? [];
+  const unused = check?.drift.filter((drift) => !drift.usedByNormalizers) ?? [];
+
+  const breadcrumbs = [
+    { label: 'Compliance', href: '/app/compliance' },
+    { label: 'Airtable Schema', isCurrentPage: true },
+  ];
+
+  return (
+    <MainWrapper>
+      <PageFrame
+        title="Airtable Schema"
+        description="Compare the live Airtable schema with the field IDs the compliance dashboards read"
+        className="mx-auto max-w-screen-lg"
+        breadcrumbs={breadcrumbs}
+      >
+        {!check && (
+          <ui.SimpleAlert
+            type="info"
+            message={`The compliance dashboards read from the ${dataSource} data source, not Airtable.`}
+          />
+        )}
+        {check && (
+          <div className="space-y-4">
+            <div className="flex gap-2 items-center text-sm text-gray-500">
+              <span>
+                Checked {check.fieldsChecked} fields at{' '}
+                {formatDate(check.checkedAt, 'MMM d, yyyy h:mm a')}
+              </span>
+              <div className="grow" />
+              <Form method="get">
+                <ui.Button type="submit" variant="outline" size="sm">
+                  <RefreshCw className="mr-2" />
+                  Check again
+                </ui.Button>
+              </Form>
+            </div>
+            {check.error && (
+              <ui.SimpleAlert
+                type="error"
+                message={`Could not read the Airtable schema: ${check.error}`}
+              />
+            )}
+            {!check.error && used.length === 0 && (
+              <ui.SimpleAlert
+                type="success"
+                message="Every field read by the dashboards is in Airtable with a compatible type."
+              />
+            )}
+            {used.length > 0 && (
+              <primitives.Card className="p-4">
+                <h3 className="mb-1 font-semibold">Fields read by the dashboards</h3>
+                <p className="mb-2 text-sm text-gray-500">
+                  Missing and retyped fields show as blanks on the dashboards until the normalizers
+                  are updated. Renamed fields are still read by ID, regenerate AIRTABLE_CONFIG to
+                  bring their names up to date.
+                </p>
+                <ul className="divide-y">
+                  {used.map((drift) => (
+                    <DriftItem key={`${drift.kind}-${drift.fieldId}`} drift={drift} />
+                  ))}
+                </ul>
+              </primitives.Card>
+            )}
+            {unused.length > 0 && (
+              <primitives.Card className="p-4">
+                <h3 className="mb-1 font-semibold">Other fields in AIRTABLE_CONFIG</h3>
+                <p className="mb-2 text-sm text-gray-500">
+                  These fields are not read by the dashboards, regenerate AIRTABLE_CONFIG to bring
+                  it up to date.
+                </p>
+                <ul className="divide-y">
+                  {unused.map((drift) => (
+                    <DriftItem key={`${drift.kind}-${drift.fieldId}`} drift={drift} />
+                  ))}
+                </ul>
+              </primitives.Card>
+            )}
+          </div>
+        )}
+      </PageFrame>
+    </MainWrapper>
+  );
+}
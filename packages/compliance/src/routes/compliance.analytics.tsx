@@ -0,0 +1,277 @@
+import { Link } from 'react-router';
+import type { LoaderFunctionArgs } from 'react-router';
+import { PageFrame, MainWrapper, primitives, formatDate } from '@curvenote/scms-core';
+import { withAppScopedContext } from '@curvenote/scms-server';
+import { hhmi } from '../backend/scopes.js';
+import {
+  fetchAllArticlesCoveredByPolicy,
+  getComplianceDataSource,
+} from '../backend/dataSource.server.js';
+import {
+  computeComplianceAnalytics,
+  getScientistDrillDownUrl,
+} from '../backend/complianceAnalytics.js';
+import type {
+  ArticleGroup,
+  ComplianceAnalytics,
+  ComplianceRate,
+  ScientistDrillDownKey,
+  ScientistGroup,
+} from '../backend/complianceAnalytics.js';
+
+interface LoaderData {
+  // undefined until the Airtable mirror has been synced
+  analytics?: ComplianceAnalytics;
+  dataAsOf?: string;
+}
+
+export const meta = () => {
+  return [
+    { title: 'Compliance Analytics' },
+    { name: 'description', content: 'Institution-wide compliance rates' },
+  ];
+};
+
+export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
+  await withAppScopedContext(args, [hhmi.compliance.admin]);
+  const dataSource = await getComplianceDataSource();
+  const [scientists, articles, dataAsOf] = await Promise.all([
+    dataSource.fetchAllScientists(),
+    fetchAllArticlesCoveredByPolicy(dataSource),
+    dataSource.getDataAsOf(),
+  ]);
+  if (!articles) return { dataAsOf };
+  return { analytics: computeComplianceAnalytics(scientists, articles), dataAsOf };
+}
+
+function formatRate(rate: number | undefined) {
+  return rate === undefined ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+function RateBar({ rate }: { rate: number | undefined }) {
+  return (
+    <div className="flex gap-2 items-center">
+      <div className="overflow-hidden w-24 h-2 bg-red-100 rounded">
+        <div className="h-full bg-green-600" style={{ width: `${(rate ?? 0) * 100}%` }} />
+      </div>
+      <span className="w-10 text-right">{formatRate(rate)}</span>
+    </div>
+  );
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <primitives.Card className="p-4">
+      <div className="text-sm text-gray-500">{label}</div>
+      <div className="text-2xl font-semibold">{value}</div>
+      <div className="text-sm text-gray-500">{detail}</div>
+    </primitives.Card>
+  );
+}
+
+function Section({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <primitives.Card className="p-4">
+      <h3 className="mb-1 font-semibold">{title}</h3>
+      <p className="mb-2 text-sm text-gray-500">{description}</p>
+      <table className="w-full text-sm">{children}</table>
+    </primitives.Card>
+  );
+}
+
+function DrillDownLink({ by, value }: { by: ScientistDrillDownKey; value: string }) {
+  return (
+    <Link to={getScientistDrillDownUrl({ [by]: value })} className="underline">
+      {value}
+    </Link>
+  );
+}
+
+function ScientistGroupTable({
+  title,
+  label,
+  by,
+  groups,
+}: {
+  title: string;
+  label: string;
+  by: ScientistDrillDownKey;
+  groups: ScientistGroup[];
+}) {
+  return (
+    <Section
+      title={title}
+      description="Active scientists and the articles subject to the policy in their dashboards"
+    >
+      <thead className="text-left text-gray-500">
+        <tr>
+          <th className="py-1 font-normal">{label}</th>
+          <th className="py-1 font-normal text-right">Scientists</th>
+          <th className="py-1 font-normal text-right">With issues</th>
+          <th className="py-1 font-normal text-right">Articles</th>
+          <th className="py-1 pl-4 font-normal">Compliant</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y">
+        {groups.map((group) => (
+          <tr key={group.key}>
+            <td className="py-1">
+              <DrillDownLink by={by} value={group.key} />
+            </td>
+            <td className="py-1 text-right">{group.scientists}</td>
+            <td className="py-1 text-right">{group.scientistsWithIssues}</td>
+            <td className="py-1 text-right">{group.total}</td>
+            <td className="py-1 pl-4">
+              <RateBar rate={group.rate} />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </Section>
+  );
+}
+
+function ArticleGroupRows({ groups, by }: { groups: ArticleGroup[]; by?: ScientistDrillDownKey }) {
+  return (
+    <tbody className="divide-y">
+      {groups.map((group) => (
+        <tr key={group.key}>
+          <td className="py-1">{by ? <DrillDownLink by={by} value={group.key} /> : group.key}</td>
+          <td className="py-1 text-right">{group.total}</td>
+          <td className="py-1 text-right">{group.nonCompliant}</td>
+          <td className="py-1 pl-4">
+            <RateBar rate={group.rate} />
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  );
+}
+
+function ArticleHeader({ label }: { label: string }) {
+  return (
+    <thead className="text-left text-gray-500">
+      <tr>
+        <th className="py-1 font-normal">{label}</th>
+        <th className="py-1 font-normal text-right">Articles</th>
+        <th className="py-1 font-normal text-right">Non-compliant</th>
+        <th className="py-1 pl-4 font-normal">Compliant</th>
+      </tr>
+    </thead>
+  );
+}
+
+function describeRate({ total, nonCompliant }: ComplianceRate) {
+  return `${total - nonCompliant} of ${total} articles compliant`;
+}
+
+function NotSyncedYet() {
+  return (
+    <primitives.Card className="p-4 text-sm text-gray-500">
+      Compliance data has not been synced yet. Analytics are available once the first sync of the
+      Airtable mirror has completed.
+    </primitives.Card>
+  );
+}
+
+function AnalyticsSections({ analytics }: { analytics: ComplianceAnalytics }) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <Stat
+          label="Articles since 2022"
+          value={formatRate(analytics.articles.rate)}
+          detail={describeRate(analytics.articles)}
+        />
+        <Stat
+          label="Active scientists"
+          value={`${analytics.scientists.scientists}`}
+          detail={`${analytics.scientists.scientistsWithIssues} with compliance issues`}
+        />
+        <Stat
+          label="Scientist dashboards"
+          value={formatRate(analytics.scientists.rate)}
+          detail={describeRate(analytics.scientists)}
+        />
+      </div>
+      <Section
+        title="Over Time"
+        description="Articles published by the end of each quarter, resolved articles count as non-compliant until they were resolved"
+      >
+        <ArticleHeader label="Quarter" />
+        <ArticleGroupRows groups={[...analytics.overTime].reverse()} />
+      </Section>
+      <ScientistGroupTable
+        title="By Program"
+        label="Program"
+        by="program"
+        groups={analytics.byProgram}
+      />
+      <ScientistGroupTable
+        title="By Institution"
+        label="Institution"
+        by="institution"
+        groups={analytics.byInstitution}
+      />
+      <Section
+        title="By Issue Type"
+        description="Articles since 2022 that have had a compliance issue"
+      >
+        <thead className="text-left text-gray-500">
+          <tr>
+            <th className="py-1 font-normal">Issue type</th>
+            <th className="py-1 font-normal text-right">Articles</th>
+            <th className="py-1 font-normal text-right">Open</th>
+            <th className="py-1 font-normal text-right">Resolved</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {analytics.byIssueType.map((group) => (
+            <tr key={group.key}>
+              <td className="py-1">
+                <DrillDownLink by="issueType" value={group.key} />
+              </td>
+              <td className="py-1 text-right">{group.total}</td>
+              <td className="py-1 text-right">{group.open}</td>
+              <td className="py-1 text-right">{group.resolved}</td>
+            </tr>
+          ))}
+        </tbody>
+      </Section>
+      <Section title="By Publishing Year" description="Articles subject to the policy">
+        <ArticleHeader label="Year" />
+        <ArticleGroupRows groups={analytics.byYear} by="year" />
+      </Section>
+    </div>
+  );
+}
+
+export default function ComplianceAnalyticsPage({ loaderData }: { loaderData: LoaderData }) {
+  const { analytics, dataAsOf } = loaderData;
+
+  const breadcrumbs = [
+    { label: 'Compliance', href: '/app/compliance' },
+    { label: 'Compliance Analytics', isCurrentPage: true },
+  ];
+
+  return (
+    <MainWrapper>
+      <PageFrame
+        title="Compliance Analytics"
+        description={`Compliance rates across the institution${dataAsOf ? `, data as of ${formatDate(dataAsOf, 'MMM d, yyyy h:mm a')}` : ''}`}
+        className="mx-auto max-w-screen-lg"
+        breadcrumbs={breadcrumbs}
+      >
+        {analytics ? <AnalyticsSections analytics={analytics} /> : <NotSyncedYet />}
+      </PageFrame>
+    </MainWrapper>
+  );
+}
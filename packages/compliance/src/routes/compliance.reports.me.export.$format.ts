@@ -0,0 +1,27 @@
+import type { LoaderFunctionArgs } from 'react-router';
+import { redirect } from 'react-router';
+import { error404 } from '@curvenote/scms-core';
+import { withAppContext } from '@curvenote/scms-server';
+import {
+  complianceExportResponse,
+  isComplianceExportFormat,
+} from '../backend/reportExport.server.js';
+
+/**
+ * Downloads the current user's compliance dashboard as a PDF or CSV
+ */
+export async function loader(args: LoaderFunctionArgs) {
+  const ctx = await withAppContext(args);
+
+  const { format } = args.params;
+  if (!isComplianceExportFormat(format)) throw error404();
+
+  const orcidAccount = ctx.user.linkedAccounts.find(
+    (account) => account.provider === 'orcid' && !account.pending,
+  );
+  if (!orcidAccount?.idAtProvider) {
+    throw redirect('/app/compliance/reports/me/link');
+  }
+
+  return complianceExportResponse(orcidAccount.idAtProvider, format);
+}
@@ -1,13 +1,13 @@
 import type { LoaderFunctionArgs } from 'react-router';
 import { redirect, useNavigate } from 'react-router';
-import { fetchScientistByOrcid } from '../backend/airtable.scientists.server.js';
 import { withAppContext } from '@curvenote/scms-server';
 import { PageFrame, clearOrcidRequestSent } from '@curvenote/scms-core';
 import { ComplianceReport } from '../components/ComplianceReport.js';
 import {
   fetchEverythingCoveredByPolicy,
   fetchEverythingNotCoveredByPolicy,
-} from '../backend/airtable.server.js';
+  getComplianceDataSource,
+} from '../backend/dataSource.server.js';
 import { ComplianceDashboardRequest } from '../components/ComplianceDashboardRequest.js';
 import { ComplianceInfoCards } from '../components/ComplianceInfoCards.js';
 import { useEffect } from 'react';
@@ -40,9 +40,11 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | { e
     return { error: 'ORCID is missing' };
   }
 
-  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(orcid);
-  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(orcid);
-  const { scientist, error } = await fetchScientistByOrcid(orcid);
+  const dataSource = await getComplianceDataSource();
+  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(dataSource, orcid);
+  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(dataSource, orcid);
+  const { scientist, error } = await dataSource.fetchScientistByOrcid(orcid);
+  const dataAsOf = await dataSource.getDataAsOf();
 
   // Detect if user has linked ORCID but scientist is not found in database
   const isOrcidLinkedButNotFound = !scientist && !!orcid;
@@ -53,6 +55,7 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | { e
     error,
     preprintsCovered: preprintsCoveredPromise,
     preprintsNotCovered: preprintsNotCoveredPromise,
+    dataAsOf,
     isOrcidLinkedButNotFound,
   };
 }
@@ -63,6 +66,7 @@ interface LoaderData {
   error?: string;
   preprintsCovered: Promise<NormalizedArticleRecord[]>;
   preprintsNotCovered: Promise<NormalizedArticleRecord[]>;
+  dataAsOf?: string;
   isOrcidLinkedButNotFound: boolean;
 }
 
@@ -84,6 +88,7 @@ export default function ComplianceReportPage({ loaderData }: { loaderData: Loade
     scientist,
     preprintsCovered,
     preprintsNotCovered,
+    dataAsOf,
     error,
     orcid,
     isOrcidLinkedButNotFound,
@@ -118,6 +123,8 @@ export default function ComplianceReportPage({ loaderData }: { loaderData: Loade
           scientist={scientist}
           articlesCovered={preprintsCovered}
           articlesNotCovered={preprintsNotCovered}
+          dataAsOf={dataAsOf}
+          exportUrl="/app/compliance/reports/me/export"
           error={error}
           onShareClick={() => {
             navigate('/app/compliance/share');
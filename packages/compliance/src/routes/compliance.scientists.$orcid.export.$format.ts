@@ -0,0 +1,20 @@
+import type { LoaderFunctionArgs } from 'react-router';
+import { error404 } from '@curvenote/scms-core';
+import { withAppScopedContext } from '@curvenote/scms-server';
+import { hhmi } from '../backend/scopes.js';
+import {
+  complianceExportResponse,
+  isComplianceExportFormat,
+} from '../backend/reportExport.server.js';
+
+/**
+ * Downloads any scientist's compliance dashboard as a PDF or CSV, for compliance admins
+ */
+export async function loader(args: LoaderFunctionArgs) {
+  await withAppScopedContext(args, [hhmi.compliance.admin]);
+
+  const { orcid, format } = args.params;
+  if (!orcid || !isComplianceExportFormat(format)) throw error404();
+
+  return complianceExportResponse(orcid, format);
+}
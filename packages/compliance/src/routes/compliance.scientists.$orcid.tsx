@@ -1,12 +1,12 @@
 import { PageFrame, MainWrapper } from '@curvenote/scms-core';
 import { withAppScopedContext } from '@curvenote/scms-server';
-import { fetchScientistByOrcid } from '../backend/airtable.scientists.server.js';
 import { ComplianceReport } from '../components/ComplianceReport.js';
 import { hhmi } from '../backend/scopes.js';
 import {
   fetchEverythingCoveredByPolicy,
   fetchEverythingNotCoveredByPolicy,
-} from '../backend/airtable.server.js';
+  getComplianceDataSource,
+} from '../backend/dataSource.server.js';
 import { ShareReportDialog } from '../components/ShareReportDialog.js';
 import { useState } from 'react';
 import type { LoaderFunctionArgs } from 'react-router';
@@ -17,6 +17,7 @@ interface LoaderData {
   scientist: NormalizedScientist | undefined;
   preprintsCovered: Promise<NormalizedArticleRecord[]>;
   preprintsNotCovered: Promise<NormalizedArticleRecord[]>;
+  dataAsOf?: string;
   error?: string;
   orcid: string;
 }
@@ -34,14 +35,17 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | { e
   if (!orcid) {
     return { error: 'ORCID is required' };
   }
-  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(orcid);
-  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(orcid);
-  const { scientist, error } = await fetchScientistByOrcid(orcid);
+  const dataSource = await getComplianceDataSource();
+  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(dataSource, orcid);
+  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(dataSource, orcid);
+  const { scientist, error } = await dataSource.fetchScientistByOrcid(orcid);
+  const dataAsOf = await dataSource.getDataAsOf();
 
   return {
     scientist,
     preprintsCovered: preprintsCoveredPromise,
     preprintsNotCovered: preprintsNotCoveredPromise,
+    dataAsOf,
     error,
     orcid,
   };
@@ -63,7 +67,7 @@ export function shouldRevalidate(args?: { formAction?: string; [key: string]: an
 }
 
 export default function ScientistCompliancePage({ loaderData }: { loaderData: LoaderData }) {
-  const { scientist, preprintsCovered, preprintsNotCovered, orcid } = loaderData;
+  const { scientist, preprintsCovered, preprintsNotCovered, dataAsOf, orcid } = loaderData;
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
 
   const breadcrumbs = [
@@ -85,6 +89,8 @@ export default function ScientistCompliancePage({ loaderData }: { loaderData: Lo
           scientist={scientist}
           articlesCovered={preprintsCovered}
           articlesNotCovered={preprintsNotCovered}
+          dataAsOf={dataAsOf}
+          exportUrl={`/app/compliance/scientists/${orcid}/export`}
           onShareClick={() => {
             setShareDialogOpen(true);
           }}
@@ -5,7 +5,7 @@ import {
   getComplianceAccessGrantedBy,
   createAccessWithComplianceReadScope,
 } from '../../backend/access.server.js';
-import { fetchScientistByOrcid } from '../../backend/airtable.scientists.server.js';
+import { getComplianceDataSource } from '../../backend/dataSource.server.js';
 import { HHMITrackEvent } from '../../analytics/events.js';
 import { getEmailTemplates } from '../../client.js';
 
@@ -51,8 +51,9 @@ export async function getScientistAccessGrants(ctx: SecureContext, orcid: string
     accessGrantCount: accessGrants.length,
   });
 
-  // Get scientist name from Airtable if available
-  const { scientist } = await fetchScientistByOrcid(orcid);
+  // Get scientist name from the compliance data if available
+  const dataSource = await getComplianceDataSource();
+  const { scientist } = await dataSource.fetchScientistByOrcid(orcid);
   const scientistName =
     scientist?.fullName || orcidOwner.display_name || orcidOwner.username || null;
 
@@ -183,7 +184,8 @@ export async function handleAdminShareComplianceReport(
     }
 
     // Get scientist name for email
-    const { scientist } = await fetchScientistByOrcid(orcid);
+    const dataSource = await getComplianceDataSource();
+    const { scientist } = await dataSource.fetchScientistByOrcid(orcid);
     const scientistName =
       scientist?.fullName || orcidOwner.display_name || orcidOwner.username || 'Unknown Scientist';
 
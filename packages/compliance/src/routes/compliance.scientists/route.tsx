@@ -1,6 +1,11 @@
-import { PageFrame, MainWrapper } from '@curvenote/scms-core';
+import { PageFrame, MainWrapper, ui, formatDate } from '@curvenote/scms-core';
 import { withAppScopedContext, withValidFormData, validateFormData } from '@curvenote/scms-server';
-import { fetchAllScientists } from '../../backend/airtable.scientists.server.js';
+import {
+  fetchAllArticlesCoveredByPolicy,
+  getComplianceDataSource,
+} from '../../backend/dataSource.server.js';
+import { drillDownScientists, getScientistDrillDown } from '../../backend/complianceAnalytics.js';
+import type { ScientistDrillDown } from '../../backend/complianceAnalytics.js';
 import { hhmi } from '../../backend/scopes.js';
 import { ScientistsList } from '../../components/ScientistList.js';
 import type { NormalizedScientist } from '../../backend/types.js';
@@ -12,7 +17,7 @@ import {
 import { handleInviteNewUser } from '../compliance.share/actionHelpers.server.js';
 import { z } from 'zod';
 import { zfd } from 'zod-form-data';
-import { data } from 'react-router';
+import { data, Link } from 'react-router';
 import type {
   ActionFunctionArgs,
   ClientLoaderFunctionArgs,
@@ -21,10 +26,15 @@ import type {
 
 interface LoaderData {
   scientists: Promise<NormalizedScientist[]>;
+  dataAsOf?: string;
+  drillDown?: ScientistDrillDown;
+  // set when the drill-down needs articles that have not been synced yet
+  notSynced?: boolean;
 }
 
 // Module-level cache for scientist data
 let scientistCache: NormalizedScientist[] | null = null;
+let dataAsOfCache: string | undefined;
 
 export const meta = () => {
   return [
@@ -35,26 +45,46 @@ export const meta = () => {
 
 export const loader = async (args: LoaderFunctionArgs): Promise<LoaderData> => {
   await withAppScopedContext(args, [hhmi.compliance.admin]);
-  const scientists = fetchAllScientists();
-  return { scientists };
+  const dataSource = await getComplianceDataSource();
+  const drillDown = getScientistDrillDown(new URL(args.request.url).searchParams);
+  let scientists = dataSource.fetchAllScientists();
+  const dataAsOf = await dataSource.getDataAsOf();
+  if (drillDown) {
+    // Drill-down from the analytics page, articles are only needed to filter by issue type or year
+    const articles =
+      drillDown.issueType || drillDown.year
+        ? await fetchAllArticlesCoveredByPolicy(dataSource)
+        : [];
+    if (!articles) {
+      return { scientists: Promise.resolve([]), dataAsOf, drillDown, notSynced: true };
+    }
+    scientists = scientists.then((all) => drillDownScientists(all, articles, drillDown));
+  }
+  return { scientists, dataAsOf, drillDown };
 };
 
 export const clientLoader = async (args: ClientLoaderFunctionArgs): Promise<LoaderData> => {
+  // Drill-downs are filtered on the server, only the full list is cached
+  if (getScientistDrillDown(new URL(args.request.url).searchParams)) {
+    return args.serverLoader<LoaderData>();
+  }
+
   // If we have cached data, return it immediately
   if (scientistCache !== null) {
-    return { scientists: Promise.resolve(scientistCache) };
+    return { scientists: Promise.resolve(scientistCache), dataAsOf: dataAsOfCache };
   }
 
   // No cache, call server loader
   const serverData = await args.serverLoader<LoaderData>();
 
   // Cache the scientist data vis fire and forget
+  dataAsOfCache = serverData.dataAsOf;
   serverData.scientists.then((resolvedScientists: any) => {
     scientistCache = resolvedScientists;
   });
 
   // Return the same promise structure
-  return { scientists: serverData.scientists };
+  return { scientists: serverData.scientists, dataAsOf: serverData.dataAsOf };
 };
 
 // Note: We intentionally do NOT set clientLoader.hydrate = true
@@ -187,8 +217,15 @@ export async function action(args: ActionFunctionArgs) {
   }
 }
 
+const DRILL_DOWN_LABELS: Record<keyof ScientistDrillDown, string> = {
+  program: 'Program',
+  institution: 'Institution',
+  issueType: 'Issue type',
+  year: 'Publishing year',
+};
+
 export default function CompliancePage({ loaderData }: { loaderData: LoaderData }) {
-  const { scientists } = loaderData;
+  const { scientists, dataAsOf, drillDown, notSynced } = loaderData;
 
   const breadcrumbs = [
     { label: 'Compliance', href: '/app/compliance' },
@@ -199,11 +236,31 @@ export default function CompliancePage({ loaderData }: { loaderData: LoaderData
     <MainWrapper>
       <PageFrame
         title="Compliance Dashboard"
-        description="View compliance data for any scientist in the compliance database"
+        description={`View compliance data for any scientist in the compliance database${dataAsOf ? `, data as of ${formatDate(dataAsOf, 'MMM d, yyyy h:mm a')}` : ''}`}
         className="mx-auto max-w-screen-lg"
         breadcrumbs={breadcrumbs}
       >
-        <ScientistsList scientists={scientists} />
+        {drillDown && (
+          <div className="flex flex-wrap gap-2 items-center mb-4 text-sm">
+            <span className="text-gray-500">Showing scientists from Compliance Analytics:</span>
+            {Object.entries(drillDown).map(([key, value]) => (
+              <ui.Badge key={key} variant="outline">
+                {DRILL_DOWN_LABELS[key as keyof ScientistDrillDown]}: {value}
+              </ui.Badge>
+            ))}
+            <Link to="/app/compliance/scientists" className="underline">
+              Show all scientists
+            </Link>
+          </div>
+        )}
+        {notSynced ? (
+          <p className="text-sm text-gray-500">
+            Compliance data has not been synced yet, scientists can be filtered by issue type or
+            year once the first sync of the Airtable mirror has completed.
+          </p>
+        ) : (
+          <ScientistsList scientists={scientists} />
+        )}
       </PageFrame>
     </MainWrapper>
   );
@@ -0,0 +1,23 @@
+import type { LoaderFunctionArgs } from 'react-router';
+import { error404, httpError } from '@curvenote/scms-core';
+import { withAppContext } from '@curvenote/scms-server';
+import { getSharedComplianceReportAccessError } from '../backend/access.server.js';
+import {
+  complianceExportResponse,
+  isComplianceExportFormat,
+} from '../backend/reportExport.server.js';
+
+/**
+ * Downloads a compliance dashboard shared with the current user as a PDF or CSV
+ */
+export async function loader(args: LoaderFunctionArgs) {
+  const ctx = await withAppContext(args);
+
+  const { orcid, format } = args.params;
+  if (!orcid || !isComplianceExportFormat(format)) throw error404();
+
+  const accessError = await getSharedComplianceReportAccessError(ctx.user.id, orcid);
+  if (accessError) throw httpError(403, accessError);
+
+  return complianceExportResponse(orcid, format);
+}
@@ -1,12 +1,12 @@
-import { fetchScientistByOrcid } from '../backend/airtable.scientists.server.js';
 import { PageFrame, ui } from '@curvenote/scms-core';
-import { withAppContext, getPrismaClient } from '@curvenote/scms-server';
+import { withAppContext } from '@curvenote/scms-server';
 import { ComplianceReport } from '../components/ComplianceReport.js';
-import { hhmi } from '../backend/scopes.js';
+import { getSharedComplianceReportAccessError } from '../backend/access.server.js';
 import {
   fetchEverythingCoveredByPolicy,
   fetchEverythingNotCoveredByPolicy,
-} from '../backend/airtable.server.js';
+  getComplianceDataSource,
+} from '../backend/dataSource.server.js';
 import type { LoaderFunctionArgs } from 'react-router';
 import type { NormalizedArticleRecord, NormalizedScientist } from '../backend/types.js';
 import { ComplianceInfoCards } from '../components/ComplianceInfoCards.js';
@@ -15,6 +15,7 @@ interface LoaderData {
   scientist?: NormalizedScientist;
   preprintsCovered: Promise<NormalizedArticleRecord[]>;
   preprintsNotCovered: Promise<NormalizedArticleRecord[]>;
+  dataAsOf?: string;
   error?: string;
   orcid: string;
 }
@@ -39,68 +40,28 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Loa
   if (!orcid) {
     return { error: 'ORCID is required' };
   }
-  const prisma = await getPrismaClient();
-
-  // Step 1: Find the user who owns this ORCID
-  const orcidOwner = await prisma.user.findFirst({
-    where: {
-      linkedAccounts: {
-        some: {
-          provider: 'orcid',
-          idAtProvider: orcid,
-          pending: false,
-        },
-      },
-    },
-    select: {
-      id: true,
-      username: true,
-      display_name: true,
-      email: true,
-    },
-  });
-
-  if (!orcidOwner) {
-    return {
-      scientist: null,
-      publications: await Promise.resolve([]),
-      error: 'No user found for this ORCID',
-      orcid,
-    };
-  }
-
-  // Step 2: Check if current user has been granted access to this user's compliance dashboard
-  const accessGrant = await prisma.access.findFirst({
-    where: {
-      owner_id: orcidOwner.id, // ORCID owner granted the access
-      receiver_id: ctx.user.id, // Current user is the receiver
-      type: 'user',
-      active: true,
-      grants: {
-        path: ['scopes'],
-        array_contains: [hhmi.compliance.read],
-      },
-    },
-  });
-
-  if (!accessGrant) {
+  const accessError = await getSharedComplianceReportAccessError(ctx.user.id, orcid);
+  if (accessError) {
     return {
       scientist: null,
       publications: await Promise.resolve([]),
-      error: 'Access denied: You do not have permission to view this compliance report',
+      error: accessError,
       orcid,
     };
   }
 
-  // Step 3: If authorized, fetch scientist and publications data (same as admin route)
-  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(orcid);
-  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(orcid);
-  const { scientist, error } = await fetchScientistByOrcid(orcid);
+  // If authorized, fetch scientist and publications data (same as admin route)
+  const dataSource = await getComplianceDataSource();
+  const preprintsCoveredPromise = fetchEverythingCoveredByPolicy(dataSource, orcid);
+  const preprintsNotCoveredPromise = fetchEverythingNotCoveredByPolicy(dataSource, orcid);
+  const { scientist, error } = await dataSource.fetchScientistByOrcid(orcid);
+  const dataAsOf = await dataSource.getDataAsOf();
 
   return {
     scientist,
     preprintsCovered: preprintsCoveredPromise,
     preprintsNotCovered: preprintsNotCoveredPromise,
+    dataAsOf,
     error,
     orcid,
   };
@@ -151,7 +112,8 @@ export default function UserComplianceReportPage({
       </PageFrame>
     );
   }
-  const { scientist, preprintsCovered, preprintsNotCovered, orcid } = loaderData as LoaderData;
+  const { scientist, preprintsCovered, preprintsNotCovered, dataAsOf, orcid } =
+    loaderData as LoaderData;
 
   // Determine title and breadcrumbs based on available data
   const title = scientist
@@ -176,6 +138,8 @@ export default function UserComplianceReportPage({
         scientist={scientist ?? undefined}
         articlesCovered={preprintsCovered}
         articlesNotCovered={preprintsNotCovered}
+        dataAsOf={dataAsOf}
+        exportUrl={`/app/compliance/shared/reports/${orcid}/export`}
         viewContext="shared"
         emptyMessageCovered={`No articles covered by policy found. Only publications since the later of ${scientist?.fullName || orcid}'s HHMI hire date or January 1, 2022 are displayed.`}
         emptyMessageNotCovered="No articles found."
@@ -13,7 +13,7 @@ import { getComplianceReportsSharedWith } from '../backend/access.server.js';
 import { ScientistListItem } from '../components/ScientistListItem.js';
 import { RequestDashboardForm } from '../components/RequestDashboardForm.js';
 import type { NormalizedScientist } from '../backend/types.js';
-import { fetchScientistByOrcid } from '../backend/airtable.scientists.server.js';
+import { getComplianceDataSource } from '../backend/dataSource.server.js';
 import {
   handleRequestDashboardShare,
   handleInviteNewUser,
@@ -127,13 +127,14 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Res
   const sharedReports = await getComplianceReportsSharedWith(ctx.user.id);
 
   // Fetch full scientist data for each shared report that has an ORCID
+  const dataSource = await getComplianceDataSource();
   const scientists: NormalizedScientist[] = [];
 
   await Promise.all(
     sharedReports.map(async (report) => {
       if (report.orcid) {
         try {
-          const { scientist } = await fetchScientistByOrcid(report.orcid);
+          const { scientist } = await dataSource.fetchScientistByOrcid(report.orcid);
           if (scientist) {
             scientists.push(scientist);
           }
@@ -6,7 +6,7 @@ import { withAppContext, userHasScopes } from '@curvenote/scms-server';
 import { buildComplianceMenu } from './menu.js';
 import myComplianceIcon from '../assets/my-compliance-lock.svg';
 import { getComplianceReportsSharedWith } from '../backend/access.server.js';
-import { checkScientistExistsByOrcid } from '../backend/airtable.scientists.server.js';
+import { getComplianceDataSource } from '../backend/dataSource.server.js';
 import { updateUserComplianceMetadata } from '../backend/actionHelpers.server.js';
 import { HHMITrackEvent } from '../analytics/events.js';
 import { hhmi } from '../backend/scopes.js';
@@ -33,7 +33,10 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
   let currentUserExistsInAirtable = false;
   let userComplianceRole = userData.compliance?.role;
   if (orcidAccount?.idAtProvider) {
-    currentUserExistsInAirtable = await checkScientistExistsByOrcid(orcidAccount.idAtProvider);
+    const dataSource = await getComplianceDataSource();
+    currentUserExistsInAirtable = await dataSource.checkScientistExistsByOrcid(
+      orcidAccount.idAtProvider,
+    );
     // If user exists in Airtable and role is not set, update their compliance metadata asynchronously
     if (currentUserExistsInAirtable && !userComplianceRole) {
       userComplianceRole = 'scientist';
@@ -60,6 +60,18 @@ export function buildComplianceMenu(
       icon: 'search',
       url: `${baseUrl}/scientists`,
     });
+    adminMenus.push({
+      name: 'compliance.analytics',
+      label: 'Compliance Analytics',
+      icon: 'layout-dashboard',
+      url: `${baseUrl}/analytics`,
+    });
+    adminMenus.push({
+      name: 'compliance.airtable-schema',
+      label: 'Airtable Schema',
+      icon: 'table',
+      url: `${baseUrl}/airtable-schema`,
+    });
   }
 
   return [
@@ -0,0 +1,41 @@
+import type { LoaderFunction } from 'react-router';
+import { data } from 'react-router';
+import { randomUUID } from 'node:crypto';
+import { withContext, jobs } from '@curvenote/scms-server';
+import { error404, error405 } from '@curvenote/scms-core';
+import { getJobs } from '../server.js';
+
+export const loader: LoaderFunction = async (args) => {
+  const ctx = await withContext(args, { noTokens: true });
+
+  // Verify the authorization header for Vercel cron security
+  const authHeader = args.request.headers.get('authorization');
+  const expectedSecret = ctx.$config.api.vercel?.cron?.secret;
+
+  if (!expectedSecret) {
+    console.error('Vercel cron secret not configured');
+    throw error404();
+  }
+
+  if (authHeader !== `Bearer ${expectedSecret}`) {
+    console.error('Invalid authorization header for compliance Airtable sync');
+    return data({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Create a new COMPLIANCE_AIRTABLE_SYNC job
+  await jobs.create(
+    ctx,
+    {
+      id: randomUUID(),
+      job_type: 'COMPLIANCE_AIRTABLE_SYNC',
+      payload: {},
+    },
+    getJobs(),
+  );
+
+  return { ok: true };
+};
+
+export function action() {
+  throw error405();
+}
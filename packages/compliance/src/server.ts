@@ -1,8 +1,27 @@
-import type { ServerExtension } from '@curvenote/scms-core';
+import type { JobRegistration, ServerExtension } from '@curvenote/scms-core';
 import { registerRoutes } from './routes.js';
 import { extension as clientExtension } from './client.js';
+import {
+  COMPLIANCE_AIRTABLE_SYNC,
+  complianceAirtableSyncHandler,
+} from './backend/jobs/compliance-airtable-sync.js';
+
+/**
+ * Returns job registrations for the compliance extension.
+ * @returns Array of job registrations
+ */
+export function getJobs(): JobRegistration[] {
+  return [
+    {
+      jobType: COMPLIANCE_AIRTABLE_SYNC,
+      handler: complianceAirtableSyncHandler,
+      requiresStorageBackend: false,
+    },
+  ];
+}
 
 export const extension: ServerExtension = {
   ...clientExtension,
+  getJobs,
   registerRoutes,
 };
@@ -166,3 +166,58 @@ export async function fetchRecordsByManuscriptIds(manuscriptIds: string[]) {
     fieldName: 'NIHMSID',
   });
 }
+
+const AIRTABLE_PAGE_SIZE = 100; // Airtable's maximum page size
+
+/**
+ * Fetch the PMC submission records modified in Airtable after the given time, keyed by NIHMSID
+ *
+ * Fields are returned by name to match the records from `fetchRecordsByManuscriptIds`.
+ */
+export async function fetchRecordsModifiedSince(
+  since: string,
+): Promise<Map<string, { id: string; fields: Record<string, any> }>> {
+  const apiKey = await getAirtableApiKey();
+  const baseId = await getAirtableBaseId();
+  const tableId = await getAirtablePmcSubmissionsTableId();
+
+  const baseUrl = `https://api.airtable.com/v0/${baseId}/${tableId}`;
+  const records = new Map<string, { id: string; fields: Record<string, any> }>();
+  let offset: string | undefined;
+
+  do {
+    const url = new URL(baseUrl);
+    url.searchParams.set('pageSize', AIRTABLE_PAGE_SIZE.toString());
+    url.searchParams.set(
+      'filterByFormula',
+      `IS_AFTER(LAST_MODIFIED_TIME(), DATETIME_PARSE('${new Date(since).toISOString()}'))`,
+    );
+    if (offset) {
+      url.searchParams.set('offset', offset);
+    }
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.error?.message || `Airtable API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data: { records: { id: string; fields: Record<string, any> }[]; offset?: string } =
+      await response.json();
+    data.records.forEach((record) => {
+      const manuscriptId = record.fields?.NIHMSID;
+      if (manuscriptId) records.set(String(manuscriptId), record);
+    });
+    offset = data.offset;
+  } while (offset);
+
+  return records;
+}
@@ -0,0 +1,86 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import type { AAMDepositManifest } from 'pmc-utils';
+import { checkManifestAgainstNIHMSRules, createDepositDryRunReport } from './dry-run.server.js';
+
+function createManifest(): AAMDepositManifest {
+  return {
+    taskId: 'work-version-123',
+    agency: 'hhmi',
+    files: [
+      {
+        filename: 'manuscript.docx',
+        type: 'manuscript',
+        path: 'https://storage.example.com/manuscript.docx',
+        label: 'Manuscript',
+        storage: 'bucket',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      },
+      {
+        filename: 'fig-1.png',
+        type: 'figure',
+        path: 'https://storage.example.com/fig-1.png',
+        label: 'Figure 1',
+        storage: 'bucket',
+        contentType: 'image/png',
+      },
+    ],
+    metadata: {
+      title: 'Cells',
+      journal: { issn: '1234-5678', issnType: 'print', title: 'Nature Methods' },
+      authors: [
+        { fname: 'Jane', lname: 'Doe', email: 'jane@example.com', contactType: 'reviewer' },
+      ],
+      grants: [{ funder: 'hhmi', id: 'GRANT-1' }],
+    },
+  } as AAMDepositManifest;
+}
+
+describe('checkManifestAgainstNIHMSRules', () => {
+  it('passes a complete manifest', () => {
+    expect(checkManifestAgainstNIHMSRules(createManifest())).toEqual([]);
+  });
+
+  it('requires a manuscript file', () => {
+    const manifest = createManifest();
+    manifest.files = manifest.files.filter((file) => file.type !== 'manuscript');
+    expect(checkManifestAgainstNIHMSRules(manifest)).toEqual([
+      { level: 'error', step: 'files', message: 'No manuscript file in the package' },
+    ]);
+  });
+
+  it('flags duplicate labels within a file type', () => {
+    const manifest = createManifest();
+    manifest.files.push({ ...manifest.files[1], filename: 'fig-2.png', label: 'figure 1' });
+    expect(checkManifestAgainstNIHMSRules(manifest)).toEqual([
+      { level: 'error', step: 'files', message: 'Duplicate figure label "figure 1"' },
+    ]);
+  });
+
+  it('flags incomplete contacts and missing grant ids', () => {
+    const manifest = createManifest();
+    manifest.metadata.authors[0].email = '';
+    manifest.metadata.grants[0].id = '';
+    expect(checkManifestAgainstNIHMSRules(manifest).map((issue) => issue.step)).toEqual([
+      'contacts',
+      'grants',
+    ]);
+  });
+});
+
+describe('createDepositDryRunReport', () => {
+  it('is only valid when there are no errors', () => {
+    const report = createDepositDryRunReport(
+      [{ level: 'warning', step: 'manifest', message: 'Label was generated' }],
+      createManifest(),
+    );
+    expect(report.valid).toBe(true);
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(1);
+    expect(report.files).toHaveLength(2);
+    expect(
+      createDepositDryRunReport([{ level: 'error', step: 'metadata', message: 'Missing title' }])
+        .valid,
+    ).toBe(false);
+  });
+});
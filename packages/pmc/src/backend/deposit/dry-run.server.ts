@@ -0,0 +1,115 @@
+import type { AAMDepositManifest } from 'pmc-utils';
+
+/**
+ * A problem found during a deposit dry run
+ */
+export interface DepositDryRunIssue {
+  level: 'error' | 'warning';
+  /** The deposit step that raised the issue, e.g. 'metadata', 'manifest', 'files' */
+  step: string;
+  message: string;
+}
+
+/**
+ * Report recorded in the job results of a dry run `PMC_DEPOSIT_FTP` job
+ */
+export interface DepositDryRunReport {
+  valid: boolean;
+  checkedAt: string;
+  errorCount: number;
+  warningCount: number;
+  issues: DepositDryRunIssue[];
+  journal?: AAMDepositManifest['metadata']['journal'];
+  contacts?: AAMDepositManifest['metadata']['authors'];
+  files?: Array<{ filename: string; type: string; label: string }>;
+  manifest?: AAMDepositManifest;
+}
+
+/**
+ * Checks a deposit manifest against the NIHMS bulk submission rules
+ *
+ * These are the problems that would otherwise only surface once NIHMS has rejected the
+ * package, the manifest builder itself already guarantees a resolved journal and unique
+ * filenames.
+ */
+export function checkManifestAgainstNIHMSRules(manifest: AAMDepositManifest): DepositDryRunIssue[] {
+  const issues: DepositDryRunIssue[] = [];
+  const { files, metadata } = manifest;
+
+  const manuscripts = files.filter((file) => file.type === 'manuscript');
+  if (manuscripts.length === 0) {
+    issues.push({ level: 'error', step: 'files', message: 'No manuscript file in the package' });
+  } else if (manuscripts.length > 1) {
+    issues.push({
+      level: 'warning',
+      step: 'files',
+      message: `${manuscripts.length} manuscript files in the package, NIHMS expects a single manuscript file`,
+    });
+  }
+
+  const seenLabels = new Set<string>();
+  files.forEach((file) => {
+    if (!file.label || file.label.trim() === '') {
+      issues.push({ level: 'error', step: 'files', message: `File ${file.filename} has no label` });
+      return;
+    }
+    const labelKey = `${file.type}:${file.label.trim().toLowerCase()}`;
+    if (seenLabels.has(labelKey)) {
+      issues.push({
+        level: 'error',
+        step: 'files',
+        message: `Duplicate ${file.type} label "${file.label}"`,
+      });
+    }
+    seenLabels.add(labelKey);
+  });
+
+  if (metadata.authors.length === 0) {
+    issues.push({ level: 'error', step: 'contacts', message: 'No contact for the deposit' });
+  }
+  metadata.authors.forEach((author) => {
+    if (!author.fname || !author.lname || !author.email) {
+      issues.push({
+        level: 'error',
+        step: 'contacts',
+        message: `The ${author.contactType} contact requires a first name, last name and email`,
+      });
+    }
+  });
+
+  if (metadata.grants.length === 0) {
+    issues.push({ level: 'error', step: 'grants', message: 'No grants for the deposit' });
+  }
+  metadata.grants.forEach((grant) => {
+    if (!grant.id || grant.id.trim() === '') {
+      issues.push({
+        level: 'error',
+        step: 'grants',
+        message: `Grant for funder ${grant.funder} has no ID`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Summarises the issues from a dry run into a report
+ */
+export function createDepositDryRunReport(
+  issues: DepositDryRunIssue[],
+  manifest?: AAMDepositManifest,
+): DepositDryRunReport {
+  const errorCount = issues.filter((issue) => issue.level === 'error').length;
+  return {
+    valid: errorCount === 0,
+    checkedAt: new Date().toISOString(),
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+    journal: manifest?.metadata.journal,
+    contacts: manifest?.metadata.authors,
+    files: manifest?.files.map(({ filename, type, label }) => ({ filename, type, label })),
+    manifest,
+  };
+}
@@ -0,0 +1,42 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { createDepositEventLog, getDepositJobEvents } from './event-log.server.js';
+
+describe('Deposit event log', () => {
+  it('records each step with its duration', () => {
+    const times = [1000, 1250, 1300, 2300];
+    const eventLog = createDepositEventLog(() => times.shift() as number);
+    eventLog.info('job created', { jobId: 'job-1' });
+    eventLog.warning('attempt failed', { attempt: 1 });
+    eventLog.error('deposit failed');
+    expect(eventLog.events).toEqual([
+      {
+        step: 'job created',
+        timestamp: new Date(1250).toISOString(),
+        durationMs: 250,
+        level: 'info',
+        payload: { jobId: 'job-1' },
+      },
+      {
+        step: 'attempt failed',
+        timestamp: new Date(1300).toISOString(),
+        durationMs: 50,
+        level: 'warning',
+        payload: { attempt: 1 },
+      },
+      {
+        step: 'deposit failed',
+        timestamp: new Date(2300).toISOString(),
+        durationMs: 1000,
+        level: 'error',
+      },
+    ]);
+  });
+
+  it('reads events from job results', () => {
+    const event = { step: 'manifest built', timestamp: '2025-01-01T00:00:00.000Z' };
+    expect(getDepositJobEvents({ events: [event, { nope: true }, null] })).toEqual([event]);
+    expect(getDepositJobEvents({ manifest: {} })).toEqual([]);
+    expect(getDepositJobEvents(null)).toEqual([]);
+  });
+});
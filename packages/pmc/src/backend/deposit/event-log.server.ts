@@ -0,0 +1,65 @@
+/**
+ * Structured event log for PMC deposit jobs
+ *
+ * Each step of a deposit run records an event which is saved in the job results under
+ * `events`, so the history of a deposit can be reviewed from the admin deposit page rather
+ * than from the server logs.
+ */
+
+/**
+ * A step of a deposit run
+ */
+export interface DepositJobEvent {
+  step: string;
+  /** ISO timestamp of when the step finished */
+  timestamp: string;
+  /** Time taken since the previous event, or since the run started for the first event */
+  durationMs: number;
+  level: 'info' | 'warning' | 'error';
+  /** Small, JSON serializable details of the step */
+  payload?: Record<string, unknown>;
+}
+
+export interface DepositEventLog {
+  events: DepositJobEvent[];
+  info: (step: string, payload?: Record<string, unknown>) => DepositJobEvent;
+  warning: (step: string, payload?: Record<string, unknown>) => DepositJobEvent;
+  error: (step: string, payload?: Record<string, unknown>) => DepositJobEvent;
+}
+
+/**
+ * Creates an empty event log, the clock is replaceable for testing
+ */
+export function createDepositEventLog(now: () => number = Date.now): DepositEventLog {
+  const events: DepositJobEvent[] = [];
+  let last = now();
+
+  const record =
+    (level: DepositJobEvent['level']) => (step: string, payload?: Record<string, unknown>) => {
+      const time = now();
+      const event: DepositJobEvent = {
+        step,
+        timestamp: new Date(time).toISOString(),
+        durationMs: time - last,
+        level,
+      };
+      if (payload) event.payload = payload;
+      last = time;
+      events.push(event);
+      return event;
+    };
+
+  return { events, info: record('info'), warning: record('warning'), error: record('error') };
+}
+
+/**
+ * Reads the events from the results of a deposit job, ignoring anything malformed
+ */
+export function getDepositJobEvents(results: unknown): DepositJobEvent[] {
+  const events = (results as { events?: unknown } | null | undefined)?.events;
+  if (!Array.isArray(events)) return [];
+  return events.filter(
+    (event): event is DepositJobEvent =>
+      !!event && typeof event.step === 'string' && typeof event.timestamp === 'string',
+  );
+}
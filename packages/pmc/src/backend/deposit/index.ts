@@ -0,0 +1,44 @@
+// Deposit transport system
+export type {
+  DepositTransport,
+  DepositTransportName,
+  DepositTransportMessage,
+  DepositTransportResult,
+  DepositManifestContributor,
+  DepositManifestEmbargo,
+  DepositPackageInfo,
+  PMCDepositManifest,
+} from './types.server.js';
+
+// Transports
+export { pubSubTransport } from './transports/pubsub.server.js';
+export { sftpTransport } from './transports/sftp.server.js';
+export { localTransport } from './transports/local.server.js';
+
+// Registry management
+export { getDepositTransport, getDepositTransportNames } from './registry.server.js';
+
+// Package building and dry runs
+export type { NIHMSPackage, PackageFileFetcher } from './package.server.js';
+export {
+  buildNIHMSPackage,
+  buildBulkMetaXml,
+  buildManifestTxt,
+  hashNIHMSPackage,
+} from './package.server.js';
+export type { DepositDryRunIssue, DepositDryRunReport } from './dry-run.server.js';
+export { checkManifestAgainstNIHMSRules, createDepositDryRunReport } from './dry-run.server.js';
+
+// Retries
+export type { DepositAttempt, DepositFailureKind, DepositRetryPolicy } from './retry.server.js';
+export {
+  TransientDepositError,
+  DepositRetryError,
+  classifyDepositError,
+  getDepositRetryPolicy,
+  withDepositRetry,
+} from './retry.server.js';
+
+// Job event log
+export type { DepositEventLog, DepositJobEvent } from './event-log.server.js';
+export { createDepositEventLog, getDepositJobEvents } from './event-log.server.js';
@@ -0,0 +1,213 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { unzipSync, strFromU8, strToU8 } from 'fflate';
+import {
+  buildBulkMetaXml,
+  buildManifestTxt,
+  buildNIHMSPackage,
+  escapeXml,
+  fetchManifestFile,
+  hashNIHMSPackage,
+  sortManifestFiles,
+} from './package.server.js';
+import { TransientDepositError } from './retry.server.js';
+import type { PMCDepositManifest } from './types.server.js';
+
+function createManifest(): PMCDepositManifest {
+  return {
+    taskId: 'work-version-123',
+    agency: 'hhmi',
+    doi: 'https://doi.org/10.1234/abc',
+    files: [
+      {
+        filename: 'supp.pdf',
+        type: 'supplement',
+        path: 'https://storage.example.com/supp.pdf',
+        label: 'Supplementary 1',
+        storage: 'bucket',
+        contentType: 'application/pdf',
+      },
+      {
+        filename: 'fig-2.png',
+        type: 'figure',
+        path: 'https://storage.example.com/fig-2.png',
+        label: 'Figure 2',
+        storage: 'bucket',
+        contentType: 'image/png',
+      },
+      {
+        filename: 'fig-1.png',
+        type: 'figure',
+        path: 'https://storage.example.com/fig-1.png',
+        label: 'Figure 1',
+        storage: 'bucket',
+        contentType: 'image/png',
+      },
+      {
+        filename: 'manuscript.docx',
+        type: 'manuscript',
+        path: 'https://storage.example.com/manuscript.docx',
+        label: 'Manuscript',
+        storage: 'bucket',
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      },
+    ],
+    metadata: {
+      title: 'Cells & <Things>',
+      journal: { issn: '1234-5678', issnType: 'print', title: 'Nature Methods' },
+      authors: [
+        { fname: 'Jane', lname: "O'Neil", email: 'jane@example.com', contactType: 'reviewer' },
+      ],
+      grants: [{ funder: 'hhmi', id: 'GRANT-1' }],
+    },
+  } as PMCDepositManifest;
+}
+
+const fetchFile = async (file: { filename: string }) => strToU8(`contents of ${file.filename}`);
+
+describe('NIHMS package', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`a & b < c > d "e" 'f'`)).toBe(
+      'a &amp; b &lt; c &gt; d &quot;e&quot; &apos;f&apos;',
+    );
+  });
+
+  it('sorts files by type and then filename', () => {
+    const sorted = sortManifestFiles(createManifest().files).map((f) => f.filename);
+    expect(sorted).toEqual(['manuscript.docx', 'fig-1.png', 'fig-2.png', 'supp.pdf']);
+  });
+
+  it('builds bulk_meta.xml from the manifest', () => {
+    const xml = buildBulkMetaXml(createManifest());
+    expect(xml).toContain('<title>Cells &amp; &lt;Things&gt;</title>');
+    expect(xml).toContain('<issn issn-type="print">1234-5678</issn>');
+    expect(xml).toContain('<journal-title>Nature Methods</journal-title>');
+    expect(xml).toContain('<manuscript doi="https://doi.org/10.1234/abc"/>');
+    expect(xml).toContain(
+      '<person fname="Jane" lname="O&apos;Neil" email="jane@example.com" person-type="reviewer"/>',
+    );
+    expect(xml).toContain('<grant funder="hhmi" id="GRANT-1"/>');
+    expect(xml).not.toContain('<authors>');
+    expect(xml).not.toContain('<embargo');
+  });
+
+  it('adds the publisher embargo to bulk_meta.xml', () => {
+    const manifest = createManifest();
+    manifest.metadata.embargo = { months: 6 };
+    expect(buildBulkMetaXml(manifest)).toContain('  <embargo months="6"/>\n</nihms-submit>');
+
+    manifest.metadata.embargo = { months: 6, releaseDate: '2026-07-01' };
+    expect(buildBulkMetaXml(manifest)).toContain(
+      '  <embargo months="6" release-date="2026-07-01"/>',
+    );
+  });
+
+  it('lists the authors with their ORCIDs and affiliations in bulk_meta.xml', () => {
+    const manifest = createManifest();
+    manifest.metadata.contributors = [
+      {
+        fname: 'Josiah',
+        lname: 'Carberry',
+        orcid: 'https://orcid.org/0000-0002-1825-0097',
+        affiliations: [
+          { name: 'Brown University', ror: 'https://ror.org/05gq02987' },
+          { name: 'Pots & Cracks Lab' },
+        ],
+      },
+      { lname: 'Consortium', affiliations: [] },
+    ];
+    const xml = buildBulkMetaXml(manifest);
+    expect(xml).toContain(
+      [
+        '  <authors>',
+        '    <author fname="Josiah" lname="Carberry" orcid="https://orcid.org/0000-0002-1825-0097">',
+        '      <affiliation ror="https://ror.org/05gq02987">Brown University</affiliation>',
+        '      <affiliation>Pots &amp; Cracks Lab</affiliation>',
+        '    </author>',
+        '    <author lname="Consortium"/>',
+        '  </authors>',
+      ].join('\n'),
+    );
+    expect(xml.indexOf('<authors>')).toBeLessThan(xml.indexOf('<contacts>'));
+  });
+
+  it('builds a tab separated manifest.txt', () => {
+    expect(buildManifestTxt(createManifest())).toBe(
+      [
+        'manuscript\tManuscript\tmanuscript.docx',
+        'figure\tFigure 1\tfig-1.png',
+        'figure\tFigure 2\tfig-2.png',
+        'supplement\tSupplementary 1\tsupp.pdf',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('builds a zip with metadata and all files', async () => {
+    const nihmsPackage = await buildNIHMSPackage(createManifest(), fetchFile);
+    expect(nihmsPackage.filename).toBe('work-version-123.zip');
+    expect(nihmsPackage.entries).toEqual([
+      'bulk_meta.xml',
+      'manifest.txt',
+      'manuscript.docx',
+      'fig-1.png',
+      'fig-2.png',
+      'supp.pdf',
+    ]);
+    const unzipped = unzipSync(nihmsPackage.data);
+    expect(Object.keys(unzipped)).toEqual(nihmsPackage.entries);
+    expect(strFromU8(unzipped['fig-1.png'])).toBe('contents of fig-1.png');
+  });
+
+  it('builds identical packages for the same manifest', async () => {
+    const first = await buildNIHMSPackage(createManifest(), fetchFile);
+    const second = await buildNIHMSPackage(createManifest(), fetchFile);
+    expect(Buffer.from(first.data).equals(Buffer.from(second.data))).toBe(true);
+  });
+
+  it('hashes a package so a rebuilt package can be checked against the delivered one', async () => {
+    const delivered = hashNIHMSPackage(await buildNIHMSPackage(createManifest(), fetchFile));
+    expect(delivered).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashNIHMSPackage(await buildNIHMSPackage(createManifest(), fetchFile))).toBe(delivered);
+
+    const changed = createManifest();
+    changed.metadata.title = 'A different title';
+    expect(hashNIHMSPackage(await buildNIHMSPackage(changed, fetchFile))).not.toBe(delivered);
+  });
+
+  it('rejects files that clash with the package metadata files', async () => {
+    const manifest = createManifest();
+    manifest.files[0].filename = 'bulk_meta.xml';
+    await expect(buildNIHMSPackage(manifest, fetchFile)).rejects.toThrow(
+      'File name bulk_meta.xml is reserved in the PMC package',
+    );
+  });
+});
+
+describe('fetchManifestFile', () => {
+  const file = createManifest().files[0];
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads the file from its signed URL', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('pdf')));
+    expect(strFromU8(await fetchManifestFile(file))).toBe('pdf');
+  });
+
+  it('throws network failures and server errors as transient', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('socket hang up')));
+    await expect(fetchManifestFile(file)).rejects.toBeInstanceOf(TransientDepositError);
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 503 })));
+    await expect(fetchManifestFile(file)).rejects.toBeInstanceOf(TransientDepositError);
+  });
+
+  it('throws other failed responses as permanent', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 403 })));
+    const error = await fetchManifestFile(file).catch((err) => err);
+    expect(error).not.toBeInstanceOf(TransientDepositError);
+    expect(error.message).toContain('Failed to download supp.pdf for the PMC package: 403');
+  });
+});
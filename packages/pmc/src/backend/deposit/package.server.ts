@@ -0,0 +1,234 @@
+import { createHash } from 'node:crypto';
+import { zipSync } from 'fflate';
+import type { AAMDepositManifest } from 'pmc-utils';
+import type { PMCDepositManifest } from './types.server.js';
+import { TransientDepositError } from './retry.server.js';
+
+/**
+ * NIHMS bulk submission package builder
+ *
+ * Builds the zip that is delivered to the NIHMS bulk submission endpoint from an
+ * `AAMDepositManifest`. The package contains:
+ *
+ * - `bulk_meta.xml` - the submission metadata (title, journal, authors, contacts, grants, embargo)
+ * - `manifest.txt` - one tab separated line per file: type, label and filename
+ * - the manuscript, figures, tables and supplementary files
+ *
+ * Entries are ordered and timestamped consistently so the same manifest always produces
+ * a byte-identical package, which lets us diff exactly what was sent to PMC.
+ */
+
+export const BULK_META_FILENAME = 'bulk_meta.xml';
+export const MANIFEST_FILENAME = 'manifest.txt';
+
+// Zip entries carry a timestamp, use a fixed one so packages are reproducible
+const PACKAGE_MTIME = new Date('2000-01-01T12:00:00Z');
+
+const FILE_TYPE_ORDER: AAMDepositManifest['files'][number]['type'][] = [
+  'manuscript',
+  'figure',
+  'table',
+  'supplement',
+];
+
+export type ManifestFile = AAMDepositManifest['files'][number];
+
+/**
+ * Fetches the contents of a file listed in the manifest
+ */
+export type PackageFileFetcher = (file: ManifestFile) => Promise<Uint8Array>;
+
+export interface NIHMSPackage {
+  /** Suggested filename for the zip, based on the manifest task ID */
+  filename: string;
+  /** Names of the entries in the zip, in order */
+  entries: string[];
+  data: Uint8Array;
+}
+
+/**
+ * SHA-256 digest of the package zip, recorded on the deposit job so that a package rebuilt
+ * later can be checked against the one that was delivered
+ */
+export function hashNIHMSPackage(nihmsPackage: NIHMSPackage): string {
+  return createHash('sha256').update(nihmsPackage.data).digest('hex');
+}
+
+/**
+ * Escapes text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xmlAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeXml(value as string)}"`)
+    .join('');
+}
+
+/**
+ * Sorts manifest files into package order, manuscript first, then figures, tables and supplements
+ */
+export function sortManifestFiles(files: ManifestFile[]): ManifestFile[] {
+  return [...files].sort((a, b) => {
+    const typeOrder = FILE_TYPE_ORDER.indexOf(a.type) - FILE_TYPE_ORDER.indexOf(b.type);
+    if (typeOrder !== 0) return typeOrder;
+    return a.filename.localeCompare(b.filename);
+  });
+}
+
+/**
+ * Builds the `bulk_meta.xml` document for a deposit manifest
+ */
+export function buildBulkMetaXml(manifest: PMCDepositManifest): string {
+  const { title, journal, authors, grants, contributors, embargo } = manifest.metadata;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE nihms-submit SYSTEM "nihms-submit.dtd">',
+    '<nihms-submit>',
+    `  <title>${escapeXml(title)}</title>`,
+    '  <journal-meta>',
+    `    <issn${xmlAttributes({ 'issn-type': journal.issnType })}>${escapeXml(journal.issn)}</issn>`,
+    `    <journal-title>${escapeXml(journal.title)}</journal-title>`,
+    '  </journal-meta>',
+  ];
+
+  if (manifest.doi) {
+    lines.push(`  <manuscript${xmlAttributes({ doi: manifest.doi })}/>`);
+  }
+
+  if (contributors && contributors.length > 0) {
+    lines.push('  <authors>');
+    contributors.forEach((contributor) => {
+      const attributes = xmlAttributes({
+        fname: contributor.fname,
+        lname: contributor.lname,
+        orcid: contributor.orcid,
+      });
+      if (contributor.affiliations.length === 0) {
+        lines.push(`    <author${attributes}/>`);
+        return;
+      }
+      lines.push(`    <author${attributes}>`);
+      contributor.affiliations.forEach((affiliation) => {
+        lines.push(
+          `      <affiliation${xmlAttributes({ ror: affiliation.ror })}>${escapeXml(affiliation.name)}</affiliation>`,
+        );
+      });
+      lines.push('    </author>');
+    });
+    lines.push('  </authors>');
+  }
+
+  lines.push('  <contacts>');
+  authors.forEach((author) => {
+    lines.push(
+      `    <person${xmlAttributes({
+        fname: author.fname,
+        lname: author.lname,
+        email: author.email,
+        'person-type': author.contactType,
+      })}/>`,
+    );
+  });
+  lines.push('  </contacts>');
+
+  lines.push('  <grants>');
+  grants.forEach((grant) => {
+    lines.push(`    <grant${xmlAttributes({ funder: grant.funder, id: grant.id })}/>`);
+  });
+  lines.push('  </grants>');
+
+  if (embargo) {
+    lines.push(
+      `  <embargo${xmlAttributes({
+        months: String(embargo.months),
+        'release-date': embargo.releaseDate,
+      })}/>`,
+    );
+  }
+
+  lines.push('</nihms-submit>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds the `manifest.txt` listing for a deposit manifest
+ */
+export function buildManifestTxt(manifest: AAMDepositManifest): string {
+  return sortManifestFiles(manifest.files)
+    .map((file) => [file.type, file.label, file.filename].join('\t'))
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Default file fetcher, downloads the file from the signed URL in the manifest
+ *
+ * Network failures and server errors from storage are thrown as `TransientDepositError` so the
+ * deposit is retried, any other failed response is permanent.
+ */
+export const fetchManifestFile: PackageFileFetcher = async (file) => {
+  const failed = `Failed to download ${file.filename} for the PMC package`;
+  let response: Response;
+  try {
+    response = await fetch(file.path);
+  } catch (err: any) {
+    throw new TransientDepositError(`${failed}: ${err.message}`, { cause: err });
+  }
+  if (!response.ok) {
+    const message = `${failed}: ${response.status} ${response.statusText}`;
+    if (response.status >= 500 || response.status === 429) throw new TransientDepositError(message);
+    throw new Error(message);
+  }
+  try {
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (err: any) {
+    throw new TransientDepositError(`${failed}: ${err.message}`, { cause: err });
+  }
+};
+
+/**
+ * Builds the NIHMS bulk submission zip for a deposit manifest
+ *
+ * @param manifest - The deposit manifest, as built by `buildAAMDepositManifest`
+ * @param fetchFile - Fetches the contents of each file, defaults to downloading the signed URL
+ * @returns The zip data and the list of entries it contains
+ */
+export async function buildNIHMSPackage(
+  manifest: PMCDepositManifest,
+  fetchFile: PackageFileFetcher = fetchManifestFile,
+): Promise<NIHMSPackage> {
+  const encoder = new TextEncoder();
+  const files = sortManifestFiles(manifest.files);
+
+  const entries: [string, Uint8Array][] = [
+    [BULK_META_FILENAME, encoder.encode(buildBulkMetaXml(manifest))],
+    [MANIFEST_FILENAME, encoder.encode(buildManifestTxt(manifest))],
+  ];
+  for (const file of files) {
+    if (file.filename === BULK_META_FILENAME || file.filename === MANIFEST_FILENAME) {
+      throw new Error(`File name ${file.filename} is reserved in the PMC package`);
+    }
+    entries.push([file.filename, await fetchFile(file)]);
+  }
+
+  const data = zipSync(
+    Object.fromEntries(
+      entries.map(([name, content]) => [name, [content, { mtime: PACKAGE_MTIME }]]),
+    ),
+  );
+
+  return {
+    filename: `${manifest.taskId}.zip`,
+    entries: entries.map(([name]) => name),
+    data,
+  };
+}
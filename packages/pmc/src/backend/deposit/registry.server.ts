@@ -0,0 +1,30 @@
+import type { Context } from '@curvenote/scms-core';
+import type { DepositTransport, DepositTransportName } from './types.server.js';
+import { pubSubTransport } from './transports/pubsub.server.js';
+import { sftpTransport } from './transports/sftp.server.js';
+import { localTransport } from './transports/local.server.js';
+
+const DEPOSIT_TRANSPORTS: Record<DepositTransportName, DepositTransport> = {
+  pubsub: pubSubTransport,
+  sftp: sftpTransport,
+  local: localTransport,
+};
+
+/**
+ * Get the deposit transport selected in the app-config, defaults to Pub/Sub
+ */
+export function getDepositTransport(ctx: Context): DepositTransport {
+  const name: string = ctx.$config.app.extensions?.pmc?.depositService?.transport ?? 'pubsub';
+  const transport = DEPOSIT_TRANSPORTS[name as DepositTransportName];
+  if (!transport) {
+    throw new Error(`Unknown PMC deposit transport: ${name}`);
+  }
+  return transport;
+}
+
+/**
+ * Get all available deposit transport names
+ */
+export function getDepositTransportNames(): DepositTransportName[] {
+  return Object.keys(DEPOSIT_TRANSPORTS) as DepositTransportName[];
+}
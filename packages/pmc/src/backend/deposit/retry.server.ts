@@ -0,0 +1,165 @@
+import type { Context } from '@curvenote/scms-core';
+
+/**
+ * Retry handling for PMC deposits
+ *
+ * Failures are classified as either:
+ *
+ * - `transient` - the deposit may succeed if tried again, e.g. a Pub/Sub publish error,
+ *   a storage signing error or a dropped SFTP connection
+ * - `permanent` - the deposit cannot succeed without someone fixing it, e.g. missing
+ *   metadata or a journal that is not in the PMC journal list
+ *
+ * Transient failures are retried with exponential backoff until the retry budget is used up,
+ * only permanent failures or an exhausted budget move the deposit to `DEPOSIT_FAILED`.
+ */
+
+export type DepositFailureKind = 'transient' | 'permanent';
+
+/**
+ * Thrown by deposit steps for failures that are worth retrying
+ */
+export class TransientDepositError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'TransientDepositError';
+    this.cause = options?.cause;
+  }
+}
+
+// Network error codes from node and gRPC status codes (UNAVAILABLE, DEADLINE_EXCEEDED,
+// RESOURCE_EXHAUSTED, ABORTED) that indicate a failure is worth retrying
+const TRANSIENT_ERROR_CODES = new Set<string | number>([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  14,
+  4,
+  8,
+  10,
+]);
+
+/**
+ * Classifies a deposit error as transient or permanent, anything not known to be
+ * transient is treated as permanent so it is not retried
+ */
+export function classifyDepositError(err: unknown): DepositFailureKind {
+  if (err instanceof TransientDepositError) return 'transient';
+  const code = (err as { code?: string | number } | undefined)?.code;
+  if (code !== undefined && TRANSIENT_ERROR_CODES.has(code)) return 'transient';
+  return 'permanent';
+}
+
+export interface DepositRetryPolicy {
+  /** Total number of attempts, including the first */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled for each retry after that */
+  baseDelayMs: number;
+  /** Upper limit on the delay between attempts */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_DEPOSIT_RETRY_POLICY: DepositRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Get the retry policy from the app-config `depositService.retry` settings, falling back
+ * to the defaults for anything not set
+ */
+export function getDepositRetryPolicy(ctx: Context): DepositRetryPolicy {
+  const retry = ctx.$config.app.extensions?.pmc?.depositService?.retry ?? {};
+  return {
+    maxAttempts: Math.max(1, retry.maxAttempts ?? DEFAULT_DEPOSIT_RETRY_POLICY.maxAttempts),
+    baseDelayMs: retry.baseDelayMs ?? DEFAULT_DEPOSIT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: retry.maxDelayMs ?? DEFAULT_DEPOSIT_RETRY_POLICY.maxDelayMs,
+  };
+}
+
+/**
+ * Delay to wait after a failed attempt (1-based) before trying again
+ */
+export function getDepositRetryDelay(policy: DepositRetryPolicy, attempt: number): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Record of a failed deposit attempt, stored on the job results
+ */
+export interface DepositAttempt {
+  attempt: number;
+  startedAt: string;
+  failedAt: string;
+  kind: DepositFailureKind;
+  error: string;
+  /** Delay before the next attempt, not set when the deposit will not be retried */
+  retryInMs?: number;
+}
+
+/**
+ * Error thrown once a deposit will no longer be retried
+ */
+export class DepositRetryError extends Error {
+  readonly kind: DepositFailureKind;
+  readonly attempts: DepositAttempt[];
+  readonly cause: unknown;
+
+  constructor(cause: unknown, kind: DepositFailureKind, attempts: DepositAttempt[]) {
+    const message = (cause as Error | undefined)?.message ?? String(cause);
+    super(
+      kind === 'transient' ? `${message} (gave up after ${attempts.length} attempts)` : message,
+    );
+    this.name = 'DepositRetryError';
+    this.cause = cause;
+    this.kind = kind;
+    this.attempts = attempts;
+  }
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs a deposit, retrying transient failures with exponential backoff
+ *
+ * @param policy - The retry budget and backoff
+ * @param run - The deposit, called with the attempt number (1-based)
+ * @param onAttemptFailed - Called after every failed attempt, e.g. to log it on the job
+ * @param sleep - Waits between attempts, replaceable for testing
+ * @returns The result of the first successful attempt
+ * @throws DepositRetryError for a permanent failure or once the retry budget is used up
+ */
+export async function withDepositRetry<T>(
+  policy: DepositRetryPolicy,
+  run: (attempt: number) => Promise<T>,
+  onAttemptFailed?: (attempt: DepositAttempt, attempts: DepositAttempt[]) => Promise<void>,
+  sleep: (ms: number) => Promise<void> = wait,
+): Promise<T> {
+  const attempts: DepositAttempt[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = new Date().toISOString();
+    try {
+      return await run(attempt);
+    } catch (err: any) {
+      const kind = classifyDepositError(err);
+      const willRetry = kind === 'transient' && attempt < policy.maxAttempts;
+      const record: DepositAttempt = {
+        attempt,
+        startedAt,
+        failedAt: new Date().toISOString(),
+        kind,
+        error: err?.message ?? String(err),
+        retryInMs: willRetry ? getDepositRetryDelay(policy, attempt) : undefined,
+      };
+      attempts.push(record);
+      await onAttemptFailed?.(record, attempts);
+      if (!willRetry) throw new DepositRetryError(err, kind, attempts);
+      await sleep(record.retryInMs as number);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { DepositTransport } from '../types.server.js';
+import { buildNIHMSPackage, hashNIHMSPackage } from '../package.server.js';
+
+const DEFAULT_OUTBOX_DIRECTORY = '.pmc-outbox';
+
+/**
+ * Writes the deposit into a local "outbox" directory instead of sending it anywhere
+ *
+ * Each deposit is written to `<directory>/<taskId>/` as the NIHMS package zip alongside the
+ * manifest and attributes, and is treated as delivered, so the whole DRAFT to DEPOSITED path
+ * can be exercised in dev and CI without Pub/Sub or SFTP credentials. The package is still built
+ * from the signed URLs in the manifest, so the StorageBackend must be configured.
+ */
+export const localTransport: DepositTransport = {
+  name: 'local',
+  description: 'Write the deposit to a local outbox directory',
+  send: async (ctx, { manifest, attributes }) => {
+    const directory =
+      ctx.$config.app.extensions?.pmc?.depositService?.local?.directory ?? DEFAULT_OUTBOX_DIRECTORY;
+
+    const nihmsPackage = await buildNIHMSPackage(manifest);
+
+    const depositDirectory = path.resolve(directory, manifest.taskId);
+    await mkdir(depositDirectory, { recursive: true });
+    await writeFile(
+      path.join(depositDirectory, 'manifest.json'),
+      JSON.stringify(manifest, null, 2),
+      'utf-8',
+    );
+    await writeFile(
+      path.join(depositDirectory, 'attributes.json'),
+      JSON.stringify(attributes, null, 2),
+      'utf-8',
+    );
+    await writeFile(path.join(depositDirectory, nihmsPackage.filename), nihmsPackage.data);
+
+    console.log(`PMC Deposit: written to local outbox ${depositDirectory}`);
+
+    return {
+      transport: 'local',
+      reference: depositDirectory,
+      completed: true,
+      package: { filename: nihmsPackage.filename, sha256: hashNIHMSPackage(nihmsPackage) },
+    };
+  },
+};
@@ -0,0 +1,39 @@
+import { PubSub } from '@google-cloud/pubsub';
+import type { DepositTransport } from '../types.server.js';
+import { TransientDepositError } from '../retry.server.js';
+
+/**
+ * Publishes the deposit manifest to a Google Pub/Sub topic, packaging and upload to
+ * the NIHMS bulk endpoint is then done by the deposit Cloud Run function which reports
+ * back via the `statusUrl` and `jobUrl` callbacks
+ */
+export const pubSubTransport: DepositTransport = {
+  name: 'pubsub',
+  description: 'Publish the deposit manifest to Google Pub/Sub for the deposit service',
+  send: async (ctx, { manifest, attributes }) => {
+    const depositService = ctx.$config.app.extensions?.pmc?.depositService;
+    if (!depositService) throw new Error('PMC deposit service configuration not found');
+
+    const { projectId, topic, secretKeyfile } = depositService;
+    if (!projectId || !topic || !secretKeyfile) {
+      throw new Error('PMC deposit service Pub/Sub configuration incomplete');
+    }
+
+    const pubSubClient = new PubSub({
+      projectId: projectId,
+      credentials: JSON.parse(secretKeyfile),
+    });
+
+    let messageId: string;
+    try {
+      messageId = await pubSubClient.topic(topic).publishMessage({
+        data: Buffer.from(JSON.stringify(manifest), 'utf-8'),
+        attributes,
+      });
+    } catch (err: any) {
+      throw new TransientDepositError(`Pub/Sub publish failed: ${err.message}`, { cause: err });
+    }
+
+    return { transport: 'pubsub', reference: messageId, completed: false };
+  },
+};
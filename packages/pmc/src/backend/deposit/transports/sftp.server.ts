@@ -0,0 +1,60 @@
+import SftpClient from 'ssh2-sftp-client';
+import type { DepositTransport } from '../types.server.js';
+import { buildNIHMSPackage, hashNIHMSPackage } from '../package.server.js';
+import { TransientDepositError } from '../retry.server.js';
+
+const DEFAULT_SFTP_PORT = 22;
+
+/**
+ * Builds the NIHMS bulk submission package in-process and uploads it directly to the
+ * NIHMS bulk submission SFTP endpoint
+ *
+ * The upload is complete once the file is on the server, NIHMS reports back on the
+ * outcome of the deposit by email which is picked up by the inbound email handlers.
+ */
+export const sftpTransport: DepositTransport = {
+  name: 'sftp',
+  description: 'Upload the deposit directly to the NIHMS bulk submission SFTP endpoint',
+  send: async (ctx, { manifest }) => {
+    const sftpConfig = ctx.$config.app.extensions?.pmc?.depositService?.sftp;
+    if (!sftpConfig) throw new Error('PMC deposit service SFTP configuration not found');
+
+    const { host, port, username, password, privateKey, directory } = sftpConfig;
+    if (!host || !username || (!password && !privateKey)) {
+      throw new Error('PMC deposit service SFTP configuration incomplete');
+    }
+
+    const remoteDirectory = (directory ?? '').replace(/\/+$/, '');
+    // Downloads from storage that fail intermittently are thrown as transient by the package builder
+    const nihmsPackage = await buildNIHMSPackage(manifest);
+    const remotePath = `${remoteDirectory}/${nihmsPackage.filename}`;
+
+    const sftp = new SftpClient();
+    try {
+      await sftp.connect({
+        host,
+        port: port ?? DEFAULT_SFTP_PORT,
+        username,
+        password,
+        privateKey,
+      });
+      if (remoteDirectory) await sftp.mkdir(remoteDirectory, true);
+      await sftp.put(Buffer.from(nihmsPackage.data), remotePath);
+    } catch (err: any) {
+      throw new TransientDepositError(`SFTP upload to ${host} failed: ${err.message}`, {
+        cause: err,
+      });
+    } finally {
+      await sftp.end().catch(() => undefined);
+    }
+
+    console.log(`PMC Deposit: uploaded to sftp://${host}${remotePath}`);
+
+    return {
+      transport: 'sftp',
+      reference: remotePath,
+      completed: true,
+      package: { filename: nihmsPackage.filename, sha256: hashNIHMSPackage(nihmsPackage) },
+    };
+  },
+};
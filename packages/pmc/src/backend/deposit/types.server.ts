@@ -0,0 +1,92 @@
+import type { Context } from '@curvenote/scms-core';
+import type { AAMDepositManifest } from 'pmc-utils';
+
+/**
+ * Names of the available deposit transports, as used in the app-config
+ * `app.extensions.pmc.depositService.transport` setting
+ */
+export type DepositTransportName = 'pubsub' | 'sftp' | 'local';
+
+/**
+ * An author of the publication as sent in the deposit manifest, separate from the
+ * `metadata.authors` contacts that NIHMS uses to reach the reviewer and PI
+ */
+export interface DepositManifestContributor {
+  fname?: string;
+  lname: string;
+  orcid?: string;
+  affiliations: Array<{ name: string; ror?: string }>;
+}
+
+/**
+ * The publisher embargo as sent in the deposit manifest, the release date is only known
+ * for an embargo in months once the article has been published
+ */
+export interface DepositManifestEmbargo {
+  months: number;
+  releaseDate?: string;
+}
+
+/**
+ * The deposit manifest extended with the full author list and embargo of the publication
+ */
+export type PMCDepositManifest = AAMDepositManifest & {
+  metadata: AAMDepositManifest['metadata'] & {
+    contributors?: DepositManifestContributor[];
+    embargo?: DepositManifestEmbargo;
+  };
+};
+
+/**
+ * A deposit ready to be handed over to a transport
+ */
+export interface DepositTransportMessage {
+  manifest: PMCDepositManifest;
+  /** Callback and state information used to complete the deposit */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Result of handing a deposit over to a transport
+ */
+export interface DepositTransportResult {
+  transport: DepositTransportName;
+  /** Transport specific reference, e.g. a Pub/Sub message ID or the path written to */
+  reference: string;
+  /**
+   * true if the deposit was delivered in-process and no callback will follow,
+   * false if an external service will report back via the `statusUrl` and `jobUrl` attributes
+   */
+  completed: boolean;
+  /** The NIHMS package that was delivered, for transports that build it in-process */
+  package?: DepositPackageInfo;
+}
+
+/**
+ * The NIHMS package delivered by a transport
+ */
+export interface DepositPackageInfo {
+  filename: string;
+  /** SHA-256 digest of the zip, see `hashNIHMSPackage` */
+  sha256: string;
+}
+
+/**
+ * Interface that all deposit transports must implement
+ */
+export interface DepositTransport {
+  /** Unique identifier for this transport */
+  name: DepositTransportName;
+
+  /** Description of how this transport delivers a deposit */
+  description: string;
+
+  /**
+   * Delivers the deposit
+   * @param ctx Application context
+   * @param message The manifest and attributes for the deposit
+   * @returns Transport result
+   * @throws TransientDepositError for failures that may succeed if the deposit is retried
+   */
+  send: (ctx: Context, message: DepositTransportMessage) => Promise<DepositTransportResult>;
+}
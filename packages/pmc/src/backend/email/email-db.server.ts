@@ -109,6 +109,21 @@ export async function updateMessageStatus(
   });
 }
 
+/**
+ * Record that an email names a manuscript ID no submission is known by, so it is queued for an
+ * admin to link to the right deposit
+ */
+export async function markMessageUnmatched(
+  ctx: Context,
+  messageId: string,
+  manuscriptId: string,
+  processor: string,
+): Promise<void> {
+  await updateMessageStatus(ctx, messageId, 'IGNORED', {
+    unmatched: { manuscriptId, processor, status: 'open' },
+  });
+}
+
 /**
  * Updates submission version metadata with email processing results
  * Now supports per-type processing records
@@ -120,6 +135,7 @@ export async function updateSubmissionVersionMetadata(
   messageId: string,
   targetStatus?: string, // Optional - only provided when the result of processing points clearly to a status
   processor: string = 'bulk-submission-initial-email', // Default for backward compatibility
+  fromStatus?: string, // Optional - the status before the transition, when it has already been run
 ): Promise<void> {
   const prisma = await getPrismaClient();
 
@@ -148,7 +164,7 @@ export async function updateSubmissionVersionMetadata(
           | 'error',
         message: emailResult.message || '',
         timestamp: new Date().toISOString(),
-        fromStatus: submissionVersion.status,
+        fromStatus: fromStatus ?? submissionVersion.status,
         toStatus: targetStatus ?? submissionVersion.status, // Fallback to current status if targetStatus is null/undefined
         messageId,
         processor, // Include the processor that created this message
@@ -6,6 +6,7 @@ import type {
   ProcessingResult,
 } from '../types.server.js';
 import {
+  markMessageUnmatched,
   updateMessageStatus,
   updateSubmissionMetadataAndStatusIfChanged,
 } from '../email-db.server.js';
@@ -188,6 +189,7 @@ export const catchAllHandler: InboundEmailHandler = {
           } else {
             console.log(`No matching submissions found for manuscript ID: ${manuscriptId}`);
             // Don't add this as an error - it's normal for catch-all to not find matches
+            await markMessageUnmatched(ctx, messageId, manuscriptId, 'catch-all');
           }
         } catch (searchError) {
           // Log the error but don't fail the entire process
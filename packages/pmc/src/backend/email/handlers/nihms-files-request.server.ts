@@ -8,6 +8,7 @@ import type {
   ProcessingResult,
 } from '../types.server.js';
 import {
+  markMessageUnmatched,
   updateMessageStatus,
   updateSubmissionMetadataAndStatusIfChanged,
   updateSubmissionStatusOnReceivingEmail,
@@ -270,6 +271,7 @@ export const nihmsFilesRequestHandler: InboundEmailHandler = {
           originalSubject: subject,
           manuscriptId,
         });
+        await markMessageUnmatched(ctx, messageId, manuscriptId, 'nihms-files-request');
         return {
           messageId,
           status: 'IGNORED',
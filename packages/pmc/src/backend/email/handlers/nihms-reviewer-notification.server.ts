@@ -0,0 +1,300 @@
+import { getWorkflow } from '@curvenote/scms-core';
+import type { Context, WorkflowRegistration } from '@curvenote/scms-core';
+import { getPrismaClient, sites, SiteContext } from '@curvenote/scms-server';
+import { getWorkflows } from '../../../client.js';
+import {
+  checkTransitionGuards,
+  runWorkflowTransition,
+  TransitionGuardError,
+} from '../../transitions/index.js';
+import type {
+  InboundEmailHandler,
+  EmailProcessorConfig,
+  EmailValidationResult,
+  ProcessingResult,
+} from '../types.server.js';
+import { markMessageUnmatched, updateSubmissionVersionMetadata } from '../email-db.server.js';
+import { extractManuscriptId } from './email-parsing-utils.server.js';
+
+/**
+ * A NIHMS notification about the review of a manuscript and the workflow transition it drives
+ */
+export interface ReviewerNotification {
+  /** Handler name, also the key of its configuration */
+  name: string;
+  description: string;
+  /** Case-insensitive patterns, the notification is identified if the subject matches one */
+  subjectPatterns: string[];
+  /** Name of the `PMC_DEPOSIT_WORKFLOW` transition to run */
+  transition: string;
+}
+
+export const REVIEWER_NOTIFICATIONS: ReviewerNotification[] = [
+  {
+    name: 'nihms-reviewer-rejected',
+    description: 'Handles NIHMS emails saying the reviewer rejected the initial submission',
+    subjectPatterns: [
+      'reviewer (has )?(rejected|returned)',
+      '(rejected|returned) by (the )?reviewer',
+    ],
+    transition: 'reviewer_reject_initial',
+  },
+  {
+    name: 'nihms-reviewer-approved-initial',
+    description: 'Handles NIHMS emails saying the reviewer approved the initial submission',
+    // An approval of the final version is not an initial approval
+    subjectPatterns: [
+      '^(?!.*\\bfinal\\b).*(reviewer (has )?approved|approved by (the )?reviewer)',
+      'initial (submission|version) (has been )?approved',
+    ],
+    transition: 'reviewer_approve_initial',
+  },
+  {
+    name: 'nihms-final-approval-requested',
+    description: 'Handles NIHMS emails asking the reviewer to approve the converted manuscript',
+    subjectPatterns: [
+      'final (approval|review) (is )?(requested|required|needed)',
+      'ready for (your )?final (approval|review)',
+      'please (review|approve) the (final|PMC)',
+    ],
+    transition: 'nihms_conversion_complete',
+  },
+  {
+    name: 'nihms-available-in-pmc',
+    description: 'Handles NIHMS emails saying the manuscript is available in PMC',
+    subjectPatterns: [
+      'available (in|on) (PMC|PubMed Central)',
+      'released (to|in) (PMC|PubMed Central)',
+    ],
+    transition: 'publish_to_pmc',
+  },
+];
+
+/**
+ * Result of parsing a NIHMS reviewer notification email
+ */
+export interface ReviewerNotificationParsedResult {
+  from: string;
+  subject: string;
+  cleanSubject: string;
+  manuscriptId: string | null;
+  notification: string;
+  transition: string;
+}
+
+/**
+ * Check if a subject matches one of the patterns of a notification
+ */
+export function matchesReviewerNotification(
+  subject: string | undefined,
+  notification: ReviewerNotification,
+): boolean {
+  if (!subject) return false;
+  return notification.subjectPatterns.some((pattern) => new RegExp(pattern, 'i').test(subject));
+}
+
+/**
+ * Parses the manuscript ID of a reviewer notification from its subject or, if not there, its body
+ */
+export function parseReviewerNotificationEmail(
+  payload: any,
+  notification: ReviewerNotification,
+): ReviewerNotificationParsedResult {
+  const { envelope, headers, plain, html } = payload;
+  const from = envelope?.from || 'unknown';
+  const subject = headers?.subject || 'no subject';
+  const cleanSubject = subject.replace(/^((Fw|Re|Fwd):\s*)+/gi, '').trim();
+
+  return {
+    from,
+    subject,
+    cleanSubject,
+    manuscriptId: extractManuscriptId(subject) ?? extractManuscriptId(plain || html || ''),
+    notification: notification.name,
+    transition: notification.transition,
+  };
+}
+
+/**
+ * Create the handler for a reviewer notification
+ *
+ * The handler finds the deposit with the manuscript ID and runs the workflow transition of the
+ * notification, so the deposit status follows NIHMS as the emails arrive rather than at the next
+ * workflow sync. Deposits that are not in the source state of the transition are left for the
+ * workflow sync to catch up.
+ */
+export function createReviewerNotificationHandler(
+  notification: ReviewerNotification,
+): InboundEmailHandler {
+  const processor = notification.name;
+
+  const ignore = (
+    messageId: string,
+    reason: string,
+    parsedResult: ReviewerNotificationParsedResult,
+  ): ProcessingResult => ({
+    messageId,
+    status: 'IGNORED',
+    processedDeposits: 0,
+    errors: [reason],
+    processor,
+    parsedResult: { ...parsedResult, reason },
+  });
+
+  return {
+    name: notification.name,
+    description: notification.description,
+
+    identify(payload: any): boolean {
+      return matchesReviewerNotification(payload?.headers?.subject, notification);
+    },
+
+    validate(payload: any): EmailValidationResult {
+      const { headers, plain, html } = payload;
+      if (!headers?.subject) {
+        return { isValid: false, reason: 'Missing required email fields (headers.subject)' };
+      }
+      if (!matchesReviewerNotification(headers.subject, notification)) {
+        return { isValid: false, reason: `Subject does not match ${notification.name}` };
+      }
+      if (!extractManuscriptId(headers.subject) && !(plain || html || '').trim()) {
+        return { isValid: false, reason: 'Email has no content to parse' };
+      }
+      return { isValid: true };
+    },
+
+    async process(ctx: Context, payload: any, messageId: string): Promise<ProcessingResult> {
+      const parsedResult = parseReviewerNotificationEmail(payload, notification);
+      const { manuscriptId, cleanSubject } = parsedResult;
+
+      try {
+        if (!manuscriptId) {
+          return ignore(messageId, 'No NIHMS manuscript ID found in email content', parsedResult);
+        }
+
+        const prisma = await getPrismaClient();
+        const match = await prisma.submissionVersion.findFirst({
+          where: {
+            metadata: {
+              path: ['pmc', 'emailProcessing', 'manuscriptId'],
+              equals: manuscriptId,
+            },
+          },
+          orderBy: { date_created: 'desc' },
+          select: { id: true, submission: { select: { site: { select: { name: true } } } } },
+        });
+        const submissionVersion = match
+          ? await sites.submissions.versions.dbGetSubmissionVersion({ id: match.id })
+          : null;
+        if (!match || !submissionVersion) {
+          await markMessageUnmatched(ctx, messageId, manuscriptId, notification.name);
+          return ignore(
+            messageId,
+            `No submission found for NIHMS manuscript ID: ${manuscriptId}`,
+            parsedResult,
+          );
+        }
+
+        const extensionWorkflows: WorkflowRegistration[] = [getWorkflows()];
+        const workflow = getWorkflow(
+          ctx.$config,
+          extensionWorkflows,
+          submissionVersion.submission.collection.workflow,
+        );
+        const transition = workflow?.transitions.find((t) => t.name === notification.transition);
+        if (!workflow || !transition) {
+          throw new Error(
+            `Unknown transition ${notification.transition} [workflow: ${workflow?.name ?? 'unknown'}]`,
+          );
+        }
+        // A repeated email, or the workflow sync got there first
+        if (submissionVersion.status === transition.targetStateName) {
+          return ignore(
+            messageId,
+            `Submission ${submissionVersion.id} is already in ${transition.targetStateName} status`,
+            parsedResult,
+          );
+        }
+        if (transition.sourceStateName !== submissionVersion.status) {
+          return ignore(
+            messageId,
+            `Submission ${submissionVersion.id} is in ${submissionVersion.status} status, ${transition.name} needs ${transition.sourceStateName}`,
+            parsedResult,
+          );
+        }
+
+        // Check the guards before the message is recorded against the transition
+        const issues = await checkTransitionGuards(ctx, submissionVersion, transition);
+        if (issues.length > 0) {
+          return ignore(
+            messageId,
+            new TransitionGuardError(transition, issues).message,
+            parsedResult,
+          );
+        }
+
+        const siteName = match.submission.site.name;
+        const site = await sites.dbGetSite(siteName);
+        if (!site) throw new Error(`Site not found: ${siteName}`);
+        const { hookErrors } = await runWorkflowTransition(
+          new SiteContext(ctx, site),
+          submissionVersion,
+          workflow,
+          transition,
+        );
+
+        // Recorded once the transition has succeeded, so the message never claims a status change
+        // that did not happen
+        await updateSubmissionVersionMetadata(
+          ctx,
+          submissionVersion.work_version_id,
+          {
+            packageId: submissionVersion.work_version_id,
+            manuscriptId,
+            status: 'success',
+            message: cleanSubject,
+          },
+          messageId,
+          transition.targetStateName,
+          processor,
+          transition.sourceStateName,
+        );
+
+        return {
+          messageId,
+          status: 'SUCCESS',
+          processedDeposits: 1,
+          errors: hookErrors,
+          processor,
+          parsedResult: { ...parsedResult, submissionVersionId: submissionVersion.id },
+        };
+      } catch (error) {
+        if (error instanceof TransitionGuardError) {
+          return ignore(messageId, error.message, parsedResult);
+        }
+        return {
+          messageId,
+          status: 'ERROR',
+          processedDeposits: 0,
+          errors: [error instanceof Error ? error.message : 'Unknown processing error'],
+          processor,
+          parsedResult,
+        };
+      }
+    },
+  };
+}
+
+export const reviewerNotificationHandlers: InboundEmailHandler[] = REVIEWER_NOTIFICATIONS.map(
+  createReviewerNotificationHandler,
+);
+
+/**
+ * Configuration for each reviewer notification handler, keyed by handler name
+ */
+export const reviewerNotificationConfigs: Record<string, EmailProcessorConfig> = Object.fromEntries(
+  REVIEWER_NOTIFICATIONS.map(({ name, subjectPatterns }) => [
+    name,
+    { subjectPatterns, enabled: true },
+  ]),
+);
@@ -32,6 +32,13 @@ export {
   nihmsFilesRequestHandler,
   nihmsFilesRequestConfig,
 } from './handlers/nihms-files-request.server.js';
+export {
+  REVIEWER_NOTIFICATIONS,
+  createReviewerNotificationHandler,
+  reviewerNotificationHandlers,
+  reviewerNotificationConfigs,
+} from './handlers/nihms-reviewer-notification.server.js';
+export type { ReviewerNotification } from './handlers/nihms-reviewer-notification.server.js';
 
 // Email validation functions (legacy)
 export {
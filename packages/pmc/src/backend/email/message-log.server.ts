@@ -0,0 +1,211 @@
+import type { Context } from '@curvenote/scms-core';
+import { getPrismaClient } from '@curvenote/scms-server';
+import type { Prisma } from '@prisma/client';
+import type { SubmissionVersionMetadataWithPMC } from '../../common/metadata.schema.js';
+import { processInboundEmail } from './email-processor.server.js';
+import { updateMessageStatus } from './email-db.server.js';
+import { pmcEmailProcessorRegistry } from './types.server.js';
+import type { ProcessingResult } from './types.server.js';
+import type { UnmatchedEmailRecord } from './unmatched-emails.server.js';
+
+export const MESSAGE_STATUSES: ProcessingResult['status'][] = [
+  'PENDING',
+  'SUCCESS',
+  'PARTIAL',
+  'ERROR',
+  'IGNORED',
+  'BOUNCED',
+];
+
+export const MESSAGE_LOG_PAGE_SIZE = 25;
+
+export interface MessageLogFilters {
+  processor?: string;
+  status?: string;
+  page?: number;
+}
+
+export interface LinkedDeposit {
+  submissionId: string;
+  submissionVersionId: string;
+  title: string;
+  status: string;
+}
+
+export interface InboundEmailLogItem {
+  id: string;
+  date_created: string;
+  status: string;
+  from: string;
+  subject: string;
+  processor?: string;
+  reason?: string;
+  errors: string[];
+  parsedResult?: unknown;
+  reprocessedAs?: string;
+  reprocessedFrom?: string;
+  deposits: LinkedDeposit[];
+}
+
+/**
+ * Read the filters of the message log from the search params of a request, unknown statuses are
+ * dropped so they cannot reach the query
+ */
+export function getMessageLogFilters(searchParams: URLSearchParams): MessageLogFilters {
+  const status = searchParams.get('status') ?? undefined;
+  const page = Number.parseInt(searchParams.get('page') ?? '', 10);
+  return {
+    processor: searchParams.get('processor') || undefined,
+    status: status && (MESSAGE_STATUSES as string[]).includes(status) ? status : undefined,
+    page: Number.isFinite(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * Build the query for PMC inbound emails matching the filters
+ */
+export function getMessageLogWhere({
+  processor,
+  status,
+}: MessageLogFilters): Prisma.MessageWhereInput {
+  return {
+    module: 'PMC',
+    type: 'inbound_email',
+    ...(status ? { status } : {}),
+    ...(processor ? { results: { path: ['processor'], equals: processor } } : {}),
+  };
+}
+
+/**
+ * The payload as CloudMailin sent it, without the schema added when it was stored
+ */
+export function getOriginalPayload(payload: Prisma.JsonValue): Record<string, any> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, ...original } = (payload ?? {}) as Record<string, any>;
+  return original;
+}
+
+/**
+ * Get the names of the processors that can be filtered on
+ */
+export function getMessageLogProcessors(): string[] {
+  return pmcEmailProcessorRegistry.getAllProcessorNames();
+}
+
+/**
+ * Find the deposits each message was recorded against, every message a handler records on a
+ * deposit is kept in the `emailProcessing.messages` of its submission version metadata
+ */
+async function findLinkedDeposits(messageIds: string[]): Promise<Map<string, LinkedDeposit[]>> {
+  const linked = new Map<string, LinkedDeposit[]>();
+  if (messageIds.length === 0) return linked;
+
+  const prisma = await getPrismaClient();
+  const versions = await prisma.submissionVersion.findMany({
+    where: {
+      OR: messageIds.map((messageId) => ({
+        metadata: {
+          path: ['pmc', 'emailProcessing', 'messages'],
+          array_contains: [{ messageId }],
+        },
+      })),
+    },
+    select: {
+      id: true,
+      status: true,
+      submission_id: true,
+      metadata: true,
+      work_version: { select: { title: true } },
+    },
+  });
+
+  const wanted = new Set(messageIds);
+  for (const version of versions) {
+    const messages =
+      (version.metadata as SubmissionVersionMetadataWithPMC | null)?.pmc?.emailProcessing
+        ?.messages ?? [];
+    const ids = new Set(messages.map((message) => message.messageId));
+    for (const messageId of ids) {
+      if (!wanted.has(messageId)) continue;
+      linked.set(messageId, [
+        ...(linked.get(messageId) ?? []),
+        {
+          submissionId: version.submission_id,
+          submissionVersionId: version.id,
+          title: version.work_version.title || 'Untitled',
+          status: version.status,
+        },
+      ]);
+    }
+  }
+  return linked;
+}
+
+/**
+ * List a page of PMC inbound emails, newest first, with the deposits they were recorded against
+ */
+export async function listInboundEmailMessages(filters: MessageLogFilters) {
+  const prisma = await getPrismaClient();
+  const where = getMessageLogWhere(filters);
+  const page = filters.page ?? 1;
+
+  const [total, messages] = await Promise.all([
+    prisma.message.count({ where }),
+    prisma.message.findMany({
+      where,
+      orderBy: { date_created: 'desc' },
+      skip: (page - 1) * MESSAGE_LOG_PAGE_SIZE,
+      take: MESSAGE_LOG_PAGE_SIZE,
+    }),
+  ]);
+  const deposits = await findLinkedDeposits(messages.map((message) => message.id));
+
+  const items: InboundEmailLogItem[] = messages.map((message) => {
+    const results = (message.results ?? {}) as Record<string, any>;
+    return {
+      id: message.id,
+      date_created: message.date_created,
+      status: message.status,
+      from: results.from ?? 'unknown',
+      subject: results.subject ?? 'no subject',
+      processor: results.processor,
+      reason: results.reason ?? results.validation?.reason ?? results.error,
+      errors: results.errors ?? [],
+      parsedResult: results.parsedResult,
+      reprocessedAs: results.reprocessedAs,
+      reprocessedFrom: results.reprocessedFrom,
+      deposits: deposits.get(message.id) ?? [],
+    };
+  });
+
+  return { items, total, page, pageSize: MESSAGE_LOG_PAGE_SIZE };
+}
+
+/**
+ * Run a stored email through `processInboundEmail` again, e.g. after a parser fix
+ *
+ * The email is processed as if it had just arrived, so it gets a new message record. The two
+ * records are linked to each other and the original keeps its status. An original still waiting
+ * to be linked to a deposit is closed when the new record succeeds.
+ */
+export async function reprocessInboundEmail(ctx: Context, messageId: string) {
+  const prisma = await getPrismaClient();
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, module: 'PMC', type: 'inbound_email' },
+  });
+  if (!message) throw new Error(`Cannot find inbound email [id: ${messageId}]`);
+
+  const result = await processInboundEmail(ctx, getOriginalPayload(message.payload));
+  if (result.messageId !== 'unknown') {
+    await updateMessageStatus(ctx, result.messageId, result.status, { reprocessedFrom: messageId });
+  }
+  const { unmatched } = (message.results ?? {}) as { unmatched?: UnmatchedEmailRecord };
+  await updateMessageStatus(ctx, messageId, message.status as ProcessingResult['status'], {
+    reprocessedAs: result.messageId,
+    reprocessedAt: new Date().toISOString(),
+    ...(unmatched?.status === 'open' && result.status === 'SUCCESS'
+      ? { unmatched: { ...unmatched, status: 'reprocessed' } satisfies UnmatchedEmailRecord }
+      : {}),
+  });
+  return result;
+}
@@ -5,11 +5,19 @@ import {
   nihmsFilesRequestHandler,
   nihmsFilesRequestConfig,
 } from './handlers/nihms-files-request.server.js';
+import {
+  reviewerNotificationHandlers,
+  reviewerNotificationConfigs,
+} from './handlers/nihms-reviewer-notification.server.js';
 
 /**
  * Initialize the PMC email processor registry with all available handlers
  */
 export function initializeEmailProcessorRegistry(): void {
+  // Register NIHMS reviewer notification handlers, one per notification type. They go first as
+  // their subjects also mention the manuscript, which the bulk submission handler picks up
+  reviewerNotificationHandlers.forEach((handler) => pmcEmailProcessorRegistry.register(handler));
+
   // Register bulk submission handler
   pmcEmailProcessorRegistry.register(bulkSubmissionHandler);
 
@@ -20,7 +28,6 @@ export function initializeEmailProcessorRegistry(): void {
   pmcEmailProcessorRegistry.register(catchAllHandler);
 
   // Future email types can be registered here
-  // pmcEmailProcessorRegistry.register(reviewerNotificationHandler);
   // pmcEmailProcessorRegistry.register(adminNotificationHandler);
 }
 
@@ -31,6 +38,7 @@ export function getDefaultEmailProcessorConfigs(): Record<string, any> {
   return {
     'bulk-submission-initial-email': bulkSubmissionConfig,
     'nihms-files-request': nihmsFilesRequestConfig,
+    ...reviewerNotificationConfigs,
     'catch-all': catchAllConfig,
     // Future email processor configs can be added here
   };
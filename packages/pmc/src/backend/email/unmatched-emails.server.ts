@@ -0,0 +1,258 @@
+import type { Context } from '@curvenote/scms-core';
+import { getPrismaClient } from '@curvenote/scms-server';
+import type { Prisma } from '@prisma/client';
+import type { SubmissionVersionMetadataWithPMC } from '../../common/metadata.schema.js';
+import { safelyUpdatePMCSubmissionVersionMetadata } from '../submission-version-metadata.utils.server.js';
+import { updateMessageStatus, updateSubmissionVersionMetadata } from './email-db.server.js';
+import { getOriginalPayload } from './message-log.server.js';
+import { pmcEmailProcessorRegistry } from './types.server.js';
+import type { ProcessingResult } from './types.server.js';
+
+export const DEPOSIT_SEARCH_LIMIT = 20;
+
+/**
+ * Recorded in the results of an inbound email when a handler found a manuscript ID that no
+ * submission version is known by
+ */
+export interface UnmatchedEmailRecord {
+  manuscriptId: string;
+  processor: string;
+  /** `reprocessed` when the email was reprocessed successfully instead of being linked */
+  status: 'open' | 'linked' | 'reprocessed';
+  submissionVersionId?: string;
+  linkedAt?: string;
+  linkedBy?: string;
+}
+
+export interface UnmatchedEmailItem {
+  id: string;
+  date_created: string;
+  from: string;
+  subject: string;
+  manuscriptId: string;
+  processor: string;
+}
+
+export interface DepositSearchResult {
+  submissionId: string;
+  submissionVersionId: string;
+  title: string;
+  status: string;
+  manuscriptId?: string;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Build the query for PMC inbound emails still waiting to be linked to a deposit
+ */
+export function getUnmatchedEmailsWhere(): Prisma.MessageWhereInput {
+  return {
+    module: 'PMC',
+    type: 'inbound_email',
+    results: { path: ['unmatched', 'status'], equals: 'open' },
+  };
+}
+
+/**
+ * Build the query for deposits on a site matching what an admin typed, a submission or submission
+ * version id is matched exactly and anything else is matched against the title
+ */
+export function getDepositSearchWhere(
+  siteName: string,
+  query: string,
+): Prisma.SubmissionVersionWhereInput {
+  const term = query.trim();
+  return {
+    submission: { site: { name: siteName } },
+    ...(UUID_REGEX.test(term)
+      ? { OR: [{ id: term }, { submission_id: term }] }
+      : { work_version: { title: { contains: term, mode: 'insensitive' } } }),
+  };
+}
+
+/**
+ * Get the unmatched record of an inbound email, if a handler left one
+ */
+export function getUnmatchedRecord(results: Prisma.JsonValue): UnmatchedEmailRecord | undefined {
+  const unmatched = (results as Record<string, any> | null)?.unmatched;
+  if (!unmatched?.manuscriptId || !unmatched?.processor) return undefined;
+  return unmatched as UnmatchedEmailRecord;
+}
+
+/**
+ * List the inbound emails waiting to be linked to a deposit, oldest first so the queue is worked
+ * through in the order the emails arrived
+ */
+export async function listUnmatchedEmails(): Promise<UnmatchedEmailItem[]> {
+  const prisma = await getPrismaClient();
+  const messages = await prisma.message.findMany({
+    where: getUnmatchedEmailsWhere(),
+    orderBy: { date_created: 'asc' },
+  });
+
+  return messages.flatMap((message) => {
+    const results = (message.results ?? {}) as Record<string, any>;
+    const unmatched = getUnmatchedRecord(message.results);
+    if (!unmatched) return [];
+    return [
+      {
+        id: message.id,
+        date_created: message.date_created,
+        from: results.from ?? 'unknown',
+        subject: results.subject ?? 'no subject',
+        manuscriptId: unmatched.manuscriptId,
+        processor: unmatched.processor,
+      },
+    ];
+  });
+}
+
+/**
+ * Search the deposits on a site that an unmatched email could be linked to
+ */
+export async function searchDepositsForLinking(
+  siteName: string,
+  query: string,
+): Promise<DepositSearchResult[]> {
+  if (!query.trim()) return [];
+  const prisma = await getPrismaClient();
+  const versions = await prisma.submissionVersion.findMany({
+    where: getDepositSearchWhere(siteName, query),
+    orderBy: { date_created: 'desc' },
+    take: DEPOSIT_SEARCH_LIMIT,
+    select: {
+      id: true,
+      status: true,
+      submission_id: true,
+      metadata: true,
+      work_version: { select: { title: true } },
+    },
+  });
+
+  return versions.map((version) => ({
+    submissionId: version.submission_id,
+    submissionVersionId: version.id,
+    title: version.work_version.title || 'Untitled',
+    status: version.status,
+    manuscriptId: (version.metadata as SubmissionVersionMetadataWithPMC | null)?.pmc
+      ?.emailProcessing?.manuscriptId,
+  }));
+}
+
+/**
+ * Link an unmatched email to a deposit
+ *
+ * The manuscript ID from the email is recorded on the submission version, then the email is run
+ * through the handler that first received it, which now finds the deposit and makes the same
+ * status and metadata update it would have made had the ID been known. When the handler does not
+ * succeed the manuscript ID is removed again, so the email can be linked to another deposit.
+ */
+export async function linkUnmatchedEmail(
+  ctx: Context,
+  siteName: string,
+  messageId: string,
+  submissionVersionId: string,
+): Promise<ProcessingResult> {
+  const prisma = await getPrismaClient();
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, module: 'PMC', type: 'inbound_email' },
+  });
+  if (!message) throw new Error(`Cannot find inbound email [id: ${messageId}]`);
+  const unmatched = getUnmatchedRecord(message.results);
+  if (!unmatched || unmatched.status !== 'open') {
+    throw new Error(`Inbound email is not waiting to be linked [id: ${messageId}]`);
+  }
+
+  const handler = pmcEmailProcessorRegistry.getHandler(unmatched.processor);
+  if (!handler) throw new Error(`Unknown email processor: ${unmatched.processor}`);
+
+  const submissionVersion = await prisma.submissionVersion.findFirst({
+    where: { id: submissionVersionId, submission: { site: { name: siteName } } },
+    select: { id: true, work_version_id: true, metadata: true },
+  });
+  if (!submissionVersion) {
+    throw new Error(`Cannot find PMC deposit [id: ${submissionVersionId}]`);
+  }
+  const existing = (submissionVersion.metadata as SubmissionVersionMetadataWithPMC | null)?.pmc
+    ?.emailProcessing?.manuscriptId;
+  if (existing && existing !== unmatched.manuscriptId) {
+    throw new Error(
+      `Deposit already has NIHMS manuscript ID ${existing}, cannot link manuscript ID ${unmatched.manuscriptId}`,
+    );
+  }
+  const claimed = await prisma.submissionVersion.findFirst({
+    where: {
+      id: { not: submissionVersion.id },
+      metadata: {
+        path: ['pmc', 'emailProcessing', 'manuscriptId'],
+        equals: unmatched.manuscriptId,
+      },
+    },
+    select: { id: true },
+  });
+  if (claimed) {
+    throw new Error(
+      `NIHMS manuscript ID ${unmatched.manuscriptId} is already recorded on deposit ${claimed.id}, reprocess the email instead`,
+    );
+  }
+
+  if (!existing) {
+    await updateSubmissionVersionMetadata(
+      ctx,
+      submissionVersion.work_version_id,
+      {
+        packageId: submissionVersion.work_version_id,
+        manuscriptId: unmatched.manuscriptId,
+        status: 'success',
+        message: `NIHMS manuscript ID ${unmatched.manuscriptId} linked by ${ctx.user?.email ?? 'an admin'}`,
+      },
+      messageId,
+      undefined,
+      'manual-link',
+    );
+  }
+
+  let result: ProcessingResult;
+  try {
+    result = await handler.process(ctx, getOriginalPayload(message.payload), messageId);
+  } catch (error) {
+    if (!existing) await unlinkManuscriptId(submissionVersion.id);
+    throw error;
+  }
+  // the email stays open when processing did not succeed so it can be linked again
+  if (result.status !== 'SUCCESS' && !existing) await unlinkManuscriptId(submissionVersion.id);
+  const linked: UnmatchedEmailRecord =
+    result.status === 'SUCCESS'
+      ? {
+          ...unmatched,
+          status: 'linked',
+          submissionVersionId: submissionVersion.id,
+          linkedAt: new Date().toISOString(),
+          linkedBy: ctx.user?.id,
+        }
+      : unmatched;
+  await updateMessageStatus(ctx, messageId, result.status, {
+    processor: result.processor,
+    processedDeposits: result.processedDeposits,
+    parsedResult: result.parsedResult,
+    errors: result.errors,
+    unmatched: linked,
+  });
+  return result;
+}
+
+/**
+ * Remove a manuscript ID recorded by `linkUnmatchedEmail`, keeping the processing messages
+ */
+async function unlinkManuscriptId(submissionVersionId: string) {
+  const result = await safelyUpdatePMCSubmissionVersionMetadata(submissionVersionId, (pmc) => {
+    if (!pmc.emailProcessing) return pmc;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { manuscriptId, ...emailProcessing } = pmc.emailProcessing;
+    return { ...pmc, emailProcessing };
+  });
+  if (!('success' in result)) {
+    throw new Error(`Failed to remove the linked manuscript ID [id: ${submissionVersionId}]`);
+  }
+}
@@ -0,0 +1,86 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from '@curvenote/scms-core';
+import type {
+  ArticleIds,
+  IdConverterAdapter,
+  IdConverterResponse,
+} from './services/ncbi-id-converter.js';
+import {
+  DEFAULT_ID_CONVERTER_SOURCE,
+  createNCBIIdConverter,
+  createRecordedIdConverter,
+  normalizeArticleId,
+} from './services/ncbi-id-converter.js';
+
+interface IdConverterConfig {
+  source?: string;
+  tool?: string;
+  email?: string;
+}
+
+export interface PublicationIdQuery {
+  doi?: string;
+  manuscriptId?: string;
+}
+
+export type ResolvedPublicationIds = Pick<ArticleIds, 'pmid' | 'pmcid'>;
+
+function getIdConverterConfig(ctx: Context): IdConverterConfig | undefined {
+  return ctx.$config.app.extensions?.pmc?.idConverter;
+}
+
+/**
+ * PMID and PMCID are only looked up when the ID converter is set in the app-config
+ */
+export function isIdResolutionConfigured(ctx: Context): boolean {
+  return !!getIdConverterConfig(ctx);
+}
+
+/**
+ * Get the ID converter adapter, the NCBI service or, when the source is a local file path, the
+ * responses recorded in that file, e.g. src/data/ncbi-idconv.fixture.json for local development
+ */
+export async function getIdConverter(ctx: Context): Promise<IdConverterAdapter> {
+  const { source = DEFAULT_ID_CONVERTER_SOURCE, tool, email } = getIdConverterConfig(ctx) ?? {};
+  if (/^https?:\/\//.test(source)) return createNCBIIdConverter({ url: source, tool, email });
+  const recorded = JSON.parse(await readFile(path.resolve(source), 'utf8'));
+  return createRecordedIdConverter(recorded as IdConverterResponse | IdConverterResponse[]);
+}
+
+/**
+ * Look up the PMID and PMCID of publications from their NIHMS manuscript ID or DOI
+ *
+ * The manuscript ID is preferred, the DOI is used when the converter does not know the manuscript.
+ * Every query is answered in a single pass, so a batch of deposits costs a request per ID type.
+ *
+ * @returns The IDs found for each query, in the order of the queries
+ */
+export async function resolvePublicationIds(
+  ctx: Context,
+  queries: PublicationIdQuery[],
+  adapter?: IdConverterAdapter,
+): Promise<Array<ResolvedPublicationIds | undefined>> {
+  const candidates = queries.map(({ manuscriptId, doi }) =>
+    [manuscriptId, doi].filter((id): id is string => !!id?.trim()).map(normalizeArticleId),
+  );
+  const ids = candidates.flat();
+  if (ids.length === 0) return queries.map(() => undefined);
+
+  const converter = adapter ?? (await getIdConverter(ctx));
+  const found = new Map<string, ArticleIds>();
+  (await converter.convert(ids)).forEach((articleIds) => {
+    found.set(articleIds.requestedId.toLowerCase(), articleIds);
+  });
+
+  return candidates.map((queryIds) => {
+    const match = queryIds
+      .map((id) => found.get(id.toLowerCase()))
+      .find((articleIds) => articleIds?.pmid || articleIds?.pmcid);
+    if (!match) return undefined;
+    return {
+      ...(match.pmid ? { pmid: match.pmid } : {}),
+      ...(match.pmcid ? { pmcid: match.pmcid } : {}),
+    };
+  });
+}
@@ -0,0 +1,156 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Context, CreateJob } from '@curvenote/scms-core';
+import { getPrismaClient, jobs } from '@curvenote/scms-server';
+import { JobStatus } from '@prisma/client';
+import { formatDate } from '@curvenote/common';
+import { plural } from 'myst-common';
+import {
+  DEFAULT_JOURNAL_LIST_SOURCE,
+  MAX_JOURNAL_LIST_DIFF_ITEMS,
+  diffJournalLists,
+  parseJournalList,
+} from '../services/journal-list.js';
+import type { JournalSummary } from '../services/journal-list.js';
+import {
+  DEFAULT_JOURNAL_LIST_VERSIONS_KEPT,
+  getLatestJournalList,
+  saveJournalListVersion,
+} from '../journal-list.server.js';
+import { clearNIHJournalListCache } from '../services/nih-journal.server.js';
+
+// Job type constant
+export const NLM_JOURNAL_LIST_REFRESH = 'NLM_JOURNAL_LIST_REFRESH';
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface NLMJournalListRefreshJobPayload {
+  site_id: string;
+  /** Overrides the configured source, a URL or a file path */
+  source?: string;
+}
+
+export interface JobResults {
+  startTime: string;
+  endTime?: string;
+  source: string;
+  listDate?: string;
+  versionId?: string;
+  previousVersionId?: string;
+  unchanged?: boolean;
+  totalJournals?: number;
+  addedCount?: number;
+  removedCount?: number;
+  added?: JournalSummary[];
+  removed?: JournalSummary[];
+  errors: Array<{ error: string }>;
+}
+
+/**
+ * Get the journal list source from the job payload, then the app-config, then the NLM default
+ */
+export function getJournalListSource(ctx: Context, payload?: Record<string, any>): string {
+  return (
+    payload?.source ??
+    ctx.$config.app.extensions?.pmc?.journalList?.source ??
+    DEFAULT_JOURNAL_LIST_SOURCE
+  );
+}
+
+/**
+ * Read the journal list from a URL or, for local development, a file path relative to the
+ * working directory
+ */
+async function readJournalListSource(source: string): Promise<string> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download the journal list: ${response.status} ${response.statusText}`,
+      );
+    }
+    return response.text();
+  }
+  return readFile(path.resolve(source), 'utf8');
+}
+
+// ==============================
+// Job Processing
+// ==============================
+
+/**
+ * Downloads the NLM journal list and stores it as a new version when it differs from the
+ * latest version, recording the journals that were added and removed
+ */
+export async function nlmJournalListRefreshHandler(ctx: Context, data: CreateJob) {
+  const prisma = await getPrismaClient();
+  const source = getJournalListSource(ctx, data.payload);
+  const results: JobResults = { startTime: formatDate(), source, errors: [] };
+
+  const job = await jobs.dbCreateJob({
+    ...data,
+    status: JobStatus.RUNNING,
+    message: 'Downloading the NLM journal list',
+  });
+
+  try {
+    const content = await readJournalListSource(source);
+    const list = parseJournalList(content, source, new Date().toISOString());
+    results.listDate = list.date;
+    results.totalJournals = list.items.length;
+
+    // The first version has nothing to compare with
+    const latest = await getLatestJournalList();
+    const diff = latest ? diffJournalLists(latest.items, list.items) : undefined;
+    results.previousVersionId = latest?.id;
+    if (diff) {
+      results.addedCount = diff.added.length;
+      results.removedCount = diff.removed.length;
+      results.added = diff.added.slice(0, MAX_JOURNAL_LIST_DIFF_ITEMS);
+      results.removed = diff.removed.slice(0, MAX_JOURNAL_LIST_DIFF_ITEMS);
+    }
+
+    if (latest && diff && diff.added.length === 0 && diff.removed.length === 0) {
+      results.unchanged = true;
+      results.versionId = latest.id;
+      await jobs.dbUpdateJob(job.id, {
+        status: JobStatus.COMPLETED,
+        message: `Journal list unchanged, ${plural('%s journal(s)', list.items.length)}`,
+        results: { ...results, endTime: formatDate() },
+      });
+    } else {
+      results.versionId = await saveJournalListVersion(
+        list,
+        diff,
+        latest?.id,
+        ctx.$config.app.extensions?.pmc?.journalList?.keepVersions ??
+          DEFAULT_JOURNAL_LIST_VERSIONS_KEPT,
+      );
+      clearNIHJournalListCache();
+      await jobs.dbUpdateJob(job.id, {
+        status: JobStatus.COMPLETED,
+        message: diff
+          ? `Journal list updated, ${diff.added.length} added and ${diff.removed.length} removed`
+          : `Journal list loaded, ${plural('%s journal(s)', list.items.length)}`,
+        results: { ...results, endTime: formatDate() },
+      });
+    }
+  } catch (err: any) {
+    console.error('NLM journal list refresh failed:', err);
+    await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.FAILED,
+      message: `Journal list refresh failed: ${err.message}`,
+      results: {
+        ...results,
+        endTime: formatDate(),
+        errors: results.errors.concat({ error: err.message || String(err) }),
+      },
+    });
+    return jobs.formatJobDTO(ctx, { ...job, status: JobStatus.FAILED });
+  }
+
+  const finalJob = await prisma.job.findUnique({ where: { id: job.id } });
+  return jobs.formatJobDTO(ctx, finalJob!);
+}
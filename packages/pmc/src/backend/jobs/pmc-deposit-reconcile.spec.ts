@@ -0,0 +1,60 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import type { Context } from '@curvenote/scms-core';
+import {
+  DEFAULT_STALLED_AFTER_MINUTES,
+  getStalledAfterMinutes,
+  isStalledDepositJob,
+} from './pmc-deposit-reconcile.js';
+
+const cutoff = '2025-06-01T10:00:00.000Z';
+
+function depositJob(overrides: Record<string, any> = {}) {
+  return {
+    id: 'job-1',
+    status: 'RUNNING',
+    date_created: '2025-06-01T08:00:00.000Z',
+    payload: { submission_version_id: 'sv-1' },
+    results: { pubsubMessageId: 'msg-1' },
+    ...overrides,
+  };
+}
+
+describe('isStalledDepositJob', () => {
+  it('flags running deposits older than the cutoff', () => {
+    expect(isStalledDepositJob(depositJob(), cutoff)).toBe(true);
+  });
+
+  it('ignores recent deposits and deposits that have called back', () => {
+    expect(
+      isStalledDepositJob(depositJob({ date_created: '2025-06-01T10:30:00.000Z' }), cutoff),
+    ).toBe(false);
+    expect(isStalledDepositJob(depositJob({ status: 'COMPLETED' }), cutoff)).toBe(false);
+    expect(isStalledDepositJob(depositJob({ status: 'FAILED' }), cutoff)).toBe(false);
+  });
+
+  it('ignores dry runs and deposits that are already flagged', () => {
+    expect(
+      isStalledDepositJob(
+        depositJob({ payload: { submission_version_id: 'sv-1', dry_run: true } }),
+        cutoff,
+      ),
+    ).toBe(false);
+    expect(
+      isStalledDepositJob(depositJob({ results: { stalled: { jobId: 'job-1' } } }), cutoff),
+    ).toBe(false);
+  });
+});
+
+describe('getStalledAfterMinutes', () => {
+  const ctx = (stalledAfterMinutes?: number) =>
+    ({
+      $config: { app: { extensions: { pmc: { depositService: { stalledAfterMinutes } } } } },
+    }) as unknown as Context;
+
+  it('prefers the job payload, then the app-config, then the default', () => {
+    expect(getStalledAfterMinutes(ctx(30), { threshold_minutes: 5 })).toBe(5);
+    expect(getStalledAfterMinutes(ctx(30), {})).toBe(30);
+    expect(getStalledAfterMinutes(ctx())).toBe(DEFAULT_STALLED_AFTER_MINUTES);
+  });
+});
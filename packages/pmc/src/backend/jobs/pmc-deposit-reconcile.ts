@@ -0,0 +1,206 @@
+import type { Context, CreateJob } from '@curvenote/scms-core';
+import { coerceToObject } from '@curvenote/scms-core';
+import { jobs, getPrismaClient, SlackEventType } from '@curvenote/scms-server';
+import { JobStatus, Prisma } from '@prisma/client';
+import { formatDate } from '@curvenote/common';
+import { plural } from 'myst-common';
+import { PMC_DEPOSIT_FTP } from './pmc-deposit.js';
+import type { DepositStalled } from '../../common/metadata.schema.js';
+import type { PMCSubmissionVersionMetadata } from '../../common/validate.js';
+import { safelyUpdatePMCSubmissionVersionMetadata } from '../submission-version-metadata.utils.server.js';
+
+// Job type
+export const PMC_DEPOSIT_RECONCILE = 'PMC_DEPOSIT_RECONCILE';
+
+export const DEFAULT_STALLED_AFTER_MINUTES = 120;
+
+type DepositJob = {
+  id: string;
+  status: string;
+  date_created: string;
+  payload: Prisma.JsonValue;
+  results: Prisma.JsonValue;
+};
+
+type JobResults = {
+  startTime: string;
+  endTime?: string;
+  thresholdMinutes: number;
+  checkedCount: number;
+  stalled: Array<{ jobId: string; submissionVersionId: string }>;
+  cleared: Array<{ submissionVersionId: string }>;
+  errors: Array<{ jobId?: string; submissionVersionId?: string; error: string }>;
+};
+
+/**
+ * Sets or clears the stalled condition in the PMC metadata of a submission version
+ */
+async function updateDepositStalled(
+  submissionVersionId: string,
+  depositStalled: DepositStalled | undefined,
+) {
+  const result = await safelyUpdatePMCSubmissionVersionMetadata(submissionVersionId, (pmc) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { depositStalled: _, ...rest } = pmc;
+    return depositStalled ? { ...rest, depositStalled } : rest;
+  });
+  if (!('success' in result)) {
+    throw new Error(`Failed to update the metadata of submission version ${submissionVersionId}`);
+  }
+}
+
+/**
+ * A deposit job has stalled if it is still waiting on the deposit service callback after the
+ * threshold, dry runs complete in-process and jobs that are already flagged are skipped
+ */
+export function isStalledDepositJob(job: DepositJob, cutoff: string): boolean {
+  if (job.status !== JobStatus.RUNNING) return false;
+  if (job.date_created >= cutoff) return false;
+  if ((job.payload as { dry_run?: boolean } | null)?.dry_run) return false;
+  return !(job.results as { stalled?: unknown } | null)?.stalled;
+}
+
+/**
+ * Get the stalled threshold from the job payload, then the app-config, then the default
+ */
+export function getStalledAfterMinutes(ctx: Context, payload?: Record<string, any>): number {
+  return (
+    payload?.threshold_minutes ??
+    ctx.$config.app.extensions?.pmc?.depositService?.stalledAfterMinutes ??
+    DEFAULT_STALLED_AFTER_MINUTES
+  );
+}
+
+/**
+ * Finds deposit jobs that never received a callback from the deposit service, flags them on
+ * the job and marks their submission version as stalled so it stands out in the inbox
+ *
+ * Submission versions that were flagged on an earlier run have the flag removed once their
+ * deposit job is no longer running, i.e. the callback arrived late or the job was resolved.
+ */
+export async function pmcDepositReconcileHandler(ctx: Context, data: CreateJob) {
+  const prisma = await getPrismaClient();
+  const startTime = formatDate();
+  const thresholdMinutes = getStalledAfterMinutes(ctx, data.payload);
+  const cutoff = new Date(Date.now() - thresholdMinutes * 60 * 1000).toISOString();
+
+  const results: JobResults = {
+    startTime,
+    thresholdMinutes,
+    checkedCount: 0,
+    stalled: [],
+    cleared: [],
+    errors: [],
+  };
+
+  const job = await jobs.dbCreateJob({
+    ...data,
+    status: JobStatus.RUNNING,
+    message: 'Checking for stalled PMC deposits',
+  });
+
+  try {
+    const siteId = data.payload?.site_id;
+    if (!siteId) throw new Error('Site ID not found in job payload');
+    const site = await prisma.site.findUnique({ where: { id: siteId } });
+
+    const runningJobs = await prisma.job.findMany({
+      where: {
+        job_type: PMC_DEPOSIT_FTP,
+        status: JobStatus.RUNNING,
+        date_created: { lt: cutoff },
+      },
+    });
+    results.checkedCount = runningJobs.length;
+
+    for (const depositJob of runningJobs.filter((j) => isStalledDepositJob(j, cutoff))) {
+      const submissionVersionId = (depositJob.payload as { submission_version_id?: string })
+        ?.submission_version_id;
+      try {
+        if (!submissionVersionId) throw new Error('No submission version in job payload');
+        const submissionVersion = await prisma.submissionVersion.findFirst({
+          where: { id: submissionVersionId, submission: { site: { id: siteId } } },
+        });
+        // Deposits for other sites are left to their own reconciler runs
+        if (!submissionVersion) continue;
+
+        const detectedAt = formatDate();
+        const depositStalled: DepositStalled = {
+          jobId: depositJob.id,
+          status: submissionVersion.status,
+          jobCreatedAt: depositJob.date_created,
+          detectedAt,
+          thresholdMinutes,
+        };
+
+        await jobs.dbUpdateJob(depositJob.id, {
+          status: JobStatus.RUNNING,
+          message: `No callback from the deposit service after ${plural('%s minute(s)', thresholdMinutes)}`,
+          results: { ...coerceToObject(depositJob.results), stalled: depositStalled },
+        });
+
+        await updateDepositStalled(submissionVersion.id, depositStalled);
+
+        await ctx.sendSlackNotification({
+          eventType: SlackEventType.SUBMISSION_STATUS_CHANGED,
+          message: `PMC deposit stalled, no callback from the deposit service after ${plural('%s minute(s)', thresholdMinutes)}`,
+          metadata: {
+            status: submissionVersion.status,
+            stalled: true,
+            site: site?.name,
+            jobId: depositJob.id,
+            submissionId: submissionVersion.submission_id,
+            submissionVersionId: submissionVersion.id,
+          },
+        });
+        results.stalled.push({ jobId: depositJob.id, submissionVersionId: submissionVersion.id });
+      } catch (err: any) {
+        console.error(`Unable to flag stalled PMC deposit job ${depositJob.id}:`, err);
+        results.errors.push({
+          jobId: depositJob.id,
+          submissionVersionId,
+          error: err.message || String(err),
+        });
+      }
+    }
+
+    // Clear the stalled condition from submission versions whose deposit job has since finished
+    const flaggedVersions = await prisma.submissionVersion.findMany({
+      where: {
+        submission: { site: { id: siteId } },
+        metadata: { path: ['pmc', 'depositStalled'], not: Prisma.AnyNull },
+      },
+    });
+    for (const flagged of flaggedVersions) {
+      const metadata = flagged.metadata as PMCSubmissionVersionMetadata | null;
+      const depositStalled = metadata?.pmc?.depositStalled;
+      if (!depositStalled) continue;
+      const depositJob = await prisma.job.findUnique({ where: { id: depositStalled.jobId } });
+      if (depositJob?.status === JobStatus.RUNNING) continue;
+      await updateDepositStalled(flagged.id, undefined);
+      results.cleared.push({ submissionVersionId: flagged.id });
+    }
+
+    await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.COMPLETED,
+      message: results.stalled.length
+        ? `Found ${plural('%s stalled deposit(s)', results.stalled.length)}`
+        : 'No stalled deposits found',
+      results: { ...results, endTime: formatDate() },
+    });
+  } catch (err: any) {
+    await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.FAILED,
+      message: 'Job failed',
+      results: {
+        ...results,
+        endTime: formatDate(),
+        errors: results.errors.concat({ error: err.message || String(err) }),
+      },
+    });
+    return jobs.formatJobDTO(ctx, { ...job, status: JobStatus.FAILED });
+  }
+
+  const finalJob = await prisma.job.findUnique({ where: { id: job.id } });
+  return jobs.formatJobDTO(ctx, finalJob!);
+}
@@ -1,4 +1,9 @@
-import { getJournalInfo } from './pmc-deposit.js';
+import {
+  getDepositContacts,
+  getDepositContributors,
+  getDepositEmbargo,
+  getJournalInfo,
+} from './pmc-deposit.js';
 import type { JournalInfo } from './types.js';
 // eslint-disable-next-line import/no-extraneous-dependencies
 import { describe, it, expect, vi } from 'vitest';
@@ -75,3 +80,115 @@ describe('getJournalInfo', () => {
     );
   });
 });
+
+describe('getDepositContacts', () => {
+  const owner = { ownerFirstName: 'Jane', ownerLastName: 'Doe', ownerEmail: 'jane@example.com' };
+
+  it('uses the owner as the reviewer by default', () => {
+    expect(getDepositContacts(owner)).toEqual([
+      { fname: 'Jane', lname: 'Doe', email: 'jane@example.com', contactType: 'reviewer' },
+    ]);
+  });
+
+  it('uses the designated reviewer', () => {
+    const pmc = {
+      ...owner,
+      designateReviewer: true,
+      reviewerFirstName: 'Rob',
+      reviewerLastName: 'Smith',
+      reviewerEmail: 'rob@example.com',
+    };
+    expect(getDepositContacts(pmc)).toEqual([
+      { fname: 'Rob', lname: 'Smith', email: 'rob@example.com', contactType: 'reviewer' },
+    ]);
+  });
+
+  it('includes additional contacts after the reviewer', () => {
+    const pmc = {
+      ...owner,
+      contacts: [
+        {
+          id: 'c1',
+          contactType: 'pi' as const,
+          firstName: 'Pat',
+          lastName: 'Lee',
+          email: 'pat@example.com',
+        },
+        {
+          id: 'c2',
+          contactType: 'author' as const,
+          firstName: 'Alex',
+          lastName: 'Kim',
+          email: 'alex@example.com',
+        },
+      ],
+    };
+    expect(getDepositContacts(pmc).map((contact) => contact.contactType)).toEqual([
+      'reviewer',
+      'pi',
+      'author',
+    ]);
+    expect(getDepositContacts(pmc)[1]).toEqual({
+      fname: 'Pat',
+      lname: 'Lee',
+      email: 'pat@example.com',
+      contactType: 'pi',
+    });
+  });
+});
+
+describe('getDepositContributors', () => {
+  it('returns no contributors when there is no author list', () => {
+    expect(getDepositContributors({})).toEqual([]);
+  });
+
+  it('expands ORCIDs and ROR IDs to URLs and keeps the author order', () => {
+    const pmc = {
+      authors: [
+        {
+          id: 'a1',
+          firstName: 'Josiah',
+          lastName: 'Carberry',
+          orcid: '0000-0002-1825-0097',
+          affiliations: [{ name: 'Brown University', ror: '05gq02987' }],
+        },
+        { id: 'a2', lastName: 'Consortium', affiliations: [{ name: 'Janelia' }] },
+      ],
+    };
+    expect(getDepositContributors(pmc)).toEqual([
+      {
+        fname: 'Josiah',
+        lname: 'Carberry',
+        orcid: 'https://orcid.org/0000-0002-1825-0097',
+        affiliations: [{ name: 'Brown University', ror: 'https://ror.org/05gq02987' }],
+      },
+      { lname: 'Consortium', affiliations: [{ name: 'Janelia' }] },
+    ]);
+  });
+});
+
+describe('getDepositEmbargo', () => {
+  it('omits the embargo when there is none', () => {
+    expect(getDepositEmbargo({})).toBeUndefined();
+    expect(getDepositEmbargo({ embargo: { type: 'none' } })).toBeUndefined();
+  });
+
+  it('counts an embargo in months from the publication date', () => {
+    expect(
+      getDepositEmbargo({
+        doiPublishedDate: '2024-01-31',
+        embargo: { type: 'months', months: 6 },
+      }),
+    ).toEqual({ months: 6, releaseDate: '2024-07-31' });
+    expect(getDepositEmbargo({ embargo: { type: 'months', months: 6 } })).toEqual({ months: 6 });
+  });
+
+  it('rounds a release date up to whole months after publication', () => {
+    expect(
+      getDepositEmbargo({
+        doiPublishedDate: '2024-01-15',
+        embargo: { type: 'date', releaseDate: '2024-04-16' },
+      }),
+    ).toEqual({ months: 4, releaseDate: '2024-04-16' });
+  });
+});
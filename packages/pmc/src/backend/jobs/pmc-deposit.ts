@@ -19,13 +19,35 @@ import {
 import type { KnownBuckets } from '@curvenote/scms-server';
 import { JobStatus } from '@prisma/client';
 import type { AAMDepositManifest } from 'pmc-utils';
-import { PubSub } from '@google-cloud/pubsub';
-import JOURNAL_INFO from '../../data/J_Entrez.json';
-import type { JournalInfo, JournalInfoFile } from './types.js';
-import { PMC_STATE_NAMES } from '../../workflows.js';
+import type { JournalInfo } from './types.js';
+import { loadNIHJournalList } from '../services/nih-journal.server.js';
+import { PMC_DEPOSIT_WORKFLOW, PMC_STATE_NAMES } from '../../workflows.js';
 import type { PMCWorkVersionMetadata } from '../../common/validate.js';
-
-async function getWorkVersionFromSubmissionVersion(submissionVersionId: string) {
+import { validatePMCMetadata } from '../../common/validate.js';
+import { getDepositTransport } from '../deposit/registry.server.js';
+import { getEmbargoPolicy } from '../metadata/embargo.server.js';
+import type {
+  DepositManifestContributor,
+  DepositManifestEmbargo,
+  PMCDepositManifest,
+} from '../deposit/types.server.js';
+import { getEmbargoMonths, getEmbargoReleaseDate } from '../../common/validation.js';
+import type { DepositDryRunIssue, DepositDryRunReport } from '../deposit/dry-run.server.js';
+import {
+  checkManifestAgainstNIHMSRules,
+  createDepositDryRunReport,
+} from '../deposit/dry-run.server.js';
+import {
+  DepositRetryError,
+  TransientDepositError,
+  getDepositRetryPolicy,
+  withDepositRetry,
+} from '../deposit/retry.server.js';
+import type { DepositAttempt } from '../deposit/retry.server.js';
+import { createDepositEventLog } from '../deposit/event-log.server.js';
+import { plural } from 'myst-common';
+
+export async function getWorkVersionFromSubmissionVersion(submissionVersionId: string) {
   const prisma = await getPrismaClient();
   const submissionVersion = await prisma.submissionVersion.findUnique({
     where: { id: submissionVersionId },
@@ -56,6 +78,7 @@ export function getJournalInfo(
     issn?: string;
     issnType?: 'print' | 'electronic';
   },
+  warnings?: string[],
 ): AAMDepositManifest['metadata']['journal'] {
   const { journalName, issn, issnType } = pmc;
   // Normalize ISSN (remove dashes, uppercase)
@@ -76,9 +99,9 @@ export function getJournalInfo(
         journalInfo.journalTitle.trim().toLowerCase() !== journalName.trim().toLowerCase()
       ) {
         // Log warning but continue
-        console.warn(
-          `PMC Deposit: ISSN match found but journal name differs. Metadata: '${journalName}', List: '${journalInfo.journalTitle}'`,
-        );
+        const warning = `ISSN match found but journal name differs. Metadata: '${journalName}', List: '${journalInfo.journalTitle}'`;
+        console.warn(`PMC Deposit: ${warning}`);
+        warnings?.push(warning);
       }
       const matchedIssn = issnType === 'print' ? journalInfo.pissn : journalInfo.eissn;
       return {
@@ -112,13 +135,78 @@ export function getJournalInfo(
   throw new Error(`Journal info not found for ${journalName || issn || 'unknown'}`);
 }
 
+type ManifestContact = AAMDepositManifest['metadata']['authors'][number];
+
+/**
+ * Lists the contacts for a deposit, the reviewer first (either the designated reviewer or
+ * the owner) followed by any additional contacts such as the PI and corresponding author
+ */
+export function getDepositContacts(pmc: PMCWorkVersionMetadata): ManifestContact[] {
+  const reviewer: ManifestContact = pmc.designateReviewer
+    ? {
+        fname: pmc.reviewerFirstName as string,
+        lname: pmc.reviewerLastName as string,
+        email: pmc.reviewerEmail as string,
+        contactType: 'reviewer' as const,
+      }
+    : {
+        fname: pmc.ownerFirstName as string,
+        lname: pmc.ownerLastName as string,
+        email: pmc.ownerEmail as string,
+        contactType: 'reviewer' as const,
+      };
+
+  const additional = (pmc.contacts || [])
+    .filter((contact) => contact.contactType !== 'reviewer')
+    .map((contact) => ({
+      fname: contact.firstName,
+      lname: contact.lastName,
+      email: contact.email,
+      contactType: contact.contactType as ManifestContact['contactType'],
+    }));
+
+  return [reviewer, ...additional];
+}
+
+/**
+ * Lists the authors of the publication with their ORCIDs and affiliations, in the order
+ * given on the deposit form
+ */
+export function getDepositContributors(pmc: PMCWorkVersionMetadata): DepositManifestContributor[] {
+  return (pmc.authors || []).map((author) => {
+    const contributor: DepositManifestContributor = {
+      lname: author.lastName,
+      affiliations: (author.affiliations || []).map(({ name, ror }) =>
+        ror ? { name, ror: `https://ror.org/${ror}` } : { name },
+      ),
+    };
+    if (author.firstName) contributor.fname = author.firstName;
+    if (author.orcid) contributor.orcid = `https://orcid.org/${author.orcid}`;
+    return contributor;
+  });
+}
+
+/**
+ * The publisher embargo for the manifest, undefined if the manuscript is released on publication
+ */
+export function getDepositEmbargo(pmc: PMCWorkVersionMetadata): DepositManifestEmbargo | undefined {
+  if (!pmc.embargo || pmc.embargo.type === 'none') return undefined;
+  const embargo: DepositManifestEmbargo = {
+    months: getEmbargoMonths(pmc.embargo, pmc.doiPublishedDate),
+  };
+  const releaseDate = getEmbargoReleaseDate(pmc.embargo, pmc.doiPublishedDate);
+  if (releaseDate) embargo.releaseDate = releaseDate;
+  return embargo;
+}
+
 export async function buildAAMDepositManifest(
   taskId: string,
   agency: string,
   metadata: PMCWorkVersionMetadata,
   storageBackend: StorageBackend,
   sourceBucket: KnownBuckets,
-): Promise<AAMDepositManifest> {
+  warnings?: string[],
+): Promise<PMCDepositManifest> {
   const { pmc, files } = metadata;
 
   if (!pmc) throw new Error('PMC metadata not found');
@@ -162,7 +250,14 @@ export async function buildAAMDepositManifest(
 
       // Create signed URL for the file
       const fileObj = new File(storageBackend, file.path, sourceBucket);
-      const signedUrl = await fileObj.url();
+      let signedUrl: string;
+      try {
+        signedUrl = await fileObj.url();
+      } catch (err: any) {
+        throw new TransientDepositError(`Unable to sign URL for ${file.path}: ${err.message}`, {
+          cause: err,
+        });
+      }
 
       // Transform the filename to extract slot name and filename, replacing slashes with hyphens
       // Input format: UUID/PMC/slot_name/file_name.extension
@@ -176,9 +271,9 @@ export async function buildAAMDepositManifest(
         const filename = file.path.split('/').pop() || file.name;
         const autoGeneratedLabel = generateUniqueFileLabel(filename, existingLabels);
 
-        console.warn(
-          `PMC Deposit: Missing label for file in slot "${file.slot}" (${filename}). Auto-generated label: "${autoGeneratedLabel}"`,
-        );
+        const warning = `Missing label for file in slot "${file.slot}" (${filename}). Auto-generated label: "${autoGeneratedLabel}"`;
+        console.warn(`PMC Deposit: ${warning}`);
+        warnings?.push(warning);
 
         label = autoGeneratedLabel;
         existingLabels.add(autoGeneratedLabel); // Add to set to maintain uniqueness
@@ -214,6 +309,9 @@ export async function buildAAMDepositManifest(
       counter++;
     }
 
+    if (uniqueFilename !== file.filename) {
+      warnings?.push(`Duplicate filename "${file.filename}" renamed to "${uniqueFilename}"`);
+    }
     seenFilenames.add(uniqueFilename);
 
     return {
@@ -222,28 +320,19 @@ export async function buildAAMDepositManifest(
     };
   });
 
-  const manifest: AAMDepositManifest = {
+  const journalList = await loadNIHJournalList();
+  const contributors = getDepositContributors(pmc);
+  const embargo = getDepositEmbargo(pmc);
+  const manifest: PMCDepositManifest = {
     taskId,
     agency,
     files: filesWithUniqueNames,
     metadata: {
       title: pmc.title,
-      journal: getJournalInfo((JOURNAL_INFO as JournalInfoFile).items, pmc),
-      authors: [
-        pmc.designateReviewer
-          ? {
-              fname: pmc.reviewerFirstName as string,
-              lname: pmc.reviewerLastName as string,
-              email: pmc.reviewerEmail as string,
-              contactType: 'reviewer' as const,
-            }
-          : {
-              fname: pmc.ownerFirstName,
-              lname: pmc.ownerLastName,
-              email: pmc.ownerEmail,
-              contactType: 'reviewer' as const,
-            },
-      ],
+      journal: getJournalInfo(journalList.items, pmc, warnings),
+      authors: getDepositContacts(pmc),
+      ...(contributors.length > 0 ? { contributors } : {}),
+      ...(embargo ? { embargo } : {}),
       grants: (pmc.grants || []).map((grant) => ({
         funder: grant.funderKey,
         id: grant.grantId,
@@ -258,15 +347,106 @@ export async function buildAAMDepositManifest(
   return manifest;
 }
 
+/**
+ * The agency deposits are made for, from the options of the `send_to_pmc` transition that
+ * creates the deposit job
+ */
+export function getDepositAgency(): string {
+  const transition = PMC_DEPOSIT_WORKFLOW.transitions.find(({ name }) => name === 'send_to_pmc');
+  const agency = (transition?.options as { agency?: string } | undefined)?.agency;
+  if (!agency) throw new Error('No agency found on the send_to_pmc transition');
+  return agency;
+}
+
+/**
+ * Builds the deposit manifest for a submission version, signing file URLs against the
+ * storage bucket of its work version
+ */
+export async function buildAAMDepositManifestForSubmissionVersion(
+  ctx: Context,
+  submissionVersionId: string,
+  agency: string,
+  warnings?: string[],
+): Promise<AAMDepositManifest> {
+  const workVersion = await getWorkVersionFromSubmissionVersion(submissionVersionId);
+  if (!workVersion.metadata) {
+    throw new Error(`No metadata found for work version ${workVersion.id}`);
+  }
+
+  if (!workVersion.cdn) {
+    throw new Error(`No CDN found for work version ${workVersion.id}`);
+  }
+
+  const storageBackend = new StorageBackend(ctx);
+  const sourceBucket = storageBackend.knownBucketFromCDN(workVersion.cdn);
+  if (!sourceBucket) throw new Error('Invalid source bucket');
+  storageBackend.ensureConnection(sourceBucket);
+
+  return buildAAMDepositManifest(
+    workVersion.id,
+    agency,
+    workVersion.metadata as PMCWorkVersionMetadata,
+    storageBackend,
+    sourceBucket,
+    warnings,
+  );
+}
+
+/**
+ * Runs every step of a deposit up to, but not including, delivery and reports on
+ * any problems found: metadata validation, journal resolution, filename de-duplication,
+ * label generation and the NIHMS package rules
+ */
+export async function runDepositDryRun(
+  ctx: Context,
+  submissionVersionId: string,
+  agency: string,
+): Promise<DepositDryRunReport> {
+  const issues: DepositDryRunIssue[] = [];
+  const warnings: string[] = [];
+  let manifest: AAMDepositManifest | undefined;
+
+  try {
+    const workVersion = await getWorkVersionFromSubmissionVersion(submissionVersionId);
+    const validation = await validatePMCMetadata(
+      (workVersion.metadata ?? {}) as PMCWorkVersionMetadata,
+      getEmbargoPolicy(ctx),
+    );
+    validation.validationErrors?.forEach((issue) => {
+      const path = issue.path.join('.');
+      issues.push({
+        level: 'error',
+        step: 'metadata',
+        message: path ? `${path}: ${issue.message}` : issue.message,
+      });
+    });
+
+    manifest = await buildAAMDepositManifestForSubmissionVersion(
+      ctx,
+      submissionVersionId,
+      agency,
+      warnings,
+    );
+    issues.push(...checkManifestAgainstNIHMSRules(manifest));
+  } catch (err: any) {
+    issues.push({ level: 'error', step: 'manifest', message: err.message ?? String(err) });
+  }
+
+  warnings.forEach((message) => issues.push({ level: 'warning', step: 'manifest', message }));
+
+  return createDepositDryRunReport(issues, manifest);
+}
+
 export const CreatePmcDepositFtpJobPayloadSchema = z.object({
   agency: z.enum(['nih', 'acl', 'ahrq', 'cdc', 'fda', 'aspr', 'epa', 'nist', 'dhs', 'va', 'hhmi']),
   site_id: z.uuid(),
   user_id: z.string(),
   submission_version_id: z.uuid(),
+  dry_run: z.boolean().optional(),
 });
 
 export async function pmcDepositHandler(ctx: Context, data: CreateJob) {
-  const rollingLog: { message: string; data: any }[] = [];
+  const eventLog = createDepositEventLog();
 
   console.log('pmcDepositHandler', data);
   const job = await jobs.dbCreateJob({
@@ -274,149 +454,268 @@ export async function pmcDepositHandler(ctx: Context, data: CreateJob) {
     status: JobStatus.RUNNING,
     results: { ...data.results },
   });
-  rollingLog.push({ message: 'job created', data: job });
+  eventLog.info('job created', { jobId: job.id });
 
-  const { submission_version_id, agency, user_id } = validate(
+  const { submission_version_id, agency, user_id, dry_run } = validate(
     CreatePmcDepositFtpJobPayloadSchema,
     data.payload,
   );
-  rollingLog.push({
-    message: 'payload validated',
-    data: { submission_version_id, agency, user_id },
-  });
-
-  // Get the work version
-  const workVersion = await getWorkVersionFromSubmissionVersion(submission_version_id);
-  if (!workVersion.metadata) {
-    throw new Error(`No metadata found for work version ${workVersion.id}`);
-  }
-
-  if (!workVersion.cdn) {
-    throw new Error(`No CDN found for work version ${workVersion.id}`);
+  eventLog.info('payload validated', { submission_version_id, agency, user_id, dry_run });
+
+  if (dry_run) {
+    // Stop short of delivery, the submission version is left untouched
+    const report = await runDepositDryRun(ctx, submission_version_id, agency);
+    eventLog[report.valid ? 'info' : 'warning']('dry run checked', {
+      errors: report.errorCount,
+      warnings: report.warningCount,
+    });
+    await jobs.dbUpdateJob(job.id, {
+      status: JobStatus.COMPLETED,
+      message: report.valid
+        ? 'PMC Deposit dry run passed'
+        : `PMC Deposit dry run found ${plural('%s error(s)', report.errorCount)}`,
+      results: {
+        ...coerceToObject(job.results),
+        dryRun: true,
+        report,
+        events: eventLog.events,
+      },
+    });
+    return { ok: true, report };
   }
-  rollingLog.push({ message: 'workVersion CDN', data: workVersion.cdn });
-
-  // Create storage backend for signed URLs
-  const storageBackend = new StorageBackend(ctx);
-  const sourceBucket = storageBackend.knownBucketFromCDN(workVersion.cdn);
-  if (!sourceBucket) throw new Error('Invalid source bucket');
-  storageBackend.ensureConnection(sourceBucket);
-  rollingLog.push({ message: 'storageBackend ensured connection', data: sourceBucket });
 
+  const retryPolicy = getDepositRetryPolicy(ctx);
   let attributes: Record<string, string> | undefined;
   let manifest: AAMDepositManifest | undefined;
+  // Failed attempts so far, kept on the job results once an attempt succeeds
+  let failedAttempts: DepositAttempt[] = [];
   try {
-    manifest = await buildAAMDepositManifest(
-      workVersion.id, // this would mean strictly 1 deposit per work version, saves a taskId write back to the database
-      agency, // agency - any funder
-      workVersion.metadata as PMCWorkVersionMetadata,
-      storageBackend,
-      sourceBucket,
-    );
-    rollingLog.push({ message: 'manifest built', data: manifest });
-
-    const depositService = ctx.$config.app.extensions?.pmc?.depositService;
-    if (!depositService) throw new Error('PMC deposit service configuration not found');
-
-    const { projectId, topic, secretKeyfile } = depositService;
-    if (!projectId || !topic || !secretKeyfile) {
-      throw new Error('PMC deposit service Pub/Sub configuration incomplete');
-    }
-    rollingLog.push({ message: 'Pub/Sub config', data: { projectId, topic } });
-
-    const pubSubClient = new PubSub({
-      projectId: projectId,
-      credentials: JSON.parse(secretKeyfile),
-    });
-
-    // Get the submission version to access its current transition and add the job id
-    const prisma = await getPrismaClient();
-    const submissionVersion = await prisma.submissionVersion.update({
-      where: { id: submission_version_id },
-      data: {
-        job: {
-          connect: {
-            id: job.id,
+    const { delivery, submissionVersion, targetState } = await withDepositRetry(
+      retryPolicy,
+      async (attempt) => {
+        eventLog.info('attempt started', { attempt });
+
+        // Get the work version
+        const workVersion = await getWorkVersionFromSubmissionVersion(submission_version_id);
+        if (!workVersion.metadata) {
+          throw new Error(`No metadata found for work version ${workVersion.id}`);
+        }
+
+        if (!workVersion.cdn) {
+          throw new Error(`No CDN found for work version ${workVersion.id}`);
+        }
+        eventLog.info('work version loaded', {
+          workVersionId: workVersion.id,
+          cdn: workVersion.cdn,
+        });
+
+        // Create storage backend for signed URLs
+        const storageBackend = new StorageBackend(ctx);
+        const sourceBucket = storageBackend.knownBucketFromCDN(workVersion.cdn);
+        if (!sourceBucket) throw new Error('Invalid source bucket');
+        storageBackend.ensureConnection(sourceBucket);
+        eventLog.info('storage connected', { bucket: sourceBucket });
+
+        manifest = await buildAAMDepositManifest(
+          workVersion.id, // this would mean strictly 1 deposit per work version, saves a taskId write back to the database
+          agency, // agency - any funder
+          workVersion.metadata as PMCWorkVersionMetadata,
+          storageBackend,
+          sourceBucket,
+        );
+        eventLog.info('manifest built', {
+          taskId: manifest.taskId,
+          files: manifest.files.length,
+          journal: manifest.metadata.journal.title,
+        });
+
+        const transport = getDepositTransport(ctx);
+        eventLog.info('transport selected', { transport: transport.name });
+
+        // Get the submission version to access its current transition and add the job id
+        const prisma = await getPrismaClient();
+        const submissionVersion = await prisma.submissionVersion.update({
+          where: { id: submission_version_id },
+          data: {
+            job: {
+              connect: {
+                id: job.id,
+              },
+            },
           },
-        },
-      },
-      include: {
-        submission: {
           include: {
-            site: true,
+            submission: {
+              include: {
+                site: true,
+              },
+            },
           },
-        },
-      },
-    });
-    rollingLog.push({ message: 'submissionVersion', data: submissionVersion });
-
-    if (!submissionVersion) {
-      throw new Error(`Submission version ${submission_version_id} not found`);
-    }
-
-    if (!submissionVersion.transition) {
-      throw new Error(`No transition found for submission version ${submission_version_id}`);
-    }
-
-    // Get the target state from the current transition
-    const transition = submissionVersion.transition as WorkflowTransition;
-    const targetState = transition.targetStateName;
-    rollingLog.push({ message: 'targetState', data: targetState });
+        });
+
+        if (!submissionVersion) {
+          throw new Error(`Submission version ${submission_version_id} not found`);
+        }
+
+        if (!submissionVersion.transition) {
+          throw new Error(`No transition found for submission version ${submission_version_id}`);
+        }
+
+        // Get the target state from the current transition
+        const transition = submissionVersion.transition as WorkflowTransition;
+        eventLog.info('submission version linked', {
+          submissionId: submissionVersion.submission.id,
+          targetState: transition.targetStateName,
+        });
+
+        const handshake = createHandshakeToken(
+          job.id,
+          PMC_DEPOSIT_FTP,
+          ctx.$config.api.handshakeIssuer,
+          ctx.$config.api.handshakeSigningSecret,
+        );
 
-    const handshake = createHandshakeToken(
-      job.id,
-      PMC_DEPOSIT_FTP,
-      ctx.$config.api.handshakeIssuer,
-      ctx.$config.api.handshakeSigningSecret,
+        attributes = {
+          userId: user_id,
+          successState: transition.targetStateName,
+          failureState: PMC_STATE_NAMES.DEPOSIT_FAILED,
+          statusUrl: ctx.asApiUrl(
+            `/sites/${submissionVersion.submission.site.name}/submissions/${submissionVersion.submission.id}/status`,
+          ),
+          jobUrl: ctx.asApiUrl(`/jobs/${job.id}`),
+          handshake,
+        };
+
+        // Hand the deposit over to the configured transport
+        const sent = await transport.send(ctx, { manifest, attributes });
+        eventLog.info('deposit sent', { ...sent });
+
+        return {
+          delivery: sent,
+          submissionVersion,
+          targetState: transition.targetStateName,
+        };
+      },
+      async (failed, attempts) => {
+        failedAttempts = attempts;
+        eventLog[failed.retryInMs === undefined ? 'error' : 'warning']('attempt failed', {
+          ...failed,
+        });
+        if (failed.retryInMs === undefined) return;
+        // Record the attempt on the job so the retries are visible while they are in progress
+        await jobs.dbUpdateJob(job.id, {
+          status: JobStatus.RUNNING,
+          message: `PMC Deposit attempt ${failed.attempt} of ${retryPolicy.maxAttempts} failed, retrying in ${Math.round(failed.retryInMs / 1000)}s`,
+          results: {
+            ...coerceToObject(job.results),
+            attempts,
+            events: eventLog.events,
+          },
+        });
+      },
     );
 
-    attributes = {
-      userId: user_id,
-      successState: targetState,
-      failureState: PMC_STATE_NAMES.DEPOSIT_FAILED,
-      statusUrl: ctx.asApiUrl(
-        `/sites/${submissionVersion.submission.site.name}/submissions/${submissionVersion.submission.id}/status`,
-      ),
-      jobUrl: ctx.asApiUrl(`/jobs/${job.id}`),
-      handshake,
-    };
-
-    // Publish message to Pub/Sub topic
-    const messageId = await pubSubClient.topic(topic).publishMessage({
-      data: Buffer.from(JSON.stringify(manifest), 'utf-8'),
-      attributes,
-    });
+    // The deposit has been handed over, so a failure from here on must not mark it as failed,
+    // which would invite sending it again
+    try {
+      if (!delivery.completed) {
+        // Update job status to indicate the message was sent successfully
+        // The final completion will be handled by the Cloud Run function via API callbacks
+        await jobs.dbUpdateJob(job.id, {
+          status: JobStatus.RUNNING,
+          message: 'PMC Deposit message published to Pub/Sub',
+          results: {
+            ...coerceToObject(job.results),
+            manifest,
+            attributes,
+            transport: delivery.transport,
+            pubsubMessageId: delivery.reference,
+            attempts: failedAttempts,
+            events: eventLog.events,
+          },
+        });
 
-    rollingLog.push({ message: 'Message published to Pub/Sub', data: { messageId } });
+        return { ok: true };
+      }
 
-    // Update job status to indicate Pub/Sub message was sent successfully
-    // The final completion will be handled by the Cloud Run function via API callbacks
-    await jobs.dbUpdateJob(job.id, {
-      status: JobStatus.RUNNING,
-      message: 'PMC Deposit message published to Pub/Sub',
-      results: {
-        ...coerceToObject(job.results),
-        manifest,
-        attributes,
-        pubsubMessageId: messageId,
-      },
-    });
-    rollingLog.push({ message: 'Job updated with Pub/Sub message ID', data: { messageId } });
+      // The transport delivered the deposit in-process, so there is no callback to wait for
+      eventLog.info('deposit completed', { targetState });
+      await jobs.dbUpdateJob(job.id, {
+        status: JobStatus.COMPLETED,
+        message: `PMC Deposit delivered via ${delivery.transport}`,
+        results: {
+          ...coerceToObject(job.results),
+          manifest,
+          attributes,
+          transport: delivery.transport,
+          reference: delivery.reference,
+          package: delivery.package,
+          attempts: failedAttempts,
+          events: eventLog.events,
+        },
+      });
+
+      await $updateSubmissionVersion(user_id, submission_version_id, {
+        status: targetState,
+        transition: undefined, // clear the transition
+        jobId: job.id,
+      });
+
+      await ctx.sendSlackNotification({
+        eventType: SlackEventType.SUBMISSION_STATUS_CHANGED,
+        message: `Submission status changed to ${targetState}`,
+        user: { id: user_id },
+        metadata: {
+          status: targetState,
+          site: submissionVersion.submission.site.name,
+          submissionId: submissionVersion.submission.id,
+          submissionVersionId: submission_version_id,
+        },
+      });
+    } catch (err: any) {
+      console.error(`PMC Deposit job ${job.id} was delivered but could not be recorded:`, err);
+      eventLog.error('post-delivery step failed', { error: err.message });
+      await jobs
+        .dbUpdateJob(job.id, {
+          status: delivery.completed ? JobStatus.COMPLETED : JobStatus.RUNNING,
+          message: `PMC Deposit delivered via ${delivery.transport}, but recording it failed: ${err.message}`,
+          results: {
+            ...coerceToObject(job.results),
+            manifest,
+            attributes,
+            transport: delivery.transport,
+            reference: delivery.reference,
+            package: delivery.package,
+            attempts: failedAttempts,
+            events: eventLog.events,
+            postDeliveryError: err.message,
+          },
+        })
+        .catch((updateErr) => {
+          console.error(`Unable to record the delivery of PMC Deposit job ${job.id}:`, updateErr);
+        });
+    }
 
     return { ok: true };
   } catch (err: any) {
+    // Only permanent failures, or transient ones that used up the retry budget, end up here
+    const attempts = err instanceof DepositRetryError ? err.attempts : [];
+    const failureKind = err instanceof DepositRetryError ? err.kind : 'permanent';
+    const cause = err instanceof DepositRetryError ? err.cause : err;
+
     let errorMessage = 'PMC Deposit fetch or handling error';
     let errorStatus = 500;
 
-    if (err instanceof ErrorWithObject) {
-      errorMessage = err.message;
-      if (err.data?.status) {
-        errorStatus = err.data.status;
+    if (cause instanceof ErrorWithObject) {
+      errorMessage = cause.message;
+      if (cause.data?.status) {
+        errorStatus = cause.data.status;
       }
+    } else if (failureKind === 'transient') {
+      errorMessage = `PMC Deposit failed after ${plural('%s attempt(s)', attempts.length)}`;
     }
 
     console.error('PMC Deposit error:', errorMessage, err);
-    console.log('Rolling log', rollingLog);
+    eventLog.error('deposit failed', { failureKind, error: err.message });
 
     await jobs.dbUpdateJob(job.id, {
       status: JobStatus.FAILED,
@@ -425,8 +724,11 @@ export async function pmcDepositHandler(ctx: Context, data: CreateJob) {
         ...coerceToObject(job.results),
         manifest,
         attributes,
+        attempts,
+        failureKind,
+        events: eventLog.events,
         error: err.message,
-        errorData: err instanceof ErrorWithObject ? err.data : undefined,
+        errorData: cause instanceof ErrorWithObject ? cause.data : undefined,
       },
     });
 
@@ -443,6 +745,8 @@ export async function pmcDepositHandler(ctx: Context, data: CreateJob) {
       metadata: {
         status: PMC_STATE_NAMES.DEPOSIT_FAILED,
         submissionVersionId: submission_version_id,
+        failureKind,
+        attempts: attempts.length,
       },
     });
 
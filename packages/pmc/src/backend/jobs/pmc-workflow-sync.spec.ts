@@ -5,12 +5,19 @@ import {
   metadataFromAirtableIdFields,
   activitiesFromAirtableDateFields,
   extractManuscriptId,
+  getUnmappedStatus,
+  recordUnmappedStatus,
+  getIncrementalSyncStart,
+  isManuscriptIdRecordedSince,
+  needsIdResolution,
   type SubmissionVersion,
+  type UnmappedStatus,
   type AirtableRecord,
   type ActivityStub,
 } from './pmc-workflow-sync.js';
-import { ActivityType } from '@prisma/client';
+import { ActivityType, JobStatus } from '@prisma/client';
 import { PMC_STATE_NAMES } from '../../workflows.js';
+import type { WorkflowSyncMapping } from '../workflow-sync-mapping.server.js';
 
 // Mock uuidv7 to return predictable IDs
 vi.mock('uuidv7', () => ({
@@ -99,6 +106,32 @@ describe('PMC Airtable Functions', () => {
     });
   });
 
+  describe('needsIdResolution', () => {
+    it('should not look up IDs the submission or the record already has', () => {
+      expect(needsIdResolution(mockSubmissionVersion, { fields: { NIHMSID: 'NIHMS123456' } })).toBe(
+        false,
+      );
+      expect(
+        needsIdResolution({ ...mockSubmissionVersion, metadata: {} }, mockAirtableRecord),
+      ).toBe(false);
+    });
+
+    it('should look up IDs missing from both the submission and the record', () => {
+      const submissionVersion: SubmissionVersion = {
+        ...mockSubmissionVersion,
+        metadata: { pmc: { pmid: '12345678' } },
+      };
+      expect(needsIdResolution(submissionVersion, { fields: { NIHMSID: 'NIHMS123456' } })).toBe(
+        true,
+      );
+      expect(
+        needsIdResolution(submissionVersion, {
+          fields: { NIHMSID: 'NIHMS123456', PMCID: 'PMC123456' },
+        }),
+      ).toBe(false);
+    });
+  });
+
   describe('resolveSubmissionStatus', () => {
     it('should use mapped current-status when available', () => {
       const activities: ActivityStub[] = [];
@@ -353,4 +386,176 @@ describe('PMC Airtable Functions', () => {
       });
     });
   });
+
+  describe('configurable status mapping', () => {
+    const mapping: WorkflowSyncMapping = {
+      statuses: { 'Pending Final Citation Data': PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL },
+      dateFields: { 'pmc-publish-date': PMC_STATE_NAMES.AVAILABLE_ON_PMC },
+      ignoredStatuses: ['NLM Verification of Journal Information'],
+    };
+
+    it('should resolve the status from the given mapping', () => {
+      const airtableRecord: AirtableRecord = {
+        fields: { 'current-status': 'Pending Final Citation Data' },
+      };
+      expect(resolveSubmissionStatus(mockSubmissionVersion, airtableRecord, [], mapping)).toBe(
+        PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL,
+      );
+      // The default mapping does not know this status
+      expect(resolveSubmissionStatus(mockSubmissionVersion, airtableRecord, [])).toBe(
+        PMC_STATE_NAMES.DRAFT,
+      );
+    });
+
+    it('should only use the mapped date fields', () => {
+      const airtableRecord: AirtableRecord = {
+        fields: {
+          'initial-approval-date': '2024-01-15T00:00:00.000Z',
+          'pmc-publish-date': '2024-03-01T00:00:00.000Z',
+        },
+      };
+      expect(activitiesFromAirtableDateFields(airtableRecord, mapping)).toEqual([
+        {
+          activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
+          status: PMC_STATE_NAMES.AVAILABLE_ON_PMC,
+          date_created: '2024-03-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should report statuses that are neither mapped nor ignored', () => {
+      const record = (status?: string): AirtableRecord => ({
+        fields: { 'current-status': status },
+      });
+      expect(getUnmappedStatus(record("Submitter's File(s) Requested"), mapping)).toBe(
+        "Submitter's File(s) Requested",
+      );
+      expect(getUnmappedStatus(record('Pending Final Citation Data'), mapping)).toBeUndefined();
+      expect(
+        getUnmappedStatus(record('NLM Verification of Journal Information'), mapping),
+      ).toBeUndefined();
+      expect(getUnmappedStatus(record(), mapping)).toBeUndefined();
+    });
+
+    it('should count unmapped statuses with a few example manuscript IDs', () => {
+      const unmapped: UnmappedStatus[] = [];
+      for (let i = 1; i <= 7; i++) recordUnmappedStatus(unmapped, 'New Status', `NIHMS${i}`);
+      recordUnmappedStatus(unmapped, 'Other Status', 'NIHMS8');
+      expect(unmapped).toEqual([
+        {
+          status: 'New Status',
+          count: 7,
+          manuscriptIds: ['NIHMS1', 'NIHMS2', 'NIHMS3', 'NIHMS4', 'NIHMS5'],
+        },
+        { status: 'Other Status', count: 1, manuscriptIds: ['NIHMS8'] },
+      ]);
+    });
+  });
+
+  describe('isManuscriptIdRecordedSince', () => {
+    const withEmailProcessing = (emailProcessing: Record<string, any>) => ({
+      ...mockSubmissionVersion,
+      metadata: { pmc: { emailProcessing } },
+    });
+
+    it('should include manuscript IDs recorded at or after the time', () => {
+      const version = withEmailProcessing({
+        manuscriptId: 'NIHMS123456',
+        lastProcessedAt: '2024-01-02T12:00:00.000Z',
+      });
+      expect(isManuscriptIdRecordedSince(version, '2024-01-02T11:50:00.000Z')).toBe(true);
+      expect(isManuscriptIdRecordedSince(version, '2024-01-02T12:00:00.000Z')).toBe(true);
+      expect(isManuscriptIdRecordedSince(version, '2024-01-02T12:10:00.000Z')).toBe(false);
+    });
+
+    it('should ignore submission versions without a manuscript ID or processing time', () => {
+      const since = '2024-01-01T00:00:00.000Z';
+      expect(isManuscriptIdRecordedSince(mockSubmissionVersion, since)).toBe(false);
+      expect(
+        isManuscriptIdRecordedSince(
+          withEmailProcessing({ lastProcessedAt: '2024-01-02T12:00:00.000Z' }),
+          since,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('getIncrementalSyncStart', () => {
+    const syncJob = (status: JobStatus, results: Record<string, any> | null) => ({
+      status,
+      results: results && { source: 'airtable', ...results },
+    });
+
+    it('should start shortly before the last completed sync queried Airtable', () => {
+      const jobs = [
+        syncJob(JobStatus.FAILED, {
+          mode: 'incremental',
+          airtableQueriedAt: '2024-01-03T12:00:00.000Z',
+        }),
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'deposit',
+          airtableQueriedAt: '2024-01-02T12:00:00.000Z',
+        }),
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'full',
+          airtableQueriedAt: '2024-01-01T12:00:00.000Z',
+        }),
+      ];
+      expect(getIncrementalSyncStart(jobs, 'airtable')).toBe('2024-01-01T11:50:00.000Z');
+    });
+
+    it('should need a full sync if no earlier sync recorded when it queried Airtable', () => {
+      expect(getIncrementalSyncStart([], 'airtable')).toBeUndefined();
+      expect(
+        getIncrementalSyncStart([syncJob(JobStatus.COMPLETED, { modifiedCount: 3 })], 'airtable'),
+      ).toBeUndefined();
+    });
+
+    it('should need a full sync if the status mapping was edited after the last sync', () => {
+      const jobs = [
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'incremental',
+          airtableQueriedAt: '2024-01-01T12:00:00.000Z',
+        }),
+      ];
+      expect(getIncrementalSyncStart(jobs, 'airtable', '2024-01-01T13:00:00.000Z')).toBeUndefined();
+      expect(getIncrementalSyncStart(jobs, 'airtable', '2023-12-31T13:00:00.000Z')).toBe(
+        '2024-01-01T11:50:00.000Z',
+      );
+    });
+
+    it('should not start from a sync that failed to update some submissions', () => {
+      const jobs = [
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'full',
+          errorCount: 2,
+          airtableQueriedAt: '2024-01-02T12:00:00.000Z',
+        }),
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'incremental',
+          errorCount: 0,
+          airtableQueriedAt: '2024-01-01T12:00:00.000Z',
+        }),
+      ];
+      expect(getIncrementalSyncStart(jobs, 'airtable')).toBe('2024-01-01T11:50:00.000Z');
+      expect(getIncrementalSyncStart(jobs.slice(0, 1), 'airtable')).toBeUndefined();
+    });
+
+    it('should only start from a sync that read the same source', () => {
+      const jobs = [
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'full',
+          source: 'nihms-report',
+          airtableQueriedAt: '2024-01-02T12:00:00.000Z',
+        }),
+        syncJob(JobStatus.COMPLETED, {
+          mode: 'incremental',
+          airtableQueriedAt: '2024-01-01T12:00:00.000Z',
+        }),
+      ];
+      expect(getIncrementalSyncStart(jobs, 'airtable')).toBe('2024-01-01T11:50:00.000Z');
+      expect(getIncrementalSyncStart(jobs, 'nihms-report')).toBe('2024-01-02T11:50:00.000Z');
+      expect(getIncrementalSyncStart(jobs.slice(1), 'nihms-report')).toBeUndefined();
+    });
+  });
 });
@@ -2,10 +2,18 @@ import type { Context, CreateJob } from '@curvenote/scms-core';
 import { jobs, getPrismaClient, SlackEventType } from '@curvenote/scms-server';
 import { JobStatus, ActivityType } from '@prisma/client';
 import type { Prisma } from '@prisma/client';
-import { fetchRecordsByManuscriptIds } from '../airtable-config.server.js';
+import { getWorkflowSyncSource } from '../sync-sources/index.js';
+import type { WorkflowSyncSource, WorkflowSyncSourceName } from '../sync-sources/index.js';
+import {
+  DEFAULT_WORKFLOW_SYNC_MAPPING,
+  getWorkflowSyncMapping,
+} from '../workflow-sync-mapping.server.js';
+import type { WorkflowSyncMapping } from '../workflow-sync-mapping.server.js';
+import { isIdResolutionConfigured, resolvePublicationIds } from '../id-resolution.server.js';
 import { formatDate } from '@curvenote/common';
 import { uuidv7 } from 'uuidv7';
 import { PMC_STATE_NAMES } from '../../workflows.js';
+import type { SubmissionVersionMetadataWithPMC } from '../../common/metadata.schema.js';
 import { plural } from 'myst-common';
 // PMC metadata types are used for documentation but not directly in the code
 // since we're using Prisma.JsonValue for database compatibility
@@ -15,6 +23,26 @@ export const PMC_WORKFLOW_SYNC = 'PMC_WORKFLOW_SYNC';
 
 const JOB_TIMEOUT = 5; // minutes
 const CANCELLATION_CHECK_INTERVAL = 20;
+// Records modified shortly before the previous sync started are fetched again, to allow for
+// clock skew between Airtable and this server
+const INCREMENTAL_SYNC_OVERLAP = 10; // minutes
+
+/**
+ * - `full` checks every submission with a manuscript ID against Airtable
+ * - `incremental` only checks submissions whose Airtable record changed since the last sync
+ * - `deposit` checks a single submission, requested from the deposit details page
+ */
+export type WorkflowSyncMode = 'full' | 'incremental' | 'deposit';
+
+export interface PMCWorkflowSyncJobPayload {
+  site_id: string;
+  mode?: Exclude<WorkflowSyncMode, 'deposit'>;
+  submission_id?: string;
+  /** Where to read the NIHMS status from, defaults to the source in the app-config */
+  source?: WorkflowSyncSourceName;
+  /** Compute the changes without writing them, so an admin can review and apply them */
+  preview?: boolean;
+}
 
 export type AirtableRecord = {
   fields: Record<string, any>;
@@ -39,15 +67,50 @@ export type ActivityStub = {
 
 // WorkVersionMetadata type is now imported from PMC metadata schema
 
-type JobResults = {
+export type JobResults = {
   startTime: string;
   endTime?: string;
+  mode?: WorkflowSyncMode;
+  source?: WorkflowSyncSourceName;
+  /** Only Airtable records modified after this time were checked */
+  modifiedSince?: string;
+  /** Time just before Airtable was queried, the next incremental sync starts from here */
+  airtableQueriedAt?: string;
   totalSubmissions?: number;
   modifiedCount: number;
   unmodifiedCount: number;
   errorCount: number;
   modifiedSubmissions: Array<{ id: string; title: string }>;
+  unmappedStatuses: UnmappedStatus[];
   errors: Array<{ submissionId?: string; error: string }>;
+  preview?: boolean;
+  /** The changes found by a preview, they are not written until an admin applies them */
+  changes?: SubmissionSyncChange[];
+  /** When each change from a preview was applied, keyed by submission */
+  appliedChanges?: Record<string, string>;
+};
+
+/**
+ * What a sync would change on the latest version of a submission
+ */
+export type SubmissionSyncChange = {
+  submissionId: string;
+  submissionVersionId: string;
+  title: string;
+  manuscriptId: string;
+  fromStatus: string;
+  toStatus: string;
+  metadataUpdates: { pmid?: string; pmcid?: string } | null;
+  newActivities: ActivityStub[];
+};
+
+/**
+ * An Airtable `current-status` value seen during a sync that has no mapping to a PMC state
+ */
+export type UnmappedStatus = {
+  status: string;
+  count: number;
+  manuscriptIds: string[];
 };
 
 const PMC_STATE_ORDER = [
@@ -70,40 +133,8 @@ const PMC_STATE_ORDER = [
   PMC_STATE_NAMES.REQUEST_NEW_VERSION,
 ];
 
-// Placeholder mapping for milestoneType to PMC_STATE_NAME
-const PMC_DATE_FIELD_LOOKUP: Record<string, string> = {
-  'initial-approval-date': PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL,
-  'tagging-completion-date': PMC_STATE_NAMES.NIHMS_CONVERSION_COMPLETE,
-  'final-approval-date': PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL,
-  // Unused dates available in Airtable:
-  // 'article-publication-date': '',
-  // 'ship-to-pmc-date': '',
-  // 'pubmed-date': '',
-  // 'pmc-publish-date': '',
-};
-
-const PMC_STATUS_LOOKUP: Record<string, string> = {
-  "Reviewer's Initial Approval Requested": PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
-  "Submitter's Initial Approval or Designation of Reviewer Requested":
-    PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
-  "Submitter's Action Requested Following Reviewer's Rejection of Initial Submission":
-    PMC_STATE_NAMES.REVIEWER_REJECTED_INITIAL,
-  "NIHMS Revision of PMC Documents Following Reviewer's Rejection":
-    PMC_STATE_NAMES.REVIEWER_REJECTED_INITIAL,
-  "Submitter's Files(s) Requested": PMC_STATE_NAMES.REMOVED_FROM_PROCESSING,
-  'NIHMS Submission Review and File Preparation': PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL,
-  "Reviewer's Final Approval Requested": PMC_STATE_NAMES.NIHMS_CONVERSION_COMPLETE,
-  'NIHMS Conversion to PMC Documents': PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL,
-  'Manuscript Removed from Processing': PMC_STATE_NAMES.REMOVED_FROM_PROCESSING,
-  'Available in PMC': PMC_STATE_NAMES.AVAILABLE_ON_PMC,
-  'Withdrawn from PMC': PMC_STATE_NAMES.WITHDRAWN_FROM_PMC,
-  // What do all these statuses correspond to?
-  // 'Pending Final Citation Data': '',
-  // 'NLM Verification of Journal Information': '',
-  // "Reviewer's Approval of the Submission Statement Requested": '',
-  // "Submitter's File(s) Requested": '',
-  // "Submitter's Action Requested Prior to File Upload": '',
-};
+// Number of example manuscript IDs kept for each unmapped status in the job results
+const MAX_UNMAPPED_STATUS_EXAMPLES = 5;
 
 /**
  * Resolves the current status for a submission version based on Airtable data
@@ -118,14 +149,15 @@ export function resolveSubmissionStatus(
   submissionVersion: SubmissionVersion,
   airtableRecord: AirtableRecord,
   activities: ActivityStub[],
+  mapping: WorkflowSyncMapping = DEFAULT_WORKFLOW_SYNC_MAPPING,
 ): string {
   const fields = airtableRecord.fields || {};
   const currentStatus = submissionVersion.status;
 
   const airtableCurrentStatus = fields['current-status'];
   // Ideally, we can use the airtable current-status field to determine the new status.
-  if (airtableCurrentStatus && PMC_STATUS_LOOKUP[airtableCurrentStatus]) {
-    const newStatus = PMC_STATUS_LOOKUP[airtableCurrentStatus];
+  if (airtableCurrentStatus && mapping.statuses[airtableCurrentStatus]) {
+    const newStatus = mapping.statuses[airtableCurrentStatus];
     if (newStatus !== currentStatus && !activities.some((a) => a.status === newStatus)) {
       activities.push({
         activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
@@ -137,7 +169,7 @@ export function resolveSubmissionStatus(
 
   // If we cannot use current-status, determine latest status from date fields and PMCID
   const implicitStatuses = new Set<string>();
-  Object.entries(PMC_DATE_FIELD_LOOKUP).forEach(([dateField, status]) => {
+  Object.entries(mapping.dateFields).forEach(([dateField, status]) => {
     if (fields[dateField]) implicitStatuses.add(status);
   });
   // Note: PMCID field is no longer used for status determination
@@ -202,12 +234,73 @@ export function metadataFromAirtableIdFields(
   return updates;
 }
 
+/**
+ * Get the DOI of the published article from the work version metadata
+ */
+export function extractDoi(submissionVersion: SubmissionVersion): string | undefined {
+  const metadata = submissionVersion.work_version.metadata as Record<string, any> | null;
+  return metadata?.pmc?.doiUrl || undefined;
+}
+
+/**
+ * A record needs its PMID and PMCID looked up when one of them is missing from both the record
+ * and the submission version metadata
+ */
+export function needsIdResolution(
+  submissionVersion: SubmissionVersion,
+  airtableRecord: AirtableRecord,
+): boolean {
+  const metadata = submissionVersion.metadata as Record<string, any> | null;
+  const fields = airtableRecord.fields || {};
+  return (!fields.PMID && !metadata?.pmc?.pmid) || (!fields.PMCID && !metadata?.pmc?.pmcid);
+}
+
+/**
+ * Fill in the PMID and PMCID missing from records with the IDs found by the NCBI ID converter,
+ * from the manuscript ID or the DOI of the deposit, so they reach the deposit metadata even when
+ * the status source does not have them yet
+ *
+ * @returns The number of records that were given an ID
+ */
+async function resolveMissingIdFields(
+  ctx: Context,
+  submissions: Array<{ versions: SubmissionVersion[] }>,
+  airtableRecords: Map<string, AirtableRecord>,
+): Promise<number> {
+  const pending = submissions
+    .map((submission) => {
+      const latestVersion = submission.versions[0];
+      const manuscriptId = extractManuscriptId(latestVersion);
+      const record = manuscriptId ? airtableRecords.get(manuscriptId) : undefined;
+      if (!manuscriptId || !record || !needsIdResolution(latestVersion, record)) return undefined;
+      return { manuscriptId, doi: extractDoi(latestVersion), record };
+    })
+    .filter((item): item is NonNullable<typeof item> => !!item);
+  if (pending.length === 0) return 0;
+
+  const resolved = await resolvePublicationIds(ctx, pending);
+  let count = 0;
+  pending.forEach(({ manuscriptId, record }, idx) => {
+    const ids = resolved[idx];
+    if (!ids) return;
+    const fields = { ...record.fields };
+    if (!fields.PMID && ids.pmid) fields.PMID = ids.pmid;
+    if (!fields.PMCID && ids.pmcid) fields.PMCID = ids.pmcid;
+    airtableRecords.set(manuscriptId, { ...record, fields });
+    count++;
+  });
+  return count;
+}
+
 /**
  * Return a list of activity entries corresponding to date fields in Airtable
  */
-export function activitiesFromAirtableDateFields(airtableRecord: AirtableRecord): ActivityStub[] {
+export function activitiesFromAirtableDateFields(
+  airtableRecord: AirtableRecord,
+  mapping: WorkflowSyncMapping = DEFAULT_WORKFLOW_SYNC_MAPPING,
+): ActivityStub[] {
   const fields = airtableRecord.fields || {};
-  const airtableDates = Object.entries(PMC_DATE_FIELD_LOOKUP)
+  const airtableDates = Object.entries(mapping.dateFields)
     .map(([milestoneKey, status]) => {
       const date = fields[milestoneKey];
       return date ? { date, status } : null;
@@ -224,6 +317,38 @@ export function activitiesFromAirtableDateFields(airtableRecord: AirtableRecord)
   return activities;
 }
 
+/**
+ * Return the Airtable `current-status` of a record if it is neither mapped nor ignored
+ */
+export function getUnmappedStatus(
+  airtableRecord: AirtableRecord,
+  mapping: WorkflowSyncMapping = DEFAULT_WORKFLOW_SYNC_MAPPING,
+): string | undefined {
+  const status = airtableRecord.fields?.['current-status'];
+  if (typeof status !== 'string' || !status.trim()) return undefined;
+  if (mapping.statuses[status] || mapping.ignoredStatuses.includes(status)) return undefined;
+  return status;
+}
+
+/**
+ * Count an unmapped status in the job results, keeping a few manuscript IDs as examples
+ */
+export function recordUnmappedStatus(
+  unmappedStatuses: UnmappedStatus[],
+  status: string,
+  manuscriptId: string,
+) {
+  let entry = unmappedStatuses.find((s) => s.status === status);
+  if (!entry) {
+    entry = { status, count: 0, manuscriptIds: [] };
+    unmappedStatuses.push(entry);
+  }
+  entry.count++;
+  if (entry.manuscriptIds.length < MAX_UNMAPPED_STATUS_EXAMPLES) {
+    entry.manuscriptIds.push(manuscriptId);
+  }
+}
+
 /**
  * Extracts manuscript ID from submission version metadata
  */
@@ -244,6 +369,73 @@ export function extractManuscriptId(submissionVersion: SubmissionVersion): strin
   return undefined;
 }
 
+/**
+ * Whether the email processing record of a submission version, which holds its manuscript ID,
+ * was updated at or after the given time, e.g. when an inbound email or an admin recorded the ID
+ */
+export function isManuscriptIdRecordedSince(
+  submissionVersion: SubmissionVersion,
+  since: string,
+): boolean {
+  const pmc = (submissionVersion.metadata as SubmissionVersionMetadataWithPMC | null)?.pmc;
+  const { manuscriptId, lastProcessedAt } = pmc?.emailProcessing ?? {};
+  return !!manuscriptId && !!lastProcessedAt && new Date(lastProcessedAt) >= new Date(since);
+}
+
+/**
+ * Find the time from which an incremental sync should fetch modified Airtable records
+ *
+ * This is when the most recent completed full or incremental sync from the same source, other than
+ * a preview, queried Airtable, less a short overlap. Syncs from another source say nothing about
+ * which records this source has changed since, and a sync that failed to update some submissions
+ * is skipped so that their records are fetched again. If there is no such sync, or the status
+ * mapping was edited or reset after it, there is no start time and a full sync is needed so that
+ * every record is evaluated with the current mapping.
+ */
+export function getIncrementalSyncStart(
+  previousJobs: Array<{ status: string; results: Prisma.JsonValue }>,
+  source: WorkflowSyncSourceName,
+  mappingUpdatedAt?: string,
+): string | undefined {
+  const lastSync = previousJobs.find((job) => {
+    const results = job.results as JobResults | null;
+    return (
+      job.status === JobStatus.COMPLETED &&
+      results?.source === source &&
+      !results.errorCount &&
+      !!results.airtableQueriedAt &&
+      results.mode !== 'deposit' &&
+      !results.preview
+    );
+  });
+  const queriedAt = (lastSync?.results as JobResults | undefined)?.airtableQueriedAt;
+  if (!queriedAt) return undefined;
+  if (mappingUpdatedAt && new Date(mappingUpdatedAt) > new Date(queriedAt)) return undefined;
+  return new Date(
+    new Date(queriedAt).getTime() - INCREMENTAL_SYNC_OVERLAP * 60 * 1000,
+  ).toISOString();
+}
+
+async function findIncrementalSyncStart(
+  siteId: string,
+  source: WorkflowSyncSourceName,
+  mappingUpdatedAt?: string,
+) {
+  const prisma = await getPrismaClient();
+  const previousJobs = await prisma.job.findMany({
+    where: {
+      job_type: PMC_WORKFLOW_SYNC,
+      status: JobStatus.COMPLETED,
+      payload: { path: ['site_id'], equals: siteId },
+      results: { path: ['source'], equals: source },
+    },
+    select: { status: true, results: true },
+    orderBy: { date_created: 'desc' },
+    take: 50,
+  });
+  return getIncrementalSyncStart(previousJobs, source, mappingUpdatedAt);
+}
+
 /**
  * Finds any PMC Airtable update job older than 5 minutes with status RUNNING and marks them as FAILED
  */
@@ -316,20 +508,168 @@ function logMemoryUsage(stage: string) {
   }
 }
 
+/**
+ * Work out what an Airtable record would change on the latest version of a submission: its
+ * status, the PMID and PMCID, and any new status change activity
+ *
+ * @returns The change, or null if the submission is already up to date
+ */
+export async function computeSubmissionSyncChange(
+  submission: { id: string; versions: SubmissionVersion[] },
+  manuscriptId: string,
+  airtableRecord: AirtableRecord,
+  mapping: WorkflowSyncMapping,
+): Promise<SubmissionSyncChange | null> {
+  const prisma = await getPrismaClient();
+  const latestVersion = submission.versions[0];
+
+  // First, get activity entries from the Airtable date fields
+  const activities = activitiesFromAirtableDateFields(airtableRecord, mapping);
+
+  // Next, handle the PMID and PMCID fields
+  const metadataUpdates = metadataFromAirtableIdFields(latestVersion, airtableRecord, activities);
+
+  // Finally, resolve the current submission status
+  const status = resolveSubmissionStatus(latestVersion, airtableRecord, activities, mapping);
+
+  // Get all new activities for this submission of the correct type by comparing to existing activities
+  const newActivities: ActivityStub[] = [];
+  for (const activity of activities) {
+    if (!activity.date_created) {
+      newActivities.push(activity);
+    } else {
+      const existingActivity = await prisma.activity.findFirst({
+        where: {
+          submission_id: submission.id,
+          activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
+          status: activity.status,
+          date_created: activity.date_created,
+        },
+      });
+      if (!existingActivity) newActivities.push(activity);
+    }
+  }
+
+  if (status === latestVersion.status && !metadataUpdates && newActivities.length === 0) {
+    return null;
+  }
+
+  return {
+    submissionId: submission.id,
+    submissionVersionId: latestVersion.id,
+    title: latestVersion.work_version.title || 'Untitled',
+    manuscriptId,
+    fromStatus: latestVersion.status,
+    toStatus: status,
+    metadataUpdates,
+    newActivities,
+  };
+}
+
+/**
+ * Write a change computed by `computeSubmissionSyncChange` to the submission version, merging the
+ * PMID and PMCID into its current metadata
+ */
+export async function applySubmissionSyncChange(
+  ctx: Context,
+  siteName: string | undefined,
+  change: SubmissionSyncChange,
+  currentMetadata: Prisma.JsonValue,
+) {
+  const prisma = await getPrismaClient();
+  const { submissionId, submissionVersionId, fromStatus, toStatus, metadataUpdates } = change;
+
+  const dateCreated = formatDate();
+  await prisma.$transaction(async (tx) => {
+    if (toStatus !== fromStatus) {
+      await tx.submissionVersion.update({
+        where: { id: submissionVersionId },
+        data: { status: toStatus, date_modified: new Date().toISOString() },
+      });
+    }
+
+    if (metadataUpdates) {
+      // Update submission version metadata with PMID/PMCID
+      const metadata = (currentMetadata as any) || {};
+      const updatedMetadata = {
+        ...metadata,
+        pmc: {
+          ...(metadata.pmc || {}),
+          ...metadataUpdates,
+        },
+      };
+
+      await tx.submissionVersion.update({
+        where: { id: submissionVersionId },
+        data: { metadata: updatedMetadata, date_modified: new Date().toISOString() },
+      });
+    }
+
+    for (const activity of change.newActivities) {
+      await tx.activity.create({
+        data: {
+          id: uuidv7(),
+          submission_id: submissionId,
+          activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
+          status: activity.status,
+          date_created: activity.date_created || dateCreated,
+          date_modified: activity.date_created || dateCreated,
+          activity_by_id: ctx.user?.id || 'system',
+        },
+      });
+    }
+  });
+  await ctx.sendSlackNotification({
+    eventType: SlackEventType.SUBMISSION_STATUS_CHANGED,
+    message: `Submission status changed to ${toStatus}`,
+    user: { id: ctx.user?.id },
+    metadata: {
+      status: toStatus,
+      site: siteName,
+      submissionId,
+      submissionVersionId,
+    },
+  });
+}
+
 export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
   const prisma = await getPrismaClient();
   const startTime = formatDate();
+  const payload = (data.payload ?? {}) as Partial<PMCWorkflowSyncJobPayload>;
 
   const PROGRESS_UPDATE_INTERVAL = 50; // Update progress every 500 submissions
 
+  let mode: WorkflowSyncMode = payload.submission_id ? 'deposit' : (payload.mode ?? 'full');
+  const preview = payload.preview === true;
+  let source: WorkflowSyncSource | undefined;
+  let modifiedSince: string | undefined;
+  let airtableQueriedAt: string | undefined;
   let totalSubmissions: number | undefined;
   let modifiedCount = 0;
   let unmodifiedCount = 0;
   let errorCount = 0;
   const modifiedSubmissions: Array<{ id: string; title: string }> = [];
+  const unmappedStatuses: UnmappedStatus[] = [];
+  const changes: SubmissionSyncChange[] = [];
   const errors: Array<{ submissionId?: string; error: string }> = [];
   let job;
 
+  const getResults = (): JobResults => ({
+    startTime,
+    mode,
+    source: source?.name,
+    modifiedSince,
+    airtableQueriedAt,
+    totalSubmissions,
+    modifiedCount,
+    unmodifiedCount,
+    errorCount,
+    modifiedSubmissions,
+    unmappedStatuses,
+    errors,
+    ...(preview ? { preview, changes } : {}),
+  });
+
   // Invalidate old running jobs
   await invalidateOldRunningJobs();
 
@@ -337,25 +677,44 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
     job = await jobs.dbCreateJob({
       ...data,
       status: JobStatus.RUNNING,
-      message: 'Finding submissions to update from Airtable',
+      message: 'Finding submissions to update',
     });
 
     await checkJobCancellation(job.id);
 
-    // Fetch all PMC submissions for the site
-    const siteId = data.payload?.site_id;
+    source = getWorkflowSyncSource(ctx, payload.source);
+
+    const mapping = await getWorkflowSyncMapping();
+
+    const siteId = payload.site_id;
     if (!siteId) throw new Error('Site ID not found in job payload');
-    const submissions = await prisma.submission.findMany({
-      where: { site: { id: siteId } },
+    const site = await prisma.site.findUnique({ where: { id: siteId } });
+
+    // An incremental sync falls back to a full sync when there is no previous sync to start from,
+    // or the source can only provide every record
+    if (mode === 'incremental' && !source.fetchRecordsModifiedSince) mode = 'full';
+    if (mode === 'incremental') {
+      modifiedSince = await findIncrementalSyncStart(siteId, source.name, mapping.updatedAt);
+      if (!modifiedSince) mode = 'full';
+    }
+
+    // Fetch the PMC submissions for the site, or the single submission for a deposit sync
+    let submissions = await prisma.submission.findMany({
+      where: {
+        site: { id: siteId },
+        ...(payload.submission_id ? { id: payload.submission_id } : {}),
+      },
       include: {
         versions: {
           orderBy: { date_created: 'desc' },
           include: { work_version: true },
           take: 1,
         },
-        activity: true,
       },
     });
+    if (payload.submission_id && submissions.length === 0) {
+      throw new Error(`Submission not found [site: ${siteId}, id: ${payload.submission_id}]`);
+    }
 
     // Simulate long-running job for testing cancellation
     await checkJobCancellation(job.id);
@@ -364,17 +723,63 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
     const manuscriptIds = submissions
       .map((submission) => extractManuscriptId(submission.versions[0]))
       .filter((manuscriptId): manuscriptId is string => !!manuscriptId);
-    totalSubmissions = manuscriptIds.length;
+    if (mode === 'deposit' && manuscriptIds.length === 0) {
+      throw new Error('No NIHMS manuscript ID has been received for this deposit');
+    }
 
     await jobs.dbUpdateJob(job.id, {
       status: JobStatus.RUNNING,
-      message: `Fetching ${plural('%s record(s)', totalSubmissions)} from Airtable`,
+      message: modifiedSince
+        ? `Fetching records modified in ${source.label} since ${modifiedSince}`
+        : `Fetching ${plural('%s record(s)', manuscriptIds.length)} from ${source.label}`,
+      results: getResults(),
     });
 
-    // Fetch all records from Airtable
-    const airtableRecords = await fetchRecordsByManuscriptIds(manuscriptIds);
-    console.log(`Retrieved ${plural('%s record(s)', airtableRecords.size)} from Airtable`);
-    logMemoryUsage('After Airtable fetch');
+    airtableQueriedAt = formatDate();
+    const airtableRecords =
+      modifiedSince && source.fetchRecordsModifiedSince
+        ? await source.fetchRecordsModifiedSince(ctx, modifiedSince)
+        : await source.fetchRecords(ctx, manuscriptIds);
+    // A deposit whose manuscript ID was recorded since the last sync is checked as well, as its
+    // record may not have changed since then
+    if (modifiedSince) {
+      const since = modifiedSince;
+      const recordedIds = submissions
+        .filter((submission) => isManuscriptIdRecordedSince(submission.versions[0], since))
+        .map((submission) => extractManuscriptId(submission.versions[0]) as string)
+        .filter((manuscriptId) => !airtableRecords.has(manuscriptId));
+      if (recordedIds.length > 0) {
+        const recordedRecords = await source.fetchRecords(ctx, recordedIds);
+        recordedRecords.forEach((record, manuscriptId) =>
+          airtableRecords.set(manuscriptId, record),
+        );
+      }
+    }
+    console.log(`Retrieved ${plural('%s record(s)', airtableRecords.size)} from ${source.label}`);
+    logMemoryUsage(`After ${source.label} fetch`);
+
+    // Only the submissions whose record changed need to be checked incrementally
+    if (modifiedSince) {
+      submissions = submissions.filter((submission) => {
+        const manuscriptId = extractManuscriptId(submission.versions[0]);
+        return !!manuscriptId && airtableRecords.has(manuscriptId);
+      });
+      totalSubmissions = submissions.length;
+    } else {
+      totalSubmissions = manuscriptIds.length;
+    }
+
+    // Look up the PMID and PMCID the source does not have yet, a failed lookup leaves the records
+    // as they are and does not stop the sync
+    if (isIdResolutionConfigured(ctx)) {
+      try {
+        const resolvedCount = await resolveMissingIdFields(ctx, submissions, airtableRecords);
+        console.log(`Resolved the PMID/PMCID of ${plural('%s record(s)', resolvedCount)}`);
+      } catch (err: any) {
+        console.log(err);
+        errors.push({ error: `PMID/PMCID lookup failed: ${err.message || String(err)}` });
+      }
+    }
 
     await checkJobCancellation(job.id);
 
@@ -403,97 +808,35 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
         const submissionTitle = latestVersion.work_version.title || 'Untitled';
         const airtableRecord = airtableRecords.get(manuscriptId);
         if (!airtableRecord) {
-          console.log(`No Airtable record found for manuscript ID: ${manuscriptId}`);
-          unmodifiedCount++;
+          console.log(`No ${source.label} record found for manuscript ID: ${manuscriptId}`);
+          if (mode === 'deposit') {
+            errors.push({
+              submissionId: submission.id,
+              error: `No ${source.label} record found for manuscript ID: ${manuscriptId}`,
+            });
+            errorCount++;
+          } else {
+            unmodifiedCount++;
+          }
           continue;
         }
 
-        // First, get activity entries from the Airtable date fields
-        const activities = activitiesFromAirtableDateFields(airtableRecord);
+        const unmappedStatus = getUnmappedStatus(airtableRecord, mapping);
+        if (unmappedStatus) recordUnmappedStatus(unmappedStatuses, unmappedStatus, manuscriptId);
 
-        // Next, handle the PMID and PMCID fields
-        const metadataUpdates = metadataFromAirtableIdFields(
-          latestVersion,
+        const change = await computeSubmissionSyncChange(
+          submission,
+          manuscriptId,
           airtableRecord,
-          activities,
+          mapping,
         );
-
-        // Finally, resolve the current submission status
-        const status = resolveSubmissionStatus(latestVersion, airtableRecord, activities);
-
-        // Get all new activities for this submission of the correct type by comparing to existing activities
-        const newActivities: ActivityStub[] = [];
-        for (const activity of activities) {
-          if (!activity.date_created) {
-            newActivities.push(activity);
+        if (change) {
+          // A preview only records the change, it is applied later by an admin
+          if (preview) {
+            changes.push(change);
           } else {
-            const existingActivity = await prisma.activity.findFirst({
-              where: {
-                submission_id: submission.id,
-                activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
-                status: activity.status,
-                date_created: activity.date_created,
-              },
-            });
-            if (!existingActivity) newActivities.push(activity);
+            await applySubmissionSyncChange(ctx, site?.name, change, latestVersion.metadata);
           }
-        }
-
-        const dateCreated = formatDate();
-        if (status !== latestVersion.status || metadataUpdates || newActivities.length > 0) {
-          await prisma.$transaction(async (tx) => {
-            if (status !== latestVersion.status) {
-              await tx.submissionVersion.update({
-                where: { id: latestVersion.id },
-                data: { status, date_modified: new Date().toISOString() },
-              });
-            }
-
-            if (metadataUpdates) {
-              // Update submission version metadata with PMID/PMCID
-              const currentMetadata = (latestVersion.metadata as any) || {};
-              const updatedMetadata = {
-                ...currentMetadata,
-                pmc: {
-                  ...(currentMetadata.pmc || {}),
-                  ...metadataUpdates,
-                },
-              };
-
-              await tx.submissionVersion.update({
-                where: { id: latestVersion.id },
-                data: { metadata: updatedMetadata, date_modified: new Date().toISOString() },
-              });
-            }
-
-            for (const activity of newActivities) {
-              await tx.activity.create({
-                data: {
-                  id: uuidv7(),
-                  submission_id: submission.id,
-                  activity_type: ActivityType.SUBMISSION_VERSION_STATUS_CHANGE,
-                  status: activity.status,
-                  date_created: activity.date_created || dateCreated,
-                  date_modified: activity.date_created || dateCreated,
-                  activity_by_id: ctx.user?.id || 'system',
-                },
-              });
-            }
-          });
-          const site = await prisma.site.findUnique({
-            where: { id: siteId },
-          });
-          await ctx.sendSlackNotification({
-            eventType: SlackEventType.SUBMISSION_STATUS_CHANGED,
-            message: `Submission status changed to ${status}`,
-            user: { id: ctx.user?.id },
-            metadata: {
-              status,
-              site: site?.name,
-              submissionId: submission.id,
-              submissionVersionId: latestVersion.id,
-            },
-          });
           modifiedSubmissions.push({ id: submission.id, title: submissionTitle });
           modifiedCount++;
         } else {
@@ -502,15 +845,7 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
 
         await jobs.dbUpdateJob(job.id, {
           status: JobStatus.RUNNING,
-          results: {
-            startTime,
-            totalSubmissions,
-            modifiedCount,
-            unmodifiedCount,
-            errorCount,
-            modifiedSubmissions,
-            errors,
-          } as JobResults,
+          results: getResults(),
         });
       } catch (err: any) {
         console.log(err);
@@ -522,17 +857,10 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
     logMemoryUsage('At Job Complete');
     await jobs.dbUpdateJob(job.id, {
       status: JobStatus.COMPLETED,
-      message: `All submissions processed`,
-      results: {
-        startTime,
-        endTime: formatDate(),
-        totalSubmissions,
-        modifiedCount,
-        unmodifiedCount,
-        errorCount,
-        modifiedSubmissions,
-        errors,
-      } as JobResults,
+      message: preview
+        ? `${plural('%s change(s)', changes.length)} ready to review`
+        : `All submissions processed`,
+      results: { ...getResults(), endTime: formatDate() },
     });
   } catch (err: any) {
     if (job) {
@@ -541,15 +869,10 @@ export async function pmcWorkflowSyncHandler(ctx: Context, data: CreateJob) {
           status: JobStatus.FAILED,
           message: `Job failed`,
           results: {
-            startTime,
+            ...getResults(),
             endTime: formatDate(),
-            totalSubmissions,
-            modifiedCount,
-            unmodifiedCount,
-            errorCount,
-            modifiedSubmissions,
             errors: errors.concat({ error: err.message || String(err) }),
-          } as JobResults,
+          },
         });
         return jobs.formatJobDTO(ctx, { ...job, status: JobStatus.FAILED });
       }
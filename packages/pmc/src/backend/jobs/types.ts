@@ -6,6 +6,8 @@ export interface JournalInfo {
   eissn?: string;
   startDate: string;
   endDate?: string;
+  isoAbbr?: string;
+  nlmId?: string;
 }
 
 export interface JournalInfoFile {
@@ -0,0 +1,145 @@
+import { getPrismaClient } from '@curvenote/scms-server';
+import { randomUUID } from 'node:crypto';
+import type { JournalInfoFile } from './jobs/types.js';
+import { summarizeJournalListVersion } from './services/journal-list.js';
+import type { JournalListDiff, JournalListSummary } from './services/journal-list.js';
+
+/**
+ * NLM Journal List Management
+ *
+ * This module manages versions of the NLM journal list stored in the generic Object table.
+ * Each refresh that changes the list adds a new version, the journal search and the deposit
+ * journal lookup always use the latest version, so only the latest list is kept. Every version
+ * has a separate summary object with its counts and changes, so the admin page does not need to
+ * read the full list and the recent changes are still recorded once a list is replaced.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface JournalListData extends JournalInfoFile, Record<string, any> {
+  fetchedAt: string;
+}
+
+// ==============================
+// Constants
+// ==============================
+
+export const NLM_JOURNAL_LIST_OBJECT_TYPE = 'nlm-journal-list';
+
+export const NLM_JOURNAL_LIST_SUMMARY_OBJECT_TYPE = 'nlm-journal-list-summary';
+
+export const DEFAULT_JOURNAL_LIST_VERSIONS_KEPT = 5;
+
+// ==============================
+// Core Functions
+// ==============================
+
+/**
+ * Get the latest journal list object record
+ */
+export async function getLatestJournalListObject() {
+  const prisma = await getPrismaClient();
+
+  return await prisma.object.findFirst({
+    where: {
+      type: NLM_JOURNAL_LIST_OBJECT_TYPE,
+    },
+    orderBy: {
+      date_created: 'desc',
+    },
+  });
+}
+
+/**
+ * Get the latest version of the journal list, or null if no list has been loaded yet
+ */
+export async function getLatestJournalList(): Promise<(JournalListData & { id: string }) | null> {
+  const objectRecord = await getLatestJournalListObject();
+
+  if (!objectRecord || !objectRecord.data) {
+    return null;
+  }
+
+  return { ...(objectRecord.data as JournalListData), id: objectRecord.id };
+}
+
+/**
+ * Get the summary of the latest version, without reading the list itself
+ */
+export async function getLatestJournalListSummary(): Promise<JournalListSummary | null> {
+  const prisma = await getPrismaClient();
+
+  const objectRecord = await prisma.object.findFirst({
+    where: { type: NLM_JOURNAL_LIST_SUMMARY_OBJECT_TYPE },
+    orderBy: { date_created: 'desc' },
+    select: { data: true },
+  });
+
+  return (objectRecord?.data as JournalListSummary | undefined) ?? null;
+}
+
+/**
+ * Remove the oldest objects of a type beyond `keep`
+ */
+async function removeExpiredObjects(type: string, keep: number) {
+  const prisma = await getPrismaClient();
+
+  const expired = await prisma.object.findMany({
+    where: { type },
+    orderBy: { date_created: 'desc' },
+    skip: Math.max(1, keep),
+    select: { id: true },
+  });
+  if (expired.length > 0) {
+    await prisma.object.deleteMany({ where: { id: { in: expired.map((object) => object.id) } } });
+  }
+}
+
+/**
+ * Store a new version of the journal list with its summary, replacing the previous list and
+ * removing the oldest summaries beyond `keep`
+ *
+ * @param diff - Changes from the previous version, omitted for the first version
+ * @param keep - Number of version summaries kept
+ * @returns The ID of the new version
+ */
+export async function saveJournalListVersion(
+  list: JournalInfoFile,
+  diff?: JournalListDiff,
+  previousVersionId?: string,
+  keep: number = DEFAULT_JOURNAL_LIST_VERSIONS_KEPT,
+): Promise<string> {
+  const prisma = await getPrismaClient();
+  const now = new Date().toISOString();
+  const id = randomUUID();
+
+  await prisma.$transaction([
+    prisma.object.create({
+      data: {
+        id,
+        type: NLM_JOURNAL_LIST_OBJECT_TYPE,
+        date_created: now,
+        date_modified: now,
+        data: { ...list, fetchedAt: now } as JournalListData,
+        occ: 0,
+      },
+    }),
+    prisma.object.create({
+      data: {
+        id: randomUUID(),
+        type: NLM_JOURNAL_LIST_SUMMARY_OBJECT_TYPE,
+        date_created: now,
+        date_modified: now,
+        data: summarizeJournalListVersion(id, list, now, diff, previousVersionId),
+        occ: 0,
+      },
+    }),
+  ]);
+
+  await removeExpiredObjects(NLM_JOURNAL_LIST_OBJECT_TYPE, 1);
+  await removeExpiredObjects(NLM_JOURNAL_LIST_SUMMARY_OBJECT_TYPE, keep);
+
+  return id;
+}
@@ -0,0 +1,191 @@
+import { zfd } from 'zod-form-data';
+import { z } from 'zod';
+import { uuidv7 } from 'uuidv7';
+import { withValidFormData } from '@curvenote/scms-server';
+import { safelyUpdatePMCMetadata } from './utils.server.js';
+import type {
+  AuthorAffiliation,
+  AuthorEntry,
+  PMCWorkVersionMetadata,
+} from '../../common/metadata.schema.js';
+import { authorAffiliationSchema, authorEntrySchema } from '../../common/metadata.schema.js';
+import { isValidOrcid, normalizeOrcid, normalizeRorId } from '../../common/validation.js';
+
+/**
+ * Author Actions for PMC Metadata
+ *
+ * Handles the full author list of the publication, each author can have an ORCID and
+ * any number of affiliations identified by ROR ID. The list is seeded from Crossref on a
+ * DOI lookup and can then be edited.
+ */
+
+const orcidField = zfd.text(
+  z
+    .string()
+    .optional()
+    .refine((value) => !value || isValidOrcid(value), {
+      message: 'Enter a valid ORCID, e.g. 0000-0002-1825-0097',
+    })
+    .transform((value) => (value ? normalizeOrcid(value) : undefined)),
+);
+
+const AuthorFieldsSchema = {
+  firstName: zfd.text(authorEntrySchema.shape.firstName),
+  lastName: zfd.text(authorEntrySchema.shape.lastName),
+  orcid: orcidField,
+  affiliationName: zfd.repeatableOfType(zfd.text(z.string().optional())),
+  affiliationRor: zfd.repeatableOfType(zfd.text(z.string().optional())),
+};
+
+const AddAuthorSchema = zfd.formData(AuthorFieldsSchema);
+
+const UpdateAuthorSchema = zfd.formData({
+  id: z.string().min(1, 'A UID is required'),
+  ...AuthorFieldsSchema,
+});
+
+const RemoveAuthorSchema = zfd.formData({
+  id: z.string().min(1, 'A UID is required'),
+});
+
+const MoveAuthorSchema = zfd.formData({
+  id: z.string().min(1, 'A UID is required'),
+  direction: z.enum(['up', 'down']),
+});
+
+/**
+ * Pairs up the repeated affiliation name and ROR fields, skipping empty rows
+ *
+ * @throws Error if a ROR ID is given without a name or is not a valid ROR ID
+ */
+export function parseAffiliations(
+  names: Array<string | undefined>,
+  rors: Array<string | undefined>,
+): AuthorAffiliation[] {
+  const affiliations: AuthorAffiliation[] = [];
+  for (let i = 0; i < Math.max(names.length, rors.length); i++) {
+    const name = names[i]?.trim();
+    const rorInput = rors[i]?.trim();
+    if (!name && !rorInput) continue;
+    if (!name) throw new Error('Affiliation name is required when a ROR ID is given');
+    let ror: string | undefined;
+    if (rorInput) {
+      ror = normalizeRorId(rorInput);
+      if (!ror) throw new Error(`${rorInput} is not a valid ROR ID, e.g. 006w34k90`);
+    }
+    affiliations.push(authorAffiliationSchema.parse({ name, ror }));
+  }
+  return affiliations;
+}
+
+function assertUniqueOrcid(authors: AuthorEntry[], orcid?: string, id?: string) {
+  if (!orcid) return;
+  const existing = authors.find((author) => author.orcid === orcid && author.id !== id);
+  if (existing) {
+    throw new Error(`ORCID ${orcid} is already used by ${existing.lastName}`);
+  }
+}
+
+/**
+ * Add a new author to the end of the author list
+ */
+export async function addAuthor(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    AddAuthorSchema,
+    formData,
+    async ({ firstName, lastName, orcid, affiliationName, affiliationRor }) => {
+      const affiliations = parseAffiliations(affiliationName, affiliationRor);
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const currentAuthors = currentMetadata.authors || [];
+        assertUniqueOrcid(currentAuthors, orcid);
+
+        const newAuthor: AuthorEntry = {
+          id: uuidv7(),
+          firstName,
+          lastName,
+          orcid,
+          affiliations,
+        };
+
+        return {
+          ...currentMetadata,
+          authors: [...currentAuthors, newAuthor],
+        };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'author-add' } },
+  );
+}
+
+/**
+ * Update an existing author in place, replacing their affiliations
+ */
+export async function updateAuthor(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    UpdateAuthorSchema,
+    formData,
+    async ({ id, firstName, lastName, orcid, affiliationName, affiliationRor }) => {
+      const affiliations = parseAffiliations(affiliationName, affiliationRor);
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const currentAuthors = currentMetadata.authors || [];
+        if (!currentAuthors.some((author) => author.id === id)) {
+          throw new Error('Author not found');
+        }
+        assertUniqueOrcid(currentAuthors, orcid, id);
+
+        return {
+          ...currentMetadata,
+          authors: currentAuthors.map((author) =>
+            author.id === id ? { id, firstName, lastName, orcid, affiliations } : author,
+          ),
+        };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'author-update' } },
+  );
+}
+
+/**
+ * Remove an author by UUID
+ */
+export async function removeAuthor(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    RemoveAuthorSchema,
+    formData,
+    async ({ id }) => {
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const currentAuthors = currentMetadata.authors || [];
+        if (!currentAuthors.some((author) => author.id === id)) {
+          throw new Error('Author not found');
+        }
+        return {
+          ...currentMetadata,
+          authors: currentAuthors.filter((author) => author.id !== id),
+        };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'author-remove' } },
+  );
+}
+
+/**
+ * Move an author one place up or down the author list
+ */
+export async function moveAuthor(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    MoveAuthorSchema,
+    formData,
+    async ({ id, direction }) => {
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const authors = [...(currentMetadata.authors || [])];
+        const index = authors.findIndex((author) => author.id === id);
+        if (index === -1) throw new Error('Author not found');
+        const target = direction === 'up' ? index - 1 : index + 1;
+        if (target < 0 || target >= authors.length) return currentMetadata;
+        [authors[index], authors[target]] = [authors[target], authors[index]];
+        return { ...currentMetadata, authors };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'author-move' } },
+  );
+}
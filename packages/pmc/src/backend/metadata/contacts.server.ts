@@ -0,0 +1,114 @@
+import { data as dataResponse } from 'react-router';
+import { zfd } from 'zod-form-data';
+import { z } from 'zod';
+import { uuidv7 } from 'uuidv7';
+import { getPrismaClient, withValidFormData } from '@curvenote/scms-server';
+import { safelyUpdatePMCMetadata } from './utils.server.js';
+import type {
+  ContactEntry,
+  PMCWorkVersionMetadata,
+  PMCWorkVersionMetadataSection,
+} from '../../common/metadata.schema.js';
+import { contactEntrySchema } from '../../common/metadata.schema.js';
+
+/**
+ * Contact Actions for PMC Metadata
+ *
+ * Handles adding and removing the additional contacts (PI, corresponding author) that
+ * are sent to NIHMS alongside the reviewer.
+ */
+
+const AddContactSchema = zfd.formData({
+  contactType: contactEntrySchema.shape.contactType.refine((value) => value !== 'reviewer', {
+    message: 'The reviewer is set in the PMC Reviewer section',
+  }),
+  firstName: zfd.text(contactEntrySchema.shape.firstName),
+  lastName: zfd.text(contactEntrySchema.shape.lastName),
+  email: zfd.text(contactEntrySchema.shape.email),
+});
+
+const RemoveContactSchema = zfd.formData({
+  id: z.string().min(1, 'A UID is required'),
+});
+
+function findContact(contacts: ContactEntry[], contactType: string, email: string) {
+  return contacts.find(
+    (contact) =>
+      contact.contactType === contactType && contact.email.toLowerCase() === email.toLowerCase(),
+  );
+}
+
+/**
+ * Add a new contact to the contacts array
+ */
+export async function addContact(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    AddContactSchema,
+    formData,
+    async ({ contactType, firstName, lastName, email }) => {
+      // Checked before the update so the message reaches the form, an error thrown during the
+      // update is reported as a generic failure
+      const prisma = await getPrismaClient();
+      const workVersion = await prisma.workVersion.findUnique({
+        where: { id: workVersionId },
+        select: { metadata: true },
+      });
+      const metadata = workVersion?.metadata as PMCWorkVersionMetadataSection | null | undefined;
+      if (findContact(metadata?.pmc?.contacts ?? [], contactType, email)) {
+        return dataResponse(
+          {
+            error: {
+              type: 'general',
+              message: `${email} is already a contact for this deposit`,
+            },
+          },
+          { status: 409 },
+        );
+      }
+
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const currentContacts = currentMetadata.contacts || [];
+        if (findContact(currentContacts, contactType, email)) {
+          throw new Error(`${email} is already a contact for this deposit`);
+        }
+
+        const newContact: ContactEntry = {
+          id: uuidv7(),
+          contactType,
+          firstName,
+          lastName,
+          email,
+        };
+
+        return {
+          ...currentMetadata,
+          contacts: [...currentContacts, newContact],
+        };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'contact-add' } },
+  );
+}
+
+/**
+ * Remove a contact by UUID
+ */
+export async function removeContact(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    RemoveContactSchema,
+    formData,
+    async ({ id }) => {
+      return safelyUpdatePMCMetadata(workVersionId, (currentMetadata: PMCWorkVersionMetadata) => {
+        const currentContacts = currentMetadata.contacts || [];
+        if (!currentContacts.some((contact) => contact.id === id)) {
+          throw new Error('Contact not found');
+        }
+        return {
+          ...currentMetadata,
+          contacts: currentContacts.filter((contact) => contact.id !== id),
+        };
+      });
+    },
+    { errorFields: { type: 'general', intent: 'contact-remove' } },
+  );
+}
@@ -1,6 +1,6 @@
 // eslint-disable-next-line import/no-extraneous-dependencies
 import { describe, it, expect } from 'vitest';
-import { validateCrossrefResponse } from './crossref-validation.js';
+import { getAuthorEntriesFromCrossref, validateCrossrefResponse } from './crossref-validation.js';
 
 describe('validateCrossrefResponse', () => {
   describe('Valid responses', () => {
@@ -306,3 +306,45 @@ describe('validateCrossrefResponse', () => {
     });
   });
 });
+
+describe('getAuthorEntriesFromCrossref', () => {
+  it('returns an empty list when there are no authors', () => {
+    expect(getAuthorEntriesFromCrossref(undefined)).toEqual([]);
+  });
+
+  it('lists the first author first and drops authors without a family name', () => {
+    const authors = getAuthorEntriesFromCrossref([
+      { given: 'Bo', family: 'Second', sequence: 'additional' },
+      { given: 'Ann', family: 'First', sequence: 'first' },
+      { given: 'The Consortium' },
+    ]);
+    expect(authors.map((author) => author.lastName)).toEqual(['First', 'Second']);
+    expect(authors.every((author) => author.id)).toBe(true);
+  });
+
+  it('normalizes ORCIDs and ROR IDs', () => {
+    const [author] = getAuthorEntriesFromCrossref([
+      {
+        given: 'Josiah',
+        family: 'Carberry',
+        ORCID: 'http://orcid.org/0000-0002-1825-0097',
+        affiliation: [
+          {
+            name: 'Brown University',
+            id: [{ id: 'https://ror.org/05gq02987', 'id-type': 'ROR' }],
+          },
+          { name: 'Wesleyan University' },
+        ],
+      },
+    ]);
+    expect(author).toMatchObject({
+      firstName: 'Josiah',
+      lastName: 'Carberry',
+      orcid: '0000-0002-1825-0097',
+      affiliations: [
+        { name: 'Brown University', ror: '05gq02987' },
+        { name: 'Wesleyan University', ror: undefined },
+      ],
+    });
+  });
+});
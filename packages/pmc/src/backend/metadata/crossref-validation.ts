@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { uuidv7 } from 'uuidv7';
+import type { AuthorEntry } from '../../common/metadata.schema.js';
+import { normalizeOrcid, normalizeRorId } from '../../common/validation.js';
 
 /**
  * Zod schema for validating Crossref CSL-JSON response items
@@ -18,6 +21,18 @@ const crossrefItemSchema = z.object({
       z.object({
         given: z.string().optional(),
         family: z.string().optional(),
+        sequence: z.string().optional(),
+        ORCID: z.string().optional(),
+        affiliation: z
+          .array(
+            z.object({
+              name: z.string(),
+              id: z
+                .array(z.object({ id: z.string(), 'id-type': z.string().optional() }))
+                .optional(),
+            }),
+          )
+          .optional(),
       }),
     )
     .optional(),
@@ -59,6 +74,9 @@ export interface ValidatedCrossrefItem {
   author?: Array<{
     given?: string;
     family?: string;
+    sequence?: string;
+    ORCID?: string;
+    affiliation?: Array<{ name: string; id?: Array<{ id: string; 'id-type'?: string }> }>;
   }>;
   type?: string;
   volume?: string;
@@ -137,3 +155,34 @@ export function validateCrossrefResponse(response: any):
     };
   }
 }
+
+/**
+ * Converts the Crossref authors into the editable PMC author list, the first author is
+ * listed first and authors without a family name (e.g. consortia) are dropped
+ */
+export function getAuthorEntriesFromCrossref(
+  authors: ValidatedCrossrefItem['author'],
+): AuthorEntry[] {
+  if (!authors) return [];
+  return [...authors]
+    .sort((a, b) => Number(b.sequence === 'first') - Number(a.sequence === 'first'))
+    .filter((author) => author.family && author.family.trim() !== '')
+    .map((author) => {
+      const entry: AuthorEntry = {
+        id: uuidv7(),
+        firstName: author.given?.trim() || undefined,
+        lastName: (author.family as string).trim(),
+        orcid: author.ORCID ? normalizeOrcid(author.ORCID) : undefined,
+        affiliations: (author.affiliation ?? [])
+          .filter((affiliation) => affiliation.name.trim() !== '')
+          .map((affiliation) => {
+            const rorId = affiliation.id?.find(({ 'id-type': idType }) => idType === 'ROR')?.id;
+            return {
+              name: affiliation.name.trim(),
+              ror: rorId ? normalizeRorId(rorId) : undefined,
+            };
+          }),
+      };
+      return entry;
+    });
+}
@@ -0,0 +1,59 @@
+import { zfd } from 'zod-form-data';
+import type { Context } from '@curvenote/scms-core';
+import { withValidFormData } from '@curvenote/scms-server';
+import { safelyPatchPMCMetadata } from './utils.server.js';
+import type { Embargo } from '../../common/metadata.schema.js';
+import { embargoSchema } from '../../common/metadata.schema.js';
+import type { EmbargoPolicy } from '../../common/validation.js';
+
+const EmbargoSchema = zfd
+  .formData({
+    type: zfd.text(embargoSchema.shape.type),
+    months: zfd.numeric(embargoSchema.shape.months),
+    releaseDate: zfd.text(embargoSchema.shape.releaseDate),
+  })
+  .refine((data) => data.type !== 'months' || data.months !== undefined, {
+    message: 'Enter the number of months of the embargo',
+    path: ['months'],
+  })
+  .refine((data) => data.type !== 'date' || data.releaseDate !== undefined, {
+    message: 'Enter the release date of the embargo',
+    path: ['releaseDate'],
+  });
+
+/**
+ * The funder embargo limits from the `app.extensions.pmc.embargoPolicy` setting
+ */
+export function getEmbargoPolicy(ctx: Context): EmbargoPolicy {
+  return ctx.$config.app.extensions?.pmc?.embargoPolicy ?? {};
+}
+
+/**
+ * Updates the publisher embargo in PMC metadata, only the field matching the embargo
+ * type is kept. Funder policies are checked when the deposit is validated, so an embargo
+ * that breaks a policy can still be saved while the grants are being sorted out.
+ * @param formData - Form data containing the embargo type, months or release date
+ * @param workVersionId - The work version ID
+ * @returns Success response or error response
+ */
+export async function updateEmbargo(formData: FormData, workVersionId: string) {
+  return withValidFormData(
+    EmbargoSchema,
+    formData,
+    async ({ type, months, releaseDate }) => {
+      let embargo: Embargo;
+      switch (type) {
+        case 'months':
+          embargo = { type, months };
+          break;
+        case 'date':
+          embargo = { type, releaseDate };
+          break;
+        default:
+          embargo = { type: 'none' };
+      }
+      return safelyPatchPMCMetadata(workVersionId, { embargo });
+    },
+    { errorFields: { type: 'general', intent: 'embargo-update' } },
+  );
+}
@@ -2,7 +2,7 @@ import { data as dataResponse } from 'react-router';
 import { zfd } from 'zod-form-data';
 import { withValidFormData, lookupMetadataFromDoi } from '@curvenote/scms-server';
 import { z } from 'zod';
-import { validateCrossrefResponse } from './crossref-validation.js';
+import { getAuthorEntriesFromCrossref, validateCrossrefResponse } from './crossref-validation.js';
 import { safelyPatchPMCMetadata } from './utils.server.js';
 import { PMCTrackEvent } from '../../analytics/events.js';
 import { pmcMetadataSchema } from '../../common/metadata.schema.js';
@@ -33,6 +33,7 @@ export async function resetPublicationMetadata(formData: FormData, workVersionId
     doiContainerTitle: undefined,
     doiShortContainerTitle: undefined,
     doiAuthors: undefined,
+    authors: undefined,
     doiType: undefined,
     doiVolume: undefined,
     doiIssue: undefined,
@@ -264,7 +265,12 @@ export async function updatePublicationMetadataByDoi(
           doiContainerTitle: containerTitle,
           journalName: containerTitle,
           doiShortContainerTitle: item['short-container-title'],
-          doiAuthors: item.author,
+          doiAuthors: item.author?.map(({ given, family, sequence }) => ({
+            given,
+            family,
+            sequence,
+          })),
+          authors: getAuthorEntriesFromCrossref(item.author),
           doiType: item.type,
           doiVolume: item.volume,
           doiIssue: item.issue,
@@ -182,6 +182,13 @@ function formatAuthorName(author: DoiAuthor): string {
  * Formats authors from PMC metadata, sorting by sequence and formatting names
  */
 export function formatPMCAuthors(pmc: PMCWorkVersionMetadata): string[] {
+  // Prefer the edited author list
+  if (pmc.authors && pmc.authors.length > 0) {
+    return pmc.authors
+      .map((author) => [author.firstName, author.lastName].filter(Boolean).join(' ').trim())
+      .filter(Boolean);
+  }
+
   // Handle case where we have DOI authors
   if (pmc.doiAuthors && Array.isArray(pmc.doiAuthors) && pmc.doiAuthors.length > 0) {
     return [...pmc.doiAuthors].sort(compareAuthorSequence).map(formatAuthorName).filter(Boolean); // Remove any empty strings
@@ -48,8 +48,9 @@ const mockNIHJournalList: NIHJournalList = {
   ],
 };
 
-vi.mock('../data/J_Entrez.json', () => ({
-  default: mockNIHJournalList,
+// Mock the latest journal list version stored in the database
+vi.mock('../journal-list.server.js', () => ({
+  getLatestJournalList: async () => mockNIHJournalList,
 }));
 
 import { getNIHJournalById } from './nih-journal.server.js';
@@ -0,0 +1,146 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import type { JournalInfo } from '../jobs/types.js';
+import {
+  MAX_JOURNAL_LIST_DIFF_ITEMS,
+  diffJournalLists,
+  parseJournalEntries,
+  parseJournalList,
+  summarizeJournalListVersion,
+} from './journal-list.js';
+
+const NLM_TEXT = `--------------------------------------------------------
+JrId: 6011
+JournalTitle: Nature
+MedAbbr: Nature
+ISSN (Print): 0028-0836
+ISSN (Online): 1476-4687
+IsoAbbr: Nature
+NlmId: 0410462
+--------------------------------------------------------
+JrId: 21218
+JournalTitle: eLife
+MedAbbr: Elife
+ISSN (Print):
+ISSN (Online): 2050-084X
+IsoAbbr: Elife
+NlmId: 101579614
+--------------------------------------------------------
+JrId: 2000
+JournalTitle: Journal without an ISSN
+MedAbbr: J No ISSN
+ISSN (Print):
+ISSN (Online):
+--------------------------------------------------------
+`;
+
+const journal = (id: number, journalTitle: string): JournalInfo => ({
+  id,
+  journalTitle,
+  nlmta: journalTitle,
+  eissn: `0000-000${id}`,
+  startDate: '2020-01-01',
+});
+
+describe('parseJournalEntries', () => {
+  it('parses the NLM journal list and skips journals without an ISSN', () => {
+    expect(parseJournalEntries(NLM_TEXT)).toEqual([
+      {
+        id: 6011,
+        journalTitle: 'Nature',
+        nlmta: 'Nature',
+        pissn: '0028-0836',
+        eissn: '1476-4687',
+        isoAbbr: 'Nature',
+        nlmId: '0410462',
+      },
+      {
+        id: 21218,
+        journalTitle: 'eLife',
+        nlmta: 'Elife',
+        eissn: '2050-084X',
+        isoAbbr: 'Elife',
+        nlmId: '101579614',
+      },
+    ]);
+  });
+});
+
+describe('parseJournalList', () => {
+  it('records the source and date for the NLM text format', () => {
+    const list = parseJournalList(NLM_TEXT, 'J_Entrez.txt', '2026-01-05T00:00:00.000Z');
+    expect(list.source).toBe('J_Entrez.txt');
+    expect(list.date).toBe('2026-01-05T00:00:00.000Z');
+    expect(list.items).toHaveLength(2);
+  });
+
+  it('accepts a converted JSON list and keeps its date', () => {
+    const json = JSON.stringify({
+      source: 'https://ftp.ncbi.nih.gov/pubmed/J_Entrez.txt',
+      date: '2025-12-01T00:00:00.000Z',
+      items: [journal(1, 'Cell')],
+    });
+    const list = parseJournalList(json, 'J_Entrez.json', '2026-01-05T00:00:00.000Z');
+    expect(list.date).toBe('2025-12-01T00:00:00.000Z');
+    expect(list.items).toHaveLength(1);
+  });
+
+  it('throws if there are no journals', () => {
+    expect(() => parseJournalList('', 'empty.txt', '2026-01-05')).toThrow(
+      'No journals found in the journal list from empty.txt',
+    );
+  });
+});
+
+describe('diffJournalLists', () => {
+  it('lists journals added and removed by NLM id', () => {
+    const previous = [journal(1, 'Cell'), journal(2, 'Neuron')];
+    const next = [journal(2, 'Neuron (renamed)'), journal(3, 'eLife')];
+    expect(diffJournalLists(previous, next)).toEqual({
+      added: [{ id: 3, journalTitle: 'eLife', nlmta: 'eLife' }],
+      removed: [{ id: 1, journalTitle: 'Cell', nlmta: 'Cell' }],
+    });
+  });
+
+  it('treats every journal as added for the first version', () => {
+    expect(diffJournalLists([], [journal(1, 'Cell')]).added).toHaveLength(1);
+  });
+});
+
+describe('summarizeJournalListVersion', () => {
+  const list = {
+    source: 'J_Entrez.txt',
+    date: '2026-01-05T00:00:00.000Z',
+    items: [journal(1, 'Cell'), journal(2, 'Neuron')],
+  };
+
+  it('records the counts without changes for the first version', () => {
+    expect(summarizeJournalListVersion('v1', list, '2026-01-05T01:00:00.000Z')).toEqual({
+      versionId: 'v1',
+      previousVersionId: undefined,
+      source: 'J_Entrez.txt',
+      date: '2026-01-05T00:00:00.000Z',
+      fetchedAt: '2026-01-05T01:00:00.000Z',
+      totalJournals: 2,
+    });
+  });
+
+  it('keeps a limited number of the changes from the previous version', () => {
+    const added = Array.from({ length: MAX_JOURNAL_LIST_DIFF_ITEMS + 5 }, (_, index) => ({
+      id: index,
+      journalTitle: `Journal ${index}`,
+      nlmta: `J ${index}`,
+    }));
+    const summary = summarizeJournalListVersion(
+      'v2',
+      list,
+      '2026-01-12T01:00:00.000Z',
+      { added, removed: [] },
+      'v1',
+    );
+    expect(summary.previousVersionId).toBe('v1');
+    expect(summary.addedCount).toBe(MAX_JOURNAL_LIST_DIFF_ITEMS + 5);
+    expect(summary.added).toHaveLength(MAX_JOURNAL_LIST_DIFF_ITEMS);
+    expect(summary.removedCount).toBe(0);
+  });
+});
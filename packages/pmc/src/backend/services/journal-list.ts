@@ -0,0 +1,166 @@
+import type { JournalInfo, JournalInfoFile } from '../jobs/types.js';
+
+/**
+ * NLM journal list parsing and comparison
+ *
+ * The NLM publishes the journals indexed in PubMed as a plain text file (J_Entrez.txt), one
+ * block of `Key: value` lines per journal separated by a line of dashes. Only journals with at
+ * least one ISSN are kept as the ISSN is needed for a PMC deposit.
+ */
+
+export const DEFAULT_JOURNAL_LIST_SOURCE = 'https://ftp.ncbi.nih.gov/pubmed/J_Entrez.txt';
+
+// Number of added/removed journals kept in a summary for display
+export const MAX_JOURNAL_LIST_DIFF_ITEMS = 200;
+
+/**
+ * Identifying details of a journal, used when reporting changes between list versions
+ */
+export type JournalSummary = Pick<JournalInfo, 'id' | 'journalTitle' | 'nlmta'>;
+
+export interface JournalListDiff {
+  added: JournalSummary[];
+  removed: JournalSummary[];
+}
+
+/**
+ * Counts and changes of a stored version of the journal list, a type alias rather than an
+ * interface so it can be written as JSON
+ */
+export type JournalListSummary = {
+  versionId: string;
+  previousVersionId?: string;
+  source: string;
+  date: string;
+  fetchedAt: string;
+  totalJournals: number;
+  /** Changes from the previous version, not set for the first version */
+  addedCount?: number;
+  removedCount?: number;
+  added?: JournalSummary[];
+  removed?: JournalSummary[];
+};
+
+/**
+ * Parses the entries of the NLM journal list text file
+ */
+export function parseJournalEntries(content: string): JournalInfo[] {
+  const entries: JournalInfo[] = [];
+
+  // Split by the separator line (dashes)
+  const entryBlocks = content.split(/-{10,}/);
+
+  for (const block of entryBlocks) {
+    if (!block.trim()) continue;
+
+    const lines = block.trim().split('\n');
+    const entry: Partial<JournalInfo> = {};
+
+    for (const line of lines) {
+      const trimmedLine = line.trim();
+      if (!trimmedLine) continue;
+
+      const colonIndex = trimmedLine.indexOf(':');
+      if (colonIndex === -1) continue;
+
+      const key = trimmedLine.substring(0, colonIndex).trim();
+      const value = trimmedLine.substring(colonIndex + 1).trim();
+
+      switch (key) {
+        case 'JrId':
+          entry.id = parseInt(value, 10);
+          break;
+        case 'JournalTitle':
+          entry.journalTitle = value;
+          break;
+        case 'MedAbbr':
+          entry.nlmta = value;
+          break;
+        case 'ISSN (Print)':
+          if (value) entry.pissn = value;
+          break;
+        case 'ISSN (Online)':
+          if (value) entry.eissn = value;
+          break;
+        case 'IsoAbbr':
+          entry.isoAbbr = value;
+          break;
+        case 'NlmId':
+          entry.nlmId = value;
+          break;
+      }
+    }
+
+    // Only add entries that have required fields AND at least one ISSN
+    if (entry.id && entry.journalTitle && entry.nlmta && (entry.pissn || entry.eissn)) {
+      entries.push(entry as JournalInfo);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parses a journal list from either the NLM text format or an already converted JSON file
+ *
+ * @throws Error if the content contains no journals
+ */
+export function parseJournalList(content: string, source: string, date: string): JournalInfoFile {
+  let list: JournalInfoFile;
+  if (content.trimStart().startsWith('{')) {
+    const json = JSON.parse(content) as Partial<JournalInfoFile>;
+    list = { source: json.source ?? source, date: json.date ?? date, items: json.items ?? [] };
+  } else {
+    list = { source, date, items: parseJournalEntries(content) };
+  }
+  if (list.items.length === 0) {
+    throw new Error(`No journals found in the journal list from ${source}`);
+  }
+  return list;
+}
+
+const summarize = ({ id, journalTitle, nlmta }: JournalInfo): JournalSummary => ({
+  id,
+  journalTitle,
+  nlmta,
+});
+
+/**
+ * Lists the journals added to and removed from the journal list, matched on the NLM JrId
+ */
+export function diffJournalLists(previous: JournalInfo[], next: JournalInfo[]): JournalListDiff {
+  const previousIds = new Set(previous.map((journal) => journal.id));
+  const nextIds = new Set(next.map((journal) => journal.id));
+  return {
+    added: next.filter((journal) => !previousIds.has(journal.id)).map(summarize),
+    removed: previous.filter((journal) => !nextIds.has(journal.id)).map(summarize),
+  };
+}
+
+/**
+ * Build the summary of a new version, keeping at most MAX_JOURNAL_LIST_DIFF_ITEMS of its changes
+ */
+export function summarizeJournalListVersion(
+  versionId: string,
+  list: JournalInfoFile,
+  fetchedAt: string,
+  diff?: JournalListDiff,
+  previousVersionId?: string,
+): JournalListSummary {
+  return {
+    versionId,
+    previousVersionId,
+    source: list.source,
+    date: list.date,
+    fetchedAt,
+    totalJournals: list.items.length,
+    ...(diff
+      ? {
+          addedCount: diff.added.length,
+          removedCount: diff.removed.length,
+          added: diff.added.slice(0, MAX_JOURNAL_LIST_DIFF_ITEMS),
+          removed: diff.removed.slice(0, MAX_JOURNAL_LIST_DIFF_ITEMS),
+        }
+      : {}),
+  };
+}
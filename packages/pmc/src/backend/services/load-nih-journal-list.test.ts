@@ -0,0 +1,81 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NIHJournalList } from './nih-journal.server.js';
+
+const bundledNIHJournalList: NIHJournalList = {
+  source: 'bundled',
+  date: '2024-01-01',
+  items: [
+    {
+      id: 1,
+      journalTitle: 'Nature',
+      nlmta: 'Nature',
+      pissn: '0028-0836',
+      eissn: '1476-4687',
+      startDate: '2020-01-01',
+    },
+  ],
+};
+
+const storedNIHJournalList: NIHJournalList = {
+  source: 'stored',
+  date: '2026-01-05',
+  items: [
+    {
+      id: 2,
+      journalTitle: 'Science',
+      nlmta: 'Science',
+      pissn: '0036-8075',
+      eissn: '1095-9203',
+      startDate: '2020-01-01',
+    },
+  ],
+};
+
+const getLatestJournalList = vi.fn();
+
+vi.mock('../journal-list.server.js', () => ({
+  getLatestJournalList: () => getLatestJournalList(),
+}));
+
+// The bundled list, resolved from the package root
+vi.mock('/src/data/J_Entrez.json', () => ({
+  default: bundledNIHJournalList,
+}));
+
+import {
+  clearNIHJournalListCache,
+  loadNIHJournalList,
+  validateJournalAgainstNIH,
+} from './nih-journal.server.js';
+
+describe('loadNIHJournalList', () => {
+  beforeEach(() => {
+    getLatestJournalList.mockReset();
+    clearNIHJournalListCache();
+  });
+
+  it('should use the latest version stored in the database', async () => {
+    getLatestJournalList.mockResolvedValue(storedNIHJournalList);
+
+    expect(await loadNIHJournalList()).toEqual(storedNIHJournalList);
+  });
+
+  it('should fall back to the bundled list when no version is stored', async () => {
+    getLatestJournalList.mockResolvedValue(null);
+
+    expect(await loadNIHJournalList()).toEqual(bundledNIHJournalList);
+    const result = await validateJournalAgainstNIH('Nature');
+    expect(result.isValid).toBe(true);
+    expect(result.issn).toBe('1476-4687');
+  });
+
+  it('should throw if the database cannot be read', async () => {
+    getLatestJournalList.mockRejectedValue(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(loadNIHJournalList()).rejects.toThrow(
+      'Failed to load NIH Public Access journal list',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  createRecordedIdConverter,
+  getArticleIdType,
+  groupArticleIdsByType,
+  normalizeArticleId,
+  parseIdConverterResponse,
+} from './ncbi-id-converter.js';
+import type { IdConverterResponse } from './ncbi-id-converter.js';
+
+const recorded: IdConverterResponse[] = JSON.parse(
+  readFileSync(new URL('../../data/ncbi-idconv.fixture.json', import.meta.url), 'utf8'),
+);
+
+describe('normalizeArticleId', () => {
+  it('removes DOI prefixes and upper cases NIHMS and PMC IDs', () => {
+    expect(normalizeArticleId('https://doi.org/10.7554/eLife.81427')).toBe('10.7554/eLife.81427');
+    expect(normalizeArticleId('doi: 10.7554/eLife.81427')).toBe('10.7554/eLife.81427');
+    expect(normalizeArticleId(' nihms1842137 ')).toBe('NIHMS1842137');
+    expect(normalizeArticleId('pmc9733781')).toBe('PMC9733781');
+  });
+});
+
+describe('getArticleIdType', () => {
+  it('recognizes the ID types accepted by the converter', () => {
+    expect(getArticleIdType('10.1016/j.cell.2022.11.001')).toBe('doi');
+    expect(getArticleIdType('NIHMS1842137')).toBe('mid');
+    expect(getArticleIdType('PMC9733781')).toBe('pmcid');
+    expect(getArticleIdType('36450254')).toBe('pmid');
+    expect(getArticleIdType('not an id')).toBeUndefined();
+  });
+
+  it('groups IDs by type and leaves out duplicates and unknown IDs', () => {
+    const groups = groupArticleIdsByType([
+      'NIHMS1842137',
+      'nihms1842137',
+      '10.7554/eLife.81427',
+      'unknown',
+    ]);
+    expect(Object.fromEntries(groups)).toEqual({
+      mid: ['NIHMS1842137'],
+      doi: ['10.7554/eLife.81427'],
+    });
+  });
+});
+
+describe('parseIdConverterResponse', () => {
+  it('reads the IDs of each record and leaves out records with an error', () => {
+    expect(parseIdConverterResponse(recorded[0])).toEqual([
+      {
+        requestedId: 'NIHMS1842137',
+        mid: 'NIHMS1842137',
+        pmcid: 'PMC9733781',
+        pmid: '36450254',
+        doi: '10.1016/j.cell.2022.11.001',
+      },
+      {
+        requestedId: 'NIHMS1840022',
+        mid: 'NIHMS1840022',
+        pmid: '36302896',
+        doi: '10.1038/s41586-022-05377-5',
+        pmcid: undefined,
+      },
+    ]);
+  });
+
+  it('throws on an error response', () => {
+    expect(() => parseIdConverterResponse({ status: 'error' })).toThrow(
+      'The ID converter returned an error status: error',
+    );
+  });
+});
+
+describe('createRecordedIdConverter', () => {
+  it('answers from the recorded responses by any ID of an article', async () => {
+    const converter = createRecordedIdConverter(recorded);
+    const results = await converter.convert([
+      'NIHMS1842137',
+      'https://doi.org/10.7554/elife.81427',
+      'NIHMS1901554',
+    ]);
+    expect(results.map(({ requestedId, pmid, pmcid }) => ({ requestedId, pmid, pmcid }))).toEqual([
+      { requestedId: 'NIHMS1842137', pmid: '36450254', pmcid: 'PMC9733781' },
+      { requestedId: '10.7554/elife.81427', pmid: '36645345', pmcid: 'PMC9848386' },
+    ]);
+  });
+});
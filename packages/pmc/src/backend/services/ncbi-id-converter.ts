@@ -0,0 +1,171 @@
+/**
+ * NCBI PMC ID converter
+ *
+ * The ID converter maps between the identifiers of an article: DOI, NIHMS manuscript ID (`mid`),
+ * PMID and PMCID. Lookups go through an adapter, either the NCBI service or a local stand-in that
+ * answers from recorded responses, for tests and local development.
+ *
+ * https://www.ncbi.nlm.nih.gov/pmc/tools/id-converter-api/
+ */
+
+export const DEFAULT_ID_CONVERTER_SOURCE = 'https://www.ncbi.nlm.nih.gov/pmc/utils/idconv/v1.0/';
+
+// The service accepts up to 200 IDs of the same type per request
+const ID_CONVERTER_BATCH_SIZE = 200;
+
+export type ArticleIdType = 'doi' | 'mid' | 'pmid' | 'pmcid';
+
+export interface ArticleIds {
+  /** The ID as it was requested */
+  requestedId: string;
+  doi?: string;
+  mid?: string;
+  pmid?: string;
+  pmcid?: string;
+}
+
+/**
+ * A JSON response of the ID converter, as returned by the service and recorded in fixtures
+ */
+export interface IdConverterResponse {
+  status: string;
+  responseDate?: string;
+  request?: string;
+  records?: Array<Record<string, any>>;
+}
+
+export interface IdConverterAdapter {
+  /**
+   * Look up the IDs of articles, IDs that are not known to the converter are left out
+   */
+  convert(ids: string[]): Promise<ArticleIds[]>;
+}
+
+/**
+ * Normalize an ID before it is sent to the converter: DOI URLs and `doi:` prefixes are removed and
+ * NIHMS and PMC IDs are upper cased
+ */
+export function normalizeArticleId(id: string): string {
+  const trimmed = id.trim();
+  const doi = trimmed.match(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)(10\..+)$/i);
+  if (doi) return doi[1];
+  if (/^(nihms|pmc)\d+$/i.test(trimmed)) return trimmed.toUpperCase();
+  return trimmed;
+}
+
+/**
+ * Get the type of an ID, or undefined if the converter does not accept it
+ */
+export function getArticleIdType(id: string): ArticleIdType | undefined {
+  const normalized = normalizeArticleId(id);
+  if (/^10\.\d{4,}\/\S+$/.test(normalized)) return 'doi';
+  if (/^NIHMS\d+$/.test(normalized)) return 'mid';
+  if (/^PMC\d+$/.test(normalized)) return 'pmcid';
+  if (/^\d+$/.test(normalized)) return 'pmid';
+  return undefined;
+}
+
+function cleanId(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const id = String(value).trim();
+  return id || undefined;
+}
+
+/**
+ * Get the article IDs from an ID converter response, records the converter could not resolve
+ * (with an error status) are left out
+ */
+export function parseIdConverterResponse(response: IdConverterResponse): ArticleIds[] {
+  if (response.status !== 'ok') {
+    throw new Error(`The ID converter returned an error status: ${response.status}`);
+  }
+  return (response.records ?? [])
+    .filter((record) => record.status !== 'error')
+    .map((record) => {
+      const ids: ArticleIds = {
+        requestedId: normalizeArticleId(String(record['requested-id'] ?? '')),
+        doi: cleanId(record.doi),
+        mid: cleanId(record.mid),
+        pmid: cleanId(record.pmid),
+        pmcid: cleanId(record.pmcid),
+      };
+      // Older responses do not echo the requested ID, it is one of the IDs of the record
+      if (!ids.requestedId) ids.requestedId = ids.mid ?? ids.doi ?? ids.pmcid ?? ids.pmid ?? '';
+      return ids;
+    })
+    .filter((ids) => !!ids.requestedId);
+}
+
+/**
+ * Group the IDs by type, as the service only accepts IDs of one type in a request
+ */
+export function groupArticleIdsByType(ids: string[]): Map<ArticleIdType, string[]> {
+  const groups = new Map<ArticleIdType, string[]>();
+  for (const id of new Set(ids.map(normalizeArticleId))) {
+    const idType = getArticleIdType(id);
+    if (!idType) continue;
+    groups.set(idType, [...(groups.get(idType) ?? []), id]);
+  }
+  return groups;
+}
+
+/**
+ * Adapter for the NCBI service, NCBI asks clients to identify themselves with a tool name and a
+ * contact email
+ */
+export function createNCBIIdConverter({
+  url = DEFAULT_ID_CONVERTER_SOURCE,
+  tool,
+  email,
+}: {
+  url?: string;
+  tool?: string;
+  email?: string;
+}): IdConverterAdapter {
+  return {
+    async convert(ids) {
+      const results: ArticleIds[] = [];
+      for (const [idType, typeIds] of groupArticleIdsByType(ids)) {
+        for (let i = 0; i < typeIds.length; i += ID_CONVERTER_BATCH_SIZE) {
+          const params = new URLSearchParams({
+            ids: typeIds.slice(i, i + ID_CONVERTER_BATCH_SIZE).join(','),
+            idtype: idType,
+            format: 'json',
+          });
+          if (tool) params.set('tool', tool);
+          if (email) params.set('email', email);
+          const response = await fetch(`${url}?${params}`);
+          if (!response.ok) {
+            throw new Error(
+              `Failed to look up article IDs: ${response.status} ${response.statusText}`,
+            );
+          }
+          results.push(...parseIdConverterResponse((await response.json()) as IdConverterResponse));
+        }
+      }
+      return results;
+    },
+  };
+}
+
+/**
+ * Local stand-in for the NCBI service that answers from recorded responses, an ID is found if any
+ * of its IDs matches the requested one
+ */
+export function createRecordedIdConverter(
+  recorded: IdConverterResponse | IdConverterResponse[],
+): IdConverterAdapter {
+  const known = (Array.isArray(recorded) ? recorded : [recorded]).flatMap(parseIdConverterResponse);
+  return {
+    async convert(ids) {
+      return [...new Set(ids.map(normalizeArticleId))]
+        .map((requestedId) => {
+          const match = known.find(({ doi, mid, pmid, pmcid }) =>
+            [doi, mid, pmid, pmcid].some((id) => id?.toLowerCase() === requestedId.toLowerCase()),
+          );
+          return match ? { ...match, requestedId } : undefined;
+        })
+        .filter((ids): ids is ArticleIds => !!ids);
+    },
+  };
+}
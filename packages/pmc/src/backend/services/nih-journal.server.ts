@@ -1,5 +1,6 @@
 import Fuse from 'fuse.js';
 import type { IFuseOptions } from 'fuse.js';
+import { getLatestJournalList } from '../journal-list.server.js';
 
 // Types for NIH journal data
 export interface NIHJournal {
@@ -26,7 +27,7 @@ export interface NIHValidationResult {
   error?: string;
 }
 
-// Cache for the NIH journal list to avoid repeated file reads
+// Cache for the NIH journal list to avoid repeated database reads
 let nihJournalListCache: NIHJournalList | null = null;
 let nihJournalListCacheTime: number = 0;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -84,10 +85,28 @@ function getFuseInstance(journals: NIHJournal[]): Fuse<NIHJournal> {
 }
 
 /**
- * Load the NIH journal list from the JSON file
+ * Clear the cached journal list, e.g. after a new version has been stored
+ */
+export function clearNIHJournalListCache() {
+  nihJournalListCache = null;
+  nihJournalListCacheTime = 0;
+  fuseInstance = null;
+}
+
+/**
+ * Load the NIH journal list bundled with the extension
+ */
+async function loadBundledNIHJournalList(): Promise<NIHJournalList> {
+  const nihJournalList = await import('../../data/J_Entrez.json');
+  return nihJournalList.default as NIHJournalList;
+}
+
+/**
+ * Load the latest version of the NIH journal list from the database, or the bundled list until
+ * the first refresh has stored a version
  * Uses caching to improve performance
  */
-async function loadNIHJournalList(): Promise<NIHJournalList> {
+export async function loadNIHJournalList(): Promise<NIHJournalList> {
   const now = Date.now();
 
   // Return cached data if still valid
@@ -96,11 +115,10 @@ async function loadNIHJournalList(): Promise<NIHJournalList> {
   }
 
   try {
-    // Import the JSON file dynamically
-    const nihJournalList = await import('../../data/J_Entrez.json');
+    const nihJournalList = (await getLatestJournalList()) ?? (await loadBundledNIHJournalList());
 
     // Update cache
-    nihJournalListCache = nihJournalList.default as NIHJournalList;
+    nihJournalListCache = nihJournalList;
     nihJournalListCacheTime = now;
 
     // Reset Fuse instance when data changes
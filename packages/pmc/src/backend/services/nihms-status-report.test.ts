@@ -0,0 +1,101 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import {
+  getReportFieldName,
+  getReportFormat,
+  parseCsvRows,
+  parseNIHMSStatusReport,
+} from './nihms-status-report.js';
+
+const CSV_REPORT = [
+  'NIHMS ID,PMID,PMCID,Current Status,Initial Approval Date,Final Approval Date,Grant',
+  '1234567,38000001,PMC10000001,Available in PMC,01/05/2024,2/14/2024,"HHMI, Janelia"',
+  'NIHMS7654321,,,"Reviewer\'s Final Approval Requested",03/01/2024,,HHMI',
+  ',,,Withdrawn from PMC,,,',
+].join('\r\n');
+
+const XML_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<report>
+  <manuscript nihms-id="1234567">
+    <pmid>38000001</pmid>
+    <pmcid>PMC10000001</pmcid>
+    <current-status>Reviewer&apos;s Initial Approval Requested</current-status>
+    <initial-approval-date></initial-approval-date>
+  </manuscript>
+  <manuscript>
+    <nihms-id>NIHMS7654321</nihms-id>
+    <status><![CDATA[NIHMS Conversion to PMC Documents]]></status>
+  </manuscript>
+</report>`;
+
+describe('parseCsvRows', () => {
+  it('parses quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsvRows('a,"b, ""c""","d\ne"\n1,2,3\n\n')).toEqual([
+      ['a', 'b, "c"', 'd\ne'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('getReportFieldName', () => {
+  it('maps report columns to the Airtable field names', () => {
+    expect(getReportFieldName('NIHMS ID')).toBe('NIHMSID');
+    expect(getReportFieldName('current_status')).toBe('current-status');
+    expect(getReportFieldName('Tagging Complete Date')).toBe('tagging-completion-date');
+    expect(getReportFieldName(' Journal ')).toBe('Journal');
+  });
+});
+
+describe('getReportFormat', () => {
+  it('uses the file extension of the source', () => {
+    expect(getReportFormat('reports/nihms-status.xml')).toBe('xml');
+    expect(getReportFormat('https://example.org/status.XML?token=abc')).toBe('xml');
+    expect(getReportFormat('reports/nihms-status.csv')).toBe('csv');
+    expect(getReportFormat('reports/nihms-status')).toBe('csv');
+  });
+});
+
+describe('parseNIHMSStatusReport', () => {
+  it('parses a CSV report into records with Airtable field names', () => {
+    expect(parseNIHMSStatusReport(CSV_REPORT, 'csv')).toEqual([
+      {
+        fields: {
+          NIHMSID: 'NIHMS1234567',
+          PMID: '38000001',
+          PMCID: 'PMC10000001',
+          'current-status': 'Available in PMC',
+          'initial-approval-date': '2024-01-05',
+          'final-approval-date': '2024-02-14',
+          Grant: 'HHMI, Janelia',
+        },
+      },
+      {
+        fields: {
+          NIHMSID: 'NIHMS7654321',
+          'current-status': "Reviewer's Final Approval Requested",
+          'initial-approval-date': '2024-03-01',
+          Grant: 'HHMI',
+        },
+      },
+    ]);
+  });
+
+  it('parses an XML report from attributes and child elements', () => {
+    expect(parseNIHMSStatusReport(XML_REPORT, 'xml')).toEqual([
+      {
+        fields: {
+          NIHMSID: 'NIHMS1234567',
+          PMID: '38000001',
+          PMCID: 'PMC10000001',
+          'current-status': "Reviewer's Initial Approval Requested",
+        },
+      },
+      {
+        fields: {
+          NIHMSID: 'NIHMS7654321',
+          'current-status': 'NIHMS Conversion to PMC Documents',
+        },
+      },
+    ]);
+  });
+});
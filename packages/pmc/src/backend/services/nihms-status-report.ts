@@ -0,0 +1,165 @@
+/**
+ * NIHMS status report parsing
+ *
+ * NIHMS can export the status of every manuscript as a CSV or XML report. The report is turned
+ * into records with the same field names as the Airtable mirror (`NIHMSID`, `current-status`,
+ * `PMID`, `PMCID` and the milestone dates) so both sources feed the same workflow sync and status
+ * mapping. Columns without a known name are kept under their own name, so the date fields of the
+ * status mapping can refer to them.
+ */
+
+export type NIHMSStatusReportFormat = 'csv' | 'xml';
+
+export type NIHMSStatusRecord = {
+  fields: Record<string, string>;
+};
+
+/**
+ * Report columns, with the header normalized to lower case letters and digits, and the Airtable
+ * field names they correspond to
+ */
+const REPORT_COLUMNS: Record<string, string> = {
+  nihmsid: 'NIHMSID',
+  manuscriptid: 'NIHMSID',
+  currentstatus: 'current-status',
+  status: 'current-status',
+  pmid: 'PMID',
+  pmcid: 'PMCID',
+  initialapprovaldate: 'initial-approval-date',
+  taggingcompletedate: 'tagging-completion-date',
+  taggingcompletiondate: 'tagging-completion-date',
+  finalapprovaldate: 'final-approval-date',
+  articlepublicationdate: 'article-publication-date',
+  shiptopmcdate: 'ship-to-pmc-date',
+  pubmeddate: 'pubmed-date',
+  pmcpublishdate: 'pmc-publish-date',
+};
+
+/**
+ * Get the Airtable field name for a report column
+ */
+export function getReportFieldName(column: string): string {
+  const normalized = column.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return REPORT_COLUMNS[normalized] ?? column.trim();
+}
+
+/**
+ * Normalize a report value: manuscript IDs always carry the NIHMS prefix and US dates are
+ * written as ISO dates, like in Airtable
+ */
+export function normalizeReportValue(field: string, value: string): string {
+  const trimmed = value.trim();
+  if (field === 'NIHMSID' && /^\d+$/.test(trimmed)) return `NIHMS${trimmed}`;
+  const usDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (usDate) {
+    const [, month, day, year] = usDate;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return trimmed;
+}
+
+/**
+ * Parse CSV content into rows of cells, quoted cells may contain commas, quotes and line breaks
+ */
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+function toRecord(entries: Array<[string, string]>): NIHMSStatusRecord {
+  const fields: Record<string, string> = {};
+  for (const [column, value] of entries) {
+    const field = getReportFieldName(column);
+    const normalized = normalizeReportValue(field, value);
+    if (field && normalized) fields[field] = normalized;
+  }
+  return { fields };
+}
+
+function parseCsvReport(content: string): NIHMSStatusRecord[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  return rows.map((row) => toRecord(header.map((column, idx) => [column, row[idx] ?? ''])));
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Each `<manuscript>` (or `<record>` / `<row>`) element is a record, its attributes and child
+ * elements are the columns
+ */
+function parseXmlReport(content: string): NIHMSStatusRecord[] {
+  const records: NIHMSStatusRecord[] = [];
+  const recordPattern = /<(manuscript|record|row)\b([^>]*)>([\s\S]*?)<\/\1>/gi;
+  for (const [, , attributes, body] of content.matchAll(recordPattern)) {
+    const entries: Array<[string, string]> = [];
+    for (const [, name, value] of attributes.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+      entries.push([name, decodeXml(value)]);
+    }
+    for (const [, name, value] of body.matchAll(/<([\w:-]+)\b[^>]*>([\s\S]*?)<\/\1>/g)) {
+      entries.push([name, decodeXml(value)]);
+    }
+    records.push(toRecord(entries));
+  }
+  return records;
+}
+
+/**
+ * Get the report format from the file name or URL, defaults to CSV
+ */
+export function getReportFormat(source: string): NIHMSStatusReportFormat {
+  return /\.xml(\?|$)/i.test(source) ? 'xml' : 'csv';
+}
+
+/**
+ * Parse a NIHMS status report, records without a manuscript ID are left out
+ */
+export function parseNIHMSStatusReport(
+  content: string,
+  format: NIHMSStatusReportFormat,
+): NIHMSStatusRecord[] {
+  const records = format === 'xml' ? parseXmlReport(content) : parseCsvReport(content);
+  return records.filter((record) => !!record.fields.NIHMSID);
+}
@@ -2,7 +2,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { NIHJournalList } from './nih-journal.server.js';
 
-// Mock the JSON import with a larger dataset for better search testing
+// Mock the journal list with a larger dataset for better search testing
 const mockNIHJournalList: NIHJournalList = {
   source: 'test',
   date: '2024-01-01',
@@ -105,9 +105,9 @@ const mockNIHJournalList: NIHJournalList = {
   ],
 };
 
-// Mock the JSON import
-vi.mock('~/modules/extensions/pmc/data/J_Entrez.json', () => ({
-  default: mockNIHJournalList,
+// Mock the latest journal list version stored in the database
+vi.mock('../journal-list.server.js', () => ({
+  getLatestJournalList: async () => mockNIHJournalList,
 }));
 
 // Import the function after mocking
@@ -0,0 +1,9 @@
+// Workflow sync sources
+export type { WorkflowSyncSource, WorkflowSyncSourceName } from './types.server.js';
+
+// Sources
+export { airtableSource } from './sources/airtable.server.js';
+export { nihmsReportSource } from './sources/nihms-report.server.js';
+
+// Registry management
+export { getWorkflowSyncSource, getConfiguredWorkflowSyncSources } from './registry.server.js';
@@ -0,0 +1,30 @@
+import type { Context } from '@curvenote/scms-core';
+import type { WorkflowSyncSource, WorkflowSyncSourceName } from './types.server.js';
+import { airtableSource } from './sources/airtable.server.js';
+import { nihmsReportSource } from './sources/nihms-report.server.js';
+
+const WORKFLOW_SYNC_SOURCES: Record<WorkflowSyncSourceName, WorkflowSyncSource> = {
+  airtable: airtableSource,
+  'nihms-report': nihmsReportSource,
+};
+
+/**
+ * Get a workflow sync source by name, or the source selected in the app-config, defaults to
+ * Airtable
+ */
+export function getWorkflowSyncSource(ctx: Context, name?: string): WorkflowSyncSource {
+  const sourceName: string =
+    name ?? ctx.$config.app.extensions?.pmc?.workflowSync?.source ?? 'airtable';
+  const source = WORKFLOW_SYNC_SOURCES[sourceName as WorkflowSyncSourceName];
+  if (!source) {
+    throw new Error(`Unknown PMC workflow sync source: ${sourceName}`);
+  }
+  return source;
+}
+
+/**
+ * Get the workflow sync sources that are configured in the app-config
+ */
+export function getConfiguredWorkflowSyncSources(ctx: Context): WorkflowSyncSource[] {
+  return Object.values(WORKFLOW_SYNC_SOURCES).filter((source) => source.isConfigured(ctx));
+}
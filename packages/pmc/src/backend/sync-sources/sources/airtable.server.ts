@@ -0,0 +1,22 @@
+import {
+  fetchRecordsByManuscriptIds,
+  fetchRecordsModifiedSince,
+} from '../../airtable-config.server.js';
+import type { WorkflowSyncSource } from '../types.server.js';
+
+/**
+ * Reads the status of deposits from the HHMI Airtable mirror of NIHMS
+ */
+export const airtableSource: WorkflowSyncSource = {
+  name: 'airtable',
+  label: 'Airtable',
+  isConfigured(ctx) {
+    return !!ctx.$config.app.extensions?.pmc?.airtable;
+  },
+  async fetchRecords(ctx, manuscriptIds) {
+    return fetchRecordsByManuscriptIds(manuscriptIds);
+  },
+  async fetchRecordsModifiedSince(ctx, since) {
+    return fetchRecordsModifiedSince(since);
+  },
+};
@@ -0,0 +1,67 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from '@curvenote/scms-core';
+import { File, KnownBuckets, StorageBackend } from '@curvenote/scms-server';
+import type { AirtableRecord } from '../../jobs/pmc-workflow-sync.js';
+import type { NIHMSStatusReportFormat } from '../../services/nihms-status-report.js';
+import { getReportFormat, parseNIHMSStatusReport } from '../../services/nihms-status-report.js';
+import type { WorkflowSyncSource } from '../types.server.js';
+
+interface NIHMSStatusReportConfig {
+  source: string;
+  format?: NIHMSStatusReportFormat;
+}
+
+function getNIHMSStatusReportConfig(ctx: Context): NIHMSStatusReportConfig {
+  const config = ctx.$config.app.extensions?.pmc?.nihmsStatusReport;
+  if (!config?.source) {
+    throw new Error('PMC NIHMS status report source is missing. Please update the app-config.');
+  }
+  return config as NIHMSStatusReportConfig;
+}
+
+/**
+ * Read the report from a URL, a path in the private storage bucket or, for local development, a
+ * `file:` path relative to the working directory
+ */
+async function readNIHMSStatusReport(ctx: Context, source: string): Promise<string> {
+  if (source.startsWith('file:')) {
+    return readFile(path.resolve(source.slice('file:'.length)), 'utf8');
+  }
+  let url = source;
+  if (!/^https?:\/\//.test(source)) {
+    const backend = new StorageBackend(ctx, [KnownBuckets.prv]);
+    url = await new File(backend, source, KnownBuckets.prv).sign();
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download the NIHMS status report: ${response.status} ${response.statusText}`,
+    );
+  }
+  return response.text();
+}
+
+/**
+ * Reads the status of deposits from the latest NIHMS status report export, so the sync is not
+ * held up when the Airtable mirror lags behind NIHMS
+ *
+ * The report is a snapshot of every manuscript, so there is no incremental sync from it.
+ */
+export const nihmsReportSource: WorkflowSyncSource = {
+  name: 'nihms-report',
+  label: 'NIHMS status report',
+  isConfigured(ctx) {
+    return !!ctx.$config.app.extensions?.pmc?.nihmsStatusReport?.source;
+  },
+  async fetchRecords(ctx, manuscriptIds) {
+    const { source, format } = getNIHMSStatusReportConfig(ctx);
+    const content = await readNIHMSStatusReport(ctx, source);
+    const wanted = new Set(manuscriptIds);
+    const records = new Map<string, AirtableRecord>();
+    parseNIHMSStatusReport(content, format ?? getReportFormat(source)).forEach((record) => {
+      if (wanted.has(record.fields.NIHMSID)) records.set(record.fields.NIHMSID, record);
+    });
+    return records;
+  },
+};
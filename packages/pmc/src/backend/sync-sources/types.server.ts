@@ -0,0 +1,29 @@
+import type { Context } from '@curvenote/scms-core';
+import type { AirtableRecord } from '../jobs/pmc-workflow-sync.js';
+
+/**
+ * Names of the available workflow sync sources, as used in the app-config
+ * `app.extensions.pmc.workflowSync.source` setting and the sync job payload
+ */
+export type WorkflowSyncSourceName = 'airtable' | 'nihms-report';
+
+/**
+ * Where the workflow sync reads the NIHMS status of deposits from
+ *
+ * Records use the field names of the Airtable mirror, e.g. `current-status`, `PMID` and the
+ * milestone dates, so every source is resolved by the same status mapping.
+ */
+export interface WorkflowSyncSource {
+  name: WorkflowSyncSourceName;
+  /** Shown in the job messages and on the workflow sync page */
+  label: string;
+  /** Whether the app-config has the settings this source needs */
+  isConfigured(ctx: Context): boolean;
+  /** Fetch the records of the given manuscripts, keyed by manuscript ID */
+  fetchRecords(ctx: Context, manuscriptIds: string[]): Promise<Map<string, AirtableRecord>>;
+  /**
+   * Fetch the records modified after the given time, keyed by manuscript ID. A source without
+   * this can only run a full sync.
+   */
+  fetchRecordsModifiedSince?(ctx: Context, since: string): Promise<Map<string, AirtableRecord>>;
+}
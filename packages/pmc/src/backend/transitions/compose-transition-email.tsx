@@ -0,0 +1,39 @@
+import { Heading, Text, Section, Button } from '@react-email/components';
+import React from 'react';
+
+/**
+ * Composes the email body content sent to the submitter when the support team changes the
+ * status of their deposit
+ */
+export function composeTransitionEmailBody(params: {
+  submitterName?: string;
+  title: string;
+  statusLabel: string;
+  message?: string;
+  depositUrl: string;
+}): React.ReactNode {
+  const { submitterName, title, statusLabel, message, depositUrl } = params;
+
+  return (
+    <>
+      <Heading className="mx-0 my-[30px] p-0 text-center font-normal text-[24px] text-black">
+        Your PMC deposit has been updated
+      </Heading>
+      <Text className="text-[14px] text-black leading-[24px]">
+        Hello{submitterName ? ` ${submitterName}` : ''},
+      </Text>
+      <Text className="text-[14px] text-black leading-[24px]">
+        The status of your deposit <strong>{title}</strong> is now <strong>{statusLabel}</strong>.
+      </Text>
+      {message && <Text className="text-[14px] text-black leading-[24px]">{message}.</Text>}
+      <Section className="mt-[32px] mb-[32px] text-center">
+        <Button
+          className="rounded bg-[#000000] px-5 py-3 text-center font-semibold text-[12px] text-white no-underline"
+          href={depositUrl}
+        >
+          View Deposit
+        </Button>
+      </Section>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+import type { Context, WorkflowTransition } from '@curvenote/scms-core';
+import { getPrismaClient } from '@curvenote/scms-server';
+import { JobStatus } from '@prisma/client';
+import { validatePMCMetadata } from '../../common/validate.js';
+import type {
+  PMCSubmissionVersionMetadata,
+  PMCWorkVersionMetadata,
+} from '../../common/validate.js';
+import type { PMCTransitionGuardName } from '../../workflows.js';
+import { PMC_TRANSITION_GUARDS } from '../../workflows.js';
+import { PMC_DEPOSIT_FTP } from '../jobs/pmc-deposit.js';
+import { getEmbargoPolicy } from '../metadata/embargo.server.js';
+import type { TransitionGuard, TransitionSubmissionVersion } from './types.server.js';
+
+const metadataValid: TransitionGuard = async (ctx, submissionVersion) => {
+  const prisma = await getPrismaClient();
+  const workVersion = await prisma.workVersion.findUnique({
+    where: { id: submissionVersion.work_version_id },
+    select: { metadata: true },
+  });
+  const validation = await validatePMCMetadata(
+    (workVersion?.metadata ?? {}) as PMCWorkVersionMetadata,
+    getEmbargoPolicy(ctx),
+  );
+  if (validation.success) return undefined;
+  const issues = validation.validationErrors?.map((issue) => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  return `The deposit metadata is not valid${issues?.length ? ` (${issues.join('; ')})` : ''}`;
+};
+
+// A deposit job in any other status, e.g. queued or running, has not finished yet
+const FINISHED_JOB_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.CANCELLED];
+
+const noActiveDepositJob: TransitionGuard = async (ctx, submissionVersion) => {
+  const prisma = await getPrismaClient();
+  const activeJob = await prisma.job.findFirst({
+    where: {
+      job_type: PMC_DEPOSIT_FTP,
+      status: { notIn: FINISHED_JOB_STATUSES },
+      payload: { path: ['submission_version_id'], equals: submissionVersion.id },
+    },
+    select: { id: true, status: true },
+  });
+  return activeJob
+    ? `A deposit job has not finished yet [job: ${activeJob.id}, status: ${activeJob.status}]`
+    : undefined;
+};
+
+const manuscriptIdKnown: TransitionGuard = async (ctx, submissionVersion) => {
+  const metadata = submissionVersion.metadata as PMCSubmissionVersionMetadata | undefined;
+  return metadata?.pmc?.emailProcessing?.manuscriptId
+    ? undefined
+    : 'No NIHMS manuscript ID has been received for this deposit';
+};
+
+const TRANSITION_GUARDS: Record<PMCTransitionGuardName, TransitionGuard> = {
+  [PMC_TRANSITION_GUARDS.METADATA_VALID]: metadataValid,
+  [PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB]: noActiveDepositJob,
+  [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN]: manuscriptIdKnown,
+};
+
+/**
+ * Get the names of the guards declared on a transition in `options.guards`
+ */
+export function getTransitionGuardNames(transition: WorkflowTransition): string[] {
+  return (transition.options?.guards as string[] | undefined) ?? [];
+}
+
+/**
+ * Check every guard declared on a transition, an unknown guard is reported as a failure so a
+ * typo in the workflow cannot silently remove a precondition
+ *
+ * @returns The messages of the guards that failed, empty if the transition is allowed
+ */
+export async function checkTransitionGuards(
+  ctx: Context,
+  submissionVersion: TransitionSubmissionVersion,
+  transition: WorkflowTransition,
+  guards: Record<string, TransitionGuard> = TRANSITION_GUARDS,
+): Promise<string[]> {
+  const issues: string[] = [];
+  for (const name of getTransitionGuardNames(transition)) {
+    const guard = guards[name];
+    if (!guard) {
+      issues.push(`Unknown transition guard: ${name}`);
+      continue;
+    }
+    const issue = await guard(ctx, submissionVersion, transition);
+    if (issue) issues.push(issue);
+  }
+  return issues;
+}
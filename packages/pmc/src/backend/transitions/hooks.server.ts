@@ -0,0 +1,133 @@
+import type { Workflow, WorkflowTransition } from '@curvenote/scms-core';
+import { KnownResendEvents } from '@curvenote/scms-core';
+import type { SiteContext } from '@curvenote/scms-server';
+import { getPrismaClient, jobs } from '@curvenote/scms-server';
+import { uuidv7 } from 'uuidv7';
+import type { PMCTransitionHookName } from '../../workflows.js';
+import { PMC_TRANSITION_HOOKS } from '../../workflows.js';
+import { getJobs } from '../../server.js';
+import { PMC_DEPOSIT_FTP, getDepositAgency } from '../jobs/pmc-deposit.js';
+import { clonePMCSubmissionVersion } from '../versions/clone.server.js';
+import { composeTransitionEmailBody } from './compose-transition-email.js';
+import type { TransitionHook, TransitionSubmissionVersion } from './types.server.js';
+
+const notifySubmitter: TransitionHook = async (ctx, submissionVersion, transition, workflow) => {
+  const prisma = await getPrismaClient();
+  const [submitter, workVersion] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: submissionVersion.submitted_by_id },
+      select: { email: true, display_name: true },
+    }),
+    prisma.workVersion.findUnique({
+      where: { id: submissionVersion.work_version_id },
+      select: { work_id: true, title: true },
+    }),
+  ]);
+
+  if (!submitter?.email) {
+    throw new Error(`Submitter ${submissionVersion.submitted_by_id} has no email address`);
+  }
+  if (!workVersion) {
+    throw new Error(`Work version ${submissionVersion.work_version_id} not found`);
+  }
+
+  const statusLabel =
+    workflow.states[transition.targetStateName]?.label ?? transition.targetStateName;
+  const title = workVersion.title || 'Untitled deposit';
+
+  await ctx.sendEmail({
+    eventType: KnownResendEvents.GENERIC_NOTIFICATION,
+    to: submitter.email,
+    subject: `PMC deposit update: ${statusLabel}`,
+    templateProps: {
+      previewText: `The status of your deposit ${title} is now ${statusLabel}`,
+      children: composeTransitionEmailBody({
+        submitterName: submitter.display_name || undefined,
+        title,
+        statusLabel,
+        message: transition.labels?.success,
+        depositUrl: ctx.asBaseUrl(
+          `/app/works/${workVersion.work_id}/site/pmc/submission/${submissionVersion.id}`,
+        ),
+      }),
+    },
+    ignoreUnsubscribe: false,
+  });
+};
+
+const enqueueDepositJob: TransitionHook = async (ctx, submissionVersion) => {
+  const prisma = await getPrismaClient();
+  // A transition that `requiresJob` creates its job when it is run and records it on the
+  // transition state, only queue one here if that did not happen
+  const transitioned = await prisma.submissionVersion.findUnique({
+    where: { id: submissionVersion.id },
+    select: { transition: true },
+  });
+  if ((transitioned?.transition as WorkflowTransition | null)?.state?.jobId) return;
+
+  if (!ctx.user) {
+    throw new Error('A deposit job can only be queued by a signed in user');
+  }
+  await jobs.create(
+    ctx,
+    {
+      id: uuidv7(),
+      job_type: PMC_DEPOSIT_FTP,
+      payload: {
+        agency: getDepositAgency(),
+        site_id: ctx.site.id,
+        user_id: ctx.user.id,
+        submission_version_id: submissionVersion.id,
+      },
+    },
+    getJobs(),
+  );
+};
+
+const clone: TransitionHook = async (ctx, submissionVersion) => {
+  // The new draft belongs to the submitter, who is asked to continue it
+  await clonePMCSubmissionVersion(submissionVersion.id, submissionVersion.submitted_by_id);
+};
+
+const TRANSITION_HOOKS: Record<PMCTransitionHookName, TransitionHook> = {
+  [PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER]: notifySubmitter,
+  [PMC_TRANSITION_HOOKS.ENQUEUE_DEPOSIT_JOB]: enqueueDepositJob,
+  [PMC_TRANSITION_HOOKS.CLONE]: clone,
+};
+
+/**
+ * Get the names of the hooks declared on a transition in `options.hooks`
+ */
+export function getTransitionHookNames(transition: WorkflowTransition): string[] {
+  return (transition.options?.hooks as string[] | undefined) ?? [];
+}
+
+/**
+ * Run every hook declared on a transition in order. The transition has already happened, so a
+ * failing hook does not stop the remaining hooks and is reported rather than thrown.
+ *
+ * @returns The messages of the hooks that failed
+ */
+export async function runTransitionHooks(
+  ctx: SiteContext,
+  submissionVersion: TransitionSubmissionVersion,
+  transition: WorkflowTransition,
+  workflow: Workflow,
+  hooks: Record<string, TransitionHook> = TRANSITION_HOOKS,
+): Promise<string[]> {
+  const errors: string[] = [];
+  for (const name of getTransitionHookNames(transition)) {
+    const hook = hooks[name];
+    if (!hook) {
+      errors.push(`Unknown transition hook: ${name}`);
+      continue;
+    }
+    try {
+      await hook(ctx, submissionVersion, transition, workflow);
+    } catch (err: any) {
+      console.error(`Transition hook ${name} failed for ${submissionVersion.id}:`, err);
+      errors.push(`${name}: ${err.message ?? String(err)}`);
+    }
+  }
+  return errors;
+}
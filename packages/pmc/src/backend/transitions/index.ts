@@ -0,0 +1,9 @@
+// Transition guards and hooks declared on the PMC workflow
+export type {
+  TransitionGuard,
+  TransitionHook,
+  TransitionSubmissionVersion,
+} from './types.server.js';
+export { checkTransitionGuards, getTransitionGuardNames } from './guards.server.js';
+export { getTransitionHookNames, runTransitionHooks } from './hooks.server.js';
+export { TransitionGuardError, runWorkflowTransition } from './transition.server.js';
@@ -0,0 +1,54 @@
+import type { Workflow, WorkflowTransition } from '@curvenote/scms-core';
+import type { SiteContext } from '@curvenote/scms-server';
+import { sites } from '@curvenote/scms-server';
+import { checkTransitionGuards } from './guards.server.js';
+import { runTransitionHooks } from './hooks.server.js';
+
+type TransitionableSubmissionVersion = Parameters<typeof sites.submissions.versions.transition>[1];
+
+/**
+ * Thrown when one or more of the guards declared on a transition fail
+ */
+export class TransitionGuardError extends Error {
+  readonly status = 422;
+  readonly transition: string;
+  readonly issues: string[];
+
+  constructor(transition: WorkflowTransition, issues: string[]) {
+    super(`${transition.labels?.action ?? transition.name} is not allowed: ${issues.join('; ')}`);
+    this.name = 'TransitionGuardError';
+    this.transition = transition.name;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Run a workflow transition, enforcing the guards and hooks declared on it in `workflows.ts`
+ *
+ * All user-triggered transitions must go through this function rather than calling
+ * `sites.submissions.versions.transition` directly, otherwise the guards are bypassed.
+ *
+ * @throws TransitionGuardError if a guard fails, the transition is not run
+ * @returns The transitioned submission version and the messages of any hooks that failed
+ */
+export async function runWorkflowTransition(
+  ctx: SiteContext,
+  submissionVersion: TransitionableSubmissionVersion,
+  workflow: Workflow,
+  transition: WorkflowTransition,
+) {
+  const issues = await checkTransitionGuards(ctx, submissionVersion, transition);
+  if (issues.length > 0) {
+    throw new TransitionGuardError(transition, issues);
+  }
+
+  const item = await sites.submissions.versions.transition(
+    ctx,
+    submissionVersion,
+    workflow,
+    transition.targetStateName,
+  );
+  const hookErrors = await runTransitionHooks(ctx, submissionVersion, transition, workflow);
+
+  return { item, hookErrors };
+}
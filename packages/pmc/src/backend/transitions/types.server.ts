@@ -0,0 +1,35 @@
+import type { Context, Workflow, WorkflowTransition } from '@curvenote/scms-core';
+import type { SiteContext } from '@curvenote/scms-server';
+
+/**
+ * The fields of a submission version needed to check guards and run hooks, anything else is
+ * loaded by the guard or hook itself
+ */
+export interface TransitionSubmissionVersion {
+  id: string;
+  status: string;
+  metadata?: unknown;
+  work_version_id: string;
+  submitted_by_id: string;
+}
+
+/**
+ * A precondition checked before a transition is run
+ *
+ * @returns A message describing why the transition is not allowed, or undefined if it is
+ */
+export type TransitionGuard = (
+  ctx: Context,
+  submissionVersion: TransitionSubmissionVersion,
+  transition: WorkflowTransition,
+) => Promise<string | undefined>;
+
+/**
+ * A side effect run after a transition has completed
+ */
+export type TransitionHook = (
+  ctx: SiteContext,
+  submissionVersion: TransitionSubmissionVersion,
+  transition: WorkflowTransition,
+  workflow: Workflow,
+) => Promise<void>;
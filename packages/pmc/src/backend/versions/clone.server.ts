@@ -164,13 +164,28 @@ export async function clonePMCVersion(
   ctx: WorkContext,
   submissionVersionId: string,
 ): Promise<{ newWorkVersionId: string; newSubmissionVersionId: string }> {
-  const prisma = await getPrismaClient();
-
   // Validate that the user has access to this work
   if (!ctx.user) {
     throw new Error('User must be authenticated to clone versions');
   }
 
+  return clonePMCSubmissionVersion(submissionVersionId, ctx.user.id);
+}
+
+/**
+ * Clone a PMC submission version into a new draft for a user, without a request context so it
+ * can also be run by a transition hook
+ *
+ * @param submissionVersionId - ID of the submission version to clone from
+ * @param userId - The user the new draft is created for
+ * @returns Object containing new work version ID and submission version ID
+ */
+export async function clonePMCSubmissionVersion(
+  submissionVersionId: string,
+  userId: string,
+): Promise<{ newWorkVersionId: string; newSubmissionVersionId: string }> {
+  const prisma = await getPrismaClient();
+
   // Get the previous submission version to clone from
   const submissionVersion = await dbGetSubmissionVersion(submissionVersionId);
 
@@ -198,7 +213,7 @@ export async function clonePMCVersion(
   // Step 1: Immediately create new work version and submission version
   const { newWorkVersion, newSubmissionVersion } = await createNewVersions(
     submissionVersion,
-    ctx.user.id,
+    userId,
   );
 
   return {
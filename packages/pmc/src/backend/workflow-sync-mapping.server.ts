@@ -0,0 +1,286 @@
+import { z } from 'zod';
+import { zfd } from 'zod-form-data';
+import { getPrismaClient, withValidFormData } from '@curvenote/scms-server';
+import { randomUUID } from 'node:crypto';
+import { PMC_STATE_NAMES } from '../workflows.js';
+
+/**
+ * Airtable Status Mapping for the PMC Workflow Sync
+ *
+ * The workflow sync job maps the NIHMS `current-status` and milestone date fields from Airtable
+ * onto PMC workflow states. The mapping is stored in the generic Object table so the support team
+ * can map new NIHMS statuses without a deployment, the defaults below are used until it is edited.
+ *
+ * There is one mapping for the extension rather than one per site: the NIHMS statuses are the
+ * same for every deposit and the PMC extension serves the single `pmc` site, so a sync job is
+ * scoped by site only to find its submissions.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface WorkflowSyncMapping {
+  /** Airtable `current-status` value to PMC workflow state */
+  statuses: Record<string, string>;
+  /** Airtable milestone date field to the PMC workflow state it implies */
+  dateFields: Record<string, string>;
+  /** Airtable statuses that are known but deliberately not mapped to a state */
+  ignoredStatuses: string[];
+}
+
+/**
+ * The stored mapping, a type alias rather than an interface so it can be written as JSON
+ */
+export type WorkflowSyncMappingData = {
+  statuses: Record<string, string>;
+  dateFields: Record<string, string>;
+  ignoredStatuses: string[];
+  updatedAt: string;
+  updatedBy?: string;
+  /** Set when the mapping was reset, the defaults are used until it is edited again */
+  reset?: boolean;
+};
+
+export type StoredWorkflowSyncMapping = WorkflowSyncMapping & {
+  /** When the mapping was last edited or reset, syncs from before then have to be run again */
+  updatedAt?: string;
+  updatedBy?: string;
+  /** Whether the default mapping is in use */
+  isDefault?: boolean;
+};
+
+// ==============================
+// Constants
+// ==============================
+
+export const WORKFLOW_SYNC_MAPPING_OBJECT_TYPE = 'pmc-workflow-sync-mapping';
+
+export const DEFAULT_PMC_DATE_FIELD_LOOKUP: Record<string, string> = {
+  'initial-approval-date': PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL,
+  'tagging-completion-date': PMC_STATE_NAMES.NIHMS_CONVERSION_COMPLETE,
+  'final-approval-date': PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL,
+  // Unused dates available in Airtable:
+  // 'article-publication-date': '',
+  // 'ship-to-pmc-date': '',
+  // 'pubmed-date': '',
+  // 'pmc-publish-date': '',
+};
+
+export const DEFAULT_PMC_STATUS_LOOKUP: Record<string, string> = {
+  "Reviewer's Initial Approval Requested": PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+  "Submitter's Initial Approval or Designation of Reviewer Requested":
+    PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+  "Submitter's Action Requested Following Reviewer's Rejection of Initial Submission":
+    PMC_STATE_NAMES.REVIEWER_REJECTED_INITIAL,
+  "NIHMS Revision of PMC Documents Following Reviewer's Rejection":
+    PMC_STATE_NAMES.REVIEWER_REJECTED_INITIAL,
+  "Submitter's Files(s) Requested": PMC_STATE_NAMES.REMOVED_FROM_PROCESSING,
+  'NIHMS Submission Review and File Preparation': PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL,
+  "Reviewer's Final Approval Requested": PMC_STATE_NAMES.NIHMS_CONVERSION_COMPLETE,
+  'NIHMS Conversion to PMC Documents': PMC_STATE_NAMES.REVIEWER_APPROVED_FINAL,
+  'Manuscript Removed from Processing': PMC_STATE_NAMES.REMOVED_FROM_PROCESSING,
+  'Available in PMC': PMC_STATE_NAMES.AVAILABLE_ON_PMC,
+  'Withdrawn from PMC': PMC_STATE_NAMES.WITHDRAWN_FROM_PMC,
+};
+
+export const DEFAULT_WORKFLOW_SYNC_MAPPING: WorkflowSyncMapping = {
+  statuses: DEFAULT_PMC_STATUS_LOOKUP,
+  dateFields: DEFAULT_PMC_DATE_FIELD_LOOKUP,
+  ignoredStatuses: [],
+};
+
+// ==============================
+// Core Functions
+// ==============================
+
+async function getWorkflowSyncMappingObject() {
+  const prisma = await getPrismaClient();
+
+  return await prisma.object.findFirst({
+    where: {
+      type: WORKFLOW_SYNC_MAPPING_OBJECT_TYPE,
+    },
+    orderBy: {
+      date_modified: 'desc',
+    },
+  });
+}
+
+/**
+ * Get the stored status mapping, or the default mapping if it has never been edited or was reset
+ */
+export async function getWorkflowSyncMapping(): Promise<StoredWorkflowSyncMapping> {
+  const objectRecord = await getWorkflowSyncMappingObject();
+
+  if (!objectRecord || !objectRecord.data) {
+    return { ...DEFAULT_WORKFLOW_SYNC_MAPPING, isDefault: true };
+  }
+
+  const data = objectRecord.data as WorkflowSyncMappingData;
+  if (data.reset) {
+    return {
+      ...DEFAULT_WORKFLOW_SYNC_MAPPING,
+      updatedAt: data.updatedAt,
+      updatedBy: data.updatedBy,
+      isDefault: true,
+    };
+  }
+  return {
+    statuses: data.statuses ?? {},
+    dateFields: data.dateFields ?? {},
+    ignoredStatuses: data.ignoredStatuses ?? [],
+    updatedAt: data.updatedAt,
+    updatedBy: data.updatedBy,
+  };
+}
+
+/**
+ * Store the status mapping, replacing any previous mapping
+ */
+export async function saveWorkflowSyncMapping(
+  mapping: WorkflowSyncMapping,
+  updatedBy?: string,
+  reset?: boolean,
+): Promise<void> {
+  const prisma = await getPrismaClient();
+  const now = new Date().toISOString();
+  const data: WorkflowSyncMappingData = {
+    statuses: mapping.statuses,
+    dateFields: mapping.dateFields,
+    ignoredStatuses: mapping.ignoredStatuses,
+    updatedAt: now,
+    updatedBy,
+    ...(reset ? { reset } : {}),
+  };
+
+  const existing = await getWorkflowSyncMappingObject();
+  if (existing) {
+    await prisma.object.update({
+      where: { id: existing.id },
+      data: { data, date_modified: now, occ: { increment: 1 } },
+    });
+  } else {
+    await prisma.object.create({
+      data: {
+        id: randomUUID(),
+        type: WORKFLOW_SYNC_MAPPING_OBJECT_TYPE,
+        date_created: now,
+        date_modified: now,
+        data,
+        occ: 0,
+      },
+    });
+  }
+}
+
+/**
+ * Apply a change to the stored status mapping
+ */
+export async function updateWorkflowSyncMapping(
+  update: (mapping: WorkflowSyncMapping) => WorkflowSyncMapping,
+  updatedBy?: string,
+): Promise<WorkflowSyncMapping> {
+  const { statuses, dateFields, ignoredStatuses } = await getWorkflowSyncMapping();
+  const mapping = update({
+    statuses: { ...statuses },
+    dateFields: { ...dateFields },
+    ignoredStatuses: [...ignoredStatuses],
+  });
+  await saveWorkflowSyncMapping(mapping, updatedBy);
+  return mapping;
+}
+
+/**
+ * Go back to the default mapping
+ *
+ * The reset is stored rather than the mapping removed, so its time is known and the next
+ * incremental sync runs as a full sync with the defaults.
+ */
+export async function resetWorkflowSyncMapping(updatedBy?: string): Promise<void> {
+  await saveWorkflowSyncMapping(DEFAULT_WORKFLOW_SYNC_MAPPING, updatedBy, true);
+}
+
+// ==============================
+// Form Handlers
+// ==============================
+
+export const WORKFLOW_SYNC_MAPPING_INTENTS = [
+  'mapping-set-status',
+  'mapping-remove-status',
+  'mapping-ignore-status',
+  'mapping-unignore-status',
+  'mapping-set-date-field',
+  'mapping-remove-date-field',
+] as const;
+
+export type WorkflowSyncMappingIntent = (typeof WORKFLOW_SYNC_MAPPING_INTENTS)[number];
+
+const MappingEntrySchema = zfd.formData({
+  key: zfd.text(z.string().trim().min(1)),
+  state: zfd.text(z.enum(PMC_STATE_NAMES)),
+});
+
+const MappingKeySchema = zfd.formData({
+  key: zfd.text(z.string().trim().min(1)),
+});
+
+function withoutKey(record: Record<string, string>, key: string) {
+  return Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+}
+
+function applyMappingChange(
+  mapping: WorkflowSyncMapping,
+  intent: WorkflowSyncMappingIntent,
+  key: string,
+  state?: string,
+): WorkflowSyncMapping {
+  const otherStatuses = withoutKey(mapping.statuses, key);
+  const otherIgnoredStatuses = mapping.ignoredStatuses.filter((status) => status !== key);
+  switch (intent) {
+    case 'mapping-set-status':
+      // Mapping a status replaces any earlier decision to ignore it
+      return {
+        ...mapping,
+        statuses: { ...mapping.statuses, [key]: state! },
+        ignoredStatuses: otherIgnoredStatuses,
+      };
+    case 'mapping-remove-status':
+      return { ...mapping, statuses: otherStatuses };
+    case 'mapping-ignore-status':
+      return {
+        ...mapping,
+        statuses: otherStatuses,
+        ignoredStatuses: [...otherIgnoredStatuses, key],
+      };
+    case 'mapping-unignore-status':
+      return { ...mapping, ignoredStatuses: otherIgnoredStatuses };
+    case 'mapping-set-date-field':
+      return { ...mapping, dateFields: { ...mapping.dateFields, [key]: state! } };
+    case 'mapping-remove-date-field':
+      return { ...mapping, dateFields: withoutKey(mapping.dateFields, key) };
+  }
+}
+
+/**
+ * Update the status mapping from one of the mapping forms on the workflow sync page
+ */
+export async function updateWorkflowSyncMappingFromForm(
+  intent: WorkflowSyncMappingIntent,
+  formData: FormData,
+  updatedBy?: string,
+) {
+  const needsState = intent === 'mapping-set-status' || intent === 'mapping-set-date-field';
+  return withValidFormData(
+    needsState ? MappingEntrySchema : MappingKeySchema,
+    formData,
+    async (data: { key: string; state?: string }) => {
+      await updateWorkflowSyncMapping(
+        (mapping) => applyMappingChange(mapping, intent, data.key, data.state),
+        updatedBy,
+      );
+      return { success: true, intent };
+    },
+    { errorFields: { type: 'general', intent } },
+  );
+}
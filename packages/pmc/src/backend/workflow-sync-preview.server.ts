@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { zfd } from 'zod-form-data';
+import type { SiteContext } from '@curvenote/scms-server';
+import { getPrismaClient, jobs, withValidFormData } from '@curvenote/scms-server';
+import { JobStatus } from '@prisma/client';
+import { formatDate } from '@curvenote/common';
+import { PMC_WORKFLOW_SYNC, applySubmissionSyncChange } from './jobs/pmc-workflow-sync.js';
+import type { JobResults, SubmissionSyncChange } from './jobs/pmc-workflow-sync.js';
+
+/**
+ * Workflow Sync Previews
+ *
+ * A preview run of the workflow sync job stores the changes it would make in its results instead
+ * of writing them. An admin reviews the changes on the workflow sync page and applies all of them
+ * or a selection, each applied change is recorded on the preview job so it is only applied once.
+ */
+
+// ==============================
+// Type Definitions
+// ==============================
+
+export interface WorkflowSyncApplyResult {
+  submissionId: string;
+  success: boolean;
+  error?: string;
+}
+
+// ==============================
+// Core Functions
+// ==============================
+
+/**
+ * Check that a change from a preview can still be applied to the latest submission version
+ *
+ * @returns A message describing why the change cannot be applied, or undefined if it can
+ */
+export function getStaleChangeIssue(
+  change: SubmissionSyncChange,
+  latestVersion: { id: string; status: string } | null,
+  appliedAt?: string,
+): string | undefined {
+  if (appliedAt) return `Already applied on ${appliedAt}`;
+  if (!latestVersion) return 'The deposit no longer exists';
+  if (latestVersion.id !== change.submissionVersionId) {
+    return 'A new version of the deposit was created after the preview, run a new preview';
+  }
+  if (latestVersion.status !== change.fromStatus) {
+    return `The deposit status changed to ${latestVersion.status} after the preview, run a new preview`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply the selected changes from a preview run of the workflow sync
+ *
+ * Each change is checked against the current state of its deposit first, a failure is recorded in
+ * the results and does not stop the remaining changes.
+ */
+export async function applyWorkflowSyncPreview(
+  ctx: SiteContext,
+  jobId: string,
+  submissionIds: string[],
+): Promise<WorkflowSyncApplyResult[]> {
+  const prisma = await getPrismaClient();
+  const job = await prisma.job.findUnique({ where: { id: jobId } });
+  const results = job?.results as JobResults | null;
+  if (
+    !job ||
+    job.job_type !== PMC_WORKFLOW_SYNC ||
+    (job.payload as { site_id?: string } | null)?.site_id !== ctx.site.id ||
+    !results?.preview
+  ) {
+    throw new Error(`Cannot find workflow sync preview [site: ${ctx.site.name}, job: ${jobId}]`);
+  }
+  if (job.status !== JobStatus.COMPLETED) {
+    throw new Error('Only a completed preview can be applied');
+  }
+
+  const appliedChanges = { ...(results.appliedChanges ?? {}) };
+  const applyResults: WorkflowSyncApplyResult[] = [];
+
+  for (const submissionId of new Set(submissionIds)) {
+    const change = results.changes?.find((c) => c.submissionId === submissionId);
+    if (!change) {
+      applyResults.push({ submissionId, success: false, error: 'Not part of this preview' });
+      continue;
+    }
+    try {
+      const latestVersion = await prisma.submissionVersion.findFirst({
+        where: { submission_id: submissionId },
+        orderBy: { date_created: 'desc' },
+        select: { id: true, status: true, metadata: true },
+      });
+      const issue = getStaleChangeIssue(change, latestVersion, appliedChanges[submissionId]);
+      if (issue || !latestVersion) {
+        applyResults.push({ submissionId, success: false, error: issue });
+        continue;
+      }
+      await applySubmissionSyncChange(ctx, ctx.site.name, change, latestVersion.metadata);
+      appliedChanges[submissionId] = formatDate();
+      applyResults.push({ submissionId, success: true });
+    } catch (err: any) {
+      console.error(`Applying workflow sync change failed for ${submissionId}:`, err);
+      applyResults.push({ submissionId, success: false, error: err.message || String(err) });
+    }
+  }
+
+  await jobs.dbUpdateJob(job.id, {
+    status: JobStatus.COMPLETED,
+    results: { ...results, appliedChanges } as JobResults,
+  });
+
+  return applyResults;
+}
+
+// ==============================
+// Form Handlers
+// ==============================
+
+const ApplyPreviewFormSchema = zfd.formData({
+  jobId: zfd.text(z.uuid()),
+  submissionId: zfd.repeatableOfType(zfd.text(z.string().min(1))),
+});
+
+/**
+ * Apply the changes selected on the workflow sync page
+ */
+export async function applyWorkflowSyncPreviewFromForm(ctx: SiteContext, formData: FormData) {
+  return withValidFormData(
+    ApplyPreviewFormSchema,
+    formData,
+    async ({ jobId, submissionId }: { jobId: string; submissionId: string[] }) => {
+      try {
+        const results = await applyWorkflowSyncPreview(ctx, jobId, submissionId);
+        return { success: results.every((result) => result.success), results };
+      } catch (err: any) {
+        return { success: false, error: err.message || String(err) };
+      }
+    },
+    { errorFields: { type: 'general', intent: 'apply-preview' } },
+  );
+}
@@ -35,6 +35,58 @@ export const grantEntrySchema = z.object({
 
 export type GrantEntry = z.infer<typeof grantEntrySchema>;
 
+// Contact types recognised by NIHMS, the reviewer is set through the reviewer fields
+// and any additional contacts are recorded in the contacts array
+export const contactType = z.enum(['pi', 'author', 'reviewer']);
+
+export type ContactType = z.infer<typeof contactType>;
+
+// Contact Entry Schema
+export const contactEntrySchema = z.object({
+  id: z.string().optional(),
+  contactType,
+  firstName: z.string().max(255).nonempty({ message: 'First name is required' }),
+  lastName: z.string().max(255).nonempty({ message: 'Last name is required' }),
+  email: z
+    .string()
+    .email({ message: 'Please enter a valid email address' })
+    .max(255, { message: 'Email must be at most 255 characters' }),
+});
+
+export type ContactEntry = z.infer<typeof contactEntrySchema>;
+
+// Author Schema - the full author list sent with the deposit
+export const authorAffiliationSchema = z.object({
+  name: z.string().max(1024).nonempty({ message: 'Affiliation name is required' }),
+  ror: z.string().max(255).optional(), // ROR ID, e.g. 006w34k90
+});
+
+export const authorEntrySchema = z.object({
+  id: z.string().optional(),
+  firstName: z.string().max(255).optional(),
+  lastName: z.string().max(255).nonempty({ message: 'Last name is required' }),
+  orcid: z.string().max(255).optional(), // ORCID, e.g. 0000-0002-1825-0097
+  affiliations: z.array(authorAffiliationSchema).optional(),
+});
+
+export type AuthorAffiliation = z.infer<typeof authorAffiliationSchema>;
+export type AuthorEntry = z.infer<typeof authorEntrySchema>;
+
+// Embargo Schema - the publisher's delay before the manuscript is released in PMC
+export const embargoType = z.enum(['none', 'months', 'date']);
+
+export const embargoSchema = z.object({
+  type: embargoType,
+  months: z.number().int().min(1).max(60).optional(),
+  releaseDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .optional(),
+});
+
+export type EmbargoType = z.infer<typeof embargoType>;
+export type Embargo = z.infer<typeof embargoSchema>;
+
 // Form-specific schemas
 
 export const funderSchema = z.object({
@@ -131,6 +183,12 @@ const reviewerSchema = {
 export const pmcMetadataSchema = requiredPMCMetadataSchema
   .extend({
     ...reviewerSchema,
+    // Full author list with ORCIDs and affiliations
+    authors: z.array(authorEntrySchema).optional(),
+    // Publisher embargo, as months after publication or an explicit release date
+    embargo: embargoSchema.optional(),
+    // Additional contacts, e.g. the PI and corresponding author
+    contacts: z.array(contactEntrySchema).optional(),
     // Confirmation
     confirmed: z.boolean().optional(),
     previewed: z.boolean().optional(),
@@ -210,6 +268,15 @@ export const validatePMCMigrationSchema = pmcMetadataSchema
     path: ['reviewerEmail'],
   });
 
+// Stalled deposit schema, set by the deposit reconciler when no callback arrives
+const depositStalledSchema = z.object({
+  jobId: z.string(), // The PMC_DEPOSIT_FTP job that is still waiting on a callback
+  status: z.string(), // Submission version status when the stall was detected
+  jobCreatedAt: z.string(), // ISO timestamp
+  detectedAt: z.string(), // ISO timestamp
+  thresholdMinutes: z.number(),
+});
+
 /**
  * PMC metadata schema for SubmissionVersion
  * Contains email processing information that is specific to the submission process
@@ -220,12 +287,14 @@ export const pmcSubmissionVersionMetadataSchema = z.object({
   pmid: z.string().optional(),
   pmcid: z.string().optional(),
   manuscriptId: z.string().optional(), // NIHMS manuscript ID at top level for easy access
+  depositStalled: depositStalledSchema.optional(),
 });
 
 // Export TypeScript types derived from schemas
 export type DoiAuthor = z.infer<typeof doiAuthorSchema>;
 export type EmailProcessingMessage = z.infer<typeof emailProcessingMessageSchema>;
 export type EmailProcessing = z.infer<typeof emailProcessingRecordSchema>;
+export type DepositStalled = z.infer<typeof depositStalledSchema>;
 export type RequiredPMCMetadata = z.infer<typeof requiredPMCMetadataSchema>;
 export type PMCWorkVersionMetadata = z.infer<typeof pmcMetadataSchema>;
 export type PMCSubmissionVersionMetadata = z.infer<typeof pmcSubmissionVersionMetadataSchema>;
@@ -473,6 +473,69 @@ describe('validatePMCMetadata', () => {
     });
   });
 
+  describe('Embargo validation', () => {
+    it('should accept a deposit without an embargo', async () => {
+      const metadata = createValidMetadata({
+        pmc: { ...createValidMetadata().pmc, embargo: { type: 'none' } },
+      });
+
+      const result = await validatePMCMetadata(metadata);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an embargo not allowed by the HHMI policy', async () => {
+      const metadata = createValidMetadata({
+        pmc: { ...createValidMetadata().pmc, embargo: { type: 'months', months: 6 } },
+      });
+
+      const result = await validatePMCMetadata(metadata);
+      expect(result.success).toBeUndefined();
+      expect(result.validationErrors).toContainEqual(
+        expect.objectContaining({
+          path: ['embargo'],
+          message: 'HHMI policy requires the manuscript to be released without an embargo',
+          code: 'custom',
+        }),
+      );
+    });
+
+    it('should accept an embargo allowed by the configured funder policies', async () => {
+      const metadata = createValidMetadata({
+        pmc: { ...createValidMetadata().pmc, embargo: { type: 'months', months: 6 } },
+      });
+
+      const result = await validatePMCMetadata(metadata, { funders: { hhmi: 12 } });
+      expect(result.success).toBe(true);
+    });
+
+    it('should report each funder whose policy does not allow a release date', async () => {
+      const metadata = createValidMetadata({
+        pmc: {
+          ...createValidMetadata().pmc,
+          doiPublishedDate: '2024-01-15',
+          embargo: { type: 'date', releaseDate: '2025-03-01' },
+          grants: [
+            ...(createValidMetadata().pmc?.grants ?? []),
+            { id: 'grant-2', funderKey: 'epa', grantId: 'EPA-1' },
+            { id: 'grant-3', funderKey: 'nih', grantId: 'NIH-1' },
+          ],
+        },
+      });
+
+      const result = await validatePMCMetadata(metadata, {
+        defaultMaxMonths: 24,
+        funders: { hhmi: 12, epa: 0 },
+      });
+      const embargoErrors = result.validationErrors?.filter(
+        (error) => error.path.join('.') === 'embargo',
+      );
+      expect(embargoErrors?.map((error) => error.message)).toEqual([
+        'HHMI policy allows an embargo of at most 12 months',
+        'EPA policy requires the manuscript to be released without an embargo',
+      ]);
+    });
+  });
+
   describe('Error filtering and transformation', () => {
     it('should show both schema and custom errors for HHMI with empty grantId', async () => {
       const metadata = createValidMetadata({
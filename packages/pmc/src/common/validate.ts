@@ -8,6 +8,8 @@ import type { GeneralError, FileMetadataSection } from '@curvenote/scms-core';
 import { FileMetadataSectionSchema } from '@curvenote/scms-core';
 import type { ZodIssue } from 'zod';
 import { PMC_FUNDERS_MAP } from '../components/funders.js';
+import { getEmbargoPolicyIssues } from './validation.js';
+import type { EmbargoPolicy } from './validation.js';
 
 export type PMCWorkVersionMetadata = WorkVersionMetadata &
   PMCWorkVersionMetadataSection &
@@ -19,10 +21,12 @@ export type PMCSubmissionVersionMetadata = SubmissionVersionMetadata &
 /**
  * Validates PMC metadata including files, grants, and conditional requirements.
  * @param metadata - The PMC work version metadata to validate
+ * @param embargoPolicy - The funder embargo limits, see `getEmbargoPolicy`
  * @returns Validation result with success status, error, or validation errors
  */
 export async function validatePMCMetadata(
   metadata: PMCWorkVersionMetadata,
+  embargoPolicy?: EmbargoPolicy,
 ): Promise<{ success?: boolean; error?: GeneralError; validationErrors?: ZodIssue[] }> {
   const { files, pmc } = metadata;
   const allErrors: ZodIssue[] = [];
@@ -73,6 +77,16 @@ export async function validatePMCMetadata(
     } as ZodIssue);
   }
 
+  // Check the embargo against the public access policies of the selected funders
+  getEmbargoPolicyIssues(
+    pmc?.embargo,
+    pmc?.grants || [],
+    pmc?.doiPublishedDate,
+    embargoPolicy,
+  ).forEach((message) => {
+    allErrors.push({ code: 'custom', message, path: ['embargo'] } as ZodIssue);
+  });
+
   // Filter out redundant errors and improve grant error messages
   const filteredErrors = allErrors.filter((error) => {
     // Remove generic "Files is required" error if we have the specific manuscript file error
@@ -1,4 +1,6 @@
-import type { GrantEntry, FunderKey } from './metadata.schema.js';
+import { addMonths, differenceInCalendarMonths, format, parseISO } from 'date-fns';
+import type { Embargo, GrantEntry, FunderKey } from './metadata.schema.js';
+import { PMC_FUNDERS_MAP } from '../components/funders.js';
 
 // ==============================
 // Grant ID Input Validation
@@ -179,3 +181,153 @@ export function validateMigrationResult(grants: GrantEntry[]): {
     errors,
   };
 }
+
+// ==============================
+// Author Identifiers
+// ==============================
+
+const ORCID_PATTERN = /^(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])$/;
+const ROR_PATTERN = /^0[a-hj-km-np-tv-z0-9]{6}\d{2}$/;
+
+/**
+ * Normalize an ORCID to the bare `0000-0000-0000-0000` form, accepting orcid.org URLs
+ * and missing hyphens. Returns undefined if the value is not a well-formed ORCID.
+ */
+export function normalizeOrcid(orcid: string): string | undefined {
+  const bare = orcid
+    .trim()
+    .replace(/^https?:\/\/(www\.)?orcid\.org\//i, '')
+    .toUpperCase();
+  const match = bare.match(ORCID_PATTERN);
+  if (!match) return undefined;
+  return match.slice(1, 5).join('-');
+}
+
+/**
+ * Check the ORCID check digit (ISO 7064 11,2)
+ */
+export function isValidOrcid(orcid: string): boolean {
+  const normalized = normalizeOrcid(orcid);
+  if (!normalized) return false;
+  const digits = normalized.replace(/-/g, '');
+  let total = 0;
+  for (const digit of digits.slice(0, -1)) {
+    total = (total + Number(digit)) * 2;
+  }
+  const result = (12 - (total % 11)) % 11;
+  const checkDigit = result === 10 ? 'X' : String(result);
+  return digits.slice(-1) === checkDigit;
+}
+
+/**
+ * Normalize a ROR ID to its bare 9 character form, accepting ror.org URLs.
+ * Returns undefined if the value is not a well-formed ROR ID.
+ */
+export function normalizeRorId(ror: string): string | undefined {
+  const bare = ror
+    .trim()
+    .replace(/^https?:\/\/(www\.)?ror\.org\//i, '')
+    .toLowerCase();
+  return ROR_PATTERN.test(bare) ? bare : undefined;
+}
+
+// ==============================
+// Embargo
+// ==============================
+
+/**
+ * The date the manuscript is released in PMC, for an embargo in months this is counted
+ * from the publication date and is unknown until the article is published
+ */
+export function getEmbargoReleaseDate(
+  embargo: Embargo | undefined,
+  publishedDate?: string,
+): string | undefined {
+  if (!embargo || embargo.type === 'none') return publishedDate;
+  if (embargo.type === 'date') return embargo.releaseDate;
+  if (!publishedDate || embargo.months === undefined) return undefined;
+  return format(addMonths(parseISO(publishedDate), embargo.months), 'yyyy-MM-dd');
+}
+
+/**
+ * Length of the embargo in whole months, rounding up any part month
+ *
+ * A release date is measured from the publication date, or from today for articles that
+ * have not been published yet.
+ */
+export function getEmbargoMonths(
+  embargo: Embargo | undefined,
+  publishedDate?: string,
+  today: Date = new Date(),
+): number {
+  if (!embargo || embargo.type === 'none') return 0;
+  if (embargo.type === 'months') return embargo.months ?? 0;
+  if (!embargo.releaseDate) return 0;
+  const start = publishedDate ? parseISO(publishedDate) : today;
+  const release = parseISO(embargo.releaseDate);
+  let months = Math.max(0, differenceInCalendarMonths(release, start));
+  if (addMonths(start, months) < release) months += 1;
+  return months;
+}
+
+/**
+ * Longest publisher embargo, in months, allowed by each funder's public access policy, from the
+ * `app.extensions.pmc.embargoPolicy` setting. Funders without a limit of their own use
+ * `defaultMaxMonths`, and with no setting at all no embargo is allowed.
+ */
+export type EmbargoPolicy = {
+  defaultMaxMonths?: number;
+  funders?: Partial<Record<FunderKey, number>>;
+};
+
+/**
+ * Longest embargo in months allowed by a funder's policy
+ */
+export function getMaxEmbargoMonths(funderKey: FunderKey, policy: EmbargoPolicy = {}): number {
+  return policy.funders?.[funderKey] ?? policy.defaultMaxMonths ?? 0;
+}
+
+/**
+ * The funders whose policies apply to a deposit. Every deposit has an HHMI grant, so the
+ * HHMI policy always applies, even before the grants have been entered.
+ */
+function getEmbargoPolicyFunders(grants: Pick<GrantEntry, 'funderKey'>[]): FunderKey[] {
+  return [...new Set<FunderKey>(['hhmi', ...grants.map((grant) => grant.funderKey)])];
+}
+
+/**
+ * Longest embargo in months allowed for a deposit, the shortest limit of its funders
+ */
+export function getAllowedEmbargoMonths(
+  grants: Pick<GrantEntry, 'funderKey'>[],
+  policy: EmbargoPolicy = {},
+): number {
+  return Math.min(
+    ...getEmbargoPolicyFunders(grants).map((funderKey) => getMaxEmbargoMonths(funderKey, policy)),
+  );
+}
+
+/**
+ * Checks the embargo against the public access policy of each funder on the deposit
+ *
+ * @returns A message for each funder whose policy does not allow the embargo
+ */
+export function getEmbargoPolicyIssues(
+  embargo: Embargo | undefined,
+  grants: Pick<GrantEntry, 'funderKey'>[],
+  publishedDate?: string,
+  policy: EmbargoPolicy = {},
+  today: Date = new Date(),
+): string[] {
+  const months = getEmbargoMonths(embargo, publishedDate, today);
+  if (months === 0) return [];
+  return getEmbargoPolicyFunders(grants).flatMap((funderKey) => {
+    const maxMonths = getMaxEmbargoMonths(funderKey, policy);
+    if (months <= maxMonths) return [];
+    const abbreviation = PMC_FUNDERS_MAP[funderKey]?.abbreviation ?? funderKey.toUpperCase();
+    if (maxMonths === 0) {
+      return [`${abbreviation} policy requires the manuscript to be released without an embargo`];
+    }
+    return [`${abbreviation} policy allows an embargo of at most ${maxMonths} months`];
+  });
+}
@@ -96,6 +96,7 @@ export function ActionsAreaForm({
     success: boolean;
     item?: SubmissionVersionTransitionInfo;
     error?: GeneralError | string;
+    warnings?: string[];
   }>();
 
   useEffect(() => {
@@ -123,6 +124,9 @@ export function ActionsAreaForm({
       if (!transition?.requiresJob) {
         ui.toastSuccess('Action completed successfully');
       }
+      if (fetcher.data.warnings?.length) {
+        ui.toastError(`Action completed with errors: ${fetcher.data.warnings.join('; ')}`);
+      }
     }
   }, [fetcher.data]);
 
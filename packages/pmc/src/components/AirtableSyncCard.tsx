@@ -0,0 +1,75 @@
+import { useFetcher } from 'react-router';
+import { RefreshCw } from 'lucide-react';
+import { ui, primitives, formatDate, SectionWithHeading } from '@curvenote/scms-core';
+
+export interface AirtableSync {
+  id: string;
+  status: string;
+  date_created: string;
+  modified: boolean;
+  errors: string[];
+}
+
+interface AirtableSyncCardProps {
+  sync: AirtableSync | null;
+  manuscriptId?: string;
+  /** Label of the source the sync reads the NIHMS status from */
+  sourceLabel?: string;
+}
+
+/**
+ * Lets an admin update this deposit from its NIHMS status record straight away, rather than
+ * waiting for the scheduled workflow sync, and shows the outcome of the latest update
+ */
+export function AirtableSyncCard({
+  sync,
+  manuscriptId,
+  sourceLabel = 'Airtable',
+}: AirtableSyncCardProps) {
+  const fetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const isRunning = fetcher.state !== 'idle' || sync?.status === 'RUNNING';
+
+  return (
+    <SectionWithHeading heading="NIHMS Status Sync" icon={RefreshCw}>
+      <primitives.Card lift className="p-4 space-y-4">
+        <div className="flex gap-4 justify-between items-center">
+          <div className="text-sm text-gray-600">
+            {manuscriptId
+              ? `Updates the status, PMID and PMCID of the latest version from the ${sourceLabel} record for ${manuscriptId}.`
+              : `This deposit can be updated from ${sourceLabel} once a NIHMS manuscript ID has been received.`}
+            {sync && <div>Last run: {formatDate(sync.date_created, 'yyyy-MM-dd HH:mm:ss')}</div>}
+          </div>
+          <fetcher.Form method="post">
+            <input type="hidden" name="intent" value="workflow-sync" />
+            <ui.Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              disabled={isRunning || !manuscriptId}
+            >
+              {isRunning ? 'Syncing...' : `Sync from ${sourceLabel}`}
+            </ui.Button>
+          </fetcher.Form>
+        </div>
+        {fetcher.data?.error && <ui.SmallErrorTray error={fetcher.data.error} />}
+        {sync?.status === 'COMPLETED' && sync.errors.length === 0 && (
+          <ui.SimpleAlert
+            type="success"
+            size="compact"
+            message={
+              sync.modified
+                ? `The deposit was updated from ${sourceLabel}.`
+                : `The deposit is already up to date with ${sourceLabel}.`
+            }
+          />
+        )}
+        {sync && sync.status !== 'RUNNING' && sync.errors.length > 0 && (
+          <ui.SimpleAlert type="error" size="compact" message={sync.errors.join('; ')} />
+        )}
+        {sync?.status === 'FAILED' && sync.errors.length === 0 && (
+          <ui.SimpleAlert type="error" size="compact" message="The sync failed to run." />
+        )}
+      </primitives.Card>
+    </SectionWithHeading>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useRef, useState } from 'react';
+import { useFetcher, useLoaderData } from 'react-router';
+import { ui } from '@curvenote/scms-core';
+import type { GeneralError } from '@curvenote/scms-core';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type {
+  AuthorAffiliation,
+  AuthorEntry,
+  PMCCombinedMetadataSection,
+} from '../common/metadata.schema.js';
+
+export function formatAuthorName(author: Pick<AuthorEntry, 'firstName' | 'lastName'>) {
+  return [author.firstName, author.lastName].filter(Boolean).join(' ');
+}
+
+export function AuthorIdentifiers({ author }: { author: AuthorEntry }) {
+  return (
+    <>
+      {author.orcid && (
+        <a
+          href={`https://orcid.org/${author.orcid}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-2 text-xs text-blue-600 underline"
+        >
+          ORCID {author.orcid}
+        </a>
+      )}
+      {(author.affiliations ?? []).length > 0 && (
+        <ul className="text-xs text-gray-600 dark:text-gray-400">
+          {author.affiliations?.map((affiliation, idx) => (
+            <li key={`${affiliation.name}-${idx}`}>
+              {affiliation.name}
+              {affiliation.ror && (
+                <a
+                  href={`https://ror.org/${affiliation.ror}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-1 text-blue-600 underline"
+                >
+                  ROR {affiliation.ror}
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+// Repeated affiliation name and ROR ID inputs, submitted as `affiliationName` and `affiliationRor`
+function AffiliationFields({
+  idPrefix,
+  initial,
+}: {
+  idPrefix: string;
+  initial?: AuthorAffiliation[];
+}) {
+  // Rows keep a stable key as the inputs are uncontrolled, so removing a row drops its own inputs
+  const nextKey = useRef(0);
+  const toRow = (affiliation: AuthorAffiliation) => ({ ...affiliation, key: nextKey.current++ });
+  const [rows, setRows] = useState(() =>
+    (initial && initial.length > 0 ? initial : [{ name: '' }]).map(toRow),
+  );
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, idx) => (
+        <div key={row.key} className="flex flex-col gap-2 md:flex-row md:items-end">
+          <ui.TextField
+            id={`${idPrefix}-affiliation-name-${row.key}`}
+            name="affiliationName"
+            type="text"
+            label={idx === 0 ? 'Affiliation' : undefined}
+            defaultValue={row.name}
+            className="md:w-80"
+          />
+          <ui.TextField
+            id={`${idPrefix}-affiliation-ror-${row.key}`}
+            name="affiliationRor"
+            type="text"
+            label={idx === 0 ? 'ROR ID' : undefined}
+            placeholder="e.g. 006w34k90"
+            defaultValue={row.ror}
+            className="md:w-48"
+          />
+          {rows.length > 1 && (
+            <ui.Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setRows(rows.filter(({ key }) => key !== row.key))}
+            >
+              <X className="w-4 h-4" />
+              <span className="sr-only">Remove affiliation</span>
+            </ui.Button>
+          )}
+        </div>
+      ))}
+      <ui.Button
+        type="button"
+        variant="link"
+        className="p-0"
+        onClick={() => setRows([...rows, toRow({ name: '' })])}
+      >
+        Add another affiliation
+      </ui.Button>
+    </div>
+  );
+}
+
+function AuthorFields({ idPrefix, author }: { idPrefix: string; author?: AuthorEntry }) {
+  return (
+    <>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end">
+        <ui.TextField
+          id={`${idPrefix}-first-name`}
+          name="firstName"
+          type="text"
+          label="First name"
+          defaultValue={author?.firstName}
+        />
+        <ui.TextField
+          id={`${idPrefix}-last-name`}
+          name="lastName"
+          type="text"
+          label="Last name"
+          defaultValue={author?.lastName}
+        />
+        <ui.TextField
+          id={`${idPrefix}-orcid`}
+          name="orcid"
+          type="text"
+          label="ORCID"
+          placeholder="0000-0000-0000-0000"
+          defaultValue={author?.orcid}
+        />
+      </div>
+      <AffiliationFields idPrefix={idPrefix} initial={author?.affiliations} />
+    </>
+  );
+}
+
+function AuthorEntryRow({
+  author,
+  isFirst,
+  isLast,
+}: {
+  author: AuthorEntry;
+  isFirst: boolean;
+  isLast: boolean;
+}) {
+  const fetcher = useFetcher<{ success?: boolean; error?: GeneralError }>();
+  const [editing, setEditing] = useState(false);
+
+  useEffect(() => {
+    if (fetcher.state === 'idle' && fetcher.data?.success) setEditing(false);
+  }, [fetcher.state]);
+
+  if (editing) {
+    return (
+      <fetcher.Form method="post" className="p-3 space-y-2 border rounded">
+        <input type="hidden" name="intent" value="author-update" />
+        <input type="hidden" name="id" value={author.id} />
+        <AuthorFields idPrefix={`author-${author.id}`} author={author} />
+        <div className="flex gap-2">
+          <ui.Button type="submit" size="sm" disabled={fetcher.state !== 'idle'}>
+            Save
+          </ui.Button>
+          <ui.Button type="button" size="sm" variant="outline" onClick={() => setEditing(false)}>
+            Cancel
+          </ui.Button>
+        </div>
+        {fetcher.data?.error && (
+          <ui.SmallErrorTray error={fetcher.data.error?.message ?? 'An error occurred'} />
+        )}
+      </fetcher.Form>
+    );
+  }
+
+  const submit = (intent: string, extra: Record<string, string> = {}) =>
+    fetcher.submit({ intent, id: author.id as string, ...extra }, { method: 'post' });
+
+  return (
+    <div className="flex items-start gap-4 py-1">
+      <div className="flex-1 text-sm">
+        <span className="font-medium">{formatAuthorName(author)}</span>
+        <AuthorIdentifiers author={author} />
+      </div>
+      <div className="flex gap-1">
+        <ui.Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isFirst || fetcher.state !== 'idle'}
+          onClick={() => submit('author-move', { direction: 'up' })}
+        >
+          <ArrowUp className="stroke-[1.5px]" />
+          <span className="sr-only">Move author up</span>
+        </ui.Button>
+        <ui.Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isLast || fetcher.state !== 'idle'}
+          onClick={() => submit('author-move', { direction: 'down' })}
+        >
+          <ArrowDown className="stroke-[1.5px]" />
+          <span className="sr-only">Move author down</span>
+        </ui.Button>
+        <ui.Button type="button" variant="ghost" size="icon-sm" onClick={() => setEditing(true)}>
+          <Pencil className="stroke-[1.5px]" />
+          <span className="sr-only">Edit author</span>
+        </ui.Button>
+        <ui.Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+          disabled={fetcher.state !== 'idle'}
+          onClick={() => submit('author-remove')}
+        >
+          <Trash2 className="stroke-[1.5px]" />
+          <span className="sr-only">Remove author</span>
+        </ui.Button>
+      </div>
+      {fetcher.data?.error && (
+        <ui.SmallErrorTray error={fetcher.data.error?.message ?? 'An error occurred'} />
+      )}
+    </div>
+  );
+}
+
+function AuthorEntryForm() {
+  const fetcher = useFetcher<{ success?: boolean; error?: GeneralError }>();
+  const [resetKey, setResetKey] = useState(0);
+
+  useEffect(() => {
+    if (fetcher.state === 'idle' && fetcher.data?.success) {
+      setResetKey((prev) => prev + 1);
+    }
+  }, [fetcher.state]);
+
+  return (
+    <fetcher.Form key={resetKey} method="post" className="space-y-2">
+      <input type="hidden" name="intent" value="author-add" />
+      <AuthorFields idPrefix="new-author" />
+      <ui.Button type="submit" disabled={fetcher.state !== 'idle'}>
+        <Plus className="w-4 h-4" />
+        Add Author
+      </ui.Button>
+      {fetcher.data?.error && (
+        <ui.SmallErrorTray error={fetcher.data.error?.message ?? 'An error occurred'} />
+      )}
+    </fetcher.Form>
+  );
+}
+
+/**
+ * Editable author list of the publication, seeded from Crossref when the DOI is looked up
+ */
+export function AuthorsInfo() {
+  const { metadata } = useLoaderData<{ metadata: PMCCombinedMetadataSection }>();
+  const authors = metadata.pmc?.authors ?? [];
+
+  return (
+    <div id="authors-info" className="space-y-2">
+      <h3>Authors</h3>
+      <div className="max-w-full text-base prose text-stone-600 dark:text-stone-400">
+        List the authors in publication order, with their ORCID and institutional affiliations where
+        known.
+      </div>
+      {authors.map((author, idx) => (
+        <AuthorEntryRow
+          key={author.id}
+          author={author}
+          isFirst={idx === 0}
+          isLast={idx === authors.length - 1}
+        />
+      ))}
+      <AuthorEntryForm />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useFetcher } from 'react-router';
+import { FlaskConical } from 'lucide-react';
+import { ui, primitives, formatDate, SectionWithHeading, cn } from '@curvenote/scms-core';
+import type { DepositDryRunReport } from '../backend/deposit/dry-run.server.js';
+
+export interface DepositDryRun {
+  id: string;
+  status: string;
+  date_created: string;
+  report?: DepositDryRunReport;
+}
+
+interface DepositDryRunCardProps {
+  dryRun: DepositDryRun | null;
+}
+
+/**
+ * Lets an admin run the deposit up to the point of sending it to PMC and shows the
+ * report from the latest dry run for this submission version
+ */
+export function DepositDryRunCard({ dryRun }: DepositDryRunCardProps) {
+  const fetcher = useFetcher<{ success?: boolean; error?: string }>();
+  const isRunning = fetcher.state !== 'idle' || dryRun?.status === 'RUNNING';
+  const report = dryRun?.report;
+
+  return (
+    <SectionWithHeading heading="Deposit Dry Run" icon={FlaskConical}>
+      <primitives.Card lift className="p-4 space-y-4">
+        <div className="flex gap-4 justify-between items-center">
+          <div className="text-sm text-gray-600">
+            Builds the deposit and checks it against the NIHMS rules without sending it to PMC.
+            {dryRun && (
+              <div>Last run: {formatDate(dryRun.date_created, 'yyyy-MM-dd HH:mm:ss')}</div>
+            )}
+          </div>
+          <fetcher.Form method="post">
+            <input type="hidden" name="intent" value="dry-run" />
+            <ui.Button type="submit" variant="outline" size="sm" disabled={isRunning}>
+              {isRunning ? 'Running...' : 'Run Dry Run'}
+            </ui.Button>
+          </fetcher.Form>
+        </div>
+        {fetcher.data?.error && <ui.SmallErrorTray error={fetcher.data.error} />}
+        {dryRun?.status === 'FAILED' && !report && (
+          <ui.SimpleAlert type="error" size="compact" message="The dry run job failed to run." />
+        )}
+        {report && (
+          <div className="space-y-2">
+            <ui.SimpleAlert
+              type={report.valid ? (report.warningCount > 0 ? 'warning' : 'success') : 'error'}
+              size="compact"
+              message={
+                report.valid
+                  ? `Dry run passed${report.warningCount > 0 ? ` with ${report.warningCount} warning(s)` : ''}, this deposit is ready to send to PMC.`
+                  : `Dry run found ${report.errorCount} error(s), sending this deposit would fail.`
+              }
+            />
+            {report.journal && (
+              <div className="text-sm">
+                Journal: {report.journal.title} ({report.journal.issnType} ISSN{' '}
+                {report.journal.issn})
+              </div>
+            )}
+            {report.files && <div className="text-sm">Files: {report.files.length}</div>}
+            {report.issues.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {report.issues.map((issue, idx) => (
+                  <li key={idx} className="flex gap-2 items-start">
+                    <ui.Badge
+                      variant="outline"
+                      className={cn(
+                        issue.level === 'error'
+                          ? 'text-red-700 border-red-300'
+                          : 'text-amber-700 border-amber-300',
+                      )}
+                    >
+                      {issue.step}
+                    </ui.Badge>
+                    <span className={issue.level === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                      {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </primitives.Card>
+    </SectionWithHeading>
+  );
+}
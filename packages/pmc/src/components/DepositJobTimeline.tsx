@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import { ui, primitives, formatDate, SectionWithHeading, cn } from '@curvenote/scms-core';
+import type { DepositJobEvent } from '../backend/deposit/event-log.server.js';
+
+export interface DepositJobRun {
+  id: string;
+  status: string;
+  message: string | null;
+  date_created: string;
+  events: DepositJobEvent[];
+}
+
+interface DepositJobTimelineProps {
+  runs: DepositJobRun[];
+}
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const getLevelClasses = (level: DepositJobEvent['level']) => {
+  switch (level) {
+    case 'error':
+      return 'bg-red-500';
+    case 'warning':
+      return 'bg-amber-500';
+    default:
+      return 'bg-blue-500';
+  }
+};
+
+function DepositJobEventItem({ event }: { event: DepositJobEvent }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <li className="relative pl-5">
+      <span
+        className={cn(
+          'absolute left-0 top-1.5 w-2.5 h-2.5 rounded-full',
+          getLevelClasses(event.level),
+        )}
+      />
+      <div className="flex gap-2 items-baseline text-sm">
+        <span className="font-medium">{event.step}</span>
+        <span className="text-xs text-gray-500">
+          {formatDate(event.timestamp, 'HH:mm:ss')} (+{formatDuration(event.durationMs)})
+        </span>
+        {event.payload && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 underline cursor-pointer"
+            onClick={() => setOpen(!open)}
+          >
+            {open ? 'hide details' : 'details'}
+          </button>
+        )}
+      </div>
+      {open && event.payload && (
+        <pre className="overflow-x-auto p-2 mt-1 text-xs bg-gray-50 rounded dark:bg-gray-800">
+          {JSON.stringify(event.payload, null, 2)}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Timeline of the events recorded by the deposit job runs for a submission version,
+ * most recent run first
+ */
+export function DepositJobTimeline({ runs }: DepositJobTimelineProps) {
+  const [selectedRunId, setSelectedRunId] = useState(runs[0]?.id);
+  const run = runs.find(({ id }) => id === selectedRunId) ?? runs[0];
+
+  return (
+    <SectionWithHeading heading="Deposit Job Log" icon={History}>
+      <primitives.Card lift className="p-4 space-y-4">
+        {!run && <div className="text-sm text-gray-600">This deposit has not been sent yet.</div>}
+        {run && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {runs.map(({ id, date_created, status }) => (
+                <ui.Button
+                  key={id}
+                  type="button"
+                  size="sm"
+                  variant={id === run.id ? 'default' : 'outline'}
+                  onClick={() => setSelectedRunId(id)}
+                >
+                  {formatDate(date_created, 'yyyy-MM-dd HH:mm')} · {status}
+                </ui.Button>
+              ))}
+            </div>
+            {run.message && <div className="text-sm text-gray-600">{run.message}</div>}
+            {run.events.length === 0 ? (
+              <div className="text-sm text-gray-600">No events were recorded for this run.</div>
+            ) : (
+              <ol className="space-y-2">
+                {run.events.map((event, idx) => (
+                  <DepositJobEventItem key={idx} event={event} />
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </primitives.Card>
+    </SectionWithHeading>
+  );
+}
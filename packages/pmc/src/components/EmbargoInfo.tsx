@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useFetcher, useLoaderData } from 'react-router';
+import { ui } from '@curvenote/scms-core';
+import type { GeneralError } from '@curvenote/scms-core';
+import type {
+  Embargo,
+  EmbargoType,
+  PMCWorkVersionMetadataSection,
+} from '../common/metadata.schema.js';
+import {
+  getAllowedEmbargoMonths,
+  getEmbargoPolicyIssues,
+  getEmbargoReleaseDate,
+} from '../common/validation.js';
+import type { EmbargoPolicy } from '../common/validation.js';
+
+export const EMBARGO_TYPE_LABELS: Record<EmbargoType, string> = {
+  none: 'No embargo',
+  months: 'Months after publication',
+  date: 'Release date',
+};
+
+export function formatEmbargo(embargo: Embargo | undefined, publishedDate?: string) {
+  if (!embargo || embargo.type === 'none') return 'None';
+  const releaseDate = getEmbargoReleaseDate(embargo, publishedDate);
+  if (embargo.type === 'months') {
+    const months = `${embargo.months} ${embargo.months === 1 ? 'month' : 'months'} after publication`;
+    return releaseDate ? `${months} (${releaseDate})` : months;
+  }
+  return `Until ${releaseDate}`;
+}
+
+export function EmbargoInfo() {
+  const { metadata, embargoPolicy } = useLoaderData<{
+    metadata: PMCWorkVersionMetadataSection;
+    embargoPolicy: EmbargoPolicy;
+  }>();
+  const { pmc } = metadata;
+  const fetcher = useFetcher<{ success?: boolean; error?: GeneralError }>();
+  const [type, setType] = useState<EmbargoType>(pmc?.embargo?.type ?? 'none');
+
+  const policyIssues = getEmbargoPolicyIssues(
+    pmc?.embargo,
+    pmc?.grants || [],
+    pmc?.doiPublishedDate,
+    embargoPolicy,
+  );
+  const allowedMonths = getAllowedEmbargoMonths(pmc?.grants || [], embargoPolicy);
+  const hasEmbargo = !!pmc?.embargo && pmc.embargo.type !== 'none';
+  const releaseDate = getEmbargoReleaseDate(pmc?.embargo, pmc?.doiPublishedDate);
+
+  return (
+    <div id="embargo-info" className="space-y-4">
+      <div className="space-y-2">
+        <h2>Embargo</h2>
+        <div className="max-w-full text-base prose text-stone-600 dark:text-stone-400">
+          If the publisher requires a delay before the manuscript is made public in PMC, enter it
+          here. Your funders' public access policies limit how long an embargo can be.
+        </div>
+      </div>
+      {allowedMonths === 0 && !hasEmbargo ? (
+        <div className="text-sm text-stone-600 dark:text-stone-400">
+          The public access policies of your funders, including HHMI, require the manuscript to be
+          released in PMC on publication, so it cannot have an embargo.
+        </div>
+      ) : (
+        <fetcher.Form method="post" className="space-y-2">
+          <input type="hidden" name="intent" value="embargo-update" />
+          <input type="hidden" name="type" value={type} />
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="md:w-64">
+              <label className="block mb-1 text-sm font-medium text-gray-700">Embargo</label>
+              <ui.ClientComboBox
+                options={Object.entries(EMBARGO_TYPE_LABELS).map(([value, label]) => ({
+                  value,
+                  label,
+                }))}
+                value={type}
+                onValueChange={(value) => setType((value || 'none') as EmbargoType)}
+                placeholder="Select embargo..."
+                searchPlaceholder="Search..."
+                emptyMessage="No options found."
+                disabled={fetcher.state !== 'idle'}
+              />
+            </div>
+            {type === 'months' && (
+              <ui.TextField
+                id="embargo-months"
+                name="months"
+                type="number"
+                min={1}
+                max={allowedMonths || undefined}
+                label="Months"
+                defaultValue={pmc?.embargo?.months}
+              />
+            )}
+            {type === 'date' && (
+              <ui.TextField
+                id="embargo-release-date"
+                name="releaseDate"
+                type="date"
+                label="Release date"
+                defaultValue={pmc?.embargo?.releaseDate}
+              />
+            )}
+            <ui.Button type="submit" className="flex-shrink-0" disabled={fetcher.state !== 'idle'}>
+              Save
+            </ui.Button>
+          </div>
+          {fetcher.data?.error && (
+            <ui.SmallErrorTray error={fetcher.data.error?.message ?? 'An error occurred'} />
+          )}
+        </fetcher.Form>
+      )}
+      {hasEmbargo && releaseDate && (
+        <div className="text-sm text-stone-600 dark:text-stone-400">
+          The manuscript will be released in PMC on {releaseDate}.
+        </div>
+      )}
+      {policyIssues.map((message) => (
+        <ui.SmallErrorTray key={message} error={message} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import { Link, useFetcher } from 'react-router';
+import { RotateCcw } from 'lucide-react';
+import type { GeneralError } from '@curvenote/scms-core';
+import { ui, primitives, formatDate } from '@curvenote/scms-core';
+
+export type InboundEmailMessage = {
+  id: string;
+  date_created: string;
+  status: string;
+  from: string;
+  subject: string;
+  processor?: string;
+  reason?: string;
+  errors: string[];
+  parsedResult?: unknown;
+  reprocessedAs?: string;
+  reprocessedFrom?: string;
+  deposits: Array<{
+    submissionId: string;
+    submissionVersionId: string;
+    title: string;
+    status: string;
+  }>;
+};
+
+type ReprocessResponse = {
+  success?: boolean;
+  status?: string;
+  messageId?: string;
+  error?: GeneralError | string;
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  SUCCESS: 'text-green-600',
+  PARTIAL: 'text-amber-600',
+  ERROR: 'text-red-600',
+  BOUNCED: 'text-red-600',
+  IGNORED: 'text-gray-500',
+  PENDING: 'text-blue-600',
+};
+
+/**
+ * A stored inbound email with its processing outcome, an admin can run it through the email
+ * processor again
+ */
+export function InboundEmailMessageCard({ message }: { message: InboundEmailMessage }) {
+  const fetcher = useFetcher<ReprocessResponse>();
+  const busy = fetcher.state !== 'idle';
+
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    const { error, status } = fetcher.data;
+    if (error) {
+      ui.toastError(typeof error === 'string' ? error : error.message);
+    } else if (status) {
+      ui.toastSuccess(`Email reprocessed: ${status.toLowerCase()}`);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <li>
+      <primitives.Card className="p-4 space-y-2">
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className={`font-medium capitalize ${STATUS_CLASSES[message.status] ?? ''}`}>
+            {message.status.toLowerCase()}
+          </span>
+          {message.processor && <ui.Badge variant="outline">{message.processor}</ui.Badge>}
+          <span className="text-sm text-gray-500">
+            {formatDate(message.date_created, 'yyyy-MM-dd HH:mm:ss')}
+          </span>
+          <div className="grow" />
+          <fetcher.Form method="post">
+            <input type="hidden" name="intent" value="reprocess" />
+            <input type="hidden" name="messageId" value={message.id} />
+            <ui.Button type="submit" variant="outline" size="sm" disabled={busy}>
+              <RotateCcw className={busy ? 'mr-2 animate-spin' : 'mr-2'} />
+              {busy ? 'Reprocessing...' : 'Reprocess'}
+            </ui.Button>
+          </fetcher.Form>
+        </div>
+        <div className="text-sm">
+          <div className="font-medium">{message.subject}</div>
+          <div className="text-gray-500">From: {message.from}</div>
+        </div>
+        {message.reason && <div className="text-sm text-gray-600">{message.reason}</div>}
+        {message.errors.length > 0 && (
+          <ul className="text-sm text-red-600">
+            {message.errors.map((error, idx) => (
+              <li key={idx}>{error}</li>
+            ))}
+          </ul>
+        )}
+        {message.deposits.length > 0 && (
+          <ul className="space-y-0.5 text-sm">
+            {message.deposits.map((deposit) => (
+              <li key={deposit.submissionVersionId}>
+                <Link
+                  to={`/app/sites/pmc/deposits/${deposit.submissionId}/v/${deposit.submissionVersionId}`}
+                  className="text-blue-800 hover:underline"
+                >
+                  {deposit.title}
+                </Link>{' '}
+                <span className="text-xs text-gray-500">({deposit.status})</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {(message.reprocessedAs || message.reprocessedFrom) && (
+          <div className="text-xs text-gray-500">
+            {message.reprocessedFrom && <div>Reprocessed from {message.reprocessedFrom}</div>}
+            {message.reprocessedAs && <div>Reprocessed as {message.reprocessedAs}</div>}
+          </div>
+        )}
+        {message.parsedResult !== undefined && (
+          <details className="text-sm">
+            <summary className="cursor-pointer">Parsed result</summary>
+            <pre className="overflow-x-auto p-2 mt-1 text-xs bg-gray-50 rounded">
+              {JSON.stringify(message.parsedResult, null, 2)}
+            </pre>
+          </details>
+        )}
+      </primitives.Card>
+    </li>
+  );
+}
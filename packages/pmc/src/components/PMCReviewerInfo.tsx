@@ -1,8 +1,10 @@
+import { useEffect, useState } from 'react';
 import { ui, cn } from '@curvenote/scms-core';
 import { useFetcher, useLoaderData } from 'react-router';
 import type { GeneralError } from '@curvenote/scms-core';
-import type { PMCWorkVersionMetadataSection } from '../common/metadata.schema.js';
-import { ExternalLink } from 'lucide-react';
+import type { ContactEntry, PMCWorkVersionMetadataSection } from '../common/metadata.schema.js';
+import { ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { ADDITIONAL_CONTACT_TYPES, CONTACT_TYPE_LABELS } from './contacts.js';
 
 interface PMCReviewerInfoProps {
   currentUser: {
@@ -51,6 +53,90 @@ function TextFieldForm({
   );
 }
 
+// Component for displaying an additional contact
+function ContactEntryRow({ contact }: { contact: ContactEntry }) {
+  const removeFetcher = useFetcher();
+
+  return (
+    <div className="flex items-center gap-4 py-1">
+      <div className="w-56 font-medium text-gray-900 dark:text-gray-100">
+        {CONTACT_TYPE_LABELS[contact.contactType]}
+      </div>
+      <div className="flex-1 text-sm">
+        {contact.firstName} {contact.lastName} &lt;{contact.email}&gt;
+      </div>
+      <ui.SimpleTooltip title="Remove contact" side="right" sideOffset={10} delayDuration={250}>
+        <removeFetcher.Form method="post" className="inline">
+          <input type="hidden" name="intent" value="contact-remove" />
+          <input type="hidden" name="id" value={contact.id} />
+          <ui.Button
+            type="submit"
+            variant="ghost"
+            size="icon-sm"
+            className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+            disabled={removeFetcher.state !== 'idle'}
+          >
+            <Trash2 className="stroke-[1.5px]" />
+            <span className="sr-only">Remove contact</span>
+          </ui.Button>
+        </removeFetcher.Form>
+      </ui.SimpleTooltip>
+    </div>
+  );
+}
+
+// Component for adding a PI or corresponding author
+function ContactEntryForm() {
+  const fetcher = useFetcher<{ success?: boolean; error?: GeneralError }>();
+  const [contactType, setContactType] = useState('');
+  const [resetKey, setResetKey] = useState(0);
+
+  useEffect(() => {
+    if (fetcher.state === 'idle' && fetcher.data?.success) {
+      setContactType('');
+      setResetKey((prev) => prev + 1);
+    }
+  }, [fetcher.state]);
+
+  return (
+    <fetcher.Form key={resetKey} method="post" className="space-y-2">
+      <input type="hidden" name="intent" value="contact-add" />
+      {contactType && <input type="hidden" name="contactType" value={contactType} />}
+      <div className="flex flex-col gap-4 md:flex-row md:items-end">
+        <div className="md:w-56">
+          <label className="block mb-1 text-sm font-medium text-gray-700">Add Contact</label>
+          <ui.ClientComboBox
+            options={ADDITIONAL_CONTACT_TYPES.map((type) => ({
+              value: type,
+              label: CONTACT_TYPE_LABELS[type],
+            }))}
+            value={contactType}
+            onValueChange={setContactType}
+            placeholder="Select role..."
+            searchPlaceholder="Search roles..."
+            emptyMessage="No roles found."
+            disabled={fetcher.state !== 'idle'}
+          />
+        </div>
+        <ui.TextField id="contact-first-name" name="firstName" type="text" label="First name" />
+        <ui.TextField id="contact-last-name" name="lastName" type="text" label="Last name" />
+        <ui.TextField id="contact-email" name="email" type="email" label="Email" />
+        <ui.Button
+          type="submit"
+          className="flex-shrink-0"
+          disabled={!contactType || fetcher.state !== 'idle'}
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </ui.Button>
+      </div>
+      {fetcher.data?.error && (
+        <ui.SmallErrorTray error={fetcher.data.error?.message ?? 'An error occurred'} />
+      )}
+    </fetcher.Form>
+  );
+}
+
 export function PMCReviewerInfo({ currentUser: currentReviewer, className }: PMCReviewerInfoProps) {
   const { metadata } = useLoaderData<{ metadata: PMCWorkVersionMetadataSection }>();
   const { pmc } = metadata;
@@ -184,6 +270,17 @@ export function PMCReviewerInfo({ currentUser: currentReviewer, className }: PMC
           </>
         )}
       </div>
+
+      <div className="space-y-2">
+        <h3>Additional Contacts</h3>
+        <div className="max-w-full text-base prose text-stone-600 dark:text-stone-400">
+          Add the PI or corresponding author if NIHMS should record them alongside the reviewer.
+        </div>
+        {(pmc?.contacts ?? []).map((contact) => (
+          <ContactEntryRow key={contact.id} contact={contact} />
+        ))}
+        <ContactEntryForm />
+      </div>
     </div>
   );
 }
@@ -1,12 +1,19 @@
 import type { PMCWorkVersionMetadataSection } from '../common/metadata.schema.js';
 import { PMC_FUNDERS_MAP } from './funders.js';
+import { CONTACT_TYPE_LABELS } from './contacts.js';
+import { AuthorIdentifiers, formatAuthorName } from './AuthorsInfo.js';
+import { formatEmbargo } from './EmbargoInfo.js';
+import { getEmbargoPolicyIssues } from '../common/validation.js';
+import type { EmbargoPolicy } from '../common/validation.js';
 import { ui } from '@curvenote/scms-core';
 
 export function PreviewMetadataSection({
   pmc,
+  embargoPolicy,
   showContactLinks = false,
 }: {
   pmc: PMCWorkVersionMetadataSection['pmc'];
+  embargoPolicy?: EmbargoPolicy;
   showContactLinks?: boolean;
 }) {
   // Use grants if available, otherwise fall back to funders for backward compatibility
@@ -15,6 +22,13 @@ export function PreviewMetadataSection({
   const hasGrants = grants.length > 0;
   const hasFunders = funders.length > 0;
 
+  const embargoIssues = getEmbargoPolicyIssues(
+    pmc?.embargo,
+    grants,
+    pmc?.doiPublishedDate,
+    embargoPolicy,
+  );
+
   // Determine which data to display
   const displayGrants = hasGrants ? grants : [];
   const displayFunders = !hasGrants && hasFunders ? funders : [];
@@ -57,6 +71,34 @@ export function PreviewMetadataSection({
             )}
           </dd>
         </div>
+        {(pmc?.contacts ?? []).map((contact) => (
+          <div key={contact.id ?? contact.email} className="flex items-center">
+            <dt className="w-42 shrink-0">{CONTACT_TYPE_LABELS[contact.contactType]}:</dt>
+            <dd className="font-light">
+              <span>{`${contact.firstName} ${contact.lastName} <${contact.email}>`}</span>
+              {showContactLinks && (
+                <ui.Button variant="link" className="p-0 ml-1" asChild>
+                  <a href={`mailto:${contact.email}`}>contact</a>
+                </ui.Button>
+              )}
+            </dd>
+          </div>
+        ))}
+        {(pmc?.authors ?? []).length > 0 && (
+          <div className="flex pt-2">
+            <dt className="w-42 shrink-0">Authors:</dt>
+            <dd>
+              <ol className="space-y-1 font-light list-none">
+                {pmc?.authors?.map((author, index) => (
+                  <li key={author.id ?? index}>
+                    <span>{formatAuthorName(author)}</span>
+                    <AuthorIdentifiers author={author} />
+                  </li>
+                ))}
+              </ol>
+            </dd>
+          </div>
+        )}
         <div className="flex pt-2">
           <dt className="w-42 shrink-0">Funding Information:</dt>
           <dd>
@@ -81,6 +123,17 @@ export function PreviewMetadataSection({
             ) : null}
           </dd>
         </div>
+        <div className="flex">
+          <dt className="w-42 shrink-0">Embargo:</dt>
+          <dd className="font-light">
+            {formatEmbargo(pmc?.embargo, pmc?.doiPublishedDate)}
+            {embargoIssues.map((message) => (
+              <div key={message} className="text-sm text-red-600 dark:text-red-400">
+                {message}
+              </div>
+            ))}
+          </dd>
+        </div>
       </dl>
     </div>
   );
@@ -6,6 +6,7 @@ import type { PMCCombinedMetadataSection } from '../common/metadata.schema.js';
 import { PublicationInfoCard } from './PublicationInfoCard.js';
 import { ValidationErrors } from './ValidationErrors.js';
 import { JournalComboBox } from './JournalComboBox.js';
+import { AuthorsInfo } from './AuthorsInfo.js';
 
 function PublicationManualEntry({ doiFormRef }: { doiFormRef: React.RefObject<HTMLFormElement> }) {
   const { metadata } = useLoaderData<{ metadata: PMCCombinedMetadataSection }>();
@@ -240,6 +241,7 @@ export function PublicationInfoForm() {
 
       {showManualEntry && <PublicationManualEntry doiFormRef={doiFormRef} />}
       {!showManualEntry && doiSuccess && <PublicationInfoCard />}
+      {(showManualEntry || doiSuccess) && <AuthorsInfo />}
     </div>
   );
 }
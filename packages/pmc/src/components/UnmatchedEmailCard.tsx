@@ -0,0 +1,146 @@
+import { useEffect } from 'react';
+import { Link, useFetcher } from 'react-router';
+import { Link2, Search } from 'lucide-react';
+import type { GeneralError } from '@curvenote/scms-core';
+import { ui, primitives, formatDate } from '@curvenote/scms-core';
+
+export type UnmatchedEmail = {
+  id: string;
+  date_created: string;
+  from: string;
+  subject: string;
+  manuscriptId: string;
+  processor: string;
+};
+
+export type DepositSearchResult = {
+  submissionId: string;
+  submissionVersionId: string;
+  title: string;
+  status: string;
+  manuscriptId?: string;
+};
+
+type SearchResponse = {
+  deposits?: DepositSearchResult[];
+  error?: GeneralError | string;
+};
+
+type LinkResponse = {
+  success?: boolean;
+  status?: string;
+  error?: GeneralError | string;
+};
+
+function toErrorMessage(error: GeneralError | string) {
+  return typeof error === 'string' ? error : error.message;
+}
+
+function DepositOption({
+  messageId,
+  manuscriptId,
+  deposit,
+}: {
+  messageId: string;
+  manuscriptId: string;
+  deposit: DepositSearchResult;
+}) {
+  const fetcher = useFetcher<LinkResponse>();
+  const busy = fetcher.state !== 'idle';
+  const conflict = !!deposit.manuscriptId && deposit.manuscriptId !== manuscriptId;
+
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    const { error, status } = fetcher.data;
+    if (error) {
+      ui.toastError(toErrorMessage(error));
+    } else if (status) {
+      ui.toastSuccess(`Email linked and processed: ${status.toLowerCase()}`);
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  return (
+    <li className="flex gap-2 items-center text-sm">
+      <Link
+        to={`/app/sites/pmc/deposits/${deposit.submissionId}/v/${deposit.submissionVersionId}`}
+        className="text-blue-800 hover:underline"
+      >
+        {deposit.title}
+      </Link>
+      <span className="text-xs text-gray-500">({deposit.status})</span>
+      {deposit.manuscriptId && <ui.Badge variant="outline">NIHMS{deposit.manuscriptId}</ui.Badge>}
+      <div className="grow" />
+      <fetcher.Form method="post">
+        <input type="hidden" name="intent" value="link" />
+        <input type="hidden" name="messageId" value={messageId} />
+        <input type="hidden" name="submissionVersionId" value={deposit.submissionVersionId} />
+        <ui.Button type="submit" variant="outline" size="sm" disabled={busy || conflict}>
+          <Link2 className="mr-2" />
+          {busy ? 'Linking...' : 'Link'}
+        </ui.Button>
+      </fetcher.Form>
+    </li>
+  );
+}
+
+/**
+ * An inbound email whose manuscript ID matched no deposit, an admin can search for the right
+ * deposit and link the email to it
+ */
+export function UnmatchedEmailCard({ email }: { email: UnmatchedEmail }) {
+  const fetcher = useFetcher<SearchResponse>();
+  const busy = fetcher.state !== 'idle';
+
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data?.error) return;
+    ui.toastError(toErrorMessage(fetcher.data.error));
+  }, [fetcher.state, fetcher.data]);
+
+  const deposits = fetcher.data?.deposits;
+
+  return (
+    <li>
+      <primitives.Card className="p-4 space-y-3">
+        <div className="flex flex-wrap gap-2 items-center">
+          <ui.Badge>NIHMS{email.manuscriptId}</ui.Badge>
+          <ui.Badge variant="outline">{email.processor}</ui.Badge>
+          <span className="text-sm text-gray-500">
+            {formatDate(email.date_created, 'yyyy-MM-dd HH:mm:ss')}
+          </span>
+        </div>
+        <div className="text-sm">
+          <div className="font-medium">{email.subject}</div>
+          <div className="text-gray-500">From: {email.from}</div>
+        </div>
+        <fetcher.Form method="post" className="flex gap-2 items-center">
+          <input type="hidden" name="intent" value="search" />
+          <input
+            name="query"
+            placeholder="Search deposits by title or id..."
+            className="px-2 py-1 w-full text-sm rounded border md:w-96"
+            required
+          />
+          <ui.Button type="submit" variant="outline" size="sm" disabled={busy}>
+            <Search className="mr-2" />
+            {busy ? 'Searching...' : 'Search'}
+          </ui.Button>
+        </fetcher.Form>
+        {deposits && deposits.length === 0 && (
+          <div className="text-sm text-gray-500">No deposits found.</div>
+        )}
+        {deposits && deposits.length > 0 && (
+          <ul className="space-y-1">
+            {deposits.map((deposit) => (
+              <DepositOption
+                key={deposit.submissionVersionId}
+                messageId={email.id}
+                manuscriptId={email.manuscriptId}
+                deposit={deposit}
+              />
+            ))}
+          </ul>
+        )}
+      </primitives.Card>
+    </li>
+  );
+}
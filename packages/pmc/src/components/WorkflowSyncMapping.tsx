@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useFetcher } from 'react-router';
+import { X } from 'lucide-react';
+import type { GeneralError } from '@curvenote/scms-core';
+import { ui, primitives } from '@curvenote/scms-core';
+
+export type StateOption = { value: string; label: string };
+
+type MappingFetcherData = { success?: boolean; error?: GeneralError | string };
+
+function MappingError({ error }: { error?: GeneralError | string }) {
+  if (!error) return null;
+  return <ui.SmallErrorTray error={typeof error === 'string' ? error : error.message} />;
+}
+
+/**
+ * Form to map an Airtable status or date field to a PMC workflow state, the key is fixed when
+ * mapping a status from the unmapped status report
+ */
+export function AddMappingForm({
+  intent,
+  keyLabel,
+  states,
+  fixedKey,
+}: {
+  intent: 'mapping-set-status' | 'mapping-set-date-field';
+  keyLabel: string;
+  states: StateOption[];
+  fixedKey?: string;
+}) {
+  const fetcher = useFetcher<MappingFetcherData>();
+  const [state, setState] = useState<string>('');
+  const busy = fetcher.state !== 'idle';
+
+  return (
+    <fetcher.Form method="post" className="space-y-2">
+      <input type="hidden" name="intent" value={intent} />
+      <input type="hidden" name="state" value={state} />
+      {fixedKey && <input type="hidden" name="key" value={fixedKey} />}
+      <div className="flex flex-col gap-2 md:flex-row md:items-end">
+        {!fixedKey && (
+          <div className="md:w-96">
+            <ui.TextField id={`${intent}-key`} name="key" label={keyLabel} required />
+          </div>
+        )}
+        <div className="md:w-72">
+          {!fixedKey && (
+            <label className="block mb-1 text-sm font-medium text-gray-700">PMC state</label>
+          )}
+          <ui.ClientComboBox
+            options={states}
+            value={state}
+            onValueChange={(value) => setState(value ?? '')}
+            placeholder="Select state..."
+            searchPlaceholder="Search..."
+            emptyMessage="No states found."
+            disabled={busy}
+          />
+        </div>
+        <ui.Button type="submit" size="sm" disabled={busy || !state}>
+          {fixedKey ? 'Map' : 'Add'}
+        </ui.Button>
+      </div>
+      <MappingError error={fetcher.data?.error} />
+    </fetcher.Form>
+  );
+}
+
+function IntentButton({
+  intent,
+  mappingKey,
+  label,
+  title,
+}: {
+  intent: string;
+  mappingKey: string;
+  label: React.ReactNode;
+  title?: string;
+}) {
+  const fetcher = useFetcher<MappingFetcherData>();
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value={intent} />
+      <input type="hidden" name="key" value={mappingKey} />
+      <ui.Button
+        type="submit"
+        variant="ghost"
+        size="sm"
+        title={title}
+        disabled={fetcher.state !== 'idle'}
+      >
+        {label}
+      </ui.Button>
+    </fetcher.Form>
+  );
+}
+
+/**
+ * The current mapping of Airtable statuses or date fields to PMC workflow states
+ */
+export function MappingTable({
+  entries,
+  stateLabels,
+  removeIntent,
+  emptyMessage,
+}: {
+  entries: Record<string, string>;
+  stateLabels: Record<string, string>;
+  removeIntent: 'mapping-remove-status' | 'mapping-remove-date-field';
+  emptyMessage: string;
+}) {
+  const rows = Object.entries(entries).sort(([a], [b]) => a.localeCompare(b));
+  if (rows.length === 0) {
+    return <div className="text-sm text-gray-500">{emptyMessage}</div>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {rows.map(([key, state]) => (
+          <tr key={key} className="border-b border-gray-200 dark:border-gray-700">
+            <td className="py-1 pr-4">{key}</td>
+            <td className="py-1 pr-4 text-gray-600">{stateLabels[state] ?? state}</td>
+            <td className="py-1 w-8 text-right">
+              <IntentButton
+                intent={removeIntent}
+                mappingKey={key}
+                label={<X className="w-4 h-4" />}
+                title={`Remove the mapping for ${key}`}
+              />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Statuses that are deliberately left unmapped so they no longer appear as unmapped
+ */
+export function IgnoredStatuses({ statuses }: { statuses: string[] }) {
+  if (statuses.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-medium">Ignored statuses</div>
+      <ul className="space-y-1 text-sm">
+        {statuses.map((status) => (
+          <li key={status} className="flex items-center gap-2">
+            <span className="text-gray-600">{status}</span>
+            <IntentButton intent="mapping-unignore-status" mappingKey={status} label="Unignore" />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Airtable statuses seen in the last sync that are neither mapped nor ignored
+ */
+export function UnmappedStatusReport({
+  unmappedStatuses,
+  states,
+  syncDate,
+}: {
+  unmappedStatuses: Array<{ status: string; count: number; manuscriptIds: string[] }>;
+  states: StateOption[];
+  syncDate?: string;
+}) {
+  if (unmappedStatuses.length === 0) {
+    return (
+      <primitives.Card className="p-4 text-sm text-gray-500">
+        {syncDate
+          ? 'Every Airtable status seen in the last sync is mapped.'
+          : 'No sync has reported on unmapped statuses yet.'}
+      </primitives.Card>
+    );
+  }
+  return (
+    <ul className="space-y-3">
+      {unmappedStatuses.map(({ status, count, manuscriptIds }) => (
+        <li key={status}>
+          <primitives.Card className="p-4 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{status}</span>
+              <ui.Badge variant="outline">
+                {count} {count === 1 ? 'deposit' : 'deposits'}
+              </ui.Badge>
+              <div className="grow" />
+              <IntentButton
+                intent="mapping-ignore-status"
+                mappingKey={status}
+                label="Ignore"
+                title="Keep this status unmapped and stop reporting it"
+              />
+            </div>
+            <div className="text-xs text-gray-500">e.g. {manuscriptIds.join(', ')}</div>
+            <AddMappingForm
+              intent="mapping-set-status"
+              keyLabel="Airtable status"
+              states={states}
+              fixedKey={status}
+            />
+          </primitives.Card>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { useFetcher } from 'react-router';
+import type { GeneralError } from '@curvenote/scms-core';
+import { ui, primitives, formatDate } from '@curvenote/scms-core';
+
+export type PreviewChange = {
+  submissionId: string;
+  title: string;
+  manuscriptId: string;
+  fromStatus: string;
+  toStatus: string;
+  metadataUpdates: { pmid?: string; pmcid?: string } | null;
+  newActivities: Array<{ status: string; date_created?: string }>;
+};
+
+type ApplyResponse = {
+  success?: boolean;
+  results?: Array<{ submissionId: string; success: boolean; error?: string }>;
+  error?: GeneralError | string;
+};
+
+function ChangeDetails({
+  change,
+  stateLabels,
+}: {
+  change: PreviewChange;
+  stateLabels: Record<string, string>;
+}) {
+  const label = (state: string) => stateLabels[state] ?? state;
+  return (
+    <ul className="space-y-0.5 text-sm text-gray-600">
+      {change.toStatus !== change.fromStatus && (
+        <li>
+          Status: {label(change.fromStatus)} → {label(change.toStatus)}
+        </li>
+      )}
+      {change.metadataUpdates?.pmid && <li>PMID: {change.metadataUpdates.pmid}</li>}
+      {change.metadataUpdates?.pmcid && <li>PMCID: {change.metadataUpdates.pmcid}</li>}
+      {change.newActivities.map((activity, idx) => (
+        <li key={idx}>
+          Activity: {label(activity.status)}
+          {activity.date_created
+            ? ` on ${formatDate(activity.date_created, 'yyyy-MM-dd')}`
+            : ' (when applied)'}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * The changes found by a preview run of the workflow sync, an admin selects the changes to apply
+ */
+export function WorkflowSyncPreview({
+  jobId,
+  date,
+  changes,
+  appliedChanges,
+  stateLabels,
+}: {
+  jobId: string;
+  date: string;
+  changes: PreviewChange[];
+  appliedChanges: Record<string, string>;
+  stateLabels: Record<string, string>;
+}) {
+  const fetcher = useFetcher<ApplyResponse>();
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const pending = changes.filter((change) => !appliedChanges[change.submissionId]);
+  const selectedIds = pending
+    .map((change) => change.submissionId)
+    .filter((submissionId) => selected[submissionId]);
+  const busy = fetcher.state !== 'idle';
+
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    const { error, results } = fetcher.data;
+    if (error) {
+      ui.toastError(typeof error === 'string' ? error : error.message);
+      return;
+    }
+    if (!results) return;
+    const failed = results.filter((result) => !result.success);
+    const applied = results.length - failed.length;
+    if (failed.length === 0) {
+      ui.toastSuccess(`${applied} of ${results.length} changes applied`);
+    } else {
+      ui.toastError(`${applied} of ${results.length} changes applied, ${failed.length} failed`);
+    }
+    setErrors(
+      Object.fromEntries(failed.map((result) => [result.submissionId, result.error ?? ''])),
+    );
+    // Keep only the changes that failed selected
+    setSelected(Object.fromEntries(failed.map((result) => [result.submissionId, true])));
+  }, [fetcher.state, fetcher.data]);
+
+  const apply = (submissionIds: string[]) => {
+    const formData = new FormData();
+    formData.append('intent', 'apply-preview');
+    formData.append('jobId', jobId);
+    submissionIds.forEach((submissionId) => formData.append('submissionId', submissionId));
+    fetcher.submit(formData, { method: 'post' });
+  };
+
+  return (
+    <primitives.Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-500">
+          Preview started {formatDate(date, 'yyyy-MM-dd HH:mm:ss')}: {pending.length} of{' '}
+          {changes.length} changes waiting to be applied
+        </span>
+        <div className="grow" />
+        <ui.Button
+          variant="outline"
+          size="sm"
+          disabled={busy || selectedIds.length === 0}
+          onClick={() => apply(selectedIds)}
+        >
+          Apply selected ({selectedIds.length})
+        </ui.Button>
+        <ui.Button
+          size="sm"
+          disabled={busy || pending.length === 0}
+          onClick={() => apply(pending.map((change) => change.submissionId))}
+        >
+          Apply all
+        </ui.Button>
+      </div>
+      {changes.length === 0 && (
+        <div className="text-sm text-gray-500">Every deposit is up to date with Airtable.</div>
+      )}
+      <ul className="space-y-3">
+        {changes.map((change) => {
+          const appliedAt = appliedChanges[change.submissionId];
+          return (
+            <li key={change.submissionId} className="flex gap-3 items-start">
+              <ui.Checkbox
+                className="mt-1"
+                checked={!appliedAt && !!selected[change.submissionId]}
+                disabled={!!appliedAt || busy}
+                onCheckedChange={(checked) =>
+                  setSelected((prev) => ({ ...prev, [change.submissionId]: checked === true }))
+                }
+                aria-label={`Select the change to ${change.title}`}
+              />
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <a
+                    href={`/app/sites/pmc/deposits/${change.submissionId}`}
+                    className="font-medium text-blue-800 hover:underline"
+                  >
+                    {change.title}
+                  </a>
+                  <span className="text-xs text-gray-500">{change.manuscriptId}</span>
+                  {appliedAt && (
+                    <ui.Badge variant="outline">
+                      Applied {formatDate(appliedAt, 'yyyy-MM-dd HH:mm')}
+                    </ui.Badge>
+                  )}
+                </div>
+                <ChangeDetails change={change} stateLabels={stateLabels} />
+                {errors[change.submissionId] && (
+                  <div className="text-sm text-red-600">{errors[change.submissionId]}</div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </primitives.Card>
+  );
+}
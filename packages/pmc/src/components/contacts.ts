@@ -0,0 +1,12 @@
+import type { ContactType } from '../common/metadata.schema.js';
+
+export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
+  pi: 'Principal Investigator',
+  author: 'Corresponding Author',
+  reviewer: 'Reviewer',
+};
+
+/**
+ * Contact types that can be added alongside the reviewer
+ */
+export const ADDITIONAL_CONTACT_TYPES: ContactType[] = ['pi', 'author'];
@@ -1,80 +1,14 @@
 import { readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import type { JournalInfoFile } from '../backend/jobs/types.js';
+import {
+  DEFAULT_JOURNAL_LIST_SOURCE,
+  parseJournalEntries,
+} from '../backend/services/journal-list.js';
 
-interface JournalEntry {
-  id: number;
-  journalTitle: string;
-  nlmta: string;
-  pissn?: string;
-  eissn?: string;
-  startDate?: string;
-  endDate?: string;
-  isoAbbr?: string;
-  nlmId?: string;
-}
-
-interface JournalList {
-  source: string;
-  date: string;
-  items: JournalEntry[];
-}
-
-function parseJournalEntries(content: string): JournalEntry[] {
-  const entries: JournalEntry[] = [];
-
-  // Split by the separator line (dashes)
-  const entryBlocks = content.split(/-{10,}/);
-
-  for (const block of entryBlocks) {
-    if (!block.trim()) continue;
-
-    const lines = block.trim().split('\n');
-    const entry: Partial<JournalEntry> = {};
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-
-      const colonIndex = trimmedLine.indexOf(':');
-      if (colonIndex === -1) continue;
-
-      const key = trimmedLine.substring(0, colonIndex).trim();
-      const value = trimmedLine.substring(colonIndex + 1).trim();
-
-      switch (key) {
-        case 'JrId':
-          entry.id = parseInt(value, 10);
-          break;
-        case 'JournalTitle':
-          entry.journalTitle = value;
-          break;
-        case 'MedAbbr':
-          entry.nlmta = value;
-          break;
-        case 'ISSN (Print)':
-          if (value) entry.pissn = value;
-          break;
-        case 'ISSN (Online)':
-          if (value) entry.eissn = value;
-          break;
-        case 'IsoAbbr':
-          entry.isoAbbr = value;
-          break;
-        case 'NlmId':
-          entry.nlmId = value;
-          break;
-      }
-    }
-
-    // Only add entries that have required fields AND at least one ISSN
-    if (entry.id && entry.journalTitle && entry.nlmta && (entry.pissn || entry.eissn)) {
-      entries.push(entry as JournalEntry);
-    }
-  }
-
-  return entries;
-}
+// Converts a downloaded J_Entrez.txt to the bundled J_Entrez.json, which the app uses until the
+// NLM_JOURNAL_LIST_REFRESH job has loaded a list into the database. The job accepts either format
 
 function main() {
   try {
@@ -90,8 +24,8 @@ function main() {
 
     console.log(`Found ${entries.length} journal entries`);
 
-    const journalList: JournalList = {
-      source: 'https://ftp.ncbi.nih.gov/pubmed/J_Entrez.txt',
+    const journalList: JournalInfoFile = {
+      source: DEFAULT_JOURNAL_LIST_SOURCE,
       date: new Date().toISOString(),
       items: entries,
     };
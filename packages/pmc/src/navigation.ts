@@ -29,11 +29,26 @@ export function registerNavigation() {
                 label: 'Workflow Sync',
                 url: `${baseUrl}/workflow-sync`,
               },
+              {
+                name: 'emails',
+                label: 'Inbound Emails',
+                url: `${baseUrl}/emails`,
+              },
+              {
+                name: 'unmatched-emails',
+                label: 'Unmatched Emails',
+                url: `${baseUrl}/unmatched-emails`,
+              },
               {
                 name: 'grants-sync',
                 label: 'Grants Sync',
                 url: `${baseUrl}/grants`,
               },
+              {
+                name: 'journals',
+                label: 'Journal List',
+                url: `${baseUrl}/journals`,
+              },
             ],
           },
         ] satisfies MenuContents,
@@ -66,6 +66,13 @@ export async function registerRoutes(appConfig: Config): Promise<RouteRegistrati
                 'routes/$siteName.deposits.$submissionId.v.$submissionVersionId.tsx',
               ),
             ),
+            route(
+              'deposits/:submissionId/v/:submissionVersionId/package',
+              resolveRoutePath(
+                import.meta.url,
+                'routes/$siteName.deposits.$submissionId.v.$submissionVersionId.package.ts',
+              ),
+            ),
             route(
               'submissions',
               resolveRoutePath(import.meta.url, 'routes/$siteName.redirect-inbox.tsx'),
@@ -74,7 +81,13 @@ export async function registerRoutes(appConfig: Config): Promise<RouteRegistrati
               'workflow-sync',
               resolveRoutePath(import.meta.url, 'routes/$siteName.workflow-sync.tsx'),
             ),
+            route('emails', resolveRoutePath(import.meta.url, 'routes/$siteName.emails.tsx')),
+            route(
+              'unmatched-emails',
+              resolveRoutePath(import.meta.url, 'routes/$siteName.unmatched-emails.tsx'),
+            ),
             route('grants', resolveRoutePath(import.meta.url, 'routes/$siteName.grants.tsx')),
+            route('journals', resolveRoutePath(import.meta.url, 'routes/$siteName.journals.tsx')),
           ]),
         ] satisfies RouteConfigEntry[],
     },
@@ -87,6 +100,14 @@ export async function registerRoutes(appConfig: Config): Promise<RouteRegistrati
             'pmc-workflow-sync',
             resolveRoutePath(import.meta.url, 'routes/v1.hooks.pmc-workflow-sync.ts'),
           ),
+          route(
+            'pmc-deposit-reconcile',
+            resolveRoutePath(import.meta.url, 'routes/v1.hooks.pmc-deposit-reconcile.ts'),
+          ),
+          route(
+            'pmc-journal-list-refresh',
+            resolveRoutePath(import.meta.url, 'routes/v1.hooks.pmc-journal-list-refresh.ts'),
+          ),
         ] satisfies RouteConfigEntry[],
     },
   ];
@@ -0,0 +1,118 @@
+import type { LoaderFunctionArgs } from 'react-router';
+import { site, error404, httpError, formatDate } from '@curvenote/scms-core';
+import { getPrismaClient } from '@curvenote/scms-server';
+import { JobStatus } from '@prisma/client';
+import { withAppPMCContext } from '../backend/context.server.js';
+import {
+  PMC_DEPOSIT_FTP,
+  buildAAMDepositManifestForSubmissionVersion,
+  getDepositAgency,
+} from '../backend/jobs/pmc-deposit.js';
+import type { NIHMSPackage } from '../backend/deposit/package.server.js';
+import {
+  buildNIHMSPackage,
+  fetchManifestFile,
+  hashNIHMSPackage,
+} from '../backend/deposit/package.server.js';
+import type { DepositPackageInfo, PMCDepositManifest } from '../backend/deposit/types.server.js';
+
+/**
+ * Finds the deposit job that delivered the latest deposit of a submission version, with the
+ * manifest the delivered package was built from
+ */
+async function findDeliveredPackage(submissionVersionId: string) {
+  const prisma = await getPrismaClient();
+  const depositJob = await prisma.job.findFirst({
+    where: {
+      job_type: PMC_DEPOSIT_FTP,
+      status: JobStatus.COMPLETED,
+      AND: [
+        { payload: { path: ['submission_version_id'], equals: submissionVersionId } },
+        { NOT: { payload: { path: ['dry_run'], equals: true } } },
+      ],
+    },
+    select: { results: true, date_created: true },
+    orderBy: { date_created: 'desc' },
+  });
+  const results = depositJob?.results as
+    { manifest?: PMCDepositManifest; package?: DepositPackageInfo } | null | undefined;
+  if (!depositJob || !results?.manifest || !results.package) return undefined;
+  return {
+    manifest: results.manifest,
+    package: results.package,
+    date_created: depositJob.date_created,
+  };
+}
+
+/**
+ * Downloads the NIHMS bulk submission package for a deposit
+ *
+ * Once the sftp or local transport has delivered the deposit, this is the package that was
+ * sent to PMC: it is rebuilt from the manifest recorded on the deposit job, fetching the files
+ * through freshly signed URLs, and checked against the digest recorded on the job, so it is not
+ * served if the files have changed since. Before that it is a preview of the package the next
+ * deposit would send.
+ */
+export const loader = async (args: LoaderFunctionArgs) => {
+  const ctx = await withAppPMCContext(args, [site.submissions.read]);
+
+  const { submissionId, submissionVersionId } = args.params;
+
+  const prisma = await getPrismaClient();
+  const submissionVersion = await prisma.submissionVersion.findFirst({
+    where: {
+      id: submissionVersionId,
+      submission: {
+        id: submissionId,
+        site: {
+          name: 'pmc',
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  if (!submissionVersion) throw error404();
+
+  const delivered = await findDeliveredPackage(submissionVersion.id);
+
+  let nihmsPackage: NIHMSPackage | undefined;
+  try {
+    // The signed URLs in a delivered manifest have expired, they are signed again here
+    const current = await buildAAMDepositManifestForSubmissionVersion(
+      ctx,
+      submissionVersion.id,
+      delivered?.manifest.agency ?? getDepositAgency(),
+    );
+    if (!delivered) {
+      nihmsPackage = await buildNIHMSPackage(current);
+    } else {
+      const signedUrls = new Map(current.files.map((file) => [file.filename, file.path]));
+      if (delivered.manifest.files.every((file) => signedUrls.has(file.filename))) {
+        nihmsPackage = await buildNIHMSPackage(delivered.manifest, (file) =>
+          fetchManifestFile({ ...file, path: signedUrls.get(file.filename) as string }),
+        );
+      }
+    }
+  } catch (err: any) {
+    console.error('PMC package preview error:', err);
+    throw httpError(422, err.message ?? 'Unable to build the PMC package for this deposit');
+  }
+
+  // A file of the delivered package is no longer part of the deposit, or has changed
+  if (delivered && (!nihmsPackage || hashNIHMSPackage(nihmsPackage) !== delivered.package.sha256)) {
+    throw httpError(
+      409,
+      `The deposit has changed since its package was delivered on ${formatDate(delivered.date_created)}, so the delivered package cannot be downloaded`,
+    );
+  }
+  if (!nihmsPackage) throw error404();
+
+  return new Response(Buffer.from(nihmsPackage.data), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${nihmsPackage.filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+};
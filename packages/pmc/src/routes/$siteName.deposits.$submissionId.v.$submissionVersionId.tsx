@@ -1,8 +1,10 @@
-import type { LoaderFunctionArgs, MetaFunction } from 'react-router';
-import { redirect, useNavigate, useSearchParams } from 'react-router';
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from 'react-router';
+import { data, redirect, useNavigate, useSearchParams } from 'react-router';
+import { uuidv7 } from 'uuidv7';
 import { validatePMCMetadata } from '../common/validate.js';
 import type { PMCCombinedMetadataSection } from '../common/metadata.schema.js';
-import { GitBranch } from 'lucide-react';
+import type { EmbargoPolicy } from '../common/validation.js';
+import { GitBranch, Package } from 'lucide-react';
 import { PreviewMetadataSection } from '../components/PreviewMetadataSection.js';
 import { FilesSection } from '../components/FilesSection.js';
 import type { TramStop } from '../components/StatusTramline.js';
@@ -25,6 +27,7 @@ import type {
   WorkflowRegistration,
 } from '@curvenote/scms-core';
 import {
+  error404,
   getBrandingFromMetaMatches,
   getWorkflow,
   joinPageTitle,
@@ -41,7 +44,20 @@ import { PublicationInfoCard } from '../components/PublicationInfoCard.js';
 import { ActionsAreaForm } from '../components/ActionsArea.js';
 import { useState } from 'react';
 import type { UserWithRolesDBO } from '@curvenote/scms-server';
-import { getPrismaClient } from '@curvenote/scms-server';
+import { getPrismaClient, jobs } from '@curvenote/scms-server';
+import { PMC_DEPOSIT_FTP, getDepositAgency } from '../backend/jobs/pmc-deposit.js';
+import { PMC_WORKFLOW_SYNC } from '../backend/jobs/pmc-workflow-sync.js';
+import { getWorkflowSyncSource } from '../backend/sync-sources/index.js';
+import type { DepositDryRunReport } from '../backend/deposit/dry-run.server.js';
+import type { DepositDryRun } from '../components/DepositDryRunCard.js';
+import { DepositDryRunCard } from '../components/DepositDryRunCard.js';
+import type { DepositJobRun } from '../components/DepositJobTimeline.js';
+import { DepositJobTimeline } from '../components/DepositJobTimeline.js';
+import type { AirtableSync } from '../components/AirtableSyncCard.js';
+import { AirtableSyncCard } from '../components/AirtableSyncCard.js';
+import { getDepositJobEvents } from '../backend/deposit/event-log.server.js';
+import { getJobs } from '../server.js';
+import { getEmbargoPolicy } from '../backend/metadata/embargo.server.js';
 
 interface LoaderData {
   thisSubmissionVersionId: string;
@@ -49,12 +65,18 @@ interface LoaderData {
   cdnKey: string | null;
   user: UserWithRolesDBO;
   validation: { success?: boolean } & { error?: GeneralError };
+  embargoPolicy: EmbargoPolicy;
   currentWorkflow: Workflow;
   tramline: TramStop[];
   currentStatus: string;
   ended: boolean;
   submissionVersions: DepositSubmissionDetails[];
   transitions: WorkflowTransition[];
+  packageUrl: string;
+  dryRun: DepositDryRun | null;
+  depositRuns: DepositJobRun[];
+  airtableSync: AirtableSync | null;
+  syncSourceLabel: string;
 }
 
 export const meta: MetaFunction<LoaderData> = ({ matches }) => {
@@ -114,7 +136,8 @@ export const loader = async (args: LoaderFunctionArgs): Promise<LoaderData> => {
   const thisSubmissionVersionMetadata: PMCCombinedMetadataSection =
     thisSubmissionVersion?.metadata ?? {};
   const thisWorkVersionCdnKey = thisSubmissionVersion?.workVersion.cdn_key;
-  const validation = await validatePMCMetadata(thisSubmissionVersionMetadata);
+  const embargoPolicy = getEmbargoPolicy(ctx);
+  const validation = await validatePMCMetadata(thisSubmissionVersionMetadata, embargoPolicy);
 
   // Get the submission workflow and status for the tramline using activity-based generation
   const extensionWorkflows: WorkflowRegistration[] = [getWorkflows()];
@@ -140,6 +163,67 @@ export const loader = async (args: LoaderFunctionArgs): Promise<LoaderData> => {
     thisSubmissionVersionMetadata,
   );
 
+  // Get the recent deposit job runs for this submission version, dry runs are shown separately
+  const depositJobs = await prisma.job.findMany({
+    where: {
+      job_type: PMC_DEPOSIT_FTP,
+      payload: { path: ['submission_version_id'], equals: thisSubmissionVersionId },
+    },
+    orderBy: { date_created: 'desc' },
+    take: 20,
+  });
+  const isDryRunJob = (job: (typeof depositJobs)[number]) =>
+    (job.payload as { dry_run?: boolean } | null)?.dry_run === true;
+  const latestDryRunJob = await prisma.job.findFirst({
+    where: {
+      job_type: PMC_DEPOSIT_FTP,
+      AND: [
+        { payload: { path: ['submission_version_id'], equals: thisSubmissionVersionId } },
+        { payload: { path: ['dry_run'], equals: true } },
+      ],
+    },
+    orderBy: { date_created: 'desc' },
+  });
+  const depositRuns: DepositJobRun[] = depositJobs
+    .filter((job) => !isDryRunJob(job))
+    .map((job) => ({
+      id: job.id,
+      status: job.status,
+      message: job.message,
+      date_created: job.date_created,
+      events: getDepositJobEvents(job.results),
+    }));
+  const dryRun: DepositDryRun | null = latestDryRunJob
+    ? {
+        id: latestDryRunJob.id,
+        status: latestDryRunJob.status,
+        date_created: latestDryRunJob.date_created,
+        report: (latestDryRunJob.results as { report?: DepositDryRunReport } | null)?.report,
+      }
+    : null;
+
+  // Get the latest Airtable sync requested for this deposit from this page
+  const airtableSyncJob = await prisma.job.findFirst({
+    where: {
+      job_type: PMC_WORKFLOW_SYNC,
+      payload: { path: ['submission_id'], equals: args.params.submissionId },
+    },
+    orderBy: { date_created: 'desc' },
+  });
+  const airtableSyncResults = airtableSyncJob?.results as {
+    modifiedCount?: number;
+    errors?: Array<{ error: string }>;
+  } | null;
+  const airtableSync: AirtableSync | null = airtableSyncJob
+    ? {
+        id: airtableSyncJob.id,
+        status: airtableSyncJob.status,
+        date_created: airtableSyncJob.date_created,
+        modified: (airtableSyncResults?.modifiedCount ?? 0) > 0,
+        errors: airtableSyncResults?.errors?.map(({ error }) => error) ?? [],
+      }
+    : null;
+
   // Calculate available transitions for action buttons
   const transitions =
     currentWorkflow?.transitions?.filter(
@@ -152,18 +236,83 @@ export const loader = async (args: LoaderFunctionArgs): Promise<LoaderData> => {
     cdnKey: thisWorkVersionCdnKey,
     user: ctx.user,
     validation,
+    embargoPolicy,
     currentWorkflow,
     tramline,
     currentStatus,
     ended,
     submissionVersions: submissionVersionsWithCombinedMetadata,
     transitions,
+    dryRun,
+    depositRuns,
+    airtableSync,
+    syncSourceLabel: getWorkflowSyncSource(ctx).label,
+    packageUrl: `/app/sites/pmc/deposits/${args.params.submissionId}/v/${thisSubmissionVersionId}/package`,
   };
 };
 
+export async function action(args: ActionFunctionArgs) {
+  const ctx = await withAppPMCContext(args, [site.submissions.update]);
+
+  const formData = await args.request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'dry-run') {
+    const prisma = await getPrismaClient();
+    const submissionVersion = await prisma.submissionVersion.findFirst({
+      where: {
+        id: args.params.submissionVersionId,
+        submission: { id: args.params.submissionId, site: { name: 'pmc' } },
+      },
+      select: { id: true },
+    });
+    if (!submissionVersion) throw error404();
+
+    // Run the deposit job without sending anything to PMC, the report is stored on the job
+    const jobId = uuidv7();
+    await jobs.create(
+      ctx,
+      {
+        id: jobId,
+        job_type: PMC_DEPOSIT_FTP,
+        payload: {
+          agency: getDepositAgency(),
+          site_id: ctx.site.id,
+          user_id: ctx.user.id,
+          submission_version_id: submissionVersion.id,
+          dry_run: true,
+        },
+      },
+      getJobs(),
+    );
+    return { success: true, jobId };
+  }
+
+  if (intent === 'workflow-sync') {
+    // Update only this deposit from its Airtable record, the outcome is stored on the job
+    const jobId = uuidv7();
+    await jobs.create(
+      ctx,
+      {
+        id: jobId,
+        job_type: PMC_WORKFLOW_SYNC,
+        payload: {
+          site_id: ctx.site.id,
+          submission_id: args.params.submissionId,
+        },
+      },
+      getJobs(),
+    );
+    return { success: true, jobId };
+  }
+
+  return data({ error: 'Invalid intent' }, { status: 400 });
+}
+
 export default function PMCDetailsPage({ loaderData }: { loaderData: LoaderData }) {
   const {
     metadata,
+    embargoPolicy,
     thisSubmissionVersionId,
     currentWorkflow,
     currentStatus,
@@ -172,6 +321,11 @@ export default function PMCDetailsPage({ loaderData }: { loaderData: LoaderData
     submissionVersions,
     cdnKey,
     transitions,
+    packageUrl,
+    dryRun,
+    depositRuns,
+    airtableSync,
+    syncSourceLabel,
   } = loaderData;
   const [error, setError] = useState<GeneralError | string | undefined>(undefined);
   const navigate = useNavigate();
@@ -290,6 +444,13 @@ export default function PMCDetailsPage({ loaderData }: { loaderData: LoaderData
               />
             ) : undefined}
           </div>
+          {metadata.pmc?.depositStalled?.status === currentStatus && (
+            <ui.SimpleAlert
+              type="error"
+              size="compact"
+              message={`This deposit has stalled, no callback was received from the deposit service within ${metadata.pmc.depositStalled.thresholdMinutes} minutes of sending it.`}
+            />
+          )}
           {currentSubmissionVersion && (
             <EmailProcessingAlert
               metadata={currentSubmissionVersion.metadata}
@@ -310,8 +471,29 @@ export default function PMCDetailsPage({ loaderData }: { loaderData: LoaderData
           {error && <ui.ErrorMessage error={error} />}
         </div>
         <PublicationInfoCard workVersionId={thisWorkVersion?.id} />
-        <PreviewMetadataSection pmc={metadata.pmc} showContactLinks />
-        <FilesSection cdnKey={cdnKey} readonly hideEmpty hideAlerts />
+        <PreviewMetadataSection pmc={metadata.pmc} embargoPolicy={embargoPolicy} showContactLinks />
+        <div className="space-y-2">
+          <FilesSection cdnKey={cdnKey} readonly hideEmpty hideAlerts />
+          <div className="flex justify-end">
+            <ui.Button variant="outline" size="sm" asChild>
+              <a
+                href={packageUrl}
+                download
+                title="Download the package sent to PMC, or as it would be sent before the deposit"
+              >
+                <Package className="mr-2 w-4 h-4" />
+                Download PMC Package
+              </a>
+            </ui.Button>
+          </div>
+        </div>
+        <DepositDryRunCard dryRun={dryRun} />
+        <DepositJobTimeline runs={depositRuns} />
+        <AirtableSyncCard
+          sync={airtableSync}
+          manuscriptId={metadata.pmc?.emailProcessing?.manuscriptId}
+          sourceLabel={syncSourceLabel}
+        />
         <SectionWithHeading heading="Versions" icon={GitBranch}>
           <primitives.Card lift>
             <DepositVersionsTable
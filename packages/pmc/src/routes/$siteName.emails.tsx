@@ -0,0 +1,176 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from 'react-router';
+import { Link, data, useSearchParams } from 'react-router';
+import { z } from 'zod';
+import { zfd } from 'zod-form-data';
+import { Mail } from 'lucide-react';
+import { PageFrame, ui, primitives, SectionWithHeading, scopes } from '@curvenote/scms-core';
+import { withValidFormData } from '@curvenote/scms-server';
+import { withAppPMCContext } from '../backend/context.server.js';
+import {
+  MESSAGE_STATUSES,
+  getMessageLogFilters,
+  getMessageLogProcessors,
+  listInboundEmailMessages,
+  reprocessInboundEmail,
+} from '../backend/email/message-log.server.js';
+import type { MessageLogFilters } from '../backend/email/message-log.server.js';
+import type { InboundEmailMessage } from '../components/InboundEmailMessageCard.js';
+import { InboundEmailMessageCard } from '../components/InboundEmailMessageCard.js';
+
+const ALL = 'all';
+
+interface LoaderData {
+  messages: InboundEmailMessage[];
+  total: number;
+  page: number;
+  pageSize: number;
+  filters: MessageLogFilters;
+  processors: string[];
+  statuses: string[];
+}
+
+export const meta: MetaFunction<LoaderData> = () => {
+  return [
+    { title: 'Inbound Emails' },
+    { name: 'description', content: 'Emails received from NIHMS and how they were processed' },
+  ];
+};
+
+export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
+  await withAppPMCContext(args, [scopes.site.submissions.update]);
+
+  const filters = getMessageLogFilters(new URL(args.request.url).searchParams);
+  const { items, total, page, pageSize } = await listInboundEmailMessages(filters);
+
+  return {
+    messages: items,
+    total,
+    page,
+    pageSize,
+    filters,
+    processors: getMessageLogProcessors(),
+    statuses: MESSAGE_STATUSES,
+  };
+}
+
+const ReprocessFormSchema = zfd.formData({
+  intent: zfd.text(z.literal('reprocess')),
+  messageId: zfd.text(z.uuid()),
+});
+
+export async function action(args: ActionFunctionArgs) {
+  const ctx = await withAppPMCContext(args, [scopes.site.submissions.update]);
+  const formData = await args.request.formData();
+
+  if (formData.get('intent') === 'reprocess') {
+    return withValidFormData(
+      ReprocessFormSchema,
+      formData,
+      async ({ messageId }) => {
+        try {
+          const result = await reprocessInboundEmail(ctx, messageId);
+          return { success: true, status: result.status, messageId: result.messageId };
+        } catch (err: any) {
+          return data({ error: err.message ?? String(err) }, { status: 400 });
+        }
+      },
+      { errorFields: { type: 'general', intent: 'reprocess' } },
+    );
+  }
+
+  return data({ error: 'Invalid intent' }, { status: 400 });
+}
+
+function FilterSelect({
+  name,
+  label,
+  values,
+  allLabel,
+}: {
+  name: string;
+  label: string;
+  values: string[];
+  allLabel: string;
+}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  return (
+    <div className="md:w-72">
+      <label className="block mb-1 text-sm font-medium text-gray-700">{label}</label>
+      <ui.ClientComboBox
+        options={[
+          { value: ALL, label: allLabel },
+          ...values.map((value) => ({ value, label: value })),
+        ]}
+        value={searchParams.get(name) ?? ALL}
+        onValueChange={(value) =>
+          setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            if (!value || value === ALL) next.delete(name);
+            else next.set(name, value);
+            // A new filter starts from the first page
+            next.delete('page');
+            return next;
+          })
+        }
+        placeholder={`Select ${label.toLowerCase()}...`}
+        searchPlaceholder="Search..."
+        emptyMessage="Nothing found."
+      />
+    </div>
+  );
+}
+
+function Pagination({ page, pageSize, total }: { page: number; pageSize: number; total: number }) {
+  const [searchParams] = useSearchParams();
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const toPage = (target: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('page', String(target));
+    return `?${next}`;
+  };
+  if (pageCount === 1) return null;
+  return (
+    <div className="flex gap-4 justify-center items-center text-sm">
+      {page > 1 ? <Link to={toPage(page - 1)}>Previous</Link> : <span />}
+      <span className="text-gray-500">
+        Page {page} of {pageCount}
+      </span>
+      {page < pageCount ? <Link to={toPage(page + 1)}>Next</Link> : <span />}
+    </div>
+  );
+}
+
+export default function InboundEmailsPage({ loaderData }: { loaderData: LoaderData }) {
+  const { messages, total, page, pageSize, processors, statuses } = loaderData;
+
+  return (
+    <PageFrame title="Inbound Emails">
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <FilterSelect
+            name="processor"
+            label="Processor"
+            values={processors}
+            allLabel="All processors"
+          />
+          <FilterSelect name="status" label="Status" values={statuses} allLabel="All statuses" />
+          <div className="text-sm text-gray-500">{total} emails</div>
+        </div>
+        <SectionWithHeading heading="Messages" icon={<Mail />}>
+          {messages.length === 0 ? (
+            <primitives.Card className="p-6 text-center text-gray-500">
+              <p>No emails match the filters.</p>
+            </primitives.Card>
+          ) : (
+            <ul className="space-y-4">
+              {messages.map((message) => (
+                <InboundEmailMessageCard key={message.id} message={message} />
+              ))}
+            </ul>
+          )}
+        </SectionWithHeading>
+        <Pagination page={page} pageSize={pageSize} total={total} />
+      </div>
+    </PageFrame>
+  );
+}
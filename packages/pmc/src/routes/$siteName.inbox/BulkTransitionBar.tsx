@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { useFetcher } from 'react-router';
+import type { Workflow, WorkflowTransition, GeneralError } from '@curvenote/scms-core';
+import { ui } from '@curvenote/scms-core';
+import type { BulkTransitionResult, ResolvedListing } from './types.js';
+
+type BulkTransitionResponse = {
+  success?: boolean;
+  transition?: string;
+  results?: BulkTransitionResult[];
+  error?: GeneralError | string;
+};
+
+/**
+ * User-triggered transitions available to at least one of the selected submissions, with the
+ * number of selected submissions that are in the transition's source state
+ */
+function getAvailableTransitions(selected: ResolvedListing, workflows: Workflow[]) {
+  const available = new Map<string, { transition: WorkflowTransition; count: number }>();
+  for (const submission of selected) {
+    const workflow = workflows.find((w) => w.name === submission.collection?.workflow);
+    const status = submission.latestNonDraftVersion.status;
+    workflow?.transitions
+      .filter((t) => t.userTriggered && t.sourceStateName === status)
+      .forEach((transition) => {
+        const entry = available.get(transition.name) ?? { transition, count: 0 };
+        entry.count += 1;
+        available.set(transition.name, entry);
+      });
+  }
+  return Array.from(available.values());
+}
+
+export function BulkTransitionBar({
+  selected,
+  workflows,
+  onClear,
+  onComplete,
+}: {
+  selected: ResolvedListing;
+  workflows: Workflow[];
+  onClear: () => void;
+  onComplete: (results: BulkTransitionResult[]) => void;
+}) {
+  const fetcher = useFetcher<BulkTransitionResponse>();
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [problems, setProblems] = useState<BulkTransitionResult[]>([]);
+
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    const { error, results } = fetcher.data;
+    if (error) {
+      ui.toastError(typeof error === 'string' ? error : error.message);
+      return;
+    }
+    if (!results) return;
+    const failed = results.filter((result) => !result.success);
+    const succeeded = results.length - failed.length;
+    if (failed.length === 0) {
+      ui.toastSuccess(`${succeeded} of ${results.length} deposits updated`);
+    } else {
+      ui.toastError(`${succeeded} of ${results.length} deposits updated, ${failed.length} failed`);
+    }
+    // Deposits whose transition succeeded but a side effect, e.g. the notification, failed
+    setProblems(failed.concat(results.filter((result) => result.success && result.warnings)));
+    onComplete(results);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fetcher.state, fetcher.data]);
+
+  if (selected.length === 0 && problems.length === 0) return null;
+
+  const transitions = getAvailableTransitions(selected, workflows);
+  const busy = fetcher.state !== 'idle';
+
+  return (
+    <div
+      data-name="bulk-transition-bar"
+      className="sticky top-0 z-10 px-6 py-3 space-y-2 bg-white border border-gray-200 rounded-md shadow-sm dark:bg-gray-900 dark:border-gray-700"
+    >
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{selected.length} selected</span>
+          {transitions.length === 0 && (
+            <span className="text-sm text-gray-500">
+              No actions are available for the selected deposits
+            </span>
+          )}
+          {transitions.map(({ transition, count }) => (
+            <fetcher.Form
+              key={transition.name}
+              method="post"
+              onSubmit={() => {
+                setProblems([]);
+                setTitles(
+                  Object.fromEntries(
+                    selected.map((s) => [
+                      s.latestNonDraftVersion.id,
+                      s.latestNonDraftVersion.work_version?.title || s.id,
+                    ]),
+                  ),
+                );
+              }}
+            >
+              <input type="hidden" name="intent" value="bulk-transition" />
+              <input type="hidden" name="transition" value={transition.name} />
+              {selected.map((submission) => (
+                <input
+                  key={submission.id}
+                  type="hidden"
+                  name="submissionVersionId"
+                  value={submission.latestNonDraftVersion.id}
+                />
+              ))}
+              <ui.StatefulButton
+                type="submit"
+                variant="secondary"
+                size="sm"
+                busy={busy && fetcher.formData?.get('transition') === transition.name}
+                disabled={busy}
+                overlayBusy
+                title={
+                  count < selected.length
+                    ? `${selected.length - count} of the selected deposits are not in a state that allows this action`
+                    : undefined
+                }
+              >
+                {transition.labels?.action ?? transition.name} ({count}/{selected.length})
+              </ui.StatefulButton>
+            </fetcher.Form>
+          ))}
+          <div className="grow" />
+          <ui.Button variant="ghost" size="sm" onClick={onClear} disabled={busy}>
+            Clear selection
+          </ui.Button>
+        </div>
+      )}
+      {problems.length > 0 && (
+        <div className="text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-red-600">
+              {problems.length} {problems.length === 1 ? 'deposit needs' : 'deposits need'}{' '}
+              attention
+            </span>
+            <ui.Button variant="ghost" size="sm" onClick={() => setProblems([])}>
+              Dismiss
+            </ui.Button>
+          </div>
+          <ul className="ml-4 space-y-0.5 list-disc">
+            {problems.map((problem) => (
+              <li key={problem.submissionVersionId}>
+                <span>{titles[problem.submissionVersionId] ?? problem.submissionVersionId}</span>
+                <span className="text-gray-500">
+                  : {problem.error ?? `updated, but ${problem.warnings?.join('; ')}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
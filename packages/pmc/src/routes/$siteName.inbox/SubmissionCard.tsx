@@ -11,9 +11,18 @@ interface SubmissionCardProps {
   submission: ResolvedListing[number];
   workflows: Workflow[];
   siteName: string;
+  selected?: boolean;
+  /** When provided, a checkbox is shown to select the submission for bulk transitions */
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-export function SubmissionCard({ submission, workflows, siteName }: SubmissionCardProps) {
+export function SubmissionCard({
+  submission,
+  workflows,
+  siteName,
+  selected,
+  onSelectedChange,
+}: SubmissionCardProps) {
   const latestVersion = submission.latestNonDraftVersion;
   if (!latestVersion) return null;
 
@@ -58,6 +67,12 @@ export function SubmissionCard({ submission, workflows, siteName }: SubmissionCa
   // Get the email processing status (single record structure)
   const emailProcessingStatus = emailProcessing?.status;
 
+  // Flagged by the deposit reconciler, only relevant while the status is unchanged
+  const depositStalled =
+    pmcMetadata?.depositStalled?.status === latestVersion.status
+      ? pmcMetadata.depositStalled
+      : undefined;
+
   const pmid = pmcMetadata?.pmid;
   const pmcid = pmcMetadata?.pmcid;
   const journalName = workVersionMetadata?.pmc?.journalName;
@@ -75,6 +90,14 @@ export function SubmissionCard({ submission, workflows, siteName }: SubmissionCa
         data-name="submission-card-container"
         className="flex flex-col items-start w-full gap-1 px-6 py-4 md:gap-6 md:flex-row"
       >
+        {onSelectedChange && (
+          <ui.Checkbox
+            className="mt-1"
+            checked={!!selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            aria-label={`Select ${title}`}
+          />
+        )}
         {/* Column 1: Title, Submitter, and Links */}
         <div className="flex-grow">
           <div className="flex items-start gap-2">
@@ -168,6 +191,14 @@ export function SubmissionCard({ submission, workflows, siteName }: SubmissionCa
                 has draft
               </ui.Badge>
             )}
+            {depositStalled && (
+              <ui.Badge
+                variant="destructive"
+                title={`No callback from the deposit service since ${formatDistance(new Date(depositStalled.jobCreatedAt), new Date(), { addSuffix: true })}`}
+              >
+                stalled
+              </ui.Badge>
+            )}
             {emailProcessingStatus && (
               <ui.Badge
                 variant={emailProcessingStatus === 'error' ? 'destructive' : 'outline'}
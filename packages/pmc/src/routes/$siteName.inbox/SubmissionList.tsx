@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import type { Workflow } from '@curvenote/scms-core';
 import { ui } from '@curvenote/scms-core';
 import {
@@ -7,8 +8,9 @@ import {
   PMC_FILTERS,
 } from '../../components/ClientListingHelpers.js';
 import { SubmissionCard } from './SubmissionCard.js';
+import { BulkTransitionBar } from './BulkTransitionBar.js';
 
-import type { ListingPromise, ResolvedListing } from './types.js';
+import type { BulkTransitionResult, ListingPromise, ResolvedListing } from './types.js';
 
 export function SubmissionList({
   submissions,
@@ -19,6 +21,32 @@ export function SubmissionList({
   workflows: Workflow[];
   siteName: string;
 }) {
+  // Submissions selected for a bulk transition, keyed by submission id
+  const [selected, setSelected] = useState<Record<string, ResolvedListing[number]>>({});
+
+  const setItemsSelected = (items: ResolvedListing, isSelected: boolean) => {
+    setSelected((current) => {
+      const next = { ...current };
+      items.forEach((item) => {
+        if (isSelected) next[item.id] = item;
+        else delete next[item.id];
+      });
+      return next;
+    });
+  };
+
+  // Keep the submissions that failed selected so the transition can be retried
+  const handleBulkComplete = (results: BulkTransitionResult[]) => {
+    const succeeded = new Set(
+      results.filter((result) => result.success).map((result) => result.submissionVersionId),
+    );
+    setSelected((current) =>
+      Object.fromEntries(
+        Object.entries(current).filter(([, item]) => !succeeded.has(item.latestNonDraftVersion.id)),
+      ),
+    );
+  };
+
   const renderStatusGroup = (
     status: string,
     statusItems: ResolvedListing,
@@ -45,7 +73,12 @@ export function SubmissionList({
         }
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         headerContent={(_groupKey, _count, _items) => (
-          <div className="px-6 pt-6 pb-3 border-b-2 border-gray-300 shadow-xs dark:border-gray-600">
+          <div className="flex items-center gap-3 px-6 pt-6 pb-3 border-b-2 border-gray-300 shadow-xs dark:border-gray-600">
+            <ui.Checkbox
+              checked={statusItems.every((item) => !!selected[item.id])}
+              onCheckedChange={(checked) => setItemsSelected(statusItems, checked === true)}
+              aria-label={`Select all ${statusLabel}`}
+            />
             <h3 className="text-xl text-gray-900 font-extralight dark:text-gray-100">
               {statusLabel}
             </h3>
@@ -56,72 +89,86 @@ export function SubmissionList({
   };
 
   const renderItem = (submission: ResolvedListing[number]) => (
-    <SubmissionCard submission={submission} workflows={workflows} siteName={siteName} />
+    <SubmissionCard
+      submission={submission}
+      workflows={workflows}
+      siteName={siteName}
+      selected={!!selected[submission.id]}
+      onSelectedChange={(isSelected) => setItemsSelected([submission], isSelected)}
+    />
   );
 
   // Use the standardized PMC filters (both already have default: true)
 
   return (
-    <ui.ClientFilterableList
-      persist
-      items={submissions}
-      filters={PMC_FILTERS}
-      className="max-w-none"
-      searchComponent={(searchTerm, setSearchTerm) => (
-        <PMCClientSearch searchTerm={searchTerm} onSearchChange={setSearchTerm} />
-      )}
-      filterBar={(items, activeFilters, setActiveFilters, filterDefinitions) => (
-        <ui.ClientFilterBar
-          items={transformItemsForFilterBar(items)}
-          filters={filterDefinitions}
-          activeFilters={activeFilters}
-          setActiveFilters={setActiveFilters}
-        />
-      )}
-      groupBy={(submission) => submission.latestNonDraftVersion.status}
-      filterItems={(items, searchTerm, activeFilters) => {
-        // Apply search filtering with comprehensive PMC field coverage
-        const searchFiltered = searchTerm.trim()
-          ? items.filter((submission) => {
-              const searchLower = searchTerm.toLowerCase();
-              const latestVersion = submission.latestNonDraftVersion;
-              if (!latestVersion) return false;
+    <div className="space-y-4">
+      <BulkTransitionBar
+        selected={Object.values(selected)}
+        workflows={workflows}
+        onClear={() => setSelected({})}
+        onComplete={handleBulkComplete}
+      />
+      <ui.ClientFilterableList
+        persist
+        items={submissions}
+        filters={PMC_FILTERS}
+        className="max-w-none"
+        searchComponent={(searchTerm, setSearchTerm) => (
+          <PMCClientSearch searchTerm={searchTerm} onSearchChange={setSearchTerm} />
+        )}
+        filterBar={(items, activeFilters, setActiveFilters, filterDefinitions) => (
+          <ui.ClientFilterBar
+            items={transformItemsForFilterBar(items)}
+            filters={filterDefinitions}
+            activeFilters={activeFilters}
+            setActiveFilters={setActiveFilters}
+          />
+        )}
+        groupBy={(submission) => submission.latestNonDraftVersion.status}
+        filterItems={(items, searchTerm, activeFilters) => {
+          // Apply search filtering with comprehensive PMC field coverage
+          const searchFiltered = searchTerm.trim()
+            ? items.filter((submission) => {
+                const searchLower = searchTerm.toLowerCase();
+                const latestVersion = submission.latestNonDraftVersion;
+                if (!latestVersion) return false;
 
-              // Extract metadata from both submission version and work version
-              const svMetadata = (latestVersion.metadata ?? {}) as any;
-              const wvMetadata = latestVersion.work_version?.metadata as any;
+                // Extract metadata from both submission version and work version
+                const svMetadata = (latestVersion.metadata ?? {}) as any;
+                const wvMetadata = latestVersion.work_version?.metadata as any;
 
-              // PMC-specific fields to search
-              const title = wvMetadata?.pmc?.title ?? '';
-              const journalName = wvMetadata?.pmc?.journalName ?? '';
-              const issn = wvMetadata?.pmc?.issn ?? '';
-              // Get manuscript ID from email processing record (single record structure)
-              const emailProcessing = svMetadata.pmc?.emailProcessing;
-              const manuscriptId = emailProcessing?.manuscriptId ?? '';
-              const pmid = svMetadata.pmc?.pmid ?? '';
-              const pmcid = svMetadata.pmc?.pmcid ?? '';
-              const submittedBy = submission.submitted_by.display_name ?? '';
+                // PMC-specific fields to search
+                const title = wvMetadata?.pmc?.title ?? '';
+                const journalName = wvMetadata?.pmc?.journalName ?? '';
+                const issn = wvMetadata?.pmc?.issn ?? '';
+                // Get manuscript ID from email processing record (single record structure)
+                const emailProcessing = svMetadata.pmc?.emailProcessing;
+                const manuscriptId = emailProcessing?.manuscriptId ?? '';
+                const pmid = svMetadata.pmc?.pmid ?? '';
+                const pmcid = svMetadata.pmc?.pmcid ?? '';
+                const submittedBy = submission.submitted_by.display_name ?? '';
 
-              // Search across all relevant PMC fields
-              return (
-                title.toLowerCase().includes(searchLower) ||
-                journalName.toLowerCase().includes(searchLower) ||
-                issn.toLowerCase().includes(searchLower) ||
-                manuscriptId.toLowerCase().includes(searchLower) ||
-                submittedBy.toLowerCase().includes(searchLower) ||
-                pmid.toLowerCase().includes(searchLower) ||
-                pmcid.toLowerCase().includes(searchLower)
-              );
-            })
-          : items;
+                // Search across all relevant PMC fields
+                return (
+                  title.toLowerCase().includes(searchLower) ||
+                  journalName.toLowerCase().includes(searchLower) ||
+                  issn.toLowerCase().includes(searchLower) ||
+                  manuscriptId.toLowerCase().includes(searchLower) ||
+                  submittedBy.toLowerCase().includes(searchLower) ||
+                  pmid.toLowerCase().includes(searchLower) ||
+                  pmcid.toLowerCase().includes(searchLower)
+                );
+              })
+            : items;
 
-        // Apply filter definitions using the generic helper
-        return filterSubmissions(searchFiltered, activeFilters, PMC_FILTERS);
-      }}
-      renderGroup={renderStatusGroup}
-      renderItem={renderItem}
-      getItemKey={(submission) => submission.id}
-      emptyMessage="No submissions found."
-    />
+          // Apply filter definitions using the generic helper
+          return filterSubmissions(searchFiltered, activeFilters, PMC_FILTERS);
+        }}
+        renderGroup={renderStatusGroup}
+        renderItem={renderItem}
+        getItemKey={(submission) => submission.id}
+        emptyMessage="No submissions found."
+      />
+    </div>
   );
 }
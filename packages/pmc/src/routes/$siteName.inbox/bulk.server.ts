@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { zfd } from 'zod-form-data';
+import type { Workflow, WorkflowRegistration } from '@curvenote/scms-core';
+import { getWorkflow } from '@curvenote/scms-core';
+import type { SiteContext } from '@curvenote/scms-server';
+import { sites } from '@curvenote/scms-server';
+import { getWorkflows } from '../../client.js';
+import { runWorkflowTransition } from '../../backend/transitions/index.js';
+import type { BulkTransitionResult } from './types.js';
+
+export const BulkTransitionFormSchema = zfd.formData({
+  intent: zfd.text(z.literal('bulk-transition')),
+  submissionVersionId: zfd.repeatableOfType(zfd.text(z.uuid())),
+  transition: zfd.text(z.string().min(1)),
+});
+
+/**
+ * Check that a transition can be run by a user on a submission version in the given status
+ *
+ * @returns A message describing why the transition is not allowed, or undefined if it is
+ */
+export function getBulkTransitionIssue(
+  workflow: Workflow | undefined,
+  transitionName: string,
+  status: string,
+): string | undefined {
+  const transition = workflow?.transitions.find((t) => t.name === transitionName);
+  if (!transition) {
+    return `Invalid transition [${transitionName}, workflow: ${workflow?.name ?? 'unknown'}]`;
+  }
+  if (!transition.userTriggered) {
+    return `Transition ${transitionName} can only be run by the system`;
+  }
+  if (transition.sourceStateName !== status) {
+    const label = workflow?.states?.[status]?.label ?? status;
+    return `${transition.labels?.action ?? transitionName} is not available for deposits in the ${label} state`;
+  }
+  return undefined;
+}
+
+/**
+ * Run a transition on each submission version in turn
+ *
+ * Each submission version is validated against its own workflow and the transition guards before
+ * it is transitioned, a failure is recorded in the results and does not stop the remaining
+ * transitions.
+ */
+export async function bulkTransition(
+  ctx: SiteContext,
+  submissionVersionIds: string[],
+  transitionName: string,
+): Promise<BulkTransitionResult[]> {
+  const extensionWorkflows: WorkflowRegistration[] = [getWorkflows()];
+  const results: BulkTransitionResult[] = [];
+
+  for (const submissionVersionId of new Set(submissionVersionIds)) {
+    try {
+      const submissionVersion = await sites.submissions.versions.dbGetSubmissionVersion({
+        id: submissionVersionId,
+      });
+      if (!submissionVersion) {
+        results.push({
+          submissionVersionId,
+          success: false,
+          error: `Cannot find submission version [site: ${ctx.site.name}, id: ${submissionVersionId}]`,
+        });
+        continue;
+      }
+
+      const workflow = getWorkflow(
+        ctx.$config,
+        extensionWorkflows,
+        submissionVersion.submission.collection.workflow,
+      );
+      const issue = getBulkTransitionIssue(workflow, transitionName, submissionVersion.status);
+      if (issue || !workflow) {
+        results.push({
+          submissionVersionId,
+          success: false,
+          status: submissionVersion.status,
+          error: issue ?? 'Unknown workflow',
+        });
+        continue;
+      }
+
+      const transitionItem = workflow.transitions.find((t) => t.name === transitionName)!;
+      const { hookErrors } = await runWorkflowTransition(
+        ctx,
+        submissionVersion,
+        workflow,
+        transitionItem,
+      );
+      results.push({
+        submissionVersionId,
+        success: true,
+        status: transitionItem.targetStateName,
+        warnings: hookErrors.length > 0 ? hookErrors : undefined,
+      });
+    } catch (err: any) {
+      console.error(`Bulk transition ${transitionName} failed for ${submissionVersionId}:`, err);
+      results.push({
+        submissionVersionId,
+        success: false,
+        error: err.message ?? err.statusText ?? err.toString(),
+      });
+    }
+  }
+
+  return results;
+}
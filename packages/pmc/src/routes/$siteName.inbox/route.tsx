@@ -14,6 +14,8 @@ import { getWorkflows } from '../../client.js';
 import { TransitionFormSchema } from '../../components/ActionsArea.js';
 import { SubmissionList } from './SubmissionList.js';
 import { dbListPMCSubmissionsWithLatestNonDraftVersion } from './db.server.js';
+import { BulkTransitionFormSchema, bulkTransition } from './bulk.server.js';
+import { runWorkflowTransition } from '../../backend/transitions/index.js';
 
 interface LoaderData {
   items: ReturnType<typeof dbListPMCSubmissionsWithLatestNonDraftVersion>;
@@ -42,6 +44,23 @@ export async function action(args: ActionFunctionArgs) {
   const ctx = await withAppPMCContext(args, [scopes.site.submissions.update]);
 
   const formData = await args.request.formData();
+
+  if (formData.get('intent') === 'bulk-transition') {
+    return withValidFormData(
+      BulkTransitionFormSchema,
+      formData,
+      async ({ submissionVersionId, transition }) => {
+        const results = await bulkTransition(ctx, submissionVersionId, transition);
+        return {
+          success: results.every((result) => result.success),
+          transition,
+          results,
+        };
+      },
+      { errorFields: { type: 'general', intent: 'bulk-transition' } },
+    );
+  }
+
   return withValidFormData(
     TransitionFormSchema,
     formData,
@@ -102,14 +121,14 @@ export async function action(args: ActionFunctionArgs) {
       try {
         switch (intent) {
           case 'transition': {
-            // Update the submission version status
-            const item = await sites.submissions.versions.transition(
+            // Update the submission version status, enforcing the transition guards and hooks
+            const { item, hookErrors } = await runWorkflowTransition(
               ctx,
               submissionVersion,
               workflow,
-              transitionItem.targetStateName,
+              transitionItem,
             );
-            return { success: true, item };
+            return { success: true, item, warnings: hookErrors };
           }
           default:
             return dataResponse({ error: `Invalid intent [${intent}]` }, { status: 400 });
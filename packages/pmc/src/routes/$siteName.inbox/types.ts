@@ -2,3 +2,13 @@ import type { dbListPMCSubmissionsWithLatestNonDraftVersion } from './db.server.
 
 export type ListingPromise = ReturnType<typeof dbListPMCSubmissionsWithLatestNonDraftVersion>;
 export type ResolvedListing = NonNullable<Awaited<ListingPromise>>;
+
+export interface BulkTransitionResult {
+  submissionVersionId: string;
+  success: boolean;
+  /** The status after the transition, or the unchanged status if it was not allowed */
+  status?: string;
+  error?: string;
+  /** Failures of the side effects run after a successful transition */
+  warnings?: string[];
+}
@@ -0,0 +1,230 @@
+import { uuidv7 } from 'uuidv7';
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from 'react-router';
+import { useFetcher, data } from 'react-router';
+import { RefreshCw, List, BookOpen } from 'lucide-react';
+import type { StatCardData } from '@curvenote/scms-core';
+import {
+  PageFrame,
+  ui,
+  primitives,
+  formatDate,
+  StatsSection,
+  SectionWithHeading,
+  scopes,
+} from '@curvenote/scms-core';
+import { JobStatus } from '@prisma/client';
+import type { JobDTO } from '@curvenote/common';
+import { jobs } from '@curvenote/scms-server';
+import { withAppPMCContext } from '../backend/context.server.js';
+import { getLatestJournalListSummary } from '../backend/journal-list.server.js';
+import type { JournalListSummary, JournalSummary } from '../backend/services/journal-list.js';
+import { getJobs } from '../server.js';
+
+// Note: Using hardcoded string to avoid client/server boundary issues
+// This matches the constant NLM_JOURNAL_LIST_REFRESH from the job handler
+const JOB_TYPE = 'NLM_JOURNAL_LIST_REFRESH';
+
+const PAGE_SIZE = 20;
+
+type JobResults = {
+  source?: string;
+  listDate?: string;
+  versionId?: string;
+  unchanged?: boolean;
+  totalJournals?: number;
+  addedCount?: number;
+  removedCount?: number;
+  added?: JournalSummary[];
+  removed?: JournalSummary[];
+  errors?: Array<{ error: string }>;
+};
+
+interface LoaderData {
+  latest: JournalListSummary | null;
+  jobs: JobDTO[];
+  hasRunningJobs: boolean;
+}
+
+export const meta: MetaFunction<LoaderData> = () => {
+  return [
+    { title: 'NLM Journal List' },
+    { name: 'description', content: 'Refresh the NLM journal list used for PMC deposits' },
+  ];
+};
+
+export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
+  const ctx = await withAppPMCContext(args, [scopes.site.submissions.update]);
+
+  // Only the summary is read, the full list has tens of thousands of journals
+  const latest = await getLatestJournalListSummary();
+  const { items } = await jobs.list(ctx, ctx.site.id, [JOB_TYPE], undefined, PAGE_SIZE);
+
+  return {
+    latest,
+    jobs: items,
+    hasRunningJobs: items.some((job) => job.status === JobStatus.RUNNING),
+  };
+}
+
+export async function action(args: ActionFunctionArgs) {
+  const ctx = await withAppPMCContext(args, [scopes.site.submissions.update]);
+  const formData = await args.request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'refresh') {
+    const jobId = uuidv7();
+    await jobs.create(
+      ctx,
+      {
+        id: jobId,
+        job_type: JOB_TYPE,
+        payload: { site_id: ctx.site.id },
+      },
+      getJobs(),
+    );
+    return { success: true, jobId };
+  }
+
+  return data({ error: 'Invalid intent' }, { status: 400 });
+}
+
+function JournalChanges({
+  label,
+  journals,
+  count,
+}: {
+  label: string;
+  journals?: JournalSummary[];
+  count?: number;
+}) {
+  if (!count) return null;
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer">
+        {label}: {count}
+      </summary>
+      <ul className="mt-1 ml-4 space-y-0.5 text-xs text-gray-600 list-disc">
+        {journals?.map((journal) => (
+          <li key={journal.id}>
+            {journal.journalTitle} <span className="text-gray-400">({journal.nlmta})</span>
+          </li>
+        ))}
+        {journals && count > journals.length && <li>... and {count - journals.length} more</li>}
+      </ul>
+    </details>
+  );
+}
+
+function RefreshJobCard({ job }: { job: JobDTO }) {
+  const results = job.results as JobResults | undefined;
+
+  return (
+    <li>
+      <primitives.Card className="p-4 space-y-1">
+        <div className="flex gap-2 items-center">
+          <span className="font-medium">Status:</span>
+          <span
+            className={`capitalize ${
+              job.status === 'COMPLETED'
+                ? 'text-green-600'
+                : job.status === 'FAILED'
+                  ? 'text-red-600'
+                  : 'text-blue-600'
+            }`}
+          >
+            {job.status.toLowerCase()}
+          </span>
+          <span className="text-sm text-gray-500">
+            {formatDate(job.date_created, 'yyyy-MM-dd HH:mm:ss')}
+          </span>
+        </div>
+        {job.messages && job.messages.length > 0 && (
+          <div className="text-sm">{job.messages[job.messages.length - 1]}</div>
+        )}
+        {results?.source && <div className="text-xs text-gray-500">Source: {results.source}</div>}
+        {results?.listDate && (
+          <div className="text-xs text-gray-500">
+            List date: {formatDate(results.listDate, 'yyyy-MM-dd')}
+            {results.totalJournals !== undefined && ` · ${results.totalJournals} journals`}
+          </div>
+        )}
+        <JournalChanges label="Added" journals={results?.added} count={results?.addedCount} />
+        <JournalChanges label="Removed" journals={results?.removed} count={results?.removedCount} />
+        {results?.errors?.map((error, index) => (
+          <div key={index} className="text-xs text-red-600">
+            {error.error}
+          </div>
+        ))}
+      </primitives.Card>
+    </li>
+  );
+}
+
+export default function JournalListPage({ loaderData }: { loaderData: LoaderData }) {
+  const { latest, jobs: refreshJobs, hasRunningJobs } = loaderData;
+  const fetcher = useFetcher();
+  const isRefreshing = fetcher.state !== 'idle';
+
+  const statsData: StatCardData[] = [
+    {
+      type: 'count',
+      label: 'Journals',
+      value: latest?.totalJournals ?? 0,
+      colorClass: 'text-blue-600',
+    },
+    {
+      type: 'date',
+      label: 'List Date',
+      value: latest ? formatDate(latest.date, 'yyyy-MM-dd') : 'Never loaded',
+    },
+    {
+      type: 'date',
+      label: 'Last Updated',
+      value: latest ? formatDate(latest.fetchedAt, 'yyyy-MM-dd HH:mm:ss') : 'Never',
+    },
+  ];
+
+  return (
+    <PageFrame title="NLM Journal List">
+      <div className="space-y-6">
+        <StatsSection
+          stats={statsData}
+          actionButton={
+            <fetcher.Form method="post">
+              <input type="hidden" name="intent" value="refresh" />
+              <ui.Button type="submit" disabled={isRefreshing || hasRunningJobs}>
+                <RefreshCw className={isRefreshing ? 'mr-2 animate-spin' : 'mr-2'} />
+                Refresh Journal List
+              </ui.Button>
+            </fetcher.Form>
+          }
+        />
+        {!latest && (
+          <primitives.Card className="p-6 text-center text-gray-500">
+            <BookOpen className="mx-auto mb-2 w-8 h-8" />
+            <p>
+              No journal list has been loaded yet, journal search and deposits use the list bundled
+              with the extension until the list is refreshed.
+            </p>
+          </primitives.Card>
+        )}
+        {latest && <div className="text-sm text-gray-500">Source: {latest.source}</div>}
+        <section>
+          <SectionWithHeading heading="Refresh Jobs" icon={<List />}>
+            {refreshJobs.length === 0 ? (
+              <primitives.Card className="p-6 text-center text-gray-500">
+                <p>No refresh jobs yet.</p>
+              </primitives.Card>
+            ) : (
+              <ul className="space-y-4">
+                {refreshJobs.map((job) => (
+                  <RefreshJobCard key={job.id} job={job} />
+                ))}
+              </ul>
+            )}
+          </SectionWithHeading>
+        </section>
+      </div>
+    </PageFrame>
+  );
+}
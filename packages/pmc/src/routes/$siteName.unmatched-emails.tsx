@@ -0,0 +1,121 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from 'react-router';
+import { data } from 'react-router';
+import { z } from 'zod';
+import { zfd } from 'zod-form-data';
+import { MailWarning } from 'lucide-react';
+import { PageFrame, primitives, SectionWithHeading, scopes } from '@curvenote/scms-core';
+import { withValidFormData } from '@curvenote/scms-server';
+import { withAppPMCContext } from '../backend/context.server.js';
+import {
+  linkUnmatchedEmail,
+  listUnmatchedEmails,
+  searchDepositsForLinking,
+} from '../backend/email/unmatched-emails.server.js';
+import type { UnmatchedEmail } from '../components/UnmatchedEmailCard.js';
+import { UnmatchedEmailCard } from '../components/UnmatchedEmailCard.js';
+
+interface LoaderData {
+  emails: UnmatchedEmail[];
+}
+
+export const meta: MetaFunction<LoaderData> = () => {
+  return [
+    { title: 'Unmatched Emails' },
+    {
+      name: 'description',
+      content: 'NIHMS emails with a manuscript ID that did not match any deposit',
+    },
+  ];
+};
+
+export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
+  await withAppPMCContext(args, [scopes.site.submissions.update]);
+  return { emails: await listUnmatchedEmails() };
+}
+
+const SearchFormSchema = zfd.formData({
+  intent: zfd.text(z.literal('search')),
+  query: zfd.text(z.string().min(1).max(200)),
+});
+
+const LinkFormSchema = zfd.formData({
+  intent: zfd.text(z.literal('link')),
+  messageId: zfd.text(z.uuid()),
+  submissionVersionId: zfd.text(z.uuid()),
+});
+
+export async function action(args: ActionFunctionArgs) {
+  const ctx = await withAppPMCContext(args, [scopes.site.submissions.update]);
+  const formData = await args.request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'search') {
+    return withValidFormData(
+      SearchFormSchema,
+      formData,
+      async ({ query }) => ({
+        deposits: await searchDepositsForLinking(ctx.site.name, query),
+      }),
+      { errorFields: { type: 'general', intent: 'search' } },
+    );
+  }
+
+  if (intent === 'link') {
+    return withValidFormData(
+      LinkFormSchema,
+      formData,
+      async ({ messageId, submissionVersionId }) => {
+        try {
+          const result = await linkUnmatchedEmail(
+            ctx,
+            ctx.site.name,
+            messageId,
+            submissionVersionId,
+          );
+          if (result.status !== 'SUCCESS') {
+            return data(
+              {
+                error: `Email was not processed (${result.status.toLowerCase()}): ${result.errors.join(', ') || 'no errors recorded'}`,
+              },
+              { status: 422 },
+            );
+          }
+          return { success: true, status: result.status };
+        } catch (err: any) {
+          return data({ error: err.message ?? String(err) }, { status: 400 });
+        }
+      },
+      { errorFields: { type: 'general', intent: 'link' } },
+    );
+  }
+
+  return data({ error: 'Invalid intent' }, { status: 400 });
+}
+
+export default function UnmatchedEmailsPage({ loaderData }: { loaderData: LoaderData }) {
+  const { emails } = loaderData;
+
+  return (
+    <PageFrame
+      title="Unmatched Emails"
+      description="NIHMS emails naming a manuscript ID that no deposit is known by. Link each one to its deposit to apply the update the email would have made."
+    >
+      <SectionWithHeading
+        heading={`Waiting to be linked (${emails.length})`}
+        icon={<MailWarning />}
+      >
+        {emails.length === 0 ? (
+          <primitives.Card className="p-6 text-center text-gray-500">
+            <p>Every email has been matched to a deposit.</p>
+          </primitives.Card>
+        ) : (
+          <ul className="space-y-4">
+            {emails.map((email) => (
+              <UnmatchedEmailCard key={email.id} email={email} />
+            ))}
+          </ul>
+        )}
+      </SectionWithHeading>
+    </PageFrame>
+  );
+}
@@ -6,7 +6,7 @@ import type {
   MetaFunction,
 } from 'react-router';
 import { useFetcher, data } from 'react-router';
-import { RefreshCw, List } from 'lucide-react';
+import { RefreshCw, List, ArrowRightLeft, AlertTriangle, Eye } from 'lucide-react';
 import { useState, useEffect, useCallback } from 'react';
 import {
   PageFrame,
@@ -21,13 +21,45 @@ import { JobStatus } from '@prisma/client';
 import { jobs, getPrismaClient } from '@curvenote/scms-server';
 import type { JobDTO } from '@curvenote/common';
 import { getJobs } from '../server.js';
+import { PMC_DEPOSIT_WORKFLOW } from '../workflows.js';
+import {
+  WORKFLOW_SYNC_MAPPING_INTENTS,
+  getWorkflowSyncMapping,
+  resetWorkflowSyncMapping,
+  updateWorkflowSyncMappingFromForm,
+} from '../backend/workflow-sync-mapping.server.js';
+import type {
+  StoredWorkflowSyncMapping,
+  WorkflowSyncMappingIntent,
+} from '../backend/workflow-sync-mapping.server.js';
+import { applyWorkflowSyncPreviewFromForm } from '../backend/workflow-sync-preview.server.js';
+import {
+  getConfiguredWorkflowSyncSources,
+  getWorkflowSyncSource,
+} from '../backend/sync-sources/index.js';
+import type { StateOption } from '../components/WorkflowSyncMapping.js';
+import {
+  AddMappingForm,
+  IgnoredStatuses,
+  MappingTable,
+  UnmappedStatusReport,
+} from '../components/WorkflowSyncMapping.js';
+import type { PreviewChange } from '../components/WorkflowSyncPreview.js';
+import { WorkflowSyncPreview } from '../components/WorkflowSyncPreview.js';
 
 type JobResults = {
+  mode?: 'full' | 'incremental' | 'deposit';
+  source?: string;
+  modifiedSince?: string;
   totalSubmissions?: number;
   modifiedCount?: number;
   unmodifiedCount?: number;
   errorCount?: number;
   modifiedSubmissions?: Array<{ id: string; title: string }>;
+  unmappedStatuses?: Array<{ status: string; count: number; manuscriptIds: string[] }>;
+  preview?: boolean;
+  changes?: PreviewChange[];
+  appliedChanges?: Record<string, string>;
   error?: string;
 };
 interface LoaderData {
@@ -35,6 +67,18 @@ interface LoaderData {
   hasMore: boolean;
   totalJobs: number;
   hasRunningJobs: boolean;
+  mapping: StoredWorkflowSyncMapping;
+  states: StateOption[];
+  sources: Array<{ name: string; label: string }>;
+  defaultSource: string;
+  unmappedStatuses: NonNullable<JobResults['unmappedStatuses']>;
+  unmappedStatusesDate?: string;
+  preview?: {
+    jobId: string;
+    date: string;
+    changes: PreviewChange[];
+    appliedChanges: Record<string, string>;
+  };
 }
 
 export const meta: MetaFunction<LoaderData> = () => {
@@ -55,7 +99,58 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData> {
 
   const hasRunningJobs = items.some((job) => job.status === JobStatus.RUNNING);
 
-  return { jobs: items, hasMore: totalJobs > items.length, totalJobs, hasRunningJobs };
+  const mapping = await getWorkflowSyncMapping();
+  const states = Object.values(PMC_DEPOSIT_WORKFLOW.states).map((state) => ({
+    value: state.name,
+    label: state.label,
+  }));
+
+  // Report the unmapped statuses from the most recent full sync that got as far as reporting them,
+  // leaving out any that have been mapped or ignored since. Incremental and single deposit syncs
+  // only see some of the records, so they cannot give the complete report.
+  const lastReport = items.find((job) => {
+    const results = job.results as JobResults;
+    return (
+      job.status !== JobStatus.RUNNING &&
+      results?.unmappedStatuses &&
+      (results.mode ?? 'full') === 'full'
+    );
+  });
+  const unmappedStatuses = ((lastReport?.results as JobResults)?.unmappedStatuses ?? []).filter(
+    ({ status }) => !mapping.statuses[status] && !mapping.ignoredStatuses.includes(status),
+  );
+
+  // Offer the changes from the most recent preview for review, once it has finished
+  const lastPreview = items.find((job) => (job.results as JobResults)?.preview);
+  const lastPreviewResults = lastPreview?.results as JobResults | undefined;
+  const preview =
+    lastPreview && lastPreview.status === JobStatus.COMPLETED
+      ? {
+          jobId: lastPreview.id,
+          date: lastPreview.date_created,
+          changes: lastPreviewResults?.changes ?? [],
+          appliedChanges: lastPreviewResults?.appliedChanges ?? {},
+        }
+      : undefined;
+
+  const sources = getConfiguredWorkflowSyncSources(ctx).map(({ name, label }) => ({
+    name,
+    label,
+  }));
+
+  return {
+    jobs: items,
+    hasMore: totalJobs > items.length,
+    totalJobs,
+    hasRunningJobs,
+    mapping,
+    states,
+    sources,
+    defaultSource: getWorkflowSyncSource(ctx).name,
+    unmappedStatuses,
+    unmappedStatusesDate: lastReport?.date_created,
+    preview,
+  };
 }
 
 export async function action(args: ActionFunctionArgs) {
@@ -64,6 +159,23 @@ export async function action(args: ActionFunctionArgs) {
   const formData = await args.request.formData();
   const intent = formData.get('intent');
 
+  if (WORKFLOW_SYNC_MAPPING_INTENTS.includes(intent as WorkflowSyncMappingIntent)) {
+    return updateWorkflowSyncMappingFromForm(
+      intent as WorkflowSyncMappingIntent,
+      formData,
+      ctx.user.id,
+    );
+  }
+
+  if (intent === 'apply-preview') {
+    return applyWorkflowSyncPreviewFromForm(ctx, formData);
+  }
+
+  if (intent === 'mapping-reset') {
+    await resetWorkflowSyncMapping(ctx.user.id);
+    return { success: true };
+  }
+
   if (intent === 'cancel') {
     const jobId = formData.get('jobId') as string;
 
@@ -85,6 +197,11 @@ export async function action(args: ActionFunctionArgs) {
 
   if (intent === 'sync') {
     const jobId = formData.get('jobId') as string;
+    const mode = formData.get('mode') === 'incremental' ? 'incremental' : 'full';
+    const preview = formData.get('preview') === 'true';
+    const source = getConfiguredWorkflowSyncSources(ctx).find(
+      ({ name }) => name === formData.get('source'),
+    )?.name;
 
     // Create a new PMC_WORKFLOW_SYNC job for this site
     await jobs.create(
@@ -92,7 +209,12 @@ export async function action(args: ActionFunctionArgs) {
       {
         id: jobId,
         job_type: 'PMC_WORKFLOW_SYNC',
-        payload: { site_id: ctx.site.id },
+        payload: {
+          site_id: ctx.site.id,
+          mode,
+          ...(source ? { source } : {}),
+          ...(preview ? { preview } : {}),
+        },
       },
       getJobs(),
     );
@@ -132,12 +254,21 @@ export async function action(args: ActionFunctionArgs) {
 
 function SyncButton({
   fetcher,
+  mode,
+  preview,
+  source,
   disabled,
 }: {
   fetcher: FetcherWithComponents<any>;
+  mode: 'full' | 'incremental';
+  preview?: boolean;
+  source: string;
   disabled: boolean;
 }) {
-  const isUpdating = fetcher.state === 'submitting' || fetcher.state === 'loading';
+  const isUpdating =
+    (fetcher.state === 'submitting' || fetcher.state === 'loading') &&
+    fetcher.formData?.get('mode') === mode &&
+    (fetcher.formData?.get('preview') === 'true') === !!preview;
 
   const handleSubmit = useCallback(
     (event: React.FormEvent<HTMLFormElement>) => {
@@ -146,28 +277,66 @@ function SyncButton({
       const formData = new FormData();
       formData.append('intent', 'sync');
       formData.append('jobId', jobId);
+      formData.append('mode', mode);
+      formData.append('source', source);
+      if (preview) formData.append('preview', 'true');
       fetcher.submit(formData, { method: 'post' });
     },
-    [fetcher],
+    [fetcher, mode, preview, source],
   );
 
+  if (preview) {
+    return (
+      <fetcher.Form method="post" onSubmit={handleSubmit}>
+        <ui.Button
+          type="submit"
+          variant="outline"
+          size="default"
+          disabled={fetcher.state !== 'idle' || disabled}
+          aria-busy={isUpdating || disabled}
+          title="Find the changes a full sync would make without applying them"
+        >
+          <Eye className={isUpdating ? 'mr-2 animate-pulse' : 'mr-2'} />
+          Preview Changes
+        </ui.Button>
+      </fetcher.Form>
+    );
+  }
+
   return (
     <fetcher.Form method="post" onSubmit={handleSubmit}>
       <ui.Button
         type="submit"
-        variant="default"
+        variant={mode === 'incremental' ? 'default' : 'outline'}
         size="default"
-        disabled={isUpdating || disabled}
+        disabled={fetcher.state !== 'idle' || disabled}
         aria-busy={isUpdating || disabled}
+        title={
+          mode === 'incremental'
+            ? 'Check the deposits whose record changed since the last sync'
+            : 'Check every deposit with a manuscript ID'
+        }
       >
         <RefreshCw className={isUpdating ? 'mr-2 animate-spin' : 'mr-2'} />
-        Update Deposits from Airtable
+        {mode === 'incremental' ? 'Update Changed Deposits' : 'Update All Deposits'}
       </ui.Button>
     </fetcher.Form>
   );
 }
 
-function UpdateJobCard({ job }: { job: JobDTO }) {
+const SYNC_MODE_LABELS: Record<NonNullable<JobResults['mode']>, string> = {
+  full: 'Full sync',
+  incremental: 'Incremental sync',
+  deposit: 'Single deposit',
+};
+
+function UpdateJobCard({
+  job,
+  sourceLabels,
+}: {
+  job: JobDTO;
+  sourceLabels: Record<string, string>;
+}) {
   const cancelFetcher = useFetcher();
   const results = job.results as JobResults;
   const isRunning = job.status === 'RUNNING';
@@ -212,6 +381,13 @@ function UpdateJobCard({ job }: { job: JobDTO }) {
             )}
           </div>
           <div className="flex gap-2 mb-1 text-sm text-gray-500">
+            {results?.mode && (
+              <div>
+                {SYNC_MODE_LABELS[results.mode]}
+                {results.source ? ` from ${sourceLabels[results.source] ?? results.source}` : ''}
+                {results.preview ? ' (preview)' : ''}
+              </div>
+            )}
             <div>Started: {formatDate(job.date_created, 'yyyy-MM-dd HH:mm:ss')}</div>
             <div>
               Ended:{' '}
@@ -221,10 +397,20 @@ function UpdateJobCard({ job }: { job: JobDTO }) {
           <div className="flex gap-4">
             <div className="text-sm">
               <div>Total submissions: {results?.totalSubmissions ?? '—'}</div>
+              {results?.modifiedSince && (
+                <div className="text-gray-500">
+                  Airtable changes since {formatDate(results.modifiedSince, 'yyyy-MM-dd HH:mm:ss')}
+                </div>
+              )}
               <div>
-                Modified: {results?.modifiedCount ?? '—'} | Unmodified:{' '}
-                {results?.unmodifiedCount ?? '—'}
+                {results?.preview ? 'Changes found' : 'Modified'}: {results?.modifiedCount ?? '—'} |
+                Unmodified: {results?.unmodifiedCount ?? '—'}
               </div>
+              {(results?.unmappedStatuses?.length ?? 0) > 0 && (
+                <div className="text-amber-600">
+                  Unmapped statuses: {results.unmappedStatuses!.length}
+                </div>
+              )}
               {(results?.errorCount ?? 0) > 0 && (
                 <div className="text-red-600">Errors: {results.errorCount}</div>
               )}
@@ -235,7 +421,9 @@ function UpdateJobCard({ job }: { job: JobDTO }) {
         <div>
           {(results?.modifiedCount ?? 0) > 0 && (
             <div>
-              <div className="mb-2 text-xs font-medium text-gray-600">Modified submissions:</div>
+              <div className="mb-2 text-xs font-medium text-gray-600">
+                {results.preview ? 'Submissions with changes:' : 'Modified submissions:'}
+              </div>
               <div className="flex flex-wrap gap-1">
                 {results.modifiedSubmissions?.map(({ id, title }) => (
                   <a
@@ -282,8 +470,93 @@ function LoadMoreButton({
   );
 }
 
+function StatusMappingSection({
+  mapping,
+  states,
+}: {
+  mapping: LoaderData['mapping'];
+  states: StateOption[];
+}) {
+  const resetFetcher = useFetcher();
+  const stateLabels = Object.fromEntries(states.map(({ value, label }) => [value, label]));
+
+  return (
+    <SectionWithHeading heading="Status Mapping" icon={<ArrowRightLeft />}>
+      <primitives.Card className="p-4 space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+          <span>
+            {mapping.isDefault || !mapping.updatedAt
+              ? 'Using the default mapping'
+              : `Last edited ${formatDate(mapping.updatedAt, 'yyyy-MM-dd HH:mm:ss')}`}
+          </span>
+          <div className="grow" />
+          {!mapping.isDefault && (
+            <resetFetcher.Form method="post">
+              <input type="hidden" name="intent" value="mapping-reset" />
+              <ui.Button
+                type="submit"
+                variant="link"
+                size="sm"
+                disabled={resetFetcher.state !== 'idle'}
+              >
+                Reset to defaults
+              </ui.Button>
+            </resetFetcher.Form>
+          )}
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-medium">Airtable status</h3>
+          <p className="text-sm text-gray-500">
+            The Airtable <code>current-status</code> of a deposit sets its PMC state directly.
+          </p>
+          <MappingTable
+            entries={mapping.statuses}
+            stateLabels={stateLabels}
+            removeIntent="mapping-remove-status"
+            emptyMessage="No statuses are mapped."
+          />
+          <AddMappingForm intent="mapping-set-status" keyLabel="Airtable status" states={states} />
+          <IgnoredStatuses statuses={mapping.ignoredStatuses} />
+        </div>
+        <div className="space-y-2">
+          <h3 className="font-medium">Airtable date fields</h3>
+          <p className="text-sm text-gray-500">
+            When the status is not mapped, the latest state implied by a filled in date field is
+            used. Each date is also recorded in the activity of the deposit.
+          </p>
+          <MappingTable
+            entries={mapping.dateFields}
+            stateLabels={stateLabels}
+            removeIntent="mapping-remove-date-field"
+            emptyMessage="No date fields are mapped."
+          />
+          <AddMappingForm
+            intent="mapping-set-date-field"
+            keyLabel="Airtable date field"
+            states={states}
+          />
+        </div>
+      </primitives.Card>
+    </SectionWithHeading>
+  );
+}
+
 export default function PMCStatusPage({ loaderData }: { loaderData: LoaderData }) {
-  const { jobs: initialJobs, hasMore: initialHasMore, hasRunningJobs } = loaderData;
+  const {
+    jobs: initialJobs,
+    hasMore: initialHasMore,
+    hasRunningJobs,
+    mapping,
+    states,
+    sources,
+    defaultSource,
+    unmappedStatuses,
+    unmappedStatusesDate,
+    preview,
+  } = loaderData;
+  const [source, setSource] = useState(defaultSource);
+  const sourceLabels = Object.fromEntries(sources.map(({ name, label }) => [name, label]));
+  const stateLabels = Object.fromEntries(states.map(({ value, label }) => [value, label]));
   const syncFetcher = useFetcher({ key: 'sync' });
   const loadMoreFetcher = useFetcher({ key: 'loadMore' });
   const [jobsState, setJobs] = useState(initialJobs);
@@ -311,6 +584,9 @@ export default function PMCStatusPage({ loaderData }: { loaderData: LoaderData }
         messages: [],
         links: { self: '' },
         results: {
+          mode: syncFetcher.formData.get('mode'),
+          preview: syncFetcher.formData.get('preview') === 'true',
+          source: syncFetcher.formData.get('source'),
           totalSubmissions: '—',
           modifiedCount: '—',
           unmodifiedCount: '—',
@@ -352,12 +628,78 @@ export default function PMCStatusPage({ loaderData }: { loaderData: LoaderData }
 
   return (
     <PageFrame title={<span className="flex gap-2 items-center">PMC Airtable Status</span>}>
-      <SyncButton fetcher={syncFetcher} disabled={hasRunningJobs} />
+      <div className="flex flex-wrap gap-2 items-center">
+        <SyncButton
+          fetcher={syncFetcher}
+          mode="incremental"
+          source={source}
+          disabled={hasRunningJobs}
+        />
+        <SyncButton fetcher={syncFetcher} mode="full" source={source} disabled={hasRunningJobs} />
+        <SyncButton
+          fetcher={syncFetcher}
+          mode="full"
+          preview
+          source={source}
+          disabled={hasRunningJobs}
+        />
+        {sources.length > 1 && (
+          <div className="md:w-64">
+            <ui.ClientComboBox
+              options={sources.map(({ name, label }) => ({ value: name, label }))}
+              value={source}
+              onValueChange={(value) => setSource(value ?? defaultSource)}
+              placeholder="Select source..."
+              searchPlaceholder="Search..."
+              emptyMessage="No sources found."
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        The scheduled sync only checks deposits whose record changed since the last sync. A full
+        sync runs instead when there is no earlier sync, the status mapping has been edited since,
+        or the source cannot list its changes, like the NIHMS status report.
+      </p>
+      {preview && (
+        <section>
+          <SectionWithHeading heading="Preview Changes" icon={<Eye />}>
+            <WorkflowSyncPreview
+              key={preview.jobId}
+              jobId={preview.jobId}
+              date={preview.date}
+              changes={preview.changes}
+              appliedChanges={preview.appliedChanges}
+              stateLabels={stateLabels}
+            />
+          </SectionWithHeading>
+        </section>
+      )}
+      <section>
+        <SectionWithHeading
+          heading={`Unmapped Statuses${unmappedStatuses.length > 0 ? ` (${unmappedStatuses.length})` : ''}`}
+          icon={<AlertTriangle />}
+        >
+          {unmappedStatusesDate && (
+            <div className="mb-2 text-sm text-gray-500">
+              Seen in the sync started {formatDate(unmappedStatusesDate, 'yyyy-MM-dd HH:mm:ss')}
+            </div>
+          )}
+          <UnmappedStatusReport
+            unmappedStatuses={unmappedStatuses}
+            states={states}
+            syncDate={unmappedStatusesDate}
+          />
+        </SectionWithHeading>
+      </section>
+      <section>
+        <StatusMappingSection mapping={mapping} states={states} />
+      </section>
       <section>
         <SectionWithHeading heading="Recent Jobs" icon={<List />}>
           <ul className="space-y-4">
             {displayedJobs.map((job) => (
-              <UpdateJobCard key={job.id} job={job} />
+              <UpdateJobCard key={job.id} job={job} sourceLabels={sourceLabels} />
             ))}
           </ul>
           {hasMore && (
@@ -15,6 +15,7 @@ import type { UserWithRolesDBO, WorkVersionDBO } from '@curvenote/scms-server';
 import { confirmPMC } from '../backend/metadata/confirm.server.js';
 import type { GeneralError } from '@curvenote/scms-core';
 import { unsetPreviewDeposit } from '../backend/metadata/preview.server.js';
+import { getEmbargoPolicy } from '../backend/metadata/embargo.server.js';
 import {
   dbGetNumSubmissionVersions,
   dbGetSubmissionVersion,
@@ -83,7 +84,7 @@ export const loader = async (args: LoaderFunctionArgs): Promise<LoaderData | Res
 
   const { id, cdn_key, metadata, cdn } = ctx.work.versions?.[0] || {};
   const typedMetadata = metadata as PMCWorkVersionMetadata;
-  const result = await validatePMCMetadata(typedMetadata);
+  const result = await validatePMCMetadata(typedMetadata, getEmbargoPolicy(ctx));
 
   // multiple redirects based on pathname here because this loader is re-used for both deposit and confirm
   // and we need to handle the case where the user is redirected to the wrong page as well as redirects
@@ -36,11 +36,21 @@ import {
   removeReviewer,
   updateDesignateReviewer,
 } from '../backend/metadata/reviewer.server.js';
+import { addContact, removeContact } from '../backend/metadata/contacts.server.js';
+import {
+  addAuthor,
+  moveAuthor,
+  removeAuthor,
+  updateAuthor,
+} from '../backend/metadata/authors.server.js';
 import { CertifyManuscript } from '../components/CertifyManuscript.js';
+import { EmbargoInfo } from '../components/EmbargoInfo.js';
+import { getEmbargoPolicy, updateEmbargo } from '../backend/metadata/embargo.server.js';
 import { updateCertifyManuscript } from '../backend/metadata/certify.server.js';
 import type { GeneralError } from '@curvenote/scms-core';
 import { setPreviewDeposit } from '../backend/metadata/preview.server.js';
 import type { PMCWorkVersionMetadata } from '../common/validate.js';
+import type { EmbargoPolicy } from '../common/validation.js';
 import { validatePMCMetadata } from '../common/validate.js';
 import {
   dbGetNumSubmissionVersions,
@@ -68,6 +78,7 @@ interface LoaderData {
   canPreview?: boolean;
   validationErrors: GeneralError[];
   grantOptions: Awaited<ReturnType<typeof getHHMIGrantOptions>>;
+  embargoPolicy: EmbargoPolicy;
 }
 
 export const meta: MetaFunction<LoaderData> = ({ matches }) => {
@@ -107,7 +118,8 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Res
 
   const { id, cdn_key, metadata, cdn } = ctx.work.versions?.[0] || {};
   const typedMetadata = metadata as PMCWorkVersionMetadata;
-  const result = await validatePMCMetadata(typedMetadata);
+  const embargoPolicy = getEmbargoPolicy(ctx);
+  const result = await validatePMCMetadata(typedMetadata, embargoPolicy);
 
   // multiple redirects based on pathname here because this loader is re-used for both deposit and confirm
   // and we need to handle the case where the user is redirected to the wrong page as well as redirects
@@ -159,6 +171,7 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Res
       (err): err is GeneralError => !!err,
     ),
     grantOptions,
+    embargoPolicy,
   };
 }
 
@@ -214,6 +227,14 @@ export async function action(args: ActionFunctionArgs) {
         return updatePublicationTitle(formData, versionDbo.id);
       case 'publication-journal-name-update':
         return updatePublicationJournalName(formData, versionDbo.id);
+      case 'author-add':
+        return addAuthor(formData, versionDbo.id);
+      case 'author-update':
+        return updateAuthor(formData, versionDbo.id);
+      case 'author-remove':
+        return removeAuthor(formData, versionDbo.id);
+      case 'author-move':
+        return moveAuthor(formData, versionDbo.id);
       case 'grant-add':
         return addGrant(formData, versionDbo.id);
       case 'grant-remove':
@@ -230,14 +251,23 @@ export async function action(args: ActionFunctionArgs) {
         return updateReviewerEmail(formData, versionDbo.id);
       case 'reviewer-remove':
         return removeReviewer(formData, versionDbo.id);
+      case 'contact-add':
+        return addContact(formData, versionDbo.id);
+      case 'contact-remove':
+        return removeContact(formData, versionDbo.id);
       case 'designate-reviewer':
         return updateDesignateReviewer(formData, versionDbo.id);
       case 'certify-manuscript':
         return updateCertifyManuscript(formData, versionDbo.id);
+      case 'embargo-update':
+        return updateEmbargo(formData, versionDbo.id);
       case 'preview-deposit': {
         // UI will be pre validation using the same schemasin a friendly way
         // repeated validation here is secondary but to cover independent POSTs
-        const result = await validatePMCMetadata(versionDbo.metadata as PMCWorkVersionMetadata);
+        const result = await validatePMCMetadata(
+          versionDbo.metadata as PMCWorkVersionMetadata,
+          getEmbargoPolicy(ctx),
+        );
         if (result.error) {
           // Return comprehensive validation errors for better UX
           return data(
@@ -390,6 +420,7 @@ export default function PMCDeposit({ loaderData }: { loaderData: LoaderData }) {
       <FilesSection cdnKey={cdnKey} />
       <CertifyManuscript />
       <GrantsInfo />
+      <EmbargoInfo />
       <PMCReviewerInfo currentUser={{ firstName, lastName, email }} />
       <ValidationReport fetcher={validationFetcher} />
       <div className="flex items-center justify-start gap-4">
@@ -17,6 +17,7 @@ import {
 } from '@curvenote/scms-core';
 import { validatePMCMetadata } from '../common/validate.js';
 import type { PMCWorkVersionMetadata } from '../common/validate.js';
+import type { EmbargoPolicy } from '../common/validation.js';
 import { PreviewMetadataSection } from '../components/PreviewMetadataSection.js';
 import { FilesSection } from '../components/FilesSection.js';
 import type { TramStop } from '../components/StatusTramline.js';
@@ -41,6 +42,7 @@ import { z } from 'zod';
 import { zfd } from 'zod-form-data';
 import { clonePMCVersion } from '../backend/versions/clone.server.js';
 import { signFilesInMetadata } from '../backend/metadata/utils.server.js';
+import { getEmbargoPolicy } from '../backend/metadata/embargo.server.js';
 import { dbGetSubmissionVersion, dbGetSubmissionVersions } from '../backend/db.server.js';
 import { PublicationInfoCard } from '../components/PublicationInfoCard.js';
 import { EmailProcessingAlert } from '../components/EmailProcessingAlert.js';
@@ -52,6 +54,7 @@ interface LoaderData {
   thisSubmissionVersionId: string;
   metadata: PMCWorkVersionMetadata;
   validation: { success?: boolean } & { error?: GeneralError };
+  embargoPolicy: EmbargoPolicy;
   currentWorkflow: Workflow;
   tramline: TramStop[];
   currentStatus: string;
@@ -107,7 +110,11 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Res
 
   const thisWorkVersionCdn = thisSubmissionVersion.work_version.cdn;
   const thisWorkVersionCdnKey = thisSubmissionVersion.work_version.cdn_key;
-  const validation = await validatePMCMetadata(thisWorkVersionsMetadata as PMCWorkVersionMetadata);
+  const embargoPolicy = getEmbargoPolicy(ctx);
+  const validation = await validatePMCMetadata(
+    thisWorkVersionsMetadata as PMCWorkVersionMetadata,
+    embargoPolicy,
+  );
 
   // Get the submission workflow and status for the tramline using V2 generation
   const extensionWorkflows: WorkflowRegistration[] = [getWorkflows()];
@@ -167,6 +174,7 @@ export async function loader(args: LoaderFunctionArgs): Promise<LoaderData | Res
     cdnKey: thisWorkVersionCdnKey,
     user: ctx.user,
     validation,
+    embargoPolicy,
     currentWorkflow,
     tramline,
     currentStatus,
@@ -206,6 +214,7 @@ export default function PMCDepositUserFacingDetails({ loaderData }: { loaderData
     work,
     thisSubmissionVersionId,
     metadata,
+    embargoPolicy,
     currentWorkflow,
     tramline,
     currentStatus,
@@ -400,7 +409,7 @@ export default function PMCDepositUserFacingDetails({ loaderData }: { loaderData
               <PublicationInfoCard />
             </div>
 
-            <PreviewMetadataSection pmc={metadata.pmc} />
+            <PreviewMetadataSection pmc={metadata.pmc} embargoPolicy={embargoPolicy} />
             {cdnKey && <FilesSection cdnKey={cdnKey} readonly hideEmpty hideAlerts />}
             {!cdnKey && (
               <ui.SimpleAlert
@@ -28,13 +28,14 @@ export const loader: LoaderFunction = async (args) => {
     throw error404();
   }
 
-  // Create a new PMC_WORKFLOW_SYNC job for this site
+  // Create a new PMC_WORKFLOW_SYNC job for this site, only checking records modified in Airtable
+  // since the last sync
   await jobs.create(
     ctx,
     {
       id: uuidv7(),
       job_type: 'PMC_WORKFLOW_SYNC',
-      payload: { site_id: site.id },
+      payload: { site_id: site.id, mode: 'incremental' },
     },
     getJobs(),
   );
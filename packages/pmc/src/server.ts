@@ -4,6 +4,14 @@ import { extension as clientExtension } from './client.js';
 import { PMC_DEPOSIT_FTP, pmcDepositHandler } from './backend/jobs/pmc-deposit.js';
 import { PMC_WORKFLOW_SYNC, pmcWorkflowSyncHandler } from './backend/jobs/pmc-workflow-sync.js';
 import { HHMI_GRANTS_SYNC, hhmiGrantsSyncHandler } from './backend/jobs/hhmi-grants-sync.js';
+import {
+  PMC_DEPOSIT_RECONCILE,
+  pmcDepositReconcileHandler,
+} from './backend/jobs/pmc-deposit-reconcile.js';
+import {
+  NLM_JOURNAL_LIST_REFRESH,
+  nlmJournalListRefreshHandler,
+} from './backend/jobs/nlm-journal-list-refresh.js';
 
 /**
  * Returns job registrations for the PMC extension.
@@ -26,6 +34,16 @@ export function getJobs(): JobRegistration[] {
       handler: hhmiGrantsSyncHandler,
       requiresStorageBackend: false,
     },
+    {
+      jobType: PMC_DEPOSIT_RECONCILE,
+      handler: pmcDepositReconcileHandler,
+      requiresStorageBackend: false,
+    },
+    {
+      jobType: NLM_JOURNAL_LIST_REFRESH,
+      handler: nlmJournalListRefreshHandler,
+      requiresStorageBackend: false,
+    },
   ];
 }
 
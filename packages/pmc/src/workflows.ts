@@ -77,6 +77,38 @@ const MERMAID: string | undefined = `graph TD
     class DEPOSIT_FAILED,PMC_REJECTED,REVIEWER_REJECTED_INIT,FAILED,REMOVED_FROM_PROCESSING errorState
     class WITHDRAWN,REQUEST_NEW,FILES_REQUESTED warningState`;
 
+/**
+ * Preconditions that can be attached to a transition in `options.guards`, the transition is
+ * refused unless every guard passes. Guards are implemented in `backend/transitions`.
+ */
+export const PMC_TRANSITION_GUARDS = {
+  /** The work version metadata passes `validatePMCMetadata` */
+  METADATA_VALID: 'metadata-valid',
+  /** No deposit job is queued or still running for the submission version */
+  NO_ACTIVE_DEPOSIT_JOB: 'no-active-deposit-job',
+  /** The NIHMS manuscript ID has been received for the submission version */
+  MANUSCRIPT_ID_KNOWN: 'manuscript-id-known',
+} as const;
+
+export type PMCTransitionGuardName =
+  (typeof PMC_TRANSITION_GUARDS)[keyof typeof PMC_TRANSITION_GUARDS];
+
+/**
+ * Side effects that can be attached to a transition in `options.hooks`, run in order once the
+ * transition has completed. Hooks are implemented in `backend/transitions`.
+ */
+export const PMC_TRANSITION_HOOKS = {
+  /** Email the submitter that the status of their deposit has changed */
+  NOTIFY_SUBMITTER: 'notify-submitter',
+  /** Queue the deposit job, unless running the transition already created one */
+  ENQUEUE_DEPOSIT_JOB: 'enqueue-deposit-job',
+  /** Clone the submission version into a new draft for the submitter */
+  CLONE: 'clone',
+} as const;
+
+export type PMCTransitionHookName =
+  (typeof PMC_TRANSITION_HOOKS)[keyof typeof PMC_TRANSITION_HOOKS];
+
 export const PMC_DEPOSIT_WORKFLOW = {
   version: 1,
   mermaid: MERMAID,
@@ -358,6 +390,8 @@ export const PMC_DEPOSIT_WORKFLOW = {
       options: {
         jobType: 'PMC_DEPOSIT_FTP',
         agency: 'hhmi',
+        guards: [PMC_TRANSITION_GUARDS.METADATA_VALID, PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB],
+        hooks: [PMC_TRANSITION_HOOKS.ENQUEUE_DEPOSIT_JOB],
       },
     },
     {
@@ -419,6 +453,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -504,6 +541,25 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Approve the initial version of the deposit on behalf of the HHMI Reviewer',
       requiredScopes: ['site:submissions:update'], // TODO dedicated PMC scopes and roles
       requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN],
+      },
+    },
+    {
+      version: 1,
+      name: 'reviewer_reject_initial',
+      sourceStateName: PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+      targetStateName: PMC_STATE_NAMES.REVIEWER_REJECTED_INITIAL,
+      labels: {
+        success: 'Deposit has been rejected by the HHMI Reviewer',
+      },
+      userTriggered: false,
+      help: 'The nominated reviewer rejected the initial version of the deposit in NIHMS',
+      requiredScopes: ['site:submissions:update'],
+      requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN],
+      },
     },
     {
       version: 1,
@@ -517,6 +573,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'NIHMS has completed the conversion process',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN],
+      },
     },
     {
       version: 1,
@@ -530,6 +589,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Reviewer approves the final converted version',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN],
+      },
     },
     {
       version: 1,
@@ -543,6 +605,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Deposit is now publicly available on PMC',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.MANUSCRIPT_ID_KNOWN],
+      },
     },
     {
       version: 1,
@@ -629,6 +694,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -646,6 +714,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -663,6 +734,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -680,6 +754,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -697,6 +774,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -746,6 +826,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Clear the deposit failure status and reset this deposit back to pending for reprocessing',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        guards: [PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB],
+      },
     },
     {
       version: 1,
@@ -763,6 +846,9 @@ export const PMC_DEPOSIT_WORKFLOW = {
       help: 'Request a new version of this deposit from the HHMI Support Team.',
       requiredScopes: ['site:submissions:update'],
       requiresJob: false,
+      options: {
+        hooks: [PMC_TRANSITION_HOOKS.CLONE, PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER],
+      },
     },
     {
       version: 1,
@@ -0,0 +1,127 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import type { Context } from '@curvenote/scms-core';
+import {
+  DEFAULT_DEPOSIT_RETRY_POLICY,
+  DepositRetryError,
+  TransientDepositError,
+  classifyDepositError,
+  getDepositRetryDelay,
+  getDepositRetryPolicy,
+  withDepositRetry,
+} from '../src/backend/deposit/retry.server.js';
+import type { DepositAttempt } from '../src/backend/deposit/retry.server.js';
+
+const policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 250 };
+
+function mockContext(retry?: Record<string, any>) {
+  return {
+    $config: { app: { extensions: { pmc: { depositService: { retry } } } } },
+  } as unknown as Context;
+}
+
+describe('Deposit Retry', () => {
+  describe('classifyDepositError', () => {
+    it('should treat transient deposit errors and network errors as transient', () => {
+      expect(classifyDepositError(new TransientDepositError('Pub/Sub publish failed'))).toBe(
+        'transient',
+      );
+      expect(classifyDepositError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+        'transient',
+      );
+      expect(classifyDepositError(Object.assign(new Error('unavailable'), { code: 14 }))).toBe(
+        'transient',
+      );
+    });
+
+    it('should treat everything else as permanent', () => {
+      expect(classifyDepositError(new Error('Journal info not found for Nature'))).toBe(
+        'permanent',
+      );
+      expect(classifyDepositError('oops')).toBe('permanent');
+    });
+  });
+
+  describe('getDepositRetryPolicy', () => {
+    it('should default the retry policy', () => {
+      expect(getDepositRetryPolicy(mockContext())).toEqual(DEFAULT_DEPOSIT_RETRY_POLICY);
+    });
+
+    it('should read the retry policy from the app-config', () => {
+      expect(getDepositRetryPolicy(mockContext({ maxAttempts: 5, baseDelayMs: 10 }))).toEqual({
+        maxAttempts: 5,
+        baseDelayMs: 10,
+        maxDelayMs: DEFAULT_DEPOSIT_RETRY_POLICY.maxDelayMs,
+      });
+    });
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map((attempt) => getDepositRetryDelay(policy, attempt))).toEqual([
+      100, 200, 250, 250,
+    ]);
+  });
+
+  describe('withDepositRetry', () => {
+    it('should retry transient failures until the deposit succeeds', async () => {
+      const delays: number[] = [];
+      const logged: DepositAttempt[] = [];
+      const result = await withDepositRetry(
+        policy,
+        async (attempt) => {
+          if (attempt < 3) throw new TransientDepositError(`failed ${attempt}`);
+          return 'sent';
+        },
+        async (failed) => {
+          logged.push(failed);
+        },
+        async (ms) => {
+          delays.push(ms);
+        },
+      );
+      expect(result).toBe('sent');
+      expect(delays).toEqual([100, 200]);
+      expect(logged.map(({ attempt, kind, error }) => ({ attempt, kind, error }))).toEqual([
+        { attempt: 1, kind: 'transient', error: 'failed 1' },
+        { attempt: 2, kind: 'transient', error: 'failed 2' },
+      ]);
+    });
+
+    it('should not retry permanent failures', async () => {
+      let calls = 0;
+      const promise = withDepositRetry(
+        policy,
+        async () => {
+          calls++;
+          throw new Error('Title is required');
+        },
+        undefined,
+        async () => undefined,
+      );
+      await expect(promise).rejects.toBeInstanceOf(DepositRetryError);
+      await expect(promise).rejects.toMatchObject({
+        kind: 'permanent',
+        message: 'Title is required',
+      });
+      expect(calls).toBe(1);
+    });
+
+    it('should give up once the retry budget is used up', async () => {
+      const promise = withDepositRetry(
+        policy,
+        async () => {
+          throw new TransientDepositError('Pub/Sub publish failed');
+        },
+        undefined,
+        async () => undefined,
+      );
+      await expect(promise).rejects.toMatchObject({
+        kind: 'transient',
+        message: 'Pub/Sub publish failed (gave up after 3 attempts)',
+      });
+      const err = await promise.catch((e: DepositRetryError) => e);
+      expect(err.attempts).toHaveLength(3);
+      expect(err.attempts[2].retryInMs).toBeUndefined();
+    });
+  });
+});
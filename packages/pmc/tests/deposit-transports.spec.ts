@@ -0,0 +1,93 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { Context } from '@curvenote/scms-core';
+import type { AAMDepositManifest } from 'pmc-utils';
+import {
+  getDepositTransport,
+  getDepositTransportNames,
+} from '../src/backend/deposit/registry.server.js';
+import { localTransport } from '../src/backend/deposit/transports/local.server.js';
+
+function mockContext(depositService?: Record<string, any>) {
+  return {
+    $config: { app: { extensions: { pmc: { depositService } } } },
+  } as unknown as Context;
+}
+
+function createManifest(): AAMDepositManifest {
+  return {
+    taskId: 'work-version-123',
+    agency: 'hhmi',
+    files: [],
+    metadata: {
+      title: 'Cells',
+      journal: { issn: '1234-5678', issnType: 'print', title: 'Nature Methods' },
+      authors: [
+        { fname: 'Jane', lname: 'Doe', email: 'jane@example.com', contactType: 'reviewer' },
+      ],
+      grants: [{ funder: 'hhmi', id: 'GRANT-1' }],
+    },
+  } as AAMDepositManifest;
+}
+
+describe('Deposit Transports', () => {
+  describe('Registry', () => {
+    it('should default to the Pub/Sub transport', () => {
+      expect(getDepositTransport(mockContext()).name).toBe('pubsub');
+    });
+
+    it('should select the transport from the app-config', () => {
+      expect(getDepositTransport(mockContext({ transport: 'local' })).name).toBe('local');
+      expect(getDepositTransport(mockContext({ transport: 'sftp' })).name).toBe('sftp');
+    });
+
+    it('should throw for an unknown transport', () => {
+      expect(() => getDepositTransport(mockContext({ transport: 'carrier-pigeon' }))).toThrow(
+        'Unknown PMC deposit transport: carrier-pigeon',
+      );
+    });
+
+    it('should list all transports', () => {
+      expect(getDepositTransportNames()).toEqual(['pubsub', 'sftp', 'local']);
+    });
+  });
+
+  describe('Local transport', () => {
+    let directory: string | undefined;
+
+    afterEach(async () => {
+      if (directory) await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    });
+
+    it('should write the package, manifest and attributes to the outbox directory', async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'pmc-outbox-'));
+      const manifest = createManifest();
+
+      const result = await localTransport.send(mockContext({ local: { directory } }), {
+        manifest,
+        attributes: { userId: 'user-1' },
+      });
+
+      expect(result).toEqual({
+        transport: 'local',
+        reference: path.join(directory, 'work-version-123'),
+        completed: true,
+        package: { filename: 'work-version-123.zip', sha256: expect.any(String) },
+      });
+      const written = JSON.parse(
+        await readFile(path.join(result.reference, 'manifest.json'), 'utf-8'),
+      );
+      expect(written).toEqual(manifest);
+      const attributes = JSON.parse(
+        await readFile(path.join(result.reference, 'attributes.json'), 'utf-8'),
+      );
+      expect(attributes).toEqual({ userId: 'user-1' });
+      const zip = await readFile(path.join(result.reference, 'work-version-123.zip'));
+      expect(zip.length).toBeGreaterThan(0);
+    });
+  });
+});
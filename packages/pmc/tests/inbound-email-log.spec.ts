@@ -0,0 +1,54 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import {
+  getMessageLogFilters,
+  getMessageLogWhere,
+  getOriginalPayload,
+} from '../src/backend/email/message-log.server.js';
+
+describe('Inbound email log', () => {
+  describe('getMessageLogFilters', () => {
+    it('should read the processor, status and page', () => {
+      expect(
+        getMessageLogFilters(
+          new URLSearchParams('processor=nihms-files-request&status=IGNORED&page=3'),
+        ),
+      ).toEqual({ processor: 'nihms-files-request', status: 'IGNORED', page: 3 });
+    });
+
+    it('should drop unknown statuses and invalid pages', () => {
+      expect(getMessageLogFilters(new URLSearchParams('status=DELETED&page=-2'))).toEqual({
+        processor: undefined,
+        status: undefined,
+        page: 1,
+      });
+    });
+  });
+
+  describe('getMessageLogWhere', () => {
+    it('should only list PMC inbound emails', () => {
+      expect(getMessageLogWhere({})).toEqual({ module: 'PMC', type: 'inbound_email' });
+    });
+
+    it('should filter on the status and the processor recorded in the results', () => {
+      expect(getMessageLogWhere({ processor: 'catch-all', status: 'ERROR' })).toEqual({
+        module: 'PMC',
+        type: 'inbound_email',
+        status: 'ERROR',
+        results: { path: ['processor'], equals: 'catch-all' },
+      });
+    });
+  });
+
+  describe('getOriginalPayload', () => {
+    it('should remove the schema added when the email was stored', () => {
+      expect(
+        getOriginalPayload({
+          $schema: 'https://example.com/inbound-email.json',
+          headers: { subject: 'Bulk submission success' },
+        }),
+      ).toEqual({ headers: { subject: 'Bulk submission success' } });
+      expect(getOriginalPayload(null)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { PMC_DEPOSIT_WORKFLOW, PMC_STATE_NAMES } from '../src/workflows.js';
+import { getBulkTransitionIssue } from '../src/routes/$siteName.inbox/bulk.server.js';
+
+describe('getBulkTransitionIssue', () => {
+  it('allows user-triggered transitions from the current state', () => {
+    expect(
+      getBulkTransitionIssue(
+        PMC_DEPOSIT_WORKFLOW,
+        'mark_no_action_needed',
+        PMC_STATE_NAMES.PENDING,
+      ),
+    ).toBeUndefined();
+    expect(
+      getBulkTransitionIssue(PMC_DEPOSIT_WORKFLOW, 'send_to_pmc', PMC_STATE_NAMES.PENDING),
+    ).toBeUndefined();
+  });
+
+  it('rejects transitions from a different state', () => {
+    expect(
+      getBulkTransitionIssue(PMC_DEPOSIT_WORKFLOW, 'send_to_pmc', PMC_STATE_NAMES.DEPOSITED),
+    ).toBe('Send to PMC is not available for deposits in the Deposit Sent to PMC state');
+  });
+
+  it('rejects system transitions and unknown transitions', () => {
+    expect(
+      getBulkTransitionIssue(PMC_DEPOSIT_WORKFLOW, 'confirmed_by_pmc', PMC_STATE_NAMES.DEPOSITED),
+    ).toBe('Transition confirmed_by_pmc can only be run by the system');
+    expect(getBulkTransitionIssue(PMC_DEPOSIT_WORKFLOW, 'publish', PMC_STATE_NAMES.PENDING)).toBe(
+      'Invalid transition [publish, workflow: PMC_DEPOSIT]',
+    );
+    expect(getBulkTransitionIssue(undefined, 'send_to_pmc', PMC_STATE_NAMES.PENDING)).toBe(
+      'Invalid transition [send_to_pmc, workflow: unknown]',
+    );
+  });
+});
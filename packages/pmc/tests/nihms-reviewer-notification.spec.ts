@@ -0,0 +1,110 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import {
+  REVIEWER_NOTIFICATIONS,
+  reviewerNotificationHandlers,
+  reviewerNotificationConfigs,
+  parseReviewerNotificationEmail,
+} from '../src/backend/email/handlers/nihms-reviewer-notification.server.js';
+import { PMC_DEPOSIT_WORKFLOW } from '../src/workflows.js';
+
+function identify(subject: string) {
+  return reviewerNotificationHandlers
+    .filter((handler) => handler.identify({ headers: { subject } }))
+    .map((handler) => handler.name);
+}
+
+describe('NIHMS Reviewer Notification Handlers', () => {
+  describe('Identification', () => {
+    it('should identify each notification from its subject', () => {
+      expect(identify('NIHMS2109555: Manuscript approved by reviewer')).toEqual([
+        'nihms-reviewer-approved-initial',
+      ]);
+      expect(identify('NIHMS2109555: Manuscript rejected by reviewer')).toEqual([
+        'nihms-reviewer-rejected',
+      ]);
+      expect(identify('NIHMS2109555 is ready for your final approval')).toEqual([
+        'nihms-final-approval-requested',
+      ]);
+      expect(identify('Fw: NIHMS2109555 is now available in PubMed Central')).toEqual([
+        'nihms-available-in-pmc',
+      ]);
+    });
+
+    it('should not identify the approval of the final version as an initial approval', () => {
+      expect(identify('NIHMS2109555: Final version approved by reviewer')).toEqual([]);
+    });
+
+    it('should not identify other NIHMS emails', () => {
+      expect(identify('Please upload additional files to NIHMS')).toEqual([]);
+      expect(identify('Bulk submission success')).toEqual([]);
+      expect(reviewerNotificationHandlers[0].identify({ headers: {} })).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept an email with the manuscript ID in the subject and no body', () => {
+      const [handler] = reviewerNotificationHandlers;
+      const result = handler.validate(
+        { headers: { subject: 'NIHMS2109555: Manuscript rejected by reviewer' } },
+        reviewerNotificationConfigs[handler.name],
+      );
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject an email with no manuscript ID in the subject and no content', () => {
+      const [handler] = reviewerNotificationHandlers;
+      const result = handler.validate(
+        { headers: { subject: 'Manuscript rejected by reviewer' }, plain: '' },
+        reviewerNotificationConfigs[handler.name],
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.reason).toContain('no content to parse');
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should extract the manuscript ID from the subject before the body', () => {
+      const result = parseReviewerNotificationEmail(
+        {
+          envelope: { from: 'nihms-help@ncbi.nlm.nih.gov' },
+          headers: { subject: 'Re: NIHMS2109555 is now available in PMC' },
+          plain: 'See also NIHMS1000001',
+        },
+        REVIEWER_NOTIFICATIONS[3],
+      );
+      expect(result).toEqual({
+        from: 'nihms-help@ncbi.nlm.nih.gov',
+        subject: 'Re: NIHMS2109555 is now available in PMC',
+        cleanSubject: 'NIHMS2109555 is now available in PMC',
+        manuscriptId: '2109555',
+        notification: 'nihms-available-in-pmc',
+        transition: 'publish_to_pmc',
+      });
+    });
+
+    it('should fall back to the manuscript ID in the body', () => {
+      const result = parseReviewerNotificationEmail(
+        {
+          headers: { subject: 'Manuscript approved by reviewer' },
+          plain: 'The reviewer has approved the initial submission (NIHMS2109555).',
+        },
+        REVIEWER_NOTIFICATIONS[1],
+      );
+      expect(result.manuscriptId).toBe('2109555');
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should drive transitions of the PMC deposit workflow', () => {
+      const transitions = PMC_DEPOSIT_WORKFLOW.transitions.map((t) => t.name);
+      REVIEWER_NOTIFICATIONS.forEach((notification) => {
+        expect(transitions).toContain(notification.transition);
+        expect(reviewerNotificationConfigs[notification.name]).toEqual({
+          subjectPatterns: notification.subjectPatterns,
+          enabled: true,
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect, vi } from 'vitest';
+import type { Workflow, WorkflowTransition } from '@curvenote/scms-core';
+import type { SiteContext } from '@curvenote/scms-server';
+import {
+  PMC_DEPOSIT_WORKFLOW,
+  PMC_TRANSITION_GUARDS,
+  PMC_TRANSITION_HOOKS,
+} from '../src/workflows.js';
+import {
+  checkTransitionGuards,
+  getTransitionGuardNames,
+} from '../src/backend/transitions/guards.server.js';
+import {
+  getTransitionHookNames,
+  runTransitionHooks,
+} from '../src/backend/transitions/hooks.server.js';
+
+const ctx = {} as SiteContext;
+const workflow = PMC_DEPOSIT_WORKFLOW as unknown as Workflow;
+const submissionVersion = {
+  id: 'sv-1',
+  status: 'PENDING',
+  metadata: {},
+  work_version_id: 'wv-1',
+  submitted_by_id: 'user-1',
+};
+
+function getTransition(name: string) {
+  return workflow.transitions.find((t) => t.name === name) as WorkflowTransition;
+}
+
+describe('Transition guards', () => {
+  it('declares guards on the transitions that send a deposit', () => {
+    expect(getTransitionGuardNames(getTransition('send_to_pmc'))).toEqual([
+      PMC_TRANSITION_GUARDS.METADATA_VALID,
+      PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB,
+    ]);
+    expect(getTransitionGuardNames(getTransition('mark_no_action_needed'))).toEqual([]);
+  });
+
+  it('only declares guards and hooks that are implemented', () => {
+    const guards = Object.values(PMC_TRANSITION_GUARDS) as string[];
+    const hooks = Object.values(PMC_TRANSITION_HOOKS) as string[];
+    workflow.transitions.forEach((transition) => {
+      getTransitionGuardNames(transition).forEach((name) => expect(guards).toContain(name));
+      getTransitionHookNames(transition).forEach((name) => expect(hooks).toContain(name));
+    });
+  });
+
+  it('collects the messages of every failing guard', async () => {
+    const issues = await checkTransitionGuards(
+      ctx,
+      submissionVersion,
+      getTransition('send_to_pmc'),
+      {
+        [PMC_TRANSITION_GUARDS.METADATA_VALID]: async () => 'The deposit metadata is not valid',
+        [PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB]: async () => 'A deposit job is still running',
+      },
+    );
+    expect(issues).toEqual(['The deposit metadata is not valid', 'A deposit job is still running']);
+  });
+
+  it('allows the transition when every guard passes', async () => {
+    const guard = vi.fn(async () => undefined);
+    const issues = await checkTransitionGuards(
+      ctx,
+      submissionVersion,
+      getTransition('send_to_pmc'),
+      {
+        [PMC_TRANSITION_GUARDS.METADATA_VALID]: guard,
+        [PMC_TRANSITION_GUARDS.NO_ACTIVE_DEPOSIT_JOB]: guard,
+      },
+    );
+    expect(issues).toEqual([]);
+    expect(guard).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails closed on an unknown guard', async () => {
+    const issues = await checkTransitionGuards(
+      ctx,
+      submissionVersion,
+      getTransition('send_to_pmc'),
+      {
+        [PMC_TRANSITION_GUARDS.METADATA_VALID]: async () => undefined,
+      },
+    );
+    expect(issues).toEqual(['Unknown transition guard: no-active-deposit-job']);
+  });
+});
+
+describe('Transition hooks', () => {
+  it('runs the hooks in order and reports failures without throwing', async () => {
+    const transition = {
+      ...getTransition('mark_no_action_needed'),
+      options: { hooks: ['first', 'second', 'third'] },
+    } as WorkflowTransition;
+    const calls: string[] = [];
+    const errors = await runTransitionHooks(ctx, submissionVersion, transition, workflow, {
+      first: async () => {
+        calls.push('first');
+      },
+      second: async () => {
+        throw new Error('Submitter user-1 has no email address');
+      },
+      third: async () => {
+        calls.push('third');
+      },
+    });
+    expect(calls).toEqual(['first', 'third']);
+    expect(errors).toEqual(['second: Submitter user-1 has no email address']);
+  });
+
+  it('clones the deposit and notifies the submitter when support asks for a new version', () => {
+    expect(getTransitionHookNames(getTransition('request_new_version_from_rejected'))).toEqual([
+      PMC_TRANSITION_HOOKS.CLONE,
+      PMC_TRANSITION_HOOKS.NOTIFY_SUBMITTER,
+    ]);
+  });
+
+  it('queues the deposit job when a deposit is sent', () => {
+    expect(getTransitionHookNames(getTransition('send_to_pmc'))).toEqual([
+      PMC_TRANSITION_HOOKS.ENQUEUE_DEPOSIT_JOB,
+    ]);
+  });
+
+  it('does not email the submitter about deposits closed by support', () => {
+    ['mark_no_action_needed', 'cancel_deposit', 'cancel_deposit_from_files_requested'].forEach(
+      (name) => expect(getTransitionHookNames(getTransition(name))).toEqual([]),
+    );
+  });
+});
@@ -0,0 +1,53 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import {
+  getDepositSearchWhere,
+  getUnmatchedEmailsWhere,
+  getUnmatchedRecord,
+} from '../src/backend/email/unmatched-emails.server.js';
+
+describe('Unmatched emails', () => {
+  describe('getUnmatchedEmailsWhere', () => {
+    it('should only list PMC inbound emails still waiting to be linked', () => {
+      expect(getUnmatchedEmailsWhere()).toEqual({
+        module: 'PMC',
+        type: 'inbound_email',
+        results: { path: ['unmatched', 'status'], equals: 'open' },
+      });
+    });
+  });
+
+  describe('getDepositSearchWhere', () => {
+    it('should search the deposits of a site by title', () => {
+      expect(getDepositSearchWhere('pmc', '  Mouse cortex ')).toEqual({
+        submission: { site: { name: 'pmc' } },
+        work_version: { title: { contains: 'Mouse cortex', mode: 'insensitive' } },
+      });
+    });
+
+    it('should match a submission or submission version id exactly', () => {
+      const id = '0b7e3c1a-5d2f-4c8e-9a6b-1f2e3d4c5b6a';
+      expect(getDepositSearchWhere('pmc', id)).toEqual({
+        submission: { site: { name: 'pmc' } },
+        OR: [{ id }, { submission_id: id }],
+      });
+    });
+  });
+
+  describe('getUnmatchedRecord', () => {
+    it('should read the record left by the handler', () => {
+      expect(
+        getUnmatchedRecord({
+          processor: 'catch-all',
+          unmatched: { manuscriptId: '2109555', processor: 'catch-all', status: 'open' },
+        }),
+      ).toEqual({ manuscriptId: '2109555', processor: 'catch-all', status: 'open' });
+    });
+
+    it('should ignore emails with no record', () => {
+      expect(getUnmatchedRecord({ processor: 'catch-all' })).toBeUndefined();
+      expect(getUnmatchedRecord({ unmatched: { status: 'open' } })).toBeUndefined();
+      expect(getUnmatchedRecord(null)).toBeUndefined();
+    });
+  });
+});
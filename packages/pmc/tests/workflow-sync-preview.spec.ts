@@ -0,0 +1,52 @@
+// eslint-disable-next-line import/no-extraneous-dependencies
+import { describe, it, expect } from 'vitest';
+import { PMC_STATE_NAMES } from '../src/workflows.js';
+import { getStaleChangeIssue } from '../src/backend/workflow-sync-preview.server.js';
+import type { SubmissionSyncChange } from '../src/backend/jobs/pmc-workflow-sync.js';
+
+const change: SubmissionSyncChange = {
+  submissionId: 'submission-1',
+  submissionVersionId: 'version-1',
+  title: 'A manuscript',
+  manuscriptId: 'NIHMS123456',
+  fromStatus: PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+  toStatus: PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL,
+  metadataUpdates: null,
+  newActivities: [],
+};
+
+describe('getStaleChangeIssue', () => {
+  it('allows a change to a deposit that has not changed since the preview', () => {
+    expect(
+      getStaleChangeIssue(change, {
+        id: 'version-1',
+        status: PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+      }),
+    ).toBeUndefined();
+  });
+
+  it('rejects a change that was already applied', () => {
+    expect(
+      getStaleChangeIssue(
+        change,
+        { id: 'version-1', status: PMC_STATE_NAMES.REVIEWER_APPROVED_INITIAL },
+        '2024-01-01T00:00:00.000Z',
+      ),
+    ).toBe('Already applied on 2024-01-01T00:00:00.000Z');
+  });
+
+  it('rejects a change to a deposit that changed since the preview', () => {
+    expect(getStaleChangeIssue(change, null)).toBe('The deposit no longer exists');
+    expect(
+      getStaleChangeIssue(change, {
+        id: 'version-2',
+        status: PMC_STATE_NAMES.DEPOSIT_CONFIRMED_BY_PMC,
+      }),
+    ).toBe('A new version of the deposit was created after the preview, run a new preview');
+    expect(
+      getStaleChangeIssue(change, { id: 'version-1', status: PMC_STATE_NAMES.WITHDRAWN_FROM_PMC }),
+    ).toBe(
+      `The deposit status changed to ${PMC_STATE_NAMES.WITHDRAWN_FROM_PMC} after the preview, run a new preview`,
+    );
+  });
+});